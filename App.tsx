@@ -1,109 +1,335 @@
-import React, { useState } from 'react';
-import { AppState, InputMode, FileData, ProcessingResult } from './types';
+import React, { useRef, useState } from 'react';
+import { AppState, ChatMessage, ChatRole, InputMode, FileData, ProcessingResult, PipelineStage, PipelineStages, QueueItem, SolutionItem, StageStatus, Subject, VoiceSettings } from './types';
 import InputSection from './components/InputSection';
 import Player from './components/Player';
 import HistoryList from './components/HistoryList';
-import { readFileToBase64 } from './services/fileUtils';
-import { generateReadingScript, synthesizeSpeech, getAudioDataUrl, getRelatedVideoQueries, analyzeAndSolve } from './services/geminiService';
-import { computeContentHash } from './services/hashUtils';
-import { getFromCache, saveToCache } from './services/storageService';
-import { BookOpen, Sparkles, Database, History as HistoryIcon } from 'lucide-react';
+import StorageManager from './components/StorageManager';
+import PipelineProgress from './components/PipelineProgress';
+import BatchQueue from './components/BatchQueue';
+import { getAIProvider } from './services/aiProvider';
+import { askTutor, synthesizeNarration } from './services/geminiService';
+import { getVoiceKey } from './services/voiceSettings';
+import { DEFAULT_SUBJECT } from './services/subjects';
+import { getErrorMessage, isCancelledError } from './services/aiErrors';
+import { getFromCache, getSourceFile, updateCachedResult } from './services/storageService';
+import { getMimeType } from './services/fileUtils';
+import { evictLessons } from './services/storageManager';
+import { PipelineInput, runPipeline, createFileInput, createSourceAttachments, getLessonHash, processWithCache, savePartialResult } from './services/pipeline';
+import { createQueueItems, getPendingQueueItems, processQueue } from './services/batchQueue';
+import { toReadingScript } from './services/pronunciation';
+import { BookOpen, Sparkles, Database, History as HistoryIcon, HardDrive } from 'lucide-react';
 
 const App: React.FC = () => {
   const [appState, setAppState] = useState<AppState>(AppState.IDLE);
   const [mode, setMode] = useState<InputMode>(InputMode.FILE);
   const [textInput, setTextInput] = useState('');
   const [file, setFile] = useState<FileData | null>(null);
+  const [subject, setSubject] = useState<Subject | null>(null); // null = auto-detect
   const [result, setResult] = useState<ProcessingResult | null>(null);
   const [statusMessage, setStatusMessage] = useState('');
   const [isCachedResult, setIsCachedResult] = useState(false);
   const [showHistory, setShowHistory] = useState(false);
+  const [showStorage, setShowStorage] = useState(false);
+  const [stages, setStages] = useState<PipelineStages | null>(null);
+  const [preview, setPreview] = useState('');
+  const [isCancelling, setIsCancelling] = useState(false);
+  const [isRetrying, setIsRetrying] = useState(false); // A stage is re-running from the Player
+  const [contentHash, setContentHash] = useState<string | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  // Changes made to the open lesson while the pipeline still streams it in (null when idle)
+  const streamingEditsRef = useRef<((lesson: ProcessingResult) => ProcessingResult)[] | null>(null);
+  // Tutor attachments of the loaded file, read once and reused for every question about it
+  const sourceAttachmentsRef = useRef<{ file: FileData; get: ReturnType<typeof createSourceAttachments> } | null>(null);
+  const [queueItems, setQueueItems] = useState<QueueItem[]>([]);
+  const [isQueueRunning, setIsQueueRunning] = useState(false);
+  const queueControllerRef = useRef<AbortController | null>(null);
+  const pendingQueueItems = getPendingQueueItems(queueItems);
+
+  // Replacing or clearing the loaded file releases its preview URL, unless a queue item still shows it
+  const replaceFile = (next: FileData | null) => {
+    const previewUrl = file?.previewUrl;
+    if (previewUrl && previewUrl !== next?.previewUrl && !queueItems.some(item => item.fileData.previewUrl === previewUrl)) {
+      URL.revokeObjectURL(previewUrl);
+    }
+    setFile(next);
+  };
 
   const handleReset = () => {
+    abortControllerRef.current?.abort();
+    abortControllerRef.current = null;
+    streamingEditsRef.current = null;
     setAppState(AppState.IDLE);
     setResult(null);
-    setFile(null);
+    replaceFile(null);
     setTextInput('');
     setIsCachedResult(false);
+    setContentHash(null);
   };
 
-  const loadFromHistory = async (id: string) => {
-    const cached = await getFromCache(id);
+  /**
+   * Open a cached lesson with its original file (page view, PDF, region highlights).
+   * fallbackFile is shown for lessons cached before uploads were stored.
+   */
+  const loadFromHistory = async (id: string, fallbackFile: FileData | null = null) => {
+    const [cached, source] = await Promise.all([getFromCache(id), getSourceFile(id)]);
     if (cached) {
+      const restoredFile: FileData | null = source && {
+        file: source.file,
+        mimeType: getMimeType(source.file),
+        previewUrl: URL.createObjectURL(source.file),
+        regions: source.regions,
+      };
+      replaceFile(restoredFile ?? fallbackFile);
+      if (restoredFile ?? fallbackFile) setMode(InputMode.FILE);
       setResult(cached);
+      setContentHash(id);
       setIsCachedResult(true);
       setAppState(AppState.IDLE);
       setShowHistory(false);
     }
   };
 
+  const handleCancel = () => {
+    setIsCancelling(true);
+    abortControllerRef.current?.abort();
+  };
+
+  const buildPipelineInput = async (): Promise<PipelineInput> => {
+    if (mode === InputMode.FILE && file) {
+      return createFileInput(file, subject);
+    }
+    return { textInput, subject };
+  };
+
+  // --- BATCH QUEUE ---
+  // The loaded file moves to the queue along with its preview URL
+  const handleQueueFiles = (files: (File | FileData)[]) => {
+    setQueueItems(prev => [...prev, ...createQueueItems(files)]);
+    if (file && files.includes(file)) setFile(null);
+  };
+
+  const updateQueueItem = (id: string, patch: Partial<QueueItem>) => {
+    setQueueItems(prev => prev.map(item => item.id === id ? { ...item, ...patch } : item));
+  };
+
+  const handleRemoveQueueItem = (id: string) => {
+    setQueueItems(prev => prev.filter(item => item.id !== id));
+  };
+
+  const handleProcessQueue = async () => {
+    const controller = new AbortController();
+    queueControllerRef.current = controller;
+    setIsQueueRunning(true);
+    try {
+      await processQueue(pendingQueueItems, updateQueueItem, subject, controller.signal);
+    } finally {
+      queueControllerRef.current = null;
+      setIsQueueRunning(false);
+    }
+  };
+
+  const handleOpenQueueItem = async (item: QueueItem) => {
+    if (!item.contentHash) return;
+    await loadFromHistory(item.contentHash, item.fileData);
+  };
+
+  /**
+   * Re-run a single failed stage from the Player, keeping everything else
+   */
+  const handleRetryStage = async (stage: PipelineStage) => {
+    // One run at a time: the Player offers no retry while the lesson is still being processed
+    if (!result || !contentHash || abortControllerRef.current) return;
+    const hash = contentHash;
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    setIsRetrying(true);
+    setIsCancelling(false);
+    streamingEditsRef.current = [];
+
+    // Updates of a retry the user already left (reset) are dropped
+    const isCurrentRun = () => abortControllerRef.current === controller;
+
+    try {
+      // The original input is only available while the file is still loaded;
+      // otherwise the stage works from the saved script.
+      const input: PipelineInput = file ? await buildPipelineInput() : { textInput: result.script, subject: result.subject };
+
+      const updated = await runPipeline(input, {
+        signal: controller.signal,
+        previous: result,
+        only: [stage],
+        onPartialResult: (partial) => {
+          if (!isCurrentRun()) return;
+          const merged = applyStreamingEdits(partial);
+          setResult(merged);
+          savePartialResult(hash, merged);
+        },
+        onStagesChange: (nextStages) => {
+          if (isCurrentRun()) setResult(prev => prev ? { ...prev, stages: nextStages } : prev);
+        },
+      });
+      if (isCurrentRun()) setResult(applyStreamingEdits(updated));
+    } catch (error) {
+      // The stage keeps its error (or cancelled) state and retry button in the Player
+      if (isCancelledError(error) || !isCurrentRun()) return;
+      console.error(error);
+      alert(`Không thể chạy lại bước này. ${getErrorMessage(error)}`);
+    } finally {
+      if (isCurrentRun()) {
+        abortControllerRef.current = null;
+        streamingEditsRef.current = null;
+      }
+      setIsRetrying(false);
+      setIsCancelling(false);
+    }
+  };
+
+  // Streamed partial results do not contain the user's changes yet
+  const applyStreamingEdits = (lesson: ProcessingResult) =>
+    (streamingEditsRef.current ?? []).reduce((current, update) => update(current), lesson);
+
+  /**
+   * Apply a change to the open lesson, on screen and in the cache
+   */
+  const updateLesson = (update: (lesson: ProcessingResult) => ProcessingResult) => {
+    setResult(prev => prev && update(prev));
+    // Re-applied to every later partial result of the running pipeline
+    streamingEditsRef.current?.push(update);
+    if (!contentHash) return;
+    const hash = contentHash;
+    updateCachedResult(hash, update)
+      .then(() => evictLessons([hash]))
+      .catch(error => console.warn('Cache eviction failed:', error));
+  };
+
+  /**
+   * Narrate the current lesson in another voice; every voice keeps its own audio in the cache
+   */
+  const handleCreateNarration = async (voice: VoiceSettings) => {
+    if (!result) return;
+    try {
+      const segments = await synthesizeNarration(result.script, result.readingScript || toReadingScript(result.script), voice);
+      updateLesson(lesson => ({ ...lesson, narrations: { ...lesson.narrations, [getVoiceKey(voice)]: segments } }));
+    } catch (error) {
+      console.error("Error generating narration:", error);
+      alert(`Không thể tạo giọng đọc. ${getErrorMessage(error)}`);
+    }
+  };
+
+  // Audio (or anything else) generated later for one solution is kept with the lesson
+  const handleUpdateSolution = (index: number, update: (item: SolutionItem) => SolutionItem) => {
+    updateLesson(lesson => ({
+      ...lesson,
+      solutions: lesson.solutions.map((item, i) => i === index ? update(item) : item),
+    }));
+  };
+
+  /**
+   * Follow-up question about one solution (or the whole lesson), grounded in the original file
+   * when it is loaded. The exchange is kept with the lesson once answered; a question that
+   * failed stays in the chat with its error so it can be asked again.
+   */
+  const handleAskTutor = async (question: string, solutionIndex?: number) => {
+    if (!result) return;
+    const item = solutionIndex === undefined ? undefined : result.solutions[solutionIndex];
+    const asked: ChatMessage = { role: ChatRole.STUDENT, text: question, createdAt: Date.now() };
+    // Earlier failed attempts at the same question are replaced by this one
+    const addToChat = (chat: ChatMessage[] = [], ...messages: ChatMessage[]) =>
+      [...chat.filter(message => !(message.error && message.text === question)), ...messages];
+    const addMessages = (...messages: ChatMessage[]) => {
+      if (solutionIndex === undefined) {
+        updateLesson(lesson => ({ ...lesson, chat: addToChat(lesson.chat, ...messages) }));
+      } else {
+        handleUpdateSolution(solutionIndex, current => ({ ...current, chat: addToChat(current.chat, ...messages) }));
+      }
+    };
+
+    try {
+      if (file && sourceAttachmentsRef.current?.file !== file) {
+        sourceAttachmentsRef.current = { file, get: createSourceAttachments(file, result.subject ?? null) };
+      }
+      const attachments = file ? await sourceAttachmentsRef.current!.get(item) : [];
+
+      const reply = await askTutor({
+        subject: result.subject ?? DEFAULT_SUBJECT,
+        script: result.script,
+        item,
+        attachments,
+        history: [...((item ? item.chat : result.chat) ?? []).filter(message => !message.error), asked],
+      });
+      addMessages(asked, { role: ChatRole.TUTOR, text: reply.text, reading: reply.reading, createdAt: Date.now() });
+    } catch (error) {
+      console.error("Error asking the tutor:", error);
+      addMessages({ ...asked, error: getErrorMessage(error) });
+    }
+  };
+
   const handleProcess = async () => {
+    if (mode === InputMode.FILE && !file && pendingQueueItems.length > 0) {
+      return handleProcessQueue();
+    }
     if (mode === InputMode.TEXT && !textInput.trim()) return;
     if (mode === InputMode.FILE && !file) return;
 
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+
     setAppState(AppState.ANALYZING);
     setStatusMessage('Đang phân tích tài liệu...');
+    setStages(null);
+    setPreview('');
+    setIsCancelling(false);
     setResult(null);
 
-    try {
-      let contentHash = '';
-      let fileBase64: string | undefined = undefined;
-      let mimeType: string | undefined = undefined;
-
-      if (mode === InputMode.FILE && file) {
-        fileBase64 = await readFileToBase64(file.file);
-        contentHash = await computeContentHash(fileBase64);
-        mimeType = file.mimeType;
-      } else {
-        contentHash = await computeContentHash(textInput);
-      }
+    // Updates of a run the user already left (reset) are dropped
+    const isCurrentRun = () => abortControllerRef.current === controller;
 
-      // Check cache
-      const cached = await getFromCache(contentHash);
-      if (cached) {
-        setResult(cached);
-        setIsCachedResult(true);
-        setAppState(AppState.IDLE);
-        return; 
-      }
+    try {
+      const input = await buildPipelineInput();
+      // Known before anything streams in, so changes to the opened lesson are saved with it
+      const hash = await getLessonHash(input);
+      if (!isCurrentRun()) return;
+      setContentHash(hash);
+      streamingEditsRef.current = [];
 
-      // Step 1: Generate Script (OCR)
-      setStatusMessage('Đang đọc nội dung (OCR)...');
-      const { displayScript, readingScript } = await generateReadingScript(
-        mode === InputMode.TEXT ? textInput : '',
-        fileBase64,
-        mimeType
-      );
-
-      // Step 2: Analyze and Solve
-      setStatusMessage('Đang giải bài tập & vẽ hình minh họa...');
-      const solutions = await analyzeAndSolve(displayScript, fileBase64, mimeType); 
-
-      // Step 3: Videos
-      setStatusMessage('Đang tìm video tham khảo...');
-      const relatedVideos = await getRelatedVideoQueries(displayScript);
-
-      // Step 4: TTS
-      setStatusMessage('Đang tạo giọng đọc...');
-      const audioBase64 = await synthesizeSpeech(readingScript);
-
-      const newResult: ProcessingResult = {
-        script: displayScript,
-        audioBase64,
-        relatedVideos,
-        solutions
-      };
+      const { result: newResult, fromCache } = await processWithCache(input, {
+        hash,
+        applyEdits: applyStreamingEdits,
+        signal: controller.signal,
+        onStagesChange: (nextStages) => {
+          if (!isCurrentRun()) return;
+          setStages(nextStages);
+          setResult(prev => prev ? { ...prev, stages: nextStages } : prev);
+        },
+        // The lesson opens as soon as OCR is done; solutions and media fill in while the rest runs
+        onProgress: (partial) => {
+          if (!isCurrentRun()) return;
+          if (partial.stages?.[PipelineStage.OCR].status === StageStatus.DONE) setResult(partial);
+          else setPreview(partial.script);
+        },
+      });
 
-      // Save to cache
-      await saveToCache(contentHash, newResult);
+      // Partial work is cached; a cancelled lesson stays open with its retry buttons
+      if (!isCurrentRun()) return;
 
       setResult(newResult);
+      setIsCachedResult(fromCache);
       setAppState(AppState.IDLE);
 
     } catch (error) {
+      if (isCancelledError(error)) {
+        setAppState(AppState.IDLE);
+        return;
+      }
       console.error(error);
       setAppState(AppState.ERROR);
-      setStatusMessage('Có lỗi xảy ra: ' + (error as Error).message);
+      setStatusMessage(getErrorMessage(error));
+    } finally {
+      if (isCurrentRun()) {
+        abortControllerRef.current = null;
+        streamingEditsRef.current = null;
+      }
+      setIsCancelling(false);
     }
   };
 
@@ -130,10 +356,18 @@ const App: React.FC = () => {
               <HistoryIcon className="w-5 h-5" />
               <span className="hidden sm:inline text-sm font-medium">Lịch sử</span>
             </button>
+            <button
+              onClick={() => setShowStorage(true)}
+              className="p-2 text-slate-400 hover:text-white hover:bg-slate-800 rounded-lg transition-colors flex items-center space-x-2"
+              title="Bộ nhớ"
+            >
+              <HardDrive className="w-5 h-5" />
+              <span className="hidden sm:inline text-sm font-medium">Bộ nhớ</span>
+            </button>
             <div className="h-6 w-px bg-slate-700 mx-2"></div>
             <div className="flex items-center space-x-2 px-3 py-1.5 bg-slate-800 rounded-full border border-slate-700">
               <Sparkles className="w-4 h-4 text-emerald-400" />
-              <span className="text-xs font-medium text-slate-300">Gemini 2.5 Flash</span>
+              <span className="text-xs font-medium text-slate-300">{getAIProvider().label}</span>
             </div>
           </div>
         </div>
@@ -146,6 +380,11 @@ const App: React.FC = () => {
           onClose={() => setShowHistory(false)}
           onSelect={loadFromHistory}
         />
+        <StorageManager
+          isOpen={showStorage}
+          onClose={() => setShowStorage(false)}
+          currentLessonId={contentHash}
+        />
 
         {!result && appState !== AppState.ERROR ? (
           <div className="animate-fade-in space-y-12">
@@ -160,16 +399,13 @@ const App: React.FC = () => {
 
             <div className="relative">
               {appState !== AppState.IDLE && (
-                 <div className="absolute inset-0 z-10 bg-slate-950/80 backdrop-blur-sm flex flex-col items-center justify-center rounded-xl animate-fade-in">
-                    <div className="relative mb-8">
-                       <div className="w-20 h-20 border-4 border-slate-700 border-t-blue-500 rounded-full animate-spin"></div>
-                       <div className="absolute inset-0 flex items-center justify-center">
-                         <Sparkles className="w-8 h-8 text-blue-400 animate-pulse" />
-                       </div>
-                    </div>
-                    <p className="text-xl font-medium text-blue-400 animate-pulse">{statusMessage}</p>
-                    <p className="text-sm text-slate-500 mt-2">Quá trình này có thể mất vài giây...</p>
-                 </div>
+                 <PipelineProgress
+                   stages={stages}
+                   fallbackMessage={statusMessage}
+                   onCancel={handleCancel}
+                   isCancelling={isCancelling}
+                   preview={preview}
+                 />
               )}
               
               <InputSection
@@ -178,10 +414,26 @@ const App: React.FC = () => {
                 text={textInput}
                 setText={setTextInput}
                 file={file}
-                setFile={setFile}
-                isProcessing={appState !== AppState.IDLE}
+                setFile={replaceFile}
+                isProcessing={appState !== AppState.IDLE || isQueueRunning}
                 onProcess={handleProcess}
+                queueCount={pendingQueueItems.length}
+                onQueueFiles={handleQueueFiles}
+                subject={subject}
+                setSubject={setSubject}
               />
+              {mode === InputMode.FILE && (
+                <div className="w-full max-w-3xl mx-auto">
+                  <BatchQueue
+                    items={queueItems}
+                    isRunning={isQueueRunning}
+                    onRemove={handleRemoveQueueItem}
+                    onClear={() => setQueueItems([])}
+                    onOpen={handleOpenQueueItem}
+                    onCancel={() => queueControllerRef.current?.abort()}
+                  />
+                </div>
+              )}
             </div>
           </div>
         ) : (
@@ -207,11 +459,20 @@ const App: React.FC = () => {
                   )}
                   <Player
                     script={result.script}
-                    audioUrl={result.audioBase64 ? getAudioDataUrl(result.audioBase64) : null}
+                    audioBase64={result.audioBase64}
+                    narrations={result.narrations}
+                    onCreateNarration={handleCreateNarration}
+                    onUpdateSolution={handleUpdateSolution}
                     relatedVideos={result.relatedVideos}
                     solutions={result.solutions}
                     onReset={handleReset}
                     fileData={file}
+                    stages={result.stages}
+                    onRetryStage={appState === AppState.ANALYZING || isRetrying ? undefined : handleRetryStage}
+                    onCancel={appState === AppState.ANALYZING || isRetrying ? handleCancel : undefined}
+                    subject={result.subject}
+                    chat={result.chat}
+                    onAskTutor={handleAskTutor}
                   />
                 </>
               )
@@ -220,7 +481,7 @@ const App: React.FC = () => {
         )}
       </main>
        <footer className="mt-20 text-center text-slate-600 text-sm">
-          <p>Hóa học phổ thông</p>
+          <p>Toán - Vật lý - Hóa học - Sinh học - Tiếng Anh phổ thông</p>
         </footer>
     </div>
   );
@@ -0,0 +1,115 @@
+import React from 'react';
+import { CheckCircle, Clock, Loader2, XCircle, Ban, X, ChevronRight, Image as ImageIcon, FileType } from 'lucide-react';
+import { PipelineStage, QueueItem, QueueItemStatus, StageStatus } from '../types';
+import { STAGE_LABELS } from '../services/pipeline';
+
+interface BatchQueueProps {
+  items: QueueItem[];
+  isRunning: boolean;
+  onRemove: (id: string) => void;
+  onClear: () => void;
+  onOpen: (item: QueueItem) => void;
+  onCancel: () => void;
+}
+
+const STATUS_LABELS: Record<QueueItemStatus, string> = {
+  [QueueItemStatus.QUEUED]: 'Đang chờ',
+  [QueueItemStatus.PROCESSING]: 'Đang xử lý',
+  [QueueItemStatus.DONE]: 'Hoàn tất',
+  [QueueItemStatus.ERROR]: 'Lỗi',
+  [QueueItemStatus.CANCELLED]: 'Đã hủy',
+};
+
+const StatusIcon: React.FC<{ status: QueueItemStatus }> = ({ status }) => {
+  switch (status) {
+    case QueueItemStatus.PROCESSING:
+      return <Loader2 className="w-4 h-4 text-blue-400 animate-spin" />;
+    case QueueItemStatus.DONE:
+      return <CheckCircle className="w-4 h-4 text-emerald-400" />;
+    case QueueItemStatus.ERROR:
+      return <XCircle className="w-4 h-4 text-red-400" />;
+    case QueueItemStatus.CANCELLED:
+      return <Ban className="w-4 h-4 text-slate-500" />;
+    default:
+      return <Clock className="w-4 h-4 text-slate-500" />;
+  }
+};
+
+// Name of the stage currently running for an item, e.g. "Đọc nội dung (OCR)"
+const getRunningStageLabel = (item: QueueItem): string | null => {
+  if (!item.stages) return null;
+  const running = (Object.keys(item.stages) as PipelineStage[]).filter(
+    stage => item.stages![stage].status === StageStatus.RUNNING
+  );
+  return running.length > 0 ? running.map(stage => STAGE_LABELS[stage]).join(', ') : null;
+};
+
+const BatchQueue: React.FC<BatchQueueProps> = ({ items, isRunning, onRemove, onClear, onOpen, onCancel }) => {
+  if (items.length === 0) return null;
+
+  const doneCount = items.filter(item => item.status === QueueItemStatus.DONE).length;
+
+  return (
+    <div className="mt-4 bg-slate-900 rounded-lg border border-slate-700">
+      <div className="flex items-center justify-between px-4 py-2.5 border-b border-slate-700">
+        <span className="text-sm font-semibold text-slate-200">
+          Hàng đợi ({doneCount}/{items.length} hoàn tất)
+        </span>
+        {isRunning ? (
+          <button onClick={onCancel} className="text-xs text-slate-400 hover:text-red-400 transition-colors">
+            Hủy
+          </button>
+        ) : (
+          <button onClick={onClear} className="text-xs text-slate-400 hover:text-red-400 transition-colors">
+            Xóa danh sách
+          </button>
+        )}
+      </div>
+
+      <ul className="max-h-72 overflow-y-auto custom-scrollbar divide-y divide-slate-800">
+        {items.map(item => {
+          const runningStage = item.status === QueueItemStatus.PROCESSING ? getRunningStageLabel(item) : null;
+          return (
+            <li key={item.id} className="flex items-center gap-3 px-4 py-2.5">
+              {item.fileData.mimeType.startsWith('image/') ? (
+                <img src={item.fileData.previewUrl} alt="" className="w-10 h-10 object-cover rounded border border-slate-700 shrink-0" />
+              ) : (
+                <div className="w-10 h-10 flex items-center justify-center rounded bg-slate-800 border border-slate-700 shrink-0">
+                  {item.fileData.mimeType.includes('pdf') ? <FileType className="w-5 h-5 text-blue-400" /> : <ImageIcon className="w-5 h-5 text-slate-500" />}
+                </div>
+              )}
+
+              <div className="flex-1 min-w-0">
+                <p className="text-sm text-slate-200 truncate">{item.fileData.file.name}</p>
+                <p className={`text-xs flex items-center gap-1.5 ${item.status === QueueItemStatus.ERROR ? 'text-red-400' : 'text-slate-500'}`}>
+                  <StatusIcon status={item.status} />
+                  <span className="truncate">{item.error || runningStage || STATUS_LABELS[item.status]}</span>
+                </p>
+              </div>
+
+              {item.status === QueueItemStatus.DONE && (
+                <button
+                  onClick={() => onOpen(item)}
+                  className="flex items-center px-2.5 py-1 rounded bg-blue-600/20 hover:bg-blue-600/40 text-blue-300 text-xs transition-colors shrink-0"
+                >
+                  Xem <ChevronRight className="w-3 h-3 ml-0.5" />
+                </button>
+              )}
+              {item.status !== QueueItemStatus.PROCESSING && !isRunning && (
+                <button
+                  onClick={() => onRemove(item.id)}
+                  className="p-1 text-slate-500 hover:text-red-400 transition-colors shrink-0"
+                  title="Xóa khỏi hàng đợi"
+                >
+                  <X className="w-4 h-4" />
+                </button>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+};
+
+export default BatchQueue;
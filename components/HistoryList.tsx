@@ -1,8 +1,10 @@
-
-import React, { useEffect, useState } from 'react';
-import { X, Clock, Trash2, ChevronRight, BookOpen } from 'lucide-react';
-import { HistoryEntry } from '../types';
-import { getHistory, deleteFromCache } from '../services/storageService';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { X, Clock, Trash2, ChevronRight, BookOpen, Download, Upload, Loader2, Search, SlidersHorizontal, Pencil, Folder, Tag } from 'lucide-react';
+import { HistoryEntry, Subject } from '../types';
+import { getHistory, deleteFromCache, searchLessons, updateLessonMeta } from '../services/storageService';
+import { BUNDLE_EXTENSION, downloadBundle, exportLessons, importBundle } from '../services/lessonBundle';
+import { EMPTY_FILTERS, HistoryFilters, filterHistory, hasActiveFilters, parseTags } from '../services/lessonSearch';
+import { SUBJECT_PROFILES } from '../services/subjects';
 
 interface HistoryListProps {
   isOpen: boolean;
@@ -10,9 +12,61 @@ interface HistoryListProps {
   onSelect: (id: string) => void;
 }
 
+const PAGE_SIZE = 30;
+const SEARCH_DEBOUNCE_MS = 300;
+
+const inputClass = 'w-full bg-slate-900 border border-slate-700 rounded px-2 py-1.5 text-sm text-slate-200 focus:outline-none focus:border-blue-500';
+
+interface LessonEditorProps {
+  entry: HistoryEntry;
+  folders: string[];
+  onSave: (patch: { title: string; tags: string[]; folder?: string }) => void;
+  onCancel: () => void;
+}
+
+// Inline form: title, folder and tags of one lesson
+const LessonEditor: React.FC<LessonEditorProps> = ({ entry, folders, onSave, onCancel }) => {
+  const [title, setTitle] = useState(entry.title);
+  const [folder, setFolder] = useState(entry.folder ?? '');
+  const [tags, setTags] = useState(entry.tags.join(', '));
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onSave({ title: title.trim() || entry.title, tags: parseTags(tags), folder: folder.trim() || undefined });
+  };
+
+  return (
+    <form onSubmit={handleSubmit} onClick={(e) => e.stopPropagation()} className="space-y-2">
+      <input value={title} onChange={(e) => setTitle(e.target.value)} placeholder="Tên bài học" className={inputClass} autoFocus />
+      <input value={folder} onChange={(e) => setFolder(e.target.value)} placeholder="Thư mục" list="history-folders" className={inputClass} />
+      <datalist id="history-folders">
+        {folders.map(name => <option key={name} value={name} />)}
+      </datalist>
+      <input value={tags} onChange={(e) => setTags(e.target.value)} placeholder="Nhãn, cách nhau bởi dấu phẩy" className={inputClass} />
+      <div className="flex justify-end gap-2">
+        <button type="button" onClick={onCancel} className="px-3 py-1 rounded text-xs text-slate-400 hover:text-white transition-colors">
+          Hủy
+        </button>
+        <button type="submit" className="px-3 py-1 rounded bg-blue-600 hover:bg-blue-500 text-xs text-white transition-colors">
+          Lưu
+        </button>
+      </div>
+    </form>
+  );
+};
+
 const HistoryList: React.FC<HistoryListProps> = ({ isOpen, onClose, onSelect }) => {
   const [history, setHistory] = useState<HistoryEntry[]>([]);
   const [isLoading, setIsLoading] = useState(false);
+  const [isTransferring, setIsTransferring] = useState(false);
+  const [transferMessage, setTransferMessage] = useState<string | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  const [filters, setFilters] = useState<HistoryFilters>(EMPTY_FILTERS);
+  const [showFilters, setShowFilters] = useState(false);
+  const [matchingIds, setMatchingIds] = useState<Set<string> | null>(null); // Full-text matches of filters.query
+  const [visibleCount, setVisibleCount] = useState(PAGE_SIZE);
+  const [editingId, setEditingId] = useState<string | null>(null);
 
   useEffect(() => {
     if (isOpen) {
@@ -20,6 +74,28 @@ const HistoryList: React.FC<HistoryListProps> = ({ isOpen, onClose, onSelect })
     }
   }, [isOpen]);
 
+  // Full-text search runs once typing pauses
+  useEffect(() => {
+    const query = filters.query.trim();
+    if (!query) {
+      setMatchingIds(null);
+      return;
+    }
+    let isCurrent = true;
+    const timer = setTimeout(async () => {
+      const ids = await searchLessons(query);
+      if (isCurrent) setMatchingIds(ids);
+    }, SEARCH_DEBOUNCE_MS);
+    return () => {
+      isCurrent = false;
+      clearTimeout(timer);
+    };
+  }, [filters.query]);
+
+  useEffect(() => {
+    setVisibleCount(PAGE_SIZE);
+  }, [filters]);
+
   const loadHistory = async () => {
     setIsLoading(true);
     const data = await getHistory();
@@ -27,6 +103,18 @@ const HistoryList: React.FC<HistoryListProps> = ({ isOpen, onClose, onSelect })
     setIsLoading(false);
   };
 
+  const allTags = useMemo(() => Array.from(new Set(history.flatMap(item => item.tags))).sort(), [history]);
+  const allFolders = useMemo(
+    () => Array.from(new Set(history.map(item => item.folder).filter((folder): folder is string => !!folder))).sort(),
+    [history]
+  );
+  const filtered = useMemo(() => filterHistory(history, filters, matchingIds), [history, filters, matchingIds]);
+  const visible = filtered.slice(0, visibleCount);
+
+  const updateFilters = (patch: Partial<HistoryFilters>) => {
+    setFilters(current => ({ ...current, ...patch }));
+  };
+
   const handleDelete = async (e: React.MouseEvent, id: string) => {
     e.stopPropagation();
     if (window.confirm('Bạn có chắc muốn xóa bài học này khỏi lịch sử?')) {
@@ -35,6 +123,44 @@ const HistoryList: React.FC<HistoryListProps> = ({ isOpen, onClose, onSelect })
     }
   };
 
+  const handleSaveDetails = async (entry: HistoryEntry, patch: { title: string; tags: string[]; folder?: string }) => {
+    setEditingId(null);
+    const renamed = patch.title !== entry.title;
+    await updateLessonMeta(entry.id, meta => ({ ...meta, ...patch, renamed: meta.renamed || renamed }));
+    loadHistory();
+  };
+
+  const handleExport = async (ids: string[], name: string) => {
+    setIsTransferring(true);
+    setTransferMessage(null);
+    try {
+      downloadBundle(await exportLessons(ids), name);
+    } catch (error) {
+      console.error('Lesson export failed', error);
+      setTransferMessage('Lỗi khi xuất bài học.');
+    } finally {
+      setIsTransferring(false);
+    }
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setIsTransferring(true);
+    setTransferMessage(null);
+    try {
+      const { imported, skipped } = await importBundle(file);
+      setTransferMessage(`Đã nhập ${imported} bài học${skipped > 0 ? `, bỏ qua ${skipped} bài đã có` : ''}.`);
+      loadHistory();
+    } catch (error) {
+      setTransferMessage(error instanceof Error ? error.message : 'Lỗi khi nhập bài học.');
+    } finally {
+      setIsTransferring(false);
+    }
+  };
+
   const formatDate = (timestamp: number) => {
     return new Date(timestamp).toLocaleDateString('vi-VN', {
       day: '2-digit',
@@ -45,11 +171,13 @@ const HistoryList: React.FC<HistoryListProps> = ({ isOpen, onClose, onSelect })
     });
   };
 
+  const isFiltering = hasActiveFilters(filters);
+
   return (
     <>
       {/* Overlay */}
       {isOpen && (
-        <div 
+        <div
           className="fixed inset-0 bg-black/50 backdrop-blur-sm z-[60]"
           onClick={onClose}
         />
@@ -66,7 +194,7 @@ const HistoryList: React.FC<HistoryListProps> = ({ isOpen, onClose, onSelect })
             <Clock className="w-5 h-5 mr-2 text-blue-400" />
             Lịch Sử Học Tập
           </div>
-          <button 
+          <button
             onClick={onClose}
             className="p-2 text-slate-400 hover:text-white hover:bg-slate-700 rounded-full transition-colors"
           >
@@ -74,6 +202,66 @@ const HistoryList: React.FC<HistoryListProps> = ({ isOpen, onClose, onSelect })
           </button>
         </div>
 
+        {/* Search & filters */}
+        <div className="p-4 border-b border-slate-700 space-y-3">
+          <div className="flex gap-2">
+            <div className="relative flex-1">
+              <Search className="w-4 h-4 absolute left-2.5 top-1/2 -translate-y-1/2 text-slate-500" />
+              <input
+                value={filters.query}
+                onChange={(e) => updateFilters({ query: e.target.value })}
+                placeholder="Tìm trong đề bài, lời giải..."
+                className={`${inputClass} pl-8`}
+              />
+            </div>
+            <button
+              onClick={() => setShowFilters(!showFilters)}
+              className={`p-2 rounded border transition-colors ${showFilters ? 'border-blue-500 text-blue-400' : 'border-slate-700 text-slate-400 hover:text-white'}`}
+              title="Bộ lọc"
+            >
+              <SlidersHorizontal className="w-4 h-4" />
+            </button>
+          </div>
+
+          {showFilters && (
+            <div className="grid grid-cols-2 gap-2 text-xs text-slate-400">
+              <label className="space-y-1">
+                <span>Từ ngày</span>
+                <input type="date" value={filters.from ?? ''} onChange={(e) => updateFilters({ from: e.target.value || undefined })} className={inputClass} />
+              </label>
+              <label className="space-y-1">
+                <span>Đến ngày</span>
+                <input type="date" value={filters.to ?? ''} onChange={(e) => updateFilters({ to: e.target.value || undefined })} className={inputClass} />
+              </label>
+              <select
+                value={filters.subject ?? ''}
+                onChange={(e) => updateFilters({ subject: (e.target.value as Subject) || undefined })}
+                className={inputClass}
+              >
+                <option value="">Mọi môn</option>
+                {(Object.keys(SUBJECT_PROFILES) as Subject[]).map(subject => (
+                  <option key={subject} value={subject}>{SUBJECT_PROFILES[subject].label}</option>
+                ))}
+              </select>
+              <select value={filters.folder ?? ''} onChange={(e) => updateFilters({ folder: e.target.value || undefined })} className={inputClass}>
+                <option value="">Mọi thư mục</option>
+                {allFolders.map(folder => <option key={folder} value={folder}>{folder}</option>)}
+              </select>
+              <select value={filters.tag ?? ''} onChange={(e) => updateFilters({ tag: e.target.value || undefined })} className={inputClass}>
+                <option value="">Mọi nhãn</option>
+                {allTags.map(tag => <option key={tag} value={tag}>{tag}</option>)}
+              </select>
+              <button
+                onClick={() => setFilters(EMPTY_FILTERS)}
+                disabled={!isFiltering}
+                className="rounded border border-slate-700 text-slate-400 hover:text-white transition-colors disabled:opacity-50"
+              >
+                Xóa bộ lọc
+              </button>
+            </div>
+          )}
+        </div>
+
         {/* Content */}
         <div className="flex-1 overflow-y-auto p-4 custom-scrollbar">
           {isLoading ? (
@@ -84,41 +272,123 @@ const HistoryList: React.FC<HistoryListProps> = ({ isOpen, onClose, onSelect })
               <p>Chưa có bài học nào được lưu.</p>
               <p className="text-sm mt-2">Hãy tải lên tài liệu để bắt đầu.</p>
             </div>
+          ) : filtered.length === 0 ? (
+            <div className="text-center text-slate-500 mt-10">Không tìm thấy bài học phù hợp.</div>
           ) : (
             <div className="space-y-3">
-              {history.map((item) => (
-                <div 
+              {isFiltering && (
+                <p className="text-xs text-slate-500">Tìm thấy {filtered.length} / {history.length} bài học</p>
+              )}
+              {visible.map((item) => (
+                <div
                   key={item.id}
-                  onClick={() => onSelect(item.id)}
+                  onClick={() => editingId !== item.id && onSelect(item.id)}
                   className="group bg-slate-800 hover:bg-slate-700 border border-slate-700 hover:border-blue-500/50 rounded-lg p-3 cursor-pointer transition-all relative overflow-hidden"
                 >
-                   <div className="flex justify-between items-start">
-                     <div className="flex-1 pr-8">
-                       <p className="text-slate-200 font-medium text-sm line-clamp-2 mb-2">
-                         {item.title}
-                       </p>
-                       <p className="text-xs text-slate-500 flex items-center">
-                         {formatDate(item.timestamp)}
-                       </p>
-                     </div>
-                     <ChevronRight className="w-4 h-4 text-slate-600 group-hover:text-blue-400 transition-colors mt-1" />
-                   </div>
-                   
-                   <button
-                    onClick={(e) => handleDelete(e, item.id)}
-                    className="absolute top-2 right-2 p-1.5 text-slate-600 hover:text-red-400 hover:bg-slate-900/50 rounded transition-all opacity-0 group-hover:opacity-100"
-                    title="Xóa"
-                   >
-                     <Trash2 className="w-4 h-4" />
-                   </button>
+                  {editingId === item.id ? (
+                    <LessonEditor
+                      entry={item}
+                      folders={allFolders}
+                      onSave={(patch) => handleSaveDetails(item, patch)}
+                      onCancel={() => setEditingId(null)}
+                    />
+                  ) : (
+                    <>
+                      <div className="flex justify-between items-start">
+                        <div className="flex-1 pr-16">
+                          <p className="text-slate-200 font-medium text-sm line-clamp-2 mb-2">
+                            {item.title}
+                          </p>
+                          <p className="text-xs text-slate-500 flex items-center">
+                            {formatDate(item.timestamp)}
+                            {item.subject && ` · ${SUBJECT_PROFILES[item.subject]?.label ?? ''}`}
+                          </p>
+                          {(item.folder || item.tags.length > 0) && (
+                            <div className="flex flex-wrap gap-1 mt-2">
+                              {item.folder && (
+                                <span className="flex items-center px-1.5 py-0.5 rounded bg-slate-900/60 text-[11px] text-amber-300">
+                                  <Folder className="w-3 h-3 mr-1" />{item.folder}
+                                </span>
+                              )}
+                              {item.tags.map(tag => (
+                                <span key={tag} className="flex items-center px-1.5 py-0.5 rounded bg-slate-900/60 text-[11px] text-blue-300">
+                                  <Tag className="w-3 h-3 mr-1" />{tag}
+                                </span>
+                              ))}
+                            </div>
+                          )}
+                        </div>
+                        <ChevronRight className="w-4 h-4 text-slate-600 group-hover:text-blue-400 transition-colors mt-1" />
+                      </div>
+
+                      <div className="absolute top-2 right-2 flex items-center opacity-0 group-hover:opacity-100 transition-all">
+                        <button
+                         onClick={(e) => { e.stopPropagation(); setEditingId(item.id); }}
+                         className="p-1.5 text-slate-600 hover:text-blue-400 hover:bg-slate-900/50 rounded transition-all"
+                         title="Đổi tên, thư mục, nhãn"
+                        >
+                          <Pencil className="w-4 h-4" />
+                        </button>
+                        <button
+                         onClick={(e) => { e.stopPropagation(); handleExport([item.id], 'GiaSuThongMinh_BaiHoc'); }}
+                         disabled={isTransferring}
+                         className="p-1.5 text-slate-600 hover:text-blue-400 hover:bg-slate-900/50 rounded transition-all"
+                         title="Xuất bài học"
+                        >
+                          <Download className="w-4 h-4" />
+                        </button>
+                        <button
+                         onClick={(e) => handleDelete(e, item.id)}
+                         className="p-1.5 text-slate-600 hover:text-red-400 hover:bg-slate-900/50 rounded transition-all"
+                         title="Xóa"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </div>
+                    </>
+                  )}
                 </div>
               ))}
+              {filtered.length > visibleCount && (
+                <button
+                  onClick={() => setVisibleCount(count => count + PAGE_SIZE)}
+                  className="w-full py-2 rounded-lg border border-slate-700 text-sm text-slate-400 hover:text-white hover:border-slate-500 transition-colors"
+                >
+                  Xem thêm ({filtered.length - visibleCount} bài)
+                </button>
+              )}
             </div>
           )}
         </div>
 
-        <div className="p-4 border-t border-slate-700 bg-slate-800/30 text-xs text-slate-500 text-center">
-          Dữ liệu được lưu trữ an toàn trên trình duyệt của bạn.
+        <div className="p-4 border-t border-slate-700 bg-slate-800/30 text-xs text-slate-500 text-center space-y-3">
+          {transferMessage && <p className="text-slate-300">{transferMessage}</p>}
+          <div className="flex gap-2">
+            <button
+              onClick={() => handleExport(filtered.map(item => item.id), 'GiaSuThongMinh_LichSu')}
+              disabled={isTransferring || filtered.length === 0}
+              className="flex-1 flex items-center justify-center px-3 py-2 rounded-lg bg-slate-800 hover:bg-slate-700 border border-slate-700 text-slate-300 transition-colors disabled:opacity-50"
+            >
+              {isTransferring ? <Loader2 className="w-3 h-3 mr-1 animate-spin" /> : <Download className="w-3 h-3 mr-1" />}
+              {isFiltering ? `Xuất ${filtered.length} bài` : 'Xuất tất cả'}
+            </button>
+            <button
+              onClick={() => importInputRef.current?.click()}
+              disabled={isTransferring}
+              className="flex-1 flex items-center justify-center px-3 py-2 rounded-lg bg-slate-800 hover:bg-slate-700 border border-slate-700 text-slate-300 transition-colors disabled:opacity-50"
+            >
+              <Upload className="w-3 h-3 mr-1" />
+              Nhập bài học
+            </button>
+            <input
+              ref={importInputRef}
+              type="file"
+              accept={`${BUNDLE_EXTENSION},.zip,application/zip`}
+              onChange={handleImport}
+              className="hidden"
+            />
+          </div>
+          <p>Dữ liệu được lưu trữ an toàn trên trình duyệt của bạn.</p>
         </div>
       </div>
     </>
@@ -0,0 +1,237 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { RotateCcw, RotateCw, Wand2, Crop, Loader2, X } from 'lucide-react';
+import {
+  CropRect,
+  DEFAULT_IMAGE_EDITS,
+  ImageEdits,
+  detectSkewAngle,
+  loadImageBitmap,
+  processImageFile,
+  renderEditedImage,
+} from '../services/imageProcessing';
+
+interface ImageEditorProps {
+  file: File; // Original image, edits are always applied from scratch
+  initialEdits?: ImageEdits;
+  onApply: (processed: File, edits: ImageEdits) => void;
+  onCancel: () => void;
+}
+
+const PREVIEW_MAX_DIMENSION = 900;
+// Ignore accidental clicks: a crop must cover at least 2% of each side
+const MIN_CROP_SIZE = 0.02;
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+
+const ImageEditor: React.FC<ImageEditorProps> = ({ file, initialEdits, onApply, onCancel }) => {
+  const [bitmap, setBitmap] = useState<ImageBitmap | null>(null);
+  const [edits, setEdits] = useState<ImageEdits>(initialEdits ?? DEFAULT_IMAGE_EDITS);
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  const [draftCrop, setDraftCrop] = useState<CropRect | null>(null);
+  const [isApplying, setIsApplying] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const frameRef = useRef<HTMLDivElement>(null);
+  const dragStartRef = useRef<{ x: number; y: number } | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    let loaded: ImageBitmap | null = null;
+    loadImageBitmap(file)
+      .then(result => {
+        loaded = result;
+        if (cancelled) result.close();
+        else setBitmap(result);
+      })
+      .catch(() => setError('Không thể đọc ảnh.'));
+    return () => {
+      cancelled = true;
+      loaded?.close();
+    };
+  }, [file]);
+
+  // Preview shows the whole rotated/toned frame; the crop is drawn on top of it
+  useEffect(() => {
+    if (!bitmap) return;
+    const canvas = renderEditedImage(bitmap, { ...edits, crop: null }, PREVIEW_MAX_DIMENSION);
+    setPreviewUrl(canvas.toDataURL('image/jpeg', 0.85));
+  }, [bitmap, edits.quarterTurns, edits.skewAngle, edits.grayscale, edits.contrast]);
+
+  const updateEdits = (patch: Partial<ImageEdits>) => setEdits(prev => ({ ...prev, ...patch }));
+
+  // Rotating changes the frame, so a previous crop no longer matches
+  const rotate = (delta: number) => {
+    updateEdits({ quarterTurns: (edits.quarterTurns + delta + 4) % 4, crop: null });
+  };
+
+  const handleAutoStraighten = () => {
+    if (!bitmap) return;
+    updateEdits({ skewAngle: detectSkewAngle(bitmap, edits.quarterTurns), crop: null });
+  };
+
+  const getRelativePoint = (e: React.PointerEvent) => {
+    const rect = frameRef.current!.getBoundingClientRect();
+    return { x: clamp01((e.clientX - rect.left) / rect.width), y: clamp01((e.clientY - rect.top) / rect.height) };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragStartRef.current = getRelativePoint(e);
+    setDraftCrop(null);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const start = dragStartRef.current;
+    if (!start) return;
+    const point = getRelativePoint(e);
+    setDraftCrop({
+      x: Math.min(start.x, point.x),
+      y: Math.min(start.y, point.y),
+      width: Math.abs(point.x - start.x),
+      height: Math.abs(point.y - start.y),
+    });
+  };
+
+  const handlePointerUp = () => {
+    dragStartRef.current = null;
+    if (draftCrop && draftCrop.width > MIN_CROP_SIZE && draftCrop.height > MIN_CROP_SIZE) {
+      updateEdits({ crop: draftCrop });
+    }
+    setDraftCrop(null);
+  };
+
+  const handleApply = async (appliedEdits: ImageEdits) => {
+    setIsApplying(true);
+    setError(null);
+    try {
+      onApply(await processImageFile(file, appliedEdits), appliedEdits);
+    } catch (err) {
+      console.error('Image processing failed:', err);
+      setError('Không thể xử lý ảnh. Vui lòng thử lại.');
+      setIsApplying(false);
+    }
+  };
+
+  const visibleCrop = draftCrop ?? edits.crop;
+
+  return (
+    <div className="fixed inset-0 z-50 bg-slate-950/90 backdrop-blur-sm flex items-center justify-center p-4 animate-fade-in">
+      <div className="w-full max-w-4xl max-h-full flex flex-col bg-slate-900 border border-slate-700 rounded-xl shadow-2xl overflow-hidden">
+        <div className="flex items-center justify-between px-5 py-3 border-b border-slate-700">
+          <h3 className="font-semibold text-slate-100">Chỉnh sửa ảnh trước khi phân tích</h3>
+          <button onClick={onCancel} className="p-1.5 text-slate-400 hover:text-white transition-colors" title="Đóng">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex-1 min-h-0 flex items-center justify-center bg-slate-950 p-4 overflow-auto">
+          {previewUrl ? (
+            <div
+              ref={frameRef}
+              className="relative select-none cursor-crosshair touch-none"
+              onPointerDown={handlePointerDown}
+              onPointerMove={handlePointerMove}
+              onPointerUp={handlePointerUp}
+            >
+              <img src={previewUrl} alt="Xem trước" draggable={false} className="max-h-[55vh] max-w-full block" />
+              {visibleCrop && (
+                <div
+                  className="absolute border-2 border-blue-400 shadow-[0_0_0_9999px_rgba(2,6,23,0.6)] pointer-events-none"
+                  style={{
+                    left: `${visibleCrop.x * 100}%`,
+                    top: `${visibleCrop.y * 100}%`,
+                    width: `${visibleCrop.width * 100}%`,
+                    height: `${visibleCrop.height * 100}%`,
+                  }}
+                />
+              )}
+            </div>
+          ) : (
+            <Loader2 className="w-8 h-8 text-blue-400 animate-spin" />
+          )}
+        </div>
+
+        <div className="px-5 py-4 border-t border-slate-700 space-y-4">
+          <p className="text-xs text-slate-500 flex items-center">
+            <Crop className="w-3.5 h-3.5 mr-1.5" />
+            Kéo chuột trên ảnh để chọn vùng cần giữ lại (ví dụ: chỉ một bài tập).
+          </p>
+
+          <div className="flex flex-wrap items-center gap-2">
+            <button onClick={() => rotate(-1)} className="flex items-center px-3 py-1.5 rounded bg-slate-800 hover:bg-slate-700 text-slate-200 text-sm transition-colors">
+              <RotateCcw className="w-4 h-4 mr-1.5" /> Xoay trái
+            </button>
+            <button onClick={() => rotate(1)} className="flex items-center px-3 py-1.5 rounded bg-slate-800 hover:bg-slate-700 text-slate-200 text-sm transition-colors">
+              <RotateCw className="w-4 h-4 mr-1.5" /> Xoay phải
+            </button>
+            <button
+              onClick={handleAutoStraighten}
+              disabled={!bitmap}
+              className="flex items-center px-3 py-1.5 rounded bg-slate-800 hover:bg-slate-700 text-slate-200 text-sm transition-colors disabled:opacity-50"
+            >
+              <Wand2 className="w-4 h-4 mr-1.5" /> Tự động căn thẳng
+            </button>
+            {edits.crop && (
+              <button onClick={() => updateEdits({ crop: null })} className="px-3 py-1.5 rounded bg-slate-800 hover:bg-slate-700 text-slate-200 text-sm transition-colors">
+                Bỏ vùng chọn
+              </button>
+            )}
+            <button onClick={() => setEdits(DEFAULT_IMAGE_EDITS)} className="px-3 py-1.5 rounded text-slate-400 hover:text-white text-sm transition-colors">
+              Đặt lại
+            </button>
+          </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 text-sm text-slate-300">
+            <label className="flex flex-col gap-1">
+              <span>Căn thẳng: {edits.skewAngle.toFixed(1)}°</span>
+              <input
+                type="range" min={-15} max={15} step={0.5}
+                value={edits.skewAngle}
+                onChange={(e) => updateEdits({ skewAngle: Number(e.target.value), crop: null })}
+              />
+            </label>
+            <label className="flex flex-col gap-1">
+              <span>Tương phản: {Math.round(edits.contrast * 100)}%</span>
+              <input
+                type="range" min={0.5} max={2} step={0.1}
+                value={edits.contrast}
+                onChange={(e) => updateEdits({ contrast: Number(e.target.value) })}
+              />
+            </label>
+            <label className="flex items-center gap-2 sm:mt-5">
+              <input
+                type="checkbox"
+                checked={edits.grayscale}
+                onChange={(e) => updateEdits({ grayscale: e.target.checked })}
+              />
+              <span>Đen trắng</span>
+            </label>
+          </div>
+
+          {error && <p className="text-red-400 text-sm">{error}</p>}
+
+          <div className="flex justify-end gap-3">
+            <button
+              onClick={() => handleApply(DEFAULT_IMAGE_EDITS)}
+              disabled={isApplying}
+              className="px-4 py-2 rounded-lg text-slate-300 hover:text-white text-sm transition-colors disabled:opacity-50"
+              title="Chỉ tự động thu nhỏ và nén ảnh"
+            >
+              Bỏ qua chỉnh sửa
+            </button>
+            <button
+              onClick={() => handleApply(edits)}
+              disabled={isApplying || !bitmap}
+              className="flex items-center px-5 py-2 rounded-lg bg-blue-600 hover:bg-blue-500 text-white text-sm font-medium transition-colors disabled:opacity-50"
+            >
+              {isApplying && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Áp dụng
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ImageEditor;
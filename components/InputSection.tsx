@@ -1,7 +1,18 @@
 import React, { useRef, useState, useEffect } from 'react';
-import { Upload, FileText, Image as ImageIcon, X, FileType, StickyNote } from 'lucide-react';
-import { FileData, InputMode } from '../types';
-import { validateFile } from '../services/fileUtils';
+import { Upload, FileText, Image as ImageIcon, X, FileType, StickyNote, SlidersHorizontal, SquareDashedMousePointer } from 'lucide-react';
+import { FileData, InputMode, SourceRegion, Subject } from '../types';
+import { getMimeType, validateFile } from '../services/fileUtils';
+import { compressImageFile, DEFAULT_IMAGE_EDITS, ImageEdits } from '../services/imageProcessing';
+import { SUBJECT_PROFILES } from '../services/subjects';
+import ImageEditor from './ImageEditor';
+import RegionSelector from './RegionSelector';
+
+// Original photo behind the processed file, kept so edits can be redone without quality loss
+interface ImageEditSession {
+  source: File;
+  edits: ImageEdits;
+  result?: File;
+}
 
 interface InputSectionProps {
   mode: InputMode;
@@ -12,6 +23,10 @@ interface InputSectionProps {
   setFile: (file: FileData | null) => void;
   isProcessing: boolean;
   onProcess: () => void;
+  queueCount: number; // Files waiting in the batch queue
+  onQueueFiles: (files: (File | FileData)[]) => void;
+  subject: Subject | null; // null = auto-detect
+  setSubject: (subject: Subject | null) => void;
 }
 
 const InputSection: React.FC<InputSectionProps> = ({
@@ -22,11 +37,18 @@ const InputSection: React.FC<InputSectionProps> = ({
   file,
   setFile,
   isProcessing,
-  onProcess
+  onProcess,
+  queueCount,
+  onQueueFiles,
+  subject,
+  setSubject
 }) => {
   const fileInputRef = useRef<HTMLInputElement>(null);
   const [dragActive, setDragActive] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [editSession, setEditSession] = useState<ImageEditSession | null>(null);
+  const [isEditorOpen, setIsEditorOpen] = useState(false);
+  const [isSelectingRegions, setIsSelectingRegions] = useState(false);
 
   const handleDrag = (e: React.DragEvent) => {
     e.preventDefault();
@@ -42,18 +64,37 @@ const InputSection: React.FC<InputSectionProps> = ({
     e.preventDefault();
     e.stopPropagation();
     setDragActive(false);
-    if (e.dataTransfer.files && e.dataTransfer.files[0]) {
-      handleFile(e.dataTransfer.files[0]);
+    if (e.dataTransfer.files && e.dataTransfer.files.length > 0) {
+      handleFiles(Array.from(e.dataTransfer.files));
     }
   };
 
   const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     e.preventDefault();
-    if (e.target.files && e.target.files[0]) {
-      handleFile(e.target.files[0]);
+    if (e.target.files && e.target.files.length > 0) {
+      handleFiles(Array.from(e.target.files));
+    }
+    e.target.value = "";
+  };
+
+  // One file keeps the single-file flow; several files (or an active queue) go to the batch queue
+  const handleFiles = async (files: File[]) => {
+    if (files.length === 1 && queueCount === 0 && !file) {
+      handleFile(files[0]);
+      return;
     }
+    setError(null);
+    // Queued photos skip the editor but are still downscaled/re-encoded
+    const prepared = await Promise.all(files.map(f => (validateFile(f) ? f : compressImageFile(f))));
+    // The loaded file joins them (and is cleared from the editor by the queue)
+    onQueueFiles(file ? [file, ...prepared] : prepared);
+    setEditSession(null);
   };
 
+  // The paste listener is registered once, so it reads the latest handler through a ref
+  const handleFilesRef = useRef(handleFiles);
+  handleFilesRef.current = handleFiles;
+
   const handleFile = (uploadedFile: File) => {
     const validationError = validateFile(uploadedFile);
     if (validationError) {
@@ -61,40 +102,69 @@ const InputSection: React.FC<InputSectionProps> = ({
       return;
     }
     setError(null);
-    
+
+    // Photos go through the editor first; the processed image is what gets uploaded and hashed
+    if (uploadedFile.type.startsWith('image/')) {
+      setEditSession({ source: uploadedFile, edits: DEFAULT_IMAGE_EDITS });
+      setIsEditorOpen(true);
+      return;
+    }
+    selectFile(uploadedFile);
+  };
+
+  const selectFile = (selected: File) => {
     // Create local preview for BOTH Images and PDFs so they can be displayed in Player
-    const previewUrl = URL.createObjectURL(uploadedFile);
+    const previewUrl = URL.createObjectURL(selected);
 
     setFile({
-      file: uploadedFile,
-      mimeType: uploadedFile.type,
+      file: selected,
+      mimeType: getMimeType(selected),
       previewUrl
     });
   };
 
+  const handleEditorApply = (processed: File, edits: ImageEdits) => {
+    setEditSession(prev => prev && { ...prev, edits, result: processed });
+    setIsEditorOpen(false);
+    selectFile(processed);
+  };
+
+  const handleRegionsDone = (regions: SourceRegion[]) => {
+    setIsSelectingRegions(false);
+    if (file) setFile({ ...file, regions: regions.length > 0 ? regions : undefined });
+  };
+
+  const handleEditorCancel = () => {
+    setIsEditorOpen(false);
+    // Nothing was selected yet: cancelling the first edit drops the photo
+    if (!editSession?.result) setEditSession(null);
+  };
+
   // Add Paste Event Listener
   useEffect(() => {
     const handlePaste = (e: ClipboardEvent) => {
       // Check if there are items in the clipboard
       if (e.clipboardData && e.clipboardData.items) {
         const items = e.clipboardData.items;
+        const images: File[] = [];
 
         for (let i = 0; i < items.length; i++) {
           // If the item is an image
           if (items[i].type.indexOf('image') !== -1) {
             const blob = items[i].getAsFile();
-            if (blob) {
-              e.preventDefault(); // Prevent default paste behavior
-              
-              // Automatically switch to FILE mode if not already
-              setMode(InputMode.FILE);
-              
-              // Handle the file
-              handleFile(blob);
-              return; // Stop after finding the first image
-            }
+            if (blob) images.push(blob);
           }
         }
+
+        if (images.length > 0) {
+          e.preventDefault(); // Prevent default paste behavior
+
+          // Automatically switch to FILE mode if not already
+          setMode(InputMode.FILE);
+
+          // Handle all pasted images (several go to the queue)
+          handleFilesRef.current(images);
+        }
       }
     };
 
@@ -108,9 +178,14 @@ const InputSection: React.FC<InputSectionProps> = ({
 
   const clearFile = () => {
     setFile(null);
+    setEditSession(null);
     if (fileInputRef.current) fileInputRef.current.value = "";
   };
 
+  const canProcess = mode === InputMode.TEXT ? !!text.trim() : (!!file || queueCount > 0);
+  // Only offer re-editing when the selected file is the one produced by the editor
+  const canEditImage = !!file && !!editSession && editSession.result === file.file;
+
   return (
     <div className="w-full max-w-3xl mx-auto space-y-6">
       {/* Tabs */}
@@ -139,6 +214,24 @@ const InputSection: React.FC<InputSectionProps> = ({
         </button>
       </div>
 
+      {/* Subject */}
+      <div className="flex flex-wrap items-center justify-center gap-2">
+        <span className="text-sm text-slate-400 mr-1">Môn học:</span>
+        {[null, ...Object.values(Subject)].map(option => (
+          <button
+            key={option ?? 'auto'}
+            onClick={() => setSubject(option)}
+            className={`px-3 py-1 rounded-full text-xs font-medium border transition-colors ${
+              subject === option
+                ? 'bg-blue-600/20 border-blue-500 text-blue-300'
+                : 'border-slate-700 text-slate-400 hover:text-white hover:border-slate-500'
+            }`}
+          >
+            {option ? SUBJECT_PROFILES[option].label : 'Tự động'}
+          </button>
+        ))}
+      </div>
+
       {/* Content Area */}
       <div className="bg-slate-800/50 backdrop-blur-sm border border-slate-700 rounded-xl p-6 min-h-[300px] flex flex-col justify-center shadow-xl">
         
@@ -159,13 +252,14 @@ const InputSection: React.FC<InputSectionProps> = ({
                   type="file"
                   className="hidden"
                   onChange={handleChange}
-                  accept=".pdf,.jpg,.jpeg,.png,.webp,.doc,.docx"
+                  accept=".pdf,.jpg,.jpeg,.png,.webp,.docx"
+                  multiple
                 />
                 <div className="p-4 rounded-full bg-slate-700/50 mb-4">
                   <Upload className="w-8 h-8 text-blue-400" />
                 </div>
                 <p className="text-lg font-medium text-slate-200">Kéo thả, Dán ảnh (Ctrl+V) hoặc nhấn để tải lên</p>
-                <p className="text-sm text-slate-400 mt-2">Hỗ trợ PDF, Word, Ảnh (PNG, JPG)</p>
+                <p className="text-sm text-slate-400 mt-2">Hỗ trợ PDF, Word, Ảnh (PNG, JPG) - chọn nhiều file để xử lý hàng loạt</p>
                 {error && <p className="text-red-400 mt-4 text-sm">{error}</p>}
               </div>
             ) : (
@@ -176,6 +270,15 @@ const InputSection: React.FC<InputSectionProps> = ({
                 >
                   <X className="w-5 h-5" />
                 </button>
+                {canEditImage && (
+                  <button
+                    onClick={() => setIsEditorOpen(true)}
+                    className="absolute top-2 left-2 flex items-center px-2.5 py-1.5 bg-slate-800 hover:bg-blue-600/30 hover:text-blue-300 rounded-full text-slate-400 text-xs transition-colors z-10"
+                  >
+                    <SlidersHorizontal className="w-4 h-4 mr-1.5" />
+                    Chỉnh sửa ảnh
+                  </button>
+                )}
                 
                 {file.mimeType.startsWith('image/') ? (
                   <img src={file.previewUrl} alt="Preview" className="h-40 object-contain rounded mb-4" />
@@ -183,12 +286,24 @@ const InputSection: React.FC<InputSectionProps> = ({
                    <div className="mb-4 flex flex-col items-center">
                      <FileType className="w-20 h-20 text-blue-400 mb-2" />
                      <span className="text-xs uppercase font-bold text-slate-500 bg-slate-800 px-2 py-1 rounded">
-                       {file.mimeType.split('/')[1] || 'DOC'}
+                       {file.mimeType.includes('pdf') ? 'PDF' : 'DOCX'}
                      </span>
                    </div>
                 )}
                 <p className="font-medium text-slate-200 truncate max-w-xs">{file.file.name}</p>
                 <p className="text-xs text-slate-500 mt-1">{(file.file.size / 1024 / 1024).toFixed(2)} MB</p>
+                {file.mimeType.startsWith('image/') && file.previewUrl && (
+                  <button
+                    onClick={() => setIsSelectingRegions(true)}
+                    className="mt-2 flex items-center px-3 py-1 rounded-full bg-slate-800 hover:bg-emerald-600/30 hover:text-emerald-300 text-slate-400 text-xs transition-colors"
+                  >
+                    <SquareDashedMousePointer className="w-3.5 h-3.5 mr-1.5" />
+                    {file.regions?.length ? `Đã chọn ${file.regions.length} câu - sửa vùng chọn` : 'Chỉ giải một số câu'}
+                  </button>
+                )}
+                {file.mimeType.includes('pdf') && (
+                  <p className="mt-2 text-xs text-slate-500">Chọn từng câu chỉ áp dụng cho ảnh; toàn bộ tệp PDF sẽ được giải.</p>
+                )}
               </div>
             )}
           </div>
@@ -202,14 +317,32 @@ const InputSection: React.FC<InputSectionProps> = ({
         )}
       </div>
 
+      {isEditorOpen && editSession && (
+        <ImageEditor
+          file={editSession.source}
+          initialEdits={editSession.edits}
+          onApply={handleEditorApply}
+          onCancel={handleEditorCancel}
+        />
+      )}
+
+      {isSelectingRegions && file?.previewUrl && (
+        <RegionSelector
+          imageUrl={file.previewUrl}
+          initialRegions={file.regions}
+          onDone={handleRegionsDone}
+          onCancel={() => setIsSelectingRegions(false)}
+        />
+      )}
+
       {/* Action Button */}
       <div className="flex justify-center">
         <button
           onClick={onProcess}
-          disabled={isProcessing || (mode === InputMode.TEXT && !text.trim()) || (mode === InputMode.FILE && !file)}
+          disabled={isProcessing || !canProcess}
           className={`
             px-8 py-4 rounded-full font-bold text-lg shadow-lg flex items-center space-x-3 transition-all transform hover:scale-105 active:scale-95
-            ${isProcessing || (mode === InputMode.TEXT && !text.trim()) || (mode === InputMode.FILE && !file)
+            ${isProcessing || !canProcess
               ? 'bg-slate-700 text-slate-500 cursor-not-allowed shadow-none'
               : 'bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-500 hover:to-indigo-500 text-white shadow-blue-500/25'}
           `}
@@ -221,7 +354,7 @@ const InputSection: React.FC<InputSectionProps> = ({
             </>
           ) : (
             <>
-              <span>Phân tích nội dung</span>
+              <span>{mode === InputMode.FILE && !file && queueCount > 0 ? `Xử lý hàng đợi (${queueCount})` : 'Phân tích nội dung'}</span>
               <div className="bg-white/20 p-1 rounded-full">
                 <FileText className="w-4 h-4" />
               </div>
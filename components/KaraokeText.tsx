@@ -0,0 +1,50 @@
+import React, { useEffect, useRef } from 'react';
+import { NarrationSentence } from '../types';
+import ScientificText from './ScientificText';
+
+interface KaraokeTextProps {
+  text: string; // Display script the sentences point into
+  sentences: NarrationSentence[]; // In reading order
+  activeIndex: number; // Sentence being read, -1 when none
+  onSelect: (index: number) => void; // Jump the narration to a sentence
+}
+
+// Display script with the sentence being read highlighted; every sentence is clickable
+const KaraokeText: React.FC<KaraokeTextProps> = ({ text, sentences, activeIndex, onSelect }) => {
+  const activeRef = useRef<HTMLSpanElement>(null);
+
+  useEffect(() => {
+    activeRef.current?.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
+  }, [activeIndex]);
+
+  const pieces: React.ReactNode[] = [];
+  let position = 0;
+  sentences.forEach(({ display }, index) => {
+    // Sentences without (new) display text have nothing to highlight
+    if (display.end <= display.start || display.start < position) return;
+    if (display.start > position) {
+      pieces.push(<ScientificText key={`gap-${index}`} text={text.slice(position, display.start)} />);
+    }
+    const isActive = index === activeIndex;
+    pieces.push(
+      <span
+        key={index}
+        ref={isActive ? activeRef : undefined}
+        onClick={() => onSelect(index)}
+        className={`rounded cursor-pointer transition-colors ${
+          isActive ? 'bg-amber-400/20 text-white' : 'hover:bg-slate-700/50'
+        }`}
+      >
+        <ScientificText text={text.slice(display.start, display.end)} />
+      </span>
+    );
+    position = display.end;
+  });
+  if (position < text.length) {
+    pieces.push(<ScientificText key="tail" text={text.slice(position)} />);
+  }
+
+  return <>{pieces}</>;
+};
+
+export default KaraokeText;
@@ -0,0 +1,96 @@
+import React, { useEffect, useState } from 'react';
+import { CheckCircle, Circle, Loader2, XCircle, Ban, Sparkles } from 'lucide-react';
+import { PipelineStage, PipelineStages, StageState, StageStatus } from '../types';
+import { STAGE_LABELS } from '../services/pipeline';
+
+interface PipelineProgressProps {
+  stages: PipelineStages | null;
+  fallbackMessage: string; // Shown before the pipeline has started (hashing, cache lookup)
+  onCancel: () => void;
+  isCancelling: boolean;
+  preview?: string; // Transcript streamed so far
+}
+
+// Only the tail of the streamed transcript is shown
+const PREVIEW_LENGTH = 300;
+
+const StageIcon: React.FC<{ status: StageStatus }> = ({ status }) => {
+  switch (status) {
+    case StageStatus.RUNNING:
+      return <Loader2 className="w-5 h-5 text-blue-400 animate-spin" />;
+    case StageStatus.DONE:
+      return <CheckCircle className="w-5 h-5 text-emerald-400" />;
+    case StageStatus.ERROR:
+      return <XCircle className="w-5 h-5 text-red-400" />;
+    case StageStatus.CANCELLED:
+      return <Ban className="w-5 h-5 text-slate-500" />;
+    default:
+      return <Circle className="w-5 h-5 text-slate-600" />;
+  }
+};
+
+const formatElapsed = (state: StageState, now: number) => {
+  if (!state.startedAt) return '';
+  const end = state.finishedAt ?? now;
+  return `${((end - state.startedAt) / 1000).toFixed(1)}s`;
+};
+
+const PipelineProgress: React.FC<PipelineProgressProps> = ({ stages, fallbackMessage, onCancel, isCancelling, preview }) => {
+  const [now, setNow] = useState(Date.now());
+
+  // Tick while something is running so elapsed times update live
+  const isRunning = !!stages && (Object.keys(stages) as PipelineStage[]).some(stage => stages[stage].status === StageStatus.RUNNING);
+  useEffect(() => {
+    if (!isRunning) return;
+    const timer = setInterval(() => setNow(Date.now()), 200);
+    return () => clearInterval(timer);
+  }, [isRunning]);
+
+  return (
+    <div className="absolute inset-0 z-10 bg-slate-950/80 backdrop-blur-sm flex flex-col items-center justify-center rounded-xl animate-fade-in">
+      <div className="relative mb-6">
+        <div className="w-16 h-16 border-4 border-slate-700 border-t-blue-500 rounded-full animate-spin"></div>
+        <div className="absolute inset-0 flex items-center justify-center">
+          <Sparkles className="w-6 h-6 text-blue-400 animate-pulse" />
+        </div>
+      </div>
+
+      {stages ? (
+        <ul className="w-full max-w-sm space-y-2 mb-6">
+          {(Object.keys(STAGE_LABELS) as PipelineStage[]).map(stage => (
+            <li
+              key={stage}
+              className="flex items-center justify-between bg-slate-800/70 border border-slate-700 rounded-lg px-4 py-2.5"
+            >
+              <div className="flex items-center space-x-3">
+                <StageIcon status={stages[stage].status} />
+                <span className={`text-sm ${stages[stage].status === StageStatus.RUNNING ? 'text-white font-medium' : 'text-slate-400'}`}>
+                  {STAGE_LABELS[stage]}
+                </span>
+              </div>
+              <span className="text-xs font-mono text-slate-500">{formatElapsed(stages[stage], now)}</span>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-xl font-medium text-blue-400 animate-pulse mb-6">{fallbackMessage}</p>
+      )}
+
+      {preview && (
+        <p className="w-full max-w-sm max-h-24 overflow-hidden mb-6 text-xs text-slate-400 font-mono whitespace-pre-wrap break-words">
+          {preview.slice(-PREVIEW_LENGTH)}
+        </p>
+      )}
+
+      <button
+        onClick={onCancel}
+        disabled={isCancelling}
+        className="px-6 py-2 rounded-lg bg-slate-800 hover:bg-red-600/80 border border-slate-700 text-slate-300 hover:text-white text-sm font-medium transition-colors disabled:opacity-50"
+      >
+        {isCancelling ? 'Đang hủy...' : 'Hủy'}
+      </button>
+    </div>
+  );
+};
+
+export default PipelineProgress;
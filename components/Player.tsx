@@ -1,7 +1,22 @@
-import React, { useEffect, useRef, useState } from 'react';
-import { Play, Pause, RefreshCw, Volume2, Download, Youtube, FileText as FileTextIcon, ChevronDown, ChevronUp, CheckCircle, BrainCircuit, Loader2, ArrowLeft, Printer, Image as ImageIcon } from 'lucide-react';
-import { VideoRecommendation, SolutionItem, FileData } from '../types';
-import { synthesizeSpeech, getAudioDataUrl } from '../services/geminiService';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Play, Pause, RefreshCw, Volume2, Download, Youtube, FileText as FileTextIcon, ChevronDown, ChevronUp, CheckCircle, BrainCircuit, Loader2, ArrowLeft, Printer, Image as ImageIcon, AlertTriangle, Settings2, PencilLine, Shuffle, MessageCircle } from 'lucide-react';
+import { VideoRecommendation, SolutionItem, SourceRegion, Subject, Difficulty, ChatMessage, FileData, PipelineStage, PipelineStages, StageStatus, AudioSegment, VoiceSettings } from '../types';
+import { synthesizeNarration, generateSimilarProblems, getAudioDataUrl, getPcmDuration, joinPcmBase64 } from '../services/geminiService';
+import { timeSentences } from '../services/narration';
+import { getNarration, getSubjectVoice, getVoiceKey, loadSpeechPreferences, saveSpeechPreferences, setSubjectVoice } from '../services/voiceSettings';
+import { getErrorMessage } from '../services/aiErrors';
+import { STAGE_LABELS } from '../services/pipeline';
+import { getSubjectProfile } from '../services/subjects';
+import { getPracticeSummary, isGradable } from '../services/practice';
+import { checkSolution } from '../services/solutionCheck';
+import { getRenderableStructures, isReplacedByStructures, rasterizeSvg, renderStructureSvg } from '../services/structureDiagram';
+import { MarkupNode, parseScienceMarkup, toPlainText } from '../services/scienceMarkup';
+import ScientificText, { RenderOptionsContext } from './ScientificText';
+import KaraokeText from './KaraokeText';
+import SpeechSettings from './SpeechSettings';
+import PracticePanel from './PracticePanel';
+import TutorChat from './TutorChat';
+import StructureDiagram from './StructureDiagram';
 import html2canvas from 'html2canvas';
 import { jsPDF } from 'jspdf';
 import { Document, Packer, Paragraph, TextRun, ImageRun } from 'docx';
@@ -26,117 +41,146 @@ const AlignmentType = {
 
 interface PlayerProps {
   script: string;
-  audioUrl: string | null;
+  audioBase64: string | null; // Narration of results cached before per-voice narrations
+  narrations?: Record<string, AudioSegment[]>; // Per voice key
+  onCreateNarration?: (voice: VoiceSettings) => Promise<void>; // Narrate the script in another voice
+  onUpdateSolution: (index: number, update: (item: SolutionItem) => SolutionItem) => void; // Persists generated data
   relatedVideos: VideoRecommendation[];
   solutions: SolutionItem[];
   onReset: () => void;
   fileData: FileData | null; // Pass file data for display
+  stages?: PipelineStages; // Per-stage outcome, used to offer retries for failed stages
+  onRetryStage?: (stage: PipelineStage) => void;
+  onCancel?: () => void; // Stops the stages still running (results stream in while they run)
+  subject?: Subject; // Missing on older results (chemistry)
+  chat?: ChatMessage[]; // Follow-up questions about the whole lesson
+  onAskTutor?: (question: string, solutionIndex?: number) => Promise<void>; // About a solution, or the lesson without an index
 }
 
 interface SolutionCardProps {
   item: SolutionItem;
   index: number;
-  onPlayRequest: (title: string, text: string, url: string) => void;
+  showPageRef: boolean; // Multi-page documents show where each question came from
+  isHighlighted: boolean; // Its source region is highlighted on the original page
+  onSelect: () => void;
+  voice: VoiceSettings;
+  onPlayRequest: (title: string, text: string, segments: AudioSegment[]) => void;
+  onUpdate: (update: (item: SolutionItem) => SolutionItem) => void;
+  practiceMode: boolean; // The solution stays hidden until the student answers
+  subject?: Subject;
+  parentIndex?: number; // Set on a similar problem generated from that question
+  onAskTutor?: (question: string) => Promise<void>;
 }
 
-// Custom Text Renderer for Scientific Formulas AND Bold Formatting
-const ScientificText: React.FC<{ text: string; className?: string }> = ({ text, className = "" }) => {
-  if (!text) return null;
-  
-  // Regex to split by bold markers (**)
-  const parts = text.split(/(\*\*.*?\*\*)/g);
-  
-  return (
-    <span className={className}>
-      {parts.map((part, index) => {
-        if (part.startsWith('**') && part.endsWith('**')) {
-          // Render Bold Text (remove **)
-          const content = part.slice(2, -2);
-          return <b key={index} className="text-emerald-400 font-bold"><ChemicalFormula text={content} /></b>;
-        } else {
-          // Render Normal Text
-          return <span key={index}><ChemicalFormula text={part} /></span>;
-        }
-      })}
-    </span>
-  );
-};
+const SIMILAR_PROBLEM_COUNT = 3;
 
-// Helper for just Chemical Formulas inside a string
-const ChemicalFormula: React.FC<{ text: string }> = ({ text }) => {
-  if (!text) return null;
-
-  const regex = /([A-Z][a-z]?|\))(\d+)/g;
-  const parts = text.split(regex);
-  const elements = [];
-  
-  for (let i = 0; i < parts.length; i += 3) {
-    if (parts[i]) {
-      elements.push(<span key={`t-${i}`}>{parts[i]}</span>);
-    }
-    
-    if (i + 2 < parts.length) {
-      const symbol = parts[i + 1];
-      const number = parts[i + 2];
-      
-      elements.push(<span key={`s-${i}`}>{symbol}</span>);
-      elements.push(
-        <sub key={`n-${i}`} className="text-[0.65em] align-baseline font-medium ml-[0.5px]">
-          {number}
-        </sub>
-      );
-    }
-  }
-  return <>{elements}</>;
+const DIFFICULTY_LABELS: Record<Difficulty, { label: string; className: string }> = {
+  [Difficulty.EASY]: { label: 'Dễ', className: 'bg-emerald-500/10 text-emerald-400' },
+  [Difficulty.MEDIUM]: { label: 'Trung bình', className: 'bg-amber-500/10 text-amber-400' },
+  [Difficulty.HARD]: { label: 'Khó', className: 'bg-red-500/10 text-red-400' },
 };
 
-const SolutionCard: React.FC<SolutionCardProps> = ({ item, index, onPlayRequest }) => {
+const SolutionCard: React.FC<SolutionCardProps> = ({ item, index, showPageRef, isHighlighted, onSelect, voice, onPlayRequest, onUpdate, practiceMode, subject, parentIndex, onAskTutor }) => {
   const [isOpen, setIsOpen] = useState(false);
   const [isGeneratingAudio, setIsGeneratingAudio] = useState(false);
-  const [cachedAudioUrl, setCachedAudioUrl] = useState<string | null>(null);
+  const [isGeneratingSimilar, setIsGeneratingSimilar] = useState(false);
+  const [showChat, setShowChat] = useState(!!item.chat?.length);
+  const isSimilar = parentIndex !== undefined;
+  const number = isSimilar ? `${parentIndex + 1}.${index + 1}` : `${index + 1}`;
+  const canPractice = practiceMode && isGradable(item.finalAnswer);
+  const isSolutionHidden = canPractice && !item.practice?.correct && !item.practice?.revealed;
+  // Local double-check of the model's equations and arithmetic
+  const issues = useMemo(() => checkSolution(item.solutionDisplay, subject), [item.solutionDisplay, subject]);
+  const structures = useMemo(() => getRenderableStructures(item), [item]);
 
   const handlePlayRequest = async (e: React.MouseEvent) => {
     e.stopPropagation();
     
-    const title = `Lời giải bài ${index + 1}`;
-    const displayScriptForPlayer = `LỜI GIẢI BÀI ${index + 1}:\n\n${item.solutionDisplay}`;
-    const readingScriptForTTS = `Lời giải chi tiết bài số ${index + 1}. ${item.solutionReading}`;
-
-    if (cachedAudioUrl) {
-      onPlayRequest(title, displayScriptForPlayer, cachedAudioUrl);
+    const title = `Lời giải bài ${number}`;
+    const displayScriptForPlayer = `LỜI GIẢI BÀI ${number}:\n\n${item.solutionDisplay}`;
+    const readingScriptForTTS = `Lời giải chi tiết bài số ${number}. ${item.solutionReading}`;
+
+    const voiceKey = getVoiceKey(voice);
+    const saved = item.narrations?.[voiceKey];
+    if (saved) {
+      onPlayRequest(title, displayScriptForPlayer, saved);
       return;
     }
 
     try {
       setIsGeneratingAudio(true);
-      const base64 = await synthesizeSpeech(readingScriptForTTS);
-      const url = getAudioDataUrl(base64);
-      setCachedAudioUrl(url);
-      onPlayRequest(title, displayScriptForPlayer, url);
+      const segments = await synthesizeNarration(displayScriptForPlayer, readingScriptForTTS, voice);
+      onUpdate(current => ({ ...current, narrations: { ...current.narrations, [voiceKey]: segments } }));
+      onPlayRequest(title, displayScriptForPlayer, segments);
     } catch (error) {
       console.error("Error generating solution audio:", error);
-      alert("Không thể tạo giọng đọc cho lời giải này.");
+      alert(`Không thể tạo giọng đọc cho lời giải này. ${getErrorMessage(error)}`);
     } finally {
       setIsGeneratingAudio(false);
     }
   };
 
+  // New problems are kept with this question in the lesson
+  const handleGenerateSimilar = async () => {
+    try {
+      setIsGeneratingSimilar(true);
+      const problems = await generateSimilarProblems(item, subject, SIMILAR_PROBLEM_COUNT);
+      onUpdate(current => ({ ...current, similarProblems: [...(current.similarProblems ?? []), ...problems] }));
+    } catch (error) {
+      console.error("Error generating similar problems:", error);
+      alert(`Không thể tạo bài tương tự. ${getErrorMessage(error)}`);
+    } finally {
+      setIsGeneratingSimilar(false);
+    }
+  };
+
+  const updateSimilar = (similarIndex: number, update: (problem: SolutionItem) => SolutionItem) => {
+    onUpdate(current => ({
+      ...current,
+      similarProblems: current.similarProblems?.map((problem, i) => i === similarIndex ? update(problem) : problem),
+    }));
+  };
+
   return (
-    <div className="bg-slate-900/50 rounded-lg border border-slate-700 overflow-hidden mb-3 transition-all hover:border-emerald-500/50">
+    <div className={`bg-slate-900/50 rounded-lg border overflow-hidden mb-3 transition-all hover:border-emerald-500/50 ${isHighlighted ? 'border-amber-400/70' : 'border-slate-700'}`}>
       <div 
-        onClick={() => setIsOpen(!isOpen)}
+        onClick={() => { setIsOpen(!isOpen); onSelect(); }}
         className="w-full text-left p-4 flex justify-between items-start gap-4 hover:bg-slate-800/50 transition-colors cursor-pointer"
       >
         <div className="flex-1">
           <span className="inline-block px-2 py-0.5 rounded text-xs font-bold bg-emerald-500/10 text-emerald-400 mb-2">
-            Bài {index + 1}
+            Bài {number}
           </span>
-          <p className="font-medium text-slate-200 line-clamp-2">
+          {item.difficulty && DIFFICULTY_LABELS[item.difficulty] && (
+            <span className={`inline-block px-2 py-0.5 rounded text-xs font-medium mb-2 ml-2 ${DIFFICULTY_LABELS[item.difficulty].className}`}>
+              {DIFFICULTY_LABELS[item.difficulty].label}
+            </span>
+          )}
+          {issues.length > 0 && (
+            <span
+              className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-amber-500/10 text-amber-400 mb-2 ml-2"
+              title="Kiểm tra tự động phát hiện chỗ có thể sai trong lời giải"
+            >
+              <AlertTriangle className="w-3 h-3 mr-1" />
+              Có thể sai
+            </span>
+          )}
+          {showPageRef && item.pageNumber && (
+            <span className="inline-block px-2 py-0.5 rounded text-xs font-medium bg-slate-700/60 text-slate-400 mb-2 ml-2">
+              Trang {item.pageNumber}
+            </span>
+          )}
+          {canPractice && item.practice && (item.practice.correct || item.practice.revealed) && (
+            <span className={`inline-block px-2 py-0.5 rounded text-xs font-medium mb-2 ml-2 ${item.practice.correct ? 'bg-emerald-500/10 text-emerald-400' : 'bg-slate-700/60 text-slate-400'}`}>
+              {Math.round(item.practice.score * 100)}%
+            </span>
+          )}
+          <p className={`font-medium text-slate-200 ${isOpen && practiceMode ? '' : 'line-clamp-2'}`}>
             <ScientificText text={item.questionDisplay} />
           </p>
         </div>
         <div className="flex items-center space-x-3">
-           <button
+           {!isSolutionHidden && <button
             onClick={handlePlayRequest}
             disabled={isGeneratingAudio}
             className={`p-2 rounded-full transition-all ${
@@ -151,14 +195,18 @@ const SolutionCard: React.FC<SolutionCardProps> = ({ item, index, onPlayRequest
             ) : (
               <Volume2 className="w-4 h-4" />
             )}
-          </button>
+          </button>}
           {isOpen ? <ChevronUp className="w-5 h-5 text-slate-500" /> : <ChevronDown className="w-5 h-5 text-slate-500" />}
         </div>
       </div>
 
       {isOpen && (
         <div className="p-4 pt-0 border-t border-slate-700/50 bg-slate-800/20 animate-fade-in">
-          <div className="mt-4 text-slate-300 space-y-2">
+          {canPractice && <PracticePanel item={item} answer={item.finalAnswer!} onUpdate={onUpdate} />}
+          {practiceMode && !canPractice && (
+            <p className="mt-4 text-xs text-slate-500">Bài này chưa có đáp án để tự chấm, lời giải được hiện luôn.</p>
+          )}
+          {!isSolutionHidden && <div className="mt-4 text-slate-300 space-y-2">
              <div className="flex items-center text-emerald-400 mb-2">
                 <CheckCircle className="w-4 h-4 mr-2" />
                 <span className="font-semibold text-sm">Lời giải chi tiết</span>
@@ -168,7 +216,37 @@ const SolutionCard: React.FC<SolutionCardProps> = ({ item, index, onPlayRequest
                <ScientificText text={item.solutionDisplay} />
              </div>
 
-             {item.illustrationImage && (
+             {issues.length > 0 && (
+               <div className="mt-3 p-3 rounded-lg bg-amber-500/10 border border-amber-500/30 space-y-2 text-sm">
+                 <div className="flex items-center text-amber-400 font-semibold text-xs uppercase tracking-wide">
+                   <AlertTriangle className="w-4 h-4 mr-2" />
+                   Có thể sai (kiểm tra tự động)
+                 </div>
+                 {issues.map((issue, i) => (
+                   <div key={i} className="text-slate-300">
+                     <span className="text-amber-200">{issue.message}:</span>{' '}
+                     <ScientificText text={issue.source} />
+                     {issue.corrected && (
+                       <>
+                         <span className="text-slate-500"> → đúng là </span>
+                         <span className="font-medium text-emerald-400"><ScientificText text={issue.corrected} /></span>
+                       </>
+                     )}
+                   </div>
+                 ))}
+               </div>
+             )}
+
+             {structures.length > 0 && (
+               <div className="mt-4 p-4 bg-white rounded-lg border border-slate-700/50 flex flex-col items-center shadow-inner">
+                  <span className="text-xs text-slate-500 mb-2 uppercase tracking-wide w-full text-center border-b pb-1">Công thức cấu tạo</span>
+                  <div className="w-full flex flex-wrap justify-center gap-6 mt-2">
+                    {structures.map((structure, i) => <StructureDiagram key={i} structure={structure} maxHeight={300} />)}
+                  </div>
+               </div>
+             )}
+
+             {item.illustrationImage && !isReplacedByStructures(item) && (
                <div className="mt-4 p-4 bg-white rounded-lg border border-slate-700/50 flex flex-col items-center shadow-inner">
                   <span className="text-xs text-slate-500 mb-2 uppercase tracking-wide w-full text-center border-b pb-1">Hình minh họa (Gemini Image Gen)</span>
                   <div className="w-full flex justify-center mt-2">
@@ -180,42 +258,245 @@ const SolutionCard: React.FC<SolutionCardProps> = ({ item, index, onPlayRequest
                   </div>
                </div>
              )}
-          </div>
+          </div>}
+
+          {onAskTutor && !isSolutionHidden && (
+            <div className="mt-4">
+              <button
+                onClick={(e) => { e.stopPropagation(); setShowChat(!showChat); }}
+                className="flex items-center text-xs text-blue-400 hover:text-blue-300 transition-colors"
+              >
+                <MessageCircle className="w-3 h-3 mr-1" />
+                {showChat ? 'Ẩn hỏi đáp' : 'Hỏi gia sư về lời giải này'}
+                {!!item.chat?.length && ` (${item.chat.length})`}
+              </button>
+              {showChat && (
+                <div className="mt-3">
+                  <TutorChat
+                    messages={item.chat ?? []}
+                    onAsk={onAskTutor}
+                    voice={voice}
+                    onPlayRequest={onPlayRequest}
+                    placeholder="Ví dụ: Tại sao bước này lại chia 2?"
+                  />
+                </div>
+              )}
+            </div>
+          )}
+
+          {!isSimilar && (
+            <div className="mt-4 space-y-2">
+              {item.similarProblems?.map((problem, i) => (
+                <SolutionCard
+                  key={i}
+                  item={problem}
+                  index={i}
+                  parentIndex={index}
+                  showPageRef={false}
+                  isHighlighted={false}
+                  onSelect={() => {}}
+                  voice={voice}
+                  onPlayRequest={onPlayRequest}
+                  onUpdate={(update) => updateSimilar(i, update)}
+                  practiceMode // Generated problems are for practice: solutions stay hidden until answered
+                  subject={subject}
+                />
+              ))}
+              <button
+                onClick={(e) => { e.stopPropagation(); handleGenerateSimilar(); }}
+                disabled={isGeneratingSimilar}
+                className="flex items-center px-3 py-1.5 rounded bg-slate-700 hover:bg-slate-600 text-xs text-white transition-colors disabled:opacity-50"
+              >
+                {isGeneratingSimilar ? <Loader2 className="w-3 h-3 mr-1 animate-spin" /> : <Shuffle className="w-3 h-3 mr-1" />}
+                {isGeneratingSimilar ? 'Đang tạo bài...' : item.similarProblems?.length ? 'Tạo thêm bài tương tự' : 'Tạo bài tương tự'}
+              </button>
+            </div>
+          )}
         </div>
       )}
     </div>
   );
 };
 
-const Player: React.FC<PlayerProps> = ({ script, audioUrl, relatedVideos, solutions, onReset, fileData }) => {
+// Banner listing pipeline stages that did not complete, each with its own retry button
+const IncompleteStagesBanner: React.FC<{
+  stages: PipelineStages;
+  onRetryStage?: (stage: PipelineStage) => void;
+  onCancel?: () => void;
+}> = ({ stages, onRetryStage, onCancel }) => {
+  const incomplete = (Object.keys(stages) as PipelineStage[]).filter(stage => stages[stage].status !== StageStatus.DONE);
+  if (incomplete.length === 0) return null;
+  const hasRunning = incomplete.some(stage => stages[stage].status === StageStatus.RUNNING);
+
+  return (
+    <div className="bg-amber-500/10 border border-amber-500/30 rounded-xl p-4 space-y-2">
+      <div className="flex items-center justify-between text-amber-400 text-sm font-semibold">
+        <span className="flex items-center">
+          <AlertTriangle className="w-4 h-4 mr-2" />
+          {hasRunning ? 'Đang xử lý, kết quả sẽ hiện dần' : 'Một số bước chưa hoàn tất'}
+        </span>
+        {hasRunning && onCancel && (
+          <button
+            onClick={onCancel}
+            className="px-3 py-1.5 rounded bg-slate-700 hover:bg-red-600/80 text-xs text-white transition-colors"
+          >
+            Hủy
+          </button>
+        )}
+      </div>
+      {incomplete.map(stage => {
+        const state = stages[stage];
+        const isRunning = state.status === StageStatus.RUNNING;
+        return (
+          <div key={stage} className="flex items-center justify-between gap-4 text-sm">
+            <div className="text-slate-300">
+              <span className="font-medium">{STAGE_LABELS[stage]}</span>
+              <span className="text-slate-500 ml-2">
+                {isRunning ? 'Đang chạy...' : state.error || 'Đã hủy'}
+              </span>
+            </div>
+            {onRetryStage && (
+              <button
+                onClick={() => onRetryStage(stage)}
+                disabled={isRunning}
+                className="flex items-center px-3 py-1.5 rounded bg-slate-700 hover:bg-slate-600 text-xs text-white transition-colors shrink-0 disabled:opacity-50"
+              >
+                {isRunning ? <Loader2 className="w-3 h-3 mr-1 animate-spin" /> : <RefreshCw className="w-3 h-3 mr-1" />}
+                Thử lại
+              </button>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+const Player: React.FC<PlayerProps> = ({ script, audioBase64, narrations, onCreateNarration, onUpdateSolution, relatedVideos, solutions, onReset, fileData, stages, onRetryStage, onCancel, subject, chat, onAskTutor }) => {
+  const subjectProfile = getSubjectProfile(subject);
   const [activeScript, setActiveScript] = useState(script);
-  const [activeAudioUrl, setActiveAudioUrl] = useState(audioUrl);
+  // Voice of the lesson narration (defaults to the subject's) and playback speed
+  const [subjectVoice, setSubjectVoiceState] = useState(() => getSubjectVoice(subject));
+  const [voice, setVoice] = useState(subjectVoice);
+  const [playbackRate, setPlaybackRate] = useState(() => loadSpeechPreferences().playbackRate);
+  const [showSpeechSettings, setShowSpeechSettings] = useState(false);
+  const [isCreatingNarration, setIsCreatingNarration] = useState(false);
+
+  const scriptSegments = useMemo(() => getNarration({ narrations, audioBase64 }, voice) ?? [], [narrations, audioBase64, voice]);
+  const [activeSegments, setActiveSegments] = useState(scriptSegments);
   const [activeTitle, setActiveTitle] = useState("Nội dung gốc");
   const [isShowingSolution, setIsShowingSolution] = useState(false);
+  const [showTranscript, setShowTranscript] = useState(false); // Transcript instead of the original image/PDF
   const [isGeneratingPDF, setIsGeneratingPDF] = useState(false);
   const [isGeneratingWord, setIsGeneratingWord] = useState(false);
+  const [practiceMode, setPracticeMode] = useState(false);
   const printRef = useRef<HTMLDivElement>(null);
 
   const audioRef = useRef<HTMLAudioElement>(null);
   const [isPlaying, setIsPlaying] = useState(false);
-  const [progress, setProgress] = useState(0);
-  const [duration, setDuration] = useState(0);
+  const showPageRefs = solutions.some(sol => (sol.pageNumber ?? 1) > 1);
+  const pageRefLabel = (sol: SolutionItem) => showPageRefs && sol.pageNumber ? ` (Trang ${sol.pageNumber})` : '';
+  const [currentTime, setCurrentTime] = useState(0); // Seconds since the start of the whole playlist
+  const [highlightedIndex, setHighlightedIndex] = useState<number | null>(null);
+  const highlightRef = useRef<HTMLDivElement>(null);
 
   useEffect(() => {
     if (!isShowingSolution) {
       setActiveScript(script);
-      setActiveAudioUrl(audioUrl);
+      setActiveSegments(scriptSegments);
     }
-  }, [script, audioUrl, isShowingSolution]);
+  }, [script, scriptSegments, isShowingSolution]);
+
+  // --- PLAYLIST ---
+  const tracks = useMemo(() => activeSegments.map(segment => ({
+    url: getAudioDataUrl(segment.audioBase64),
+    duration: getPcmDuration(segment.audioBase64),
+  })), [activeSegments]);
+  const previousTracksRef = useRef(tracks);
+  useEffect(() => {
+    if (previousTracksRef.current === tracks) return;
+    previousTracksRef.current.forEach(track => URL.revokeObjectURL(track.url));
+    previousTracksRef.current = tracks;
+  }, [tracks]);
+
+  const trackOffsets = useMemo(() => {
+    let offset = 0;
+    return tracks.map(track => (offset += track.duration) - track.duration);
+  }, [tracks]);
+  const totalDuration = tracks.reduce((sum, track) => sum + track.duration, 0);
+  const sentences = useMemo(
+    () => timeSentences(activeSegments, tracks.map(track => track.duration)),
+    [activeSegments, tracks]
+  );
+
+  // The track position resets whenever another playlist is loaded
+  const [playback, setPlayback] = useState({ tracks, index: 0 });
+  const trackIndex = playback.tracks === tracks ? playback.index : 0;
+  const setTrackIndex = (index: number) => setPlayback({ tracks, index });
+  const currentUrl = tracks[trackIndex]?.url;
+
+  const loadedTracksRef = useRef<typeof tracks | null>(null);
+  const resumeRef = useRef(false); // Keep playing when moving to another track of the same playlist
+  const pendingSeekRef = useRef(0); // Position in the next track, applied once it is loaded
 
   useEffect(() => {
-    if (audioRef.current && activeAudioUrl) {
-      audioRef.current.load();
-      audioRef.current.play()
+    const audio = audioRef.current;
+    if (!audio) return;
+    if (!currentUrl) {
+      // e.g. a voice without narration yet was picked
+      audio.pause();
+      setIsPlaying(false);
+      return;
+    }
+    // A new playlist starts playing by itself; within a playlist the play state carries over
+    const isNewPlaylist = loadedTracksRef.current !== tracks;
+    loadedTracksRef.current = tracks;
+    if (isNewPlaylist) {
+      pendingSeekRef.current = 0;
+      setCurrentTime(0);
+    }
+    audio.load();
+    if (isNewPlaylist || resumeRef.current) {
+      audio.play()
         .then(() => setIsPlaying(true))
         .catch(e => console.error("Auto-play blocked:", e));
     }
-  }, [activeAudioUrl]);
+  }, [currentUrl]);
+
+  // Loading a track resets the rate to defaultPlaybackRate
+  useEffect(() => {
+    if (audioRef.current) {
+      audioRef.current.defaultPlaybackRate = playbackRate;
+      audioRef.current.playbackRate = playbackRate;
+    }
+  }, [playbackRate, currentUrl]);
+
+  const handlePlaybackRateChange = (rate: number) => {
+    setPlaybackRate(rate);
+    saveSpeechPreferences({ ...loadSpeechPreferences(), playbackRate: rate });
+  };
+
+  const handleSaveSubjectVoice = () => {
+    setSubjectVoice(subjectProfile.id, voice);
+    setSubjectVoiceState(voice);
+  };
+
+  const handleCreateNarration = async () => {
+    if (!onCreateNarration) return;
+    setIsCreatingNarration(true);
+    try {
+      await onCreateNarration(voice);
+    } catch (error) {
+      console.error("Error generating narration:", error);
+      alert(`Không thể tạo giọng đọc. ${getErrorMessage(error)}`);
+    } finally {
+      setIsCreatingNarration(false);
+    }
+  };
+
+  // The lesson has no audio in this voice yet (and the pipeline is not producing it right now)
+  const canCreateNarration = !isShowingSolution && scriptSegments.length === 0 && !!onCreateNarration
+    && stages?.[PipelineStage.TTS].status !== StageStatus.RUNNING;
 
   const togglePlay = () => {
     if (audioRef.current) {
@@ -230,24 +511,67 @@ const Player: React.FC<PlayerProps> = ({ script, audioUrl, relatedVideos, soluti
 
   const handleTimeUpdate = () => {
     if (audioRef.current) {
-      const current = audioRef.current.currentTime;
-      const total = audioRef.current.duration;
-      setDuration(total || 0);
-      setProgress((current / total) * 100);
+      setCurrentTime((trackOffsets[trackIndex] ?? 0) + audioRef.current.currentTime);
+    }
+  };
+
+  const handleLoadedMetadata = () => {
+    if (audioRef.current && pendingSeekRef.current) {
+      audioRef.current.currentTime = pendingSeekRef.current;
+      pendingSeekRef.current = 0;
     }
   };
 
   const handleEnded = () => {
+    if (trackIndex < tracks.length - 1) {
+      resumeRef.current = true;
+      setTrackIndex(trackIndex + 1);
+      return;
+    }
     setIsPlaying(false);
-    setProgress(100);
+    setCurrentTime(totalDuration);
   };
 
-  const handleSeek = (e: React.ChangeEvent<HTMLInputElement>) => {
-    if (audioRef.current) {
-      const seekTime = (Number(e.target.value) / 100) * audioRef.current.duration;
-      audioRef.current.currentTime = seekTime;
-      setProgress(Number(e.target.value));
+  // Jump to a time of the whole playlist, switching track if needed
+  const seekTo = (time: number, play = isPlaying) => {
+    const audio = audioRef.current;
+    if (!audio || tracks.length === 0) return;
+    let index = tracks.length - 1;
+    while (index > 0 && trackOffsets[index] > time) index--;
+    const positionInTrack = time - trackOffsets[index];
+    setCurrentTime(time);
+
+    if (index === trackIndex) {
+      audio.currentTime = positionInTrack;
+      if (play && audio.paused) audio.play().then(() => setIsPlaying(true));
+      return;
     }
+    pendingSeekRef.current = positionInTrack;
+    resumeRef.current = play;
+    setTrackIndex(index);
+  };
+
+  const handleSeek = (e: React.ChangeEvent<HTMLInputElement>) => {
+    seekTo((Number(e.target.value) / 100) * totalDuration);
+  };
+
+  // Sentence being read, and clicking a sentence starts reading from it
+  const timeInTrack = currentTime - (trackOffsets[trackIndex] ?? 0);
+  const activeSentenceIndex = sentences.findIndex(sentence =>
+    sentence.segmentIndex === trackIndex && timeInTrack >= sentence.start && timeInTrack < sentence.end
+  );
+  const handleSelectSentence = (index: number) => {
+    const sentence = sentences[index];
+    seekTo(trackOffsets[sentence.segmentIndex] + sentence.start, true);
+  };
+
+  const handleDownloadAudio = () => {
+    const url = getAudioDataUrl(joinPcmBase64(activeSegments.map(segment => segment.audioBase64)));
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `vietreader-${isShowingSolution ? 'solution' : 'content'}.wav`;
+    a.click();
+    window.URL.revokeObjectURL(url);
   };
 
   const formatTime = (seconds: number) => {
@@ -257,10 +581,10 @@ const Player: React.FC<PlayerProps> = ({ script, audioUrl, relatedVideos, soluti
     return `${m < 10 ? '0' : ''}${m}:${s < 10 ? '0' : ''}${s}`;
   };
 
-  const handlePlaySolution = (title: string, text: string, url: string) => {
+  const handlePlaySolution = (title: string, text: string, segments: AudioSegment[]) => {
     setActiveTitle(title);
     setActiveScript(text);
-    setActiveAudioUrl(url);
+    setActiveSegments(segments);
     setIsShowingSolution(true);
     window.scrollTo({ top: 0, behavior: 'smooth' });
   };
@@ -268,10 +592,33 @@ const Player: React.FC<PlayerProps> = ({ script, audioUrl, relatedVideos, soluti
   const handleBackToOriginal = () => {
     setActiveTitle("Nội dung gốc");
     setActiveScript(script);
-    setActiveAudioUrl(audioUrl);
+    setActiveSegments(scriptSegments);
     setIsShowingSolution(false);
   };
 
+  // Selecting a card points at the area of the original page its question came from
+  const handleSelectSolution = (index: number) => {
+    const isSame = highlightedIndex === index;
+    setHighlightedIndex(isSame ? null : index);
+    if (!isSame && solutions[index].sourceRegion) {
+      if (isShowingSolution) handleBackToOriginal();
+      setShowTranscript(false);
+    }
+  };
+
+  useEffect(() => {
+    highlightRef.current?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  }, [highlightedIndex]);
+
+  const practiceSummary = useMemo(() => getPracticeSummary(solutions), [solutions]);
+
+  const regionStyle = (region: SourceRegion): React.CSSProperties => ({
+    left: `${region.x * 100}%`,
+    top: `${region.y * 100}%`,
+    width: `${region.width * 100}%`,
+    height: `${region.height * 100}%`,
+  });
+
   // --- WORD EXPORT LOGIC ---
   const handleDownloadWord = async () => {
     setIsGeneratingWord(true);
@@ -286,64 +633,54 @@ const Player: React.FC<PlayerProps> = ({ script, audioUrl, relatedVideos, soluti
       }));
       children.push(new Paragraph({ text: "" })); // Spacer
 
-      // Helper to parse text into TextRuns with Bold and Chemical Subscripts
+      // Helper to parse text into TextRuns with Bold, LaTeX and Chemical notation
       const createFormattedRuns = (text: string, isBoldContext = false): TextRun[] => {
         if (!text) return [];
         const runs: TextRun[] = [];
-        // Regex for Bold (**...**)
-        const boldParts = text.split(/(\*\*.*?\*\*)/g);
-
-        boldParts.forEach(part => {
-          let isBold = isBoldContext;
-          let content = part;
-
-          if (part.startsWith('**') && part.endsWith('**')) {
-            isBold = true;
-            content = part.slice(2, -2);
-          }
-
-          // Regex for Chemical Formulas (e.g., H2SO4 -> H, 2, SO, 4)
-          // Matches a letter followed by digits
-          const regex = /([a-zA-Z\)])(\d+)/g;
-          let lastIndex = 0;
-          let match;
-
-          while ((match = regex.exec(content)) !== null) {
-            // Text before the number
-            const prefix = content.slice(lastIndex, match.index);
-            if (prefix) {
-              runs.push(new TextRun({ text: prefix, bold: isBold }));
+        type RunStyle = { bold: boolean; superScript: boolean; subScript: boolean };
+
+        const walk = (nodes: MarkupNode[], style: RunStyle) => {
+          nodes.forEach(node => {
+            switch (node.type) {
+              case 'text':
+                runs.push(new TextRun({ text: node.text, ...style }));
+                break;
+              case 'bold':
+                walk(node.children, { ...style, bold: true });
+                break;
+              case 'sup':
+                walk(node.children, { ...style, superScript: true, subScript: false });
+                break;
+              case 'sub':
+                walk(node.children, { ...style, subScript: true, superScript: false });
+                break;
+              case 'frac':
+              case 'sqrt':
+                // No inline fraction/radical runs in Word: use the linear form, e.g. (a+b)/2
+                runs.push(new TextRun({ text: toPlainText([node]), ...style }));
+                break;
+              case 'math':
+                if (node.display) runs.push(new TextRun({ text: '', break: 1 }));
+                walk(node.children, style);
+                if (node.display) runs.push(new TextRun({ text: '', break: 1 }));
+                break;
             }
-            
-            // The Letter before the number (e.g., "H" in H2)
-            runs.push(new TextRun({ text: match[1], bold: isBold }));
-            
-            // The Number (Subscript)
-            runs.push(new TextRun({ 
-              text: match[2], 
-              subScript: true,
-              bold: isBold
-            }));
-
-            lastIndex = regex.lastIndex;
-          }
-
-          // Remaining text after last match
-          const suffix = content.slice(lastIndex);
-          if (suffix) {
-            runs.push(new TextRun({ text: suffix, bold: isBold }));
-          }
-        });
+          });
+        };
 
+        walk(parseScienceMarkup(text, subjectProfile.render), { bold: isBoldContext, superScript: false, subScript: false });
         return runs;
       };
 
       // 2. Solutions
+      const structureImages = await Promise.all(solutions.map(sol => Promise.all(
+        getRenderableStructures(sol).map(async structure => ({ structure, image: await rasterizeSvg(renderStructureSvg(structure.smiles)) }))
+      )));
       solutions.forEach((sol, index) => {
         // Question Header
         children.push(new Paragraph({
           children: [
-            new TextRun({ text: `BÀI TẬP ${index + 1}: `, bold: true, color: "2E7D32" }), // Green color
+            new TextRun({ text: `BÀI TẬP ${index + 1}${pageRefLabel(sol)}: `, bold: true, color: "2E7D32" }), // Green color
           ],
           spacing: { before: 200 }
         }));
@@ -372,8 +709,26 @@ const Player: React.FC<PlayerProps> = ({ script, audioUrl, relatedVideos, soluti
           }
         });
 
+        // Structures drawn locally, as PNG (SVG cannot be embedded by this docx version)
+        if (structureImages[index].length > 0) {
+          children.push(new Paragraph({
+            text: "Công thức cấu tạo:",
+            spacing: { before: 100 }
+          }));
+          structureImages[index].forEach(({ structure, image }) => {
+            children.push(new Paragraph({
+              children: [
+                new ImageRun({ data: image.base64, transformation: { width: image.width, height: image.height } }),
+              ],
+              alignment: AlignmentType.CENTER,
+            }));
+            const caption = [structure.name, structure.formula].filter(Boolean).join(' · ');
+            if (caption) children.push(new Paragraph({ text: caption, alignment: AlignmentType.CENTER, spacing: { after: 100 } }));
+          });
+        }
+
         // Illustration in Word: Supported via ImageRun since we have Base64
-        if (sol.illustrationImage) {
+        if (sol.illustrationImage && !isReplacedByStructures(sol)) {
              children.push(new Paragraph({
                 text: "Hình minh họa:",
                 spacing: { before: 100 }
@@ -530,15 +885,30 @@ const Player: React.FC<PlayerProps> = ({ script, audioUrl, relatedVideos, soluti
     }
   };
 
+  // Images and PDFs are shown as they are; their transcript is one click away
+  const hasOriginalView = !!fileData && (fileData.mimeType.startsWith('image/') || fileData.mimeType.includes('pdf'));
+
   // Determine what to display in the main viewport
   const renderMainContent = () => {
+    // Text follows the narration when it is aligned sentence by sentence
+    const scriptView = (
+      <div className="text-slate-300 whitespace-pre-wrap leading-relaxed font-light text-lg">
+        {sentences.length > 0 ? (
+          <KaraokeText
+            text={activeScript}
+            sentences={sentences}
+            activeIndex={activeSentenceIndex}
+            onSelect={handleSelectSentence}
+          />
+        ) : (
+          <ScientificText text={activeScript} />
+        )}
+      </div>
+    );
+
     // 1. If showing a solution, always show text (since solution is generated text)
-    if (isShowingSolution) {
-      return (
-         <div className="text-slate-300 whitespace-pre-wrap leading-relaxed font-light text-lg">
-            <ScientificText text={activeScript} />
-         </div>
-      );
+    if (isShowingSolution || showTranscript) {
+      return scriptView;
     }
 
     // 2. If showing Original Content
@@ -547,11 +917,29 @@ const Player: React.FC<PlayerProps> = ({ script, audioUrl, relatedVideos, soluti
        if (fileData.mimeType.startsWith('image/')) {
          return (
            <div className="flex items-start justify-center h-full bg-slate-900 rounded-lg">
-             <img 
-               src={fileData.previewUrl} 
-               alt="Original Content" 
-               className="max-w-full h-auto object-contain rounded-lg shadow-md" 
-             />
+             <div className="relative">
+               <img 
+                 src={fileData.previewUrl} 
+                 alt="Original Content" 
+                 className="max-w-full h-auto object-contain rounded-lg shadow-md" 
+               />
+               {solutions.map((sol, idx) => sol.sourceRegion && (
+                 <div
+                   key={idx}
+                   ref={idx === highlightedIndex ? highlightRef : undefined}
+                   className={`absolute border-2 rounded transition-colors pointer-events-none ${
+                     idx === highlightedIndex ? 'border-amber-400 bg-amber-400/20' : 'border-emerald-400/40'
+                   }`}
+                   style={regionStyle(sol.sourceRegion)}
+                 >
+                   <span className={`absolute -top-0.5 -left-0.5 px-1.5 text-xs font-bold text-white rounded-br ${
+                     idx === highlightedIndex ? 'bg-amber-500' : 'bg-emerald-500/60'
+                   }`}>
+                     {idx + 1}
+                   </span>
+                 </div>
+               ))}
+             </div>
            </div>
          );
        }
@@ -570,290 +958,386 @@ const Player: React.FC<PlayerProps> = ({ script, audioUrl, relatedVideos, soluti
     }
 
     // C. Fallback (Text input or no file) -> Show Transcribed Script
-    return (
-      <div className="text-slate-300 whitespace-pre-wrap leading-relaxed font-light text-lg">
-        <ScientificText text={activeScript} />
-      </div>
-    );
+    return scriptView;
   };
 
   return (
-    <div className="w-full max-w-5xl mx-auto animate-fade-in-up space-y-6">
-      
-      {/* Hidden Printable Area for PDF Generation - Structured Blocks */}
-      <div className="fixed top-0 left-[-10000px] w-[210mm]">
-        <div 
-          ref={printRef} 
-          className="bg-white text-slate-900 font-sans"
-        >
-          {/* Block 1: Header */}
-          <div className="print-item p-10 pb-4">
-            <div className="border-b-2 border-slate-900 pb-4 flex justify-between items-end">
-              <div>
-                <h1 className="text-2xl font-bold text-blue-800 uppercase">Gia Sư Thông Minh</h1>
-                <p className="text-sm text-slate-600">Hỗ trợ học tập bằng AI</p>
+    <RenderOptionsContext.Provider value={subjectProfile.render}>
+      <div className="w-full max-w-5xl mx-auto animate-fade-in-up space-y-6">
+        {stages && <IncompleteStagesBanner stages={stages} onRetryStage={onRetryStage} onCancel={onCancel} />}
+
+        {/* Hidden Printable Area for PDF Generation - Structured Blocks */}
+        <div className="fixed top-0 left-[-10000px] w-[210mm]">
+          <div 
+            ref={printRef} 
+            className="bg-white text-slate-900 font-sans"
+          >
+            {/* Block 1: Header */}
+            <div className="print-item p-10 pb-4">
+              <div className="border-b-2 border-slate-900 pb-4 flex justify-between items-end">
+                <div>
+                  <h1 className="text-2xl font-bold text-blue-800 uppercase">Gia Sư Thông Minh</h1>
+                  <p className="text-sm text-slate-600">Hỗ trợ học tập bằng AI</p>
+                </div>
+                <p className="text-xs text-slate-500">Ngày tạo: {new Date().toLocaleDateString('vi-VN')}</p>
               </div>
-              <p className="text-xs text-slate-500">Ngày tạo: {new Date().toLocaleDateString('vi-VN')}</p>
             </div>
-          </div>
-
-          {/* Block 2: Original Content */}
-          <div className="print-item px-10 mb-4">
-             <h2 className="text-lg font-bold bg-slate-100 p-2 border-l-4 border-blue-600 mb-4 uppercase">
-              1. Nội dung tài liệu
-            </h2>
-            {fileData && fileData.mimeType.startsWith('image/') ? (
-               <div className="flex justify-center mb-4">
-                 <img src={fileData.previewUrl} alt="Original" className="max-w-full object-contain" />
-               </div>
-            ) : (
-              <div className="text-sm leading-relaxed whitespace-pre-wrap text-justify">
-                <ScientificText text={script} />
-              </div>
-            )}
-          </div>
 
-          {/* Block 3: Solutions Header */}
-          {solutions.length > 0 && (
-            <div className="print-item px-10 mb-2">
-               <h2 className="text-lg font-bold bg-slate-100 p-2 border-l-4 border-emerald-600 mb-2 uppercase">
-                2. Lời giải & Đáp án
+            {/* Block 2: Original Content */}
+            <div className="print-item px-10 mb-4">
+               <h2 className="text-lg font-bold bg-slate-100 p-2 border-l-4 border-blue-600 mb-4 uppercase">
+                1. Nội dung tài liệu
               </h2>
+              {fileData && fileData.mimeType.startsWith('image/') ? (
+                 <div className="flex justify-center mb-4">
+                   <img src={fileData.previewUrl} alt="Original" className="max-w-full object-contain" />
+                 </div>
+              ) : (
+                <div className="text-sm leading-relaxed whitespace-pre-wrap text-justify">
+                  <ScientificText text={script} />
+                </div>
+              )}
             </div>
-          )}
 
-          {/* Block 4...N: Individual Solutions */}
-          {solutions.map((item, idx) => (
-            <div key={idx} className="print-item px-10 mb-4">
-              <div className="border border-slate-200 rounded-lg p-4 bg-slate-50">
-                <div className="font-bold text-blue-700 text-sm mb-2 border-b border-slate-200 pb-1">
-                  Bài {idx + 1}
-                </div>
+            {/* Block 3: Solutions Header */}
+            {solutions.length > 0 && (
+              <div className="print-item px-10 mb-2">
+                 <h2 className="text-lg font-bold bg-slate-100 p-2 border-l-4 border-emerald-600 mb-2 uppercase">
+                  2. Lời giải & Đáp án
+                </h2>
+              </div>
+            )}
+
+            {/* Block 4...N: Individual Solutions */}
+            {solutions.map((item, idx) => (
+              <div key={idx} className="print-item px-10 mb-4">
+                <div className="border border-slate-200 rounded-lg p-4 bg-slate-50">
+                  <div className="font-bold text-blue-700 text-sm mb-2 border-b border-slate-200 pb-1">
+                    Bài {idx + 1}{pageRefLabel(item)}
+                  </div>
                 
-                <div className="text-sm italic text-slate-600 mb-3 pl-3 border-l-2 border-slate-300 bg-white p-2 rounded">
-                  <span className="font-semibold text-slate-500 text-xs uppercase block mb-1">Đề bài:</span>
-                  <ScientificText text={item.questionDisplay} />
-                </div>
+                  <div className="text-sm italic text-slate-600 mb-3 pl-3 border-l-2 border-slate-300 bg-white p-2 rounded">
+                    <span className="font-semibold text-slate-500 text-xs uppercase block mb-1">Đề bài:</span>
+                    <ScientificText text={item.questionDisplay} />
+                  </div>
                 
-                <div className="text-sm font-medium text-slate-900 whitespace-pre-wrap leading-relaxed">
-                   <span className="font-semibold text-emerald-600 text-xs uppercase block mb-1">Lời giải:</span>
-                  <ScientificText text={item.solutionDisplay} />
-                </div>
+                  <div className="text-sm font-medium text-slate-900 whitespace-pre-wrap leading-relaxed">
+                     <span className="font-semibold text-emerald-600 text-xs uppercase block mb-1">Lời giải:</span>
+                    <ScientificText text={item.solutionDisplay} />
+                  </div>
                 
-                {item.illustrationImage && (
-                   <div className="mt-4 flex flex-col items-center bg-white border border-slate-200 rounded p-2">
-                      <span className="text-[10px] text-slate-500 mb-1 uppercase tracking-wide w-full text-center border-b pb-1">Minh họa (AI Generated)</span>
-                      <div className="w-full flex justify-center mt-1">
-                         <img 
-                           src={`data:image/png;base64,${item.illustrationImage}`}
-                           alt="Illustration"
-                           className="max-h-[250px] object-contain"
-                         />
-                      </div>
-                   </div>
-                )}
+                  {getRenderableStructures(item).length > 0 && (
+                     <div className="mt-4 flex flex-col items-center bg-white border border-slate-200 rounded p-2">
+                        <span className="text-[10px] text-slate-500 mb-1 uppercase tracking-wide w-full text-center border-b pb-1">Công thức cấu tạo</span>
+                        <div className="w-full flex flex-wrap justify-center gap-4 mt-1">
+                           {getRenderableStructures(item).map((structure, i) => <StructureDiagram key={i} structure={structure} maxHeight={250} />)}
+                        </div>
+                     </div>
+                  )}
+
+                  {item.illustrationImage && !isReplacedByStructures(item) && (
+                     <div className="mt-4 flex flex-col items-center bg-white border border-slate-200 rounded p-2">
+                        <span className="text-[10px] text-slate-500 mb-1 uppercase tracking-wide w-full text-center border-b pb-1">Minh họa (AI Generated)</span>
+                        <div className="w-full flex justify-center mt-1">
+                           <img 
+                             src={`data:image/png;base64,${item.illustrationImage}`}
+                             alt="Illustration"
+                             className="max-h-[250px] object-contain"
+                           />
+                        </div>
+                     </div>
+                  )}
+                </div>
               </div>
-            </div>
-          ))}
+            ))}
 
-          {/* Block Final: Footer */}
-          <div className="print-item p-10 pt-4">
-            <div className="border-t border-slate-200 pt-2 text-center text-xs text-slate-400">
-              Tài liệu được tạo tự động bởi ứng dụng Gia Sư Thông Minh - THPT Đào Duy Từ
+            {/* Block Final: Footer */}
+            <div className="print-item p-10 pt-4">
+              <div className="border-t border-slate-200 pt-2 text-center text-xs text-slate-400">
+                Tài liệu được tạo tự động bởi ứng dụng Gia Sư Thông Minh - THPT Đào Duy Từ
+              </div>
             </div>
           </div>
         </div>
-      </div>
 
-      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
         
-        {/* Main Display Section (Image/PDF/Text) */}
-        <div className="bg-slate-800 rounded-xl border border-slate-700 shadow-xl overflow-hidden flex flex-col h-[500px]">
-          <div className="p-4 border-b border-slate-700 bg-slate-900/50 flex justify-between items-center sticky top-0 z-10">
-            <h3 className="font-semibold text-white flex items-center truncate max-w-[200px]">
-              {isShowingSolution ? <BrainCircuit className="w-4 h-4 mr-2 text-emerald-400" /> : <ImageIcon className="w-4 h-4 mr-2 text-blue-400" />}
-              {activeTitle}
-            </h3>
-            {isShowingSolution ? (
-              <button 
-                onClick={handleBackToOriginal}
-                className="flex items-center px-3 py-1.5 rounded bg-slate-700 hover:bg-slate-600 text-xs text-white transition-colors"
-              >
-                <ArrowLeft className="w-3 h-3 mr-1" />
-                Xem tài liệu gốc
-              </button>
-            ) : (
-              <span className="text-xs text-slate-500 uppercase tracking-wider">Tài liệu gốc</span>
-            )}
-          </div>
-          <div className="p-6 overflow-y-auto flex-1 bg-slate-900/30 scroll-smooth">
-             {renderMainContent()}
-          </div>
-        </div>
-
-        {/* Player Controls Section */}
-        <div className="flex flex-col space-y-4">
-          <div className={`
-            bg-gradient-to-br rounded-xl border border-slate-700 p-6 shadow-xl flex flex-col items-center justify-center min-h-[200px] relative overflow-hidden flex-1 transition-colors duration-500
-            ${isShowingSolution ? 'from-emerald-900 to-slate-900' : 'from-indigo-900 to-slate-900'}
-          `}>
-            {/* Background decoration */}
-            <div className="absolute top-0 left-0 w-full h-full opacity-20 pointer-events-none">
-              <div className={`absolute w-32 h-32 rounded-full blur-3xl -top-10 -left-10 ${isShowingSolution ? 'bg-emerald-500' : 'bg-blue-500'}`}></div>
-              <div className={`absolute w-32 h-32 rounded-full blur-3xl bottom-0 right-0 ${isShowingSolution ? 'bg-teal-500' : 'bg-purple-500'}`}></div>
+          {/* Main Display Section (Image/PDF/Text) */}
+          <div className="bg-slate-800 rounded-xl border border-slate-700 shadow-xl overflow-hidden flex flex-col h-[500px]">
+            <div className="p-4 border-b border-slate-700 bg-slate-900/50 flex justify-between items-center sticky top-0 z-10">
+              <h3 className="font-semibold text-white flex items-center truncate max-w-[200px]">
+                {isShowingSolution ? <BrainCircuit className="w-4 h-4 mr-2 text-emerald-400" /> : <ImageIcon className="w-4 h-4 mr-2 text-blue-400" />}
+                {activeTitle}
+              </h3>
+              {isShowingSolution ? (
+                <button 
+                  onClick={handleBackToOriginal}
+                  className="flex items-center px-3 py-1.5 rounded bg-slate-700 hover:bg-slate-600 text-xs text-white transition-colors"
+                >
+                  <ArrowLeft className="w-3 h-3 mr-1" />
+                  Xem tài liệu gốc
+                </button>
+              ) : hasOriginalView ? (
+                <button
+                  onClick={() => setShowTranscript(!showTranscript)}
+                  className="flex items-center px-3 py-1.5 rounded bg-slate-700 hover:bg-slate-600 text-xs text-white transition-colors"
+                >
+                  <FileTextIcon className="w-3 h-3 mr-1" />
+                  {showTranscript ? 'Xem tài liệu gốc' : 'Xem bản chép'}
+                </button>
+              ) : (
+                <span className="text-xs text-slate-500 uppercase tracking-wider">Tài liệu gốc</span>
+              )}
+            </div>
+            <div className="p-6 overflow-y-auto flex-1 bg-slate-900/30 scroll-smooth">
+               {renderMainContent()}
             </div>
+          </div>
 
-            {/* Visualizer Circle */}
+          {/* Player Controls Section */}
+          <div className="flex flex-col space-y-4">
             <div className={`
-              w-32 h-32 rounded-full flex items-center justify-center border-4 relative mb-6 transition-all duration-300 
-              ${isPlaying 
-                ? (isShowingSolution ? 'border-emerald-400 shadow-[0_0_30px_rgba(16,185,129,0.5)] scale-105' : 'border-blue-400 shadow-[0_0_30px_rgba(59,130,246,0.5)] scale-105')
-                : 'border-slate-600'
-              }
+              bg-gradient-to-br rounded-xl border border-slate-700 p-6 shadow-xl flex flex-col items-center justify-center min-h-[200px] relative overflow-hidden flex-1 transition-colors duration-500
+              ${isShowingSolution ? 'from-emerald-900 to-slate-900' : 'from-indigo-900 to-slate-900'}
             `}>
-              <div className={`absolute inset-0 rounded-full blur-xl transition-opacity duration-300 ${isShowingSolution ? 'bg-emerald-500/20' : 'bg-blue-500/20'} ${isPlaying ? 'opacity-100' : 'opacity-0'}`}></div>
-              <Volume2 className={`w-12 h-12 ${isPlaying ? 'text-white' : 'text-slate-500'}`} />
-            </div>
+              {/* Background decoration */}
+              <div className="absolute top-0 left-0 w-full h-full opacity-20 pointer-events-none">
+                <div className={`absolute w-32 h-32 rounded-full blur-3xl -top-10 -left-10 ${isShowingSolution ? 'bg-emerald-500' : 'bg-blue-500'}`}></div>
+                <div className={`absolute w-32 h-32 rounded-full blur-3xl bottom-0 right-0 ${isShowingSolution ? 'bg-teal-500' : 'bg-purple-500'}`}></div>
+              </div>
+
+              {/* Visualizer Circle */}
+              <div className={`
+                w-32 h-32 rounded-full flex items-center justify-center border-4 relative mb-6 transition-all duration-300 
+                ${isPlaying 
+                  ? (isShowingSolution ? 'border-emerald-400 shadow-[0_0_30px_rgba(16,185,129,0.5)] scale-105' : 'border-blue-400 shadow-[0_0_30px_rgba(59,130,246,0.5)] scale-105')
+                  : 'border-slate-600'
+                }
+              `}>
+                <div className={`absolute inset-0 rounded-full blur-xl transition-opacity duration-300 ${isShowingSolution ? 'bg-emerald-500/20' : 'bg-blue-500/20'} ${isPlaying ? 'opacity-100' : 'opacity-0'}`}></div>
+                <Volume2 className={`w-12 h-12 ${isPlaying ? 'text-white' : 'text-slate-500'}`} />
+              </div>
 
-            {/* Hidden Audio Element */}
-            <audio
-              ref={audioRef}
-              src={activeAudioUrl || undefined}
-              onTimeUpdate={handleTimeUpdate}
-              onEnded={handleEnded}
-              className="hidden"
-            />
-
-            <div className="w-full space-y-2 z-10">
-              <input
-                type="range"
-                value={progress}
-                onChange={handleSeek}
-                className={`w-full h-2 bg-slate-700 rounded-lg appearance-none cursor-pointer hover:accent-opacity-80
-                   ${isShowingSolution ? 'accent-emerald-500' : 'accent-blue-500'}
-                `}
+              {/* Hidden Audio Element */}
+              <audio
+                ref={audioRef}
+                src={currentUrl}
+                onTimeUpdate={handleTimeUpdate}
+                onLoadedMetadata={handleLoadedMetadata}
+                onEnded={handleEnded}
+                className="hidden"
               />
-              <div className="flex justify-between text-xs text-slate-400 font-mono">
-                <span>{audioRef.current ? formatTime(audioRef.current.currentTime) : "00:00"}</span>
-                <span>{audioRef.current ? formatTime(audioRef.current.duration) : "00:00"}</span>
+
+              <div className="w-full space-y-2 z-10">
+                <input
+                  type="range"
+                  value={totalDuration ? (currentTime / totalDuration) * 100 : 0}
+                  onChange={handleSeek}
+                  className={`w-full h-2 bg-slate-700 rounded-lg appearance-none cursor-pointer hover:accent-opacity-80
+                     ${isShowingSolution ? 'accent-emerald-500' : 'accent-blue-500'}
+                  `}
+                />
+                <div className="flex justify-between text-xs text-slate-400 font-mono">
+                  <span>{formatTime(currentTime)}</span>
+                  <span>{formatTime(totalDuration)}</span>
+                </div>
+              </div>
+
+              <div className="flex items-center space-x-6 mt-6 z-10">
+                <button
+                  onClick={togglePlay}
+                  className={`w-14 h-14 bg-white rounded-full flex items-center justify-center hover:scale-105 transition-transform shadow-lg shadow-white/10
+                    ${isShowingSolution ? 'text-emerald-900' : 'text-indigo-900'}
+                  `}
+                >
+                  {isPlaying ? <Pause fill="currentColor" /> : <Play fill="currentColor" className="ml-1" />}
+                </button>
+                <button
+                  onClick={() => setShowSpeechSettings(!showSpeechSettings)}
+                  className={`p-2.5 rounded-full border transition-colors ${
+                    showSpeechSettings ? 'bg-white/20 border-white/40 text-white' : 'border-slate-600 text-slate-400 hover:text-white'
+                  }`}
+                  title="Giọng đọc & tốc độ"
+                >
+                  <Settings2 className="w-5 h-5" />
+                </button>
               </div>
+
+              {canCreateNarration && (
+                <button
+                  onClick={handleCreateNarration}
+                  disabled={isCreatingNarration}
+                  className="mt-4 z-10 flex items-center px-4 py-2 rounded-lg bg-indigo-600 hover:bg-indigo-500 text-white text-xs font-medium transition-colors disabled:opacity-60"
+                >
+                  {isCreatingNarration ? <Loader2 className="w-3 h-3 mr-2 animate-spin" /> : <Volume2 className="w-3 h-3 mr-2" />}
+                  {isCreatingNarration ? 'Đang tạo giọng đọc...' : `Tạo giọng đọc (${voice.voiceName})`}
+                </button>
+              )}
+
+              {showSpeechSettings && (
+                <div className="mt-4 w-full">
+                  <SpeechSettings
+                    voice={voice}
+                    onVoiceChange={setVoice}
+                    playbackRate={playbackRate}
+                    onPlaybackRateChange={handlePlaybackRateChange}
+                    subjectLabel={subjectProfile.label}
+                    subjectVoice={subjectVoice}
+                    onSaveSubjectVoice={handleSaveSubjectVoice}
+                  />
+                </div>
+              )}
             </div>
 
-            <div className="flex items-center space-x-6 mt-6 z-10">
-              <button
-                onClick={togglePlay}
-                className={`w-14 h-14 bg-white rounded-full flex items-center justify-center hover:scale-105 transition-transform shadow-lg shadow-white/10
-                  ${isShowingSolution ? 'text-emerald-900' : 'text-indigo-900'}
-                `}
+            <div className="grid grid-cols-2 gap-3">
+               <button
+                onClick={onReset}
+                className="col-span-1 bg-slate-800 hover:bg-slate-700 text-slate-300 py-3 rounded-lg font-medium transition-colors flex items-center justify-center text-sm"
               >
-                {isPlaying ? <Pause fill="currentColor" /> : <Play fill="currentColor" className="ml-1" />}
+                <RefreshCw className="w-4 h-4 mr-2" />
+                Làm mới
               </button>
-            </div>
-          </div>
-
-          <div className="grid grid-cols-2 gap-3">
-             <button
-              onClick={onReset}
-              className="col-span-1 bg-slate-800 hover:bg-slate-700 text-slate-300 py-3 rounded-lg font-medium transition-colors flex items-center justify-center text-sm"
-            >
-              <RefreshCw className="w-4 h-4 mr-2" />
-              Làm mới
-            </button>
             
-            {activeAudioUrl && (
-              <a
-                href={activeAudioUrl}
-                download={`vietreader-${isShowingSolution ? 'solution' : 'content'}.wav`}
-                className="col-span-1 bg-slate-800 hover:bg-slate-700 text-slate-300 py-3 rounded-lg font-medium transition-colors flex items-center justify-center text-sm"
+              {activeSegments.length > 0 && (
+                <button
+                  onClick={handleDownloadAudio}
+                  className="col-span-1 bg-slate-800 hover:bg-slate-700 text-slate-300 py-3 rounded-lg font-medium transition-colors flex items-center justify-center text-sm"
+                >
+                  <Download className="w-4 h-4 mr-2" />
+                  Audio
+                </button>
+              )}
+
+              {/* WORD DOWNLOAD BUTTON */}
+              <button
+                onClick={handleDownloadWord}
+                disabled={isGeneratingWord}
+                className="col-span-1 bg-blue-700 hover:bg-blue-600 text-white py-3 rounded-lg font-medium transition-all shadow-lg flex items-center justify-center text-sm"
               >
-                <Download className="w-4 h-4 mr-2" />
-                Audio
-              </a>
-            )}
+                {isGeneratingWord ? (
+                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                ) : (
+                  <FileTextIcon className="w-4 h-4 mr-2" />
+                )}
+                {isGeneratingWord ? "Đang tạo..." : "Tải Word (.docx)"}
+              </button>
 
-            {/* WORD DOWNLOAD BUTTON */}
-            <button
-              onClick={handleDownloadWord}
-              disabled={isGeneratingWord}
-              className="col-span-1 bg-blue-700 hover:bg-blue-600 text-white py-3 rounded-lg font-medium transition-all shadow-lg flex items-center justify-center text-sm"
-            >
-              {isGeneratingWord ? (
-                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
-              ) : (
-                <FileTextIcon className="w-4 h-4 mr-2" />
-              )}
-              {isGeneratingWord ? "Đang tạo..." : "Tải Word (.docx)"}
-            </button>
-
-            {/* PDF DOWNLOAD BUTTON */}
-            <button
-              onClick={handleDownloadPDF}
-              disabled={isGeneratingPDF}
-              className="col-span-1 bg-gradient-to-r from-red-600 to-rose-600 hover:from-red-500 hover:to-rose-500 text-white py-3 rounded-lg font-medium transition-all shadow-lg flex items-center justify-center text-sm"
-            >
-              {isGeneratingPDF ? (
-                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
-              ) : (
-                <Printer className="w-4 h-4 mr-2" />
-              )}
-              {isGeneratingPDF ? "Đang tạo..." : "Tải PDF"}
-            </button>
+              {/* PDF DOWNLOAD BUTTON */}
+              <button
+                onClick={handleDownloadPDF}
+                disabled={isGeneratingPDF}
+                className="col-span-1 bg-gradient-to-r from-red-600 to-rose-600 hover:from-red-500 hover:to-rose-500 text-white py-3 rounded-lg font-medium transition-all shadow-lg flex items-center justify-center text-sm"
+              >
+                {isGeneratingPDF ? (
+                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                ) : (
+                  <Printer className="w-4 h-4 mr-2" />
+                )}
+                {isGeneratingPDF ? "Đang tạo..." : "Tải PDF"}
+              </button>
+            </div>
           </div>
         </div>
-      </div>
 
-      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-        {/* YouTube Recommendations Section */}
-        {relatedVideos.length > 0 && (
-          <div className="bg-slate-800 rounded-xl border border-slate-700 shadow-xl p-6">
-            <h3 className="font-semibold text-white flex items-center mb-4 text-lg">
-              <Youtube className="w-6 h-6 mr-2 text-red-500" />
-              Video tham khảo trên Youtube
-            </h3>
-            <div className="flex flex-col space-y-3">
-              {relatedVideos.map((v, i) => (
-                <a 
-                  key={i} 
-                  href={`https://www.youtube.com/results?search_query=${encodeURIComponent(v.query)}`}
-                  target="_blank"
-                  rel="noreferrer"
-                  className="flex items-center p-3 rounded-lg bg-slate-900/50 hover:bg-slate-700 border border-slate-700 hover:border-blue-500/50 transition-all group"
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          {/* YouTube Recommendations Section */}
+          {relatedVideos.length > 0 && (
+            <div className="bg-slate-800 rounded-xl border border-slate-700 shadow-xl p-6">
+              <h3 className="font-semibold text-white flex items-center mb-4 text-lg">
+                <Youtube className="w-6 h-6 mr-2 text-red-500" />
+                Video tham khảo trên Youtube
+              </h3>
+              <div className="flex flex-col space-y-3">
+                {relatedVideos.map((v, i) => (
+                  <a 
+                    key={i} 
+                    href={`https://www.youtube.com/results?search_query=${encodeURIComponent(v.query)}`}
+                    target="_blank"
+                    rel="noreferrer"
+                    className="flex items-center p-3 rounded-lg bg-slate-900/50 hover:bg-slate-700 border border-slate-700 hover:border-blue-500/50 transition-all group"
+                  >
+                    <div className="bg-red-500/10 p-2.5 rounded-full mr-3 group-hover:bg-red-500/20 shrink-0">
+                      <Play className="w-4 h-4 text-red-500 fill-current ml-0.5" />
+                    </div>
+                    <div>
+                      <p className="font-medium text-slate-200 text-sm group-hover:text-blue-400 transition-colors">{v.title}</p>
+                      <p className="text-xs text-slate-500 mt-1">Tìm kiếm: "{v.query}"</p>
+                    </div>
+                  </a>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* AI Solutions Section */}
+          {solutions.length > 0 && (
+            <div className="bg-slate-800 rounded-xl border border-slate-700 shadow-xl p-6">
+              <h3 className="font-semibold text-white flex items-center mb-4 text-lg">
+                <BrainCircuit className="w-6 h-6 mr-2 text-emerald-500" />
+                Gia Sư AI - Lời Giải Chi Tiết
+                <span className="ml-3 px-2 py-0.5 rounded-full text-xs font-medium bg-slate-700 text-slate-300">{subjectProfile.label}</span>
+              </h3>
+              <div className="flex flex-wrap items-center gap-2 mb-4">
+                <button
+                  onClick={() => setPracticeMode(!practiceMode)}
+                  className={`flex items-center px-3 py-1.5 rounded text-xs text-white transition-colors ${practiceMode ? 'bg-blue-600 hover:bg-blue-500' : 'bg-slate-700 hover:bg-slate-600'}`}
                 >
-                  <div className="bg-red-500/10 p-2.5 rounded-full mr-3 group-hover:bg-red-500/20 shrink-0">
-                    <Play className="w-4 h-4 text-red-500 fill-current ml-0.5" />
-                  </div>
-                  <div>
-                    <p className="font-medium text-slate-200 text-sm group-hover:text-blue-400 transition-colors">{v.title}</p>
-                    <p className="text-xs text-slate-500 mt-1">Tìm kiếm: "{v.query}"</p>
-                  </div>
-                </a>
-              ))}
+                  <PencilLine className="w-3 h-3 mr-1" />
+                  Luyện tập
+                </button>
+                {practiceMode && practiceSummary.gradable > 0 && (
+                  <span className="text-xs text-slate-400">
+                    Đã làm {practiceSummary.answered}/{practiceSummary.gradable} bài · Điểm {practiceSummary.score.toLocaleString('vi-VN', { maximumFractionDigits: 2 })}/{practiceSummary.gradable}
+                  </span>
+                )}
+              </div>
+              <p className="text-slate-400 text-sm mb-4">
+                {practiceMode
+                  ? 'Mở từng bài để tự làm, lời giải hiện ra khi em trả lời đúng hoặc chọn xem lời giải.'
+                  : <>Nhấn vào biểu tượng loa để nghe lời giải chi tiết{subjectProfile.id === Subject.CHEMISTRY && ' (Có danh pháp Anh-Việt)'}.</>}
+              </p>
+              <div className="max-h-[300px] overflow-y-auto pr-2 custom-scrollbar">
+                 {solutions.map((item, index) => (
+                   <SolutionCard 
+                     key={index} 
+                     item={item} 
+                     index={index} 
+                     showPageRef={showPageRefs}
+                     isHighlighted={index === highlightedIndex}
+                     onSelect={() => handleSelectSolution(index)}
+                     voice={voice}
+                     onPlayRequest={handlePlaySolution}
+                     onUpdate={(update) => onUpdateSolution(index, update)}
+                     practiceMode={practiceMode}
+                     subject={subject}
+                     onAskTutor={onAskTutor && ((question) => onAskTutor(question, index))}
+                   />
+                 ))}
+              </div>
             </div>
-          </div>
-        )}
+          )}
 
-        {/* AI Solutions Section */}
-        {solutions.length > 0 && (
-          <div className="bg-slate-800 rounded-xl border border-slate-700 shadow-xl p-6">
-            <h3 className="font-semibold text-white flex items-center mb-4 text-lg">
-              <BrainCircuit className="w-6 h-6 mr-2 text-emerald-500" />
-              Gia Sư AI - Lời Giải Chi Tiết
-            </h3>
-            <p className="text-slate-400 text-sm mb-4">Nhấn vào biểu tượng loa để nghe lời giải chi tiết (Có danh pháp Anh-Việt).</p>
-            <div className="max-h-[300px] overflow-y-auto pr-2 custom-scrollbar">
-               {solutions.map((item, index) => (
-                 <SolutionCard 
-                   key={index} 
-                   item={item} 
-                   index={index} 
-                   onPlayRequest={handlePlaySolution}
-                 />
-               ))}
+          {/* Follow-up questions about the whole lesson */}
+          {onAskTutor && (
+            <div className="bg-slate-800 rounded-xl border border-slate-700 shadow-xl p-6">
+              <h3 className="font-semibold text-white flex items-center mb-4 text-lg">
+                <MessageCircle className="w-6 h-6 mr-2 text-blue-400" />
+                Hỏi Gia Sư
+              </h3>
+              <div className="max-h-[400px] overflow-y-auto pr-2 custom-scrollbar">
+                <TutorChat
+                  messages={chat ?? []}
+                  onAsk={(question) => onAskTutor(question)}
+                  voice={voice}
+                  onPlayRequest={handlePlaySolution}
+                  placeholder="Hỏi gia sư về bài học này..."
+                />
+              </div>
             </div>
-          </div>
-        )}
+          )}
+        </div>
       </div>
-    </div>
+    </RenderOptionsContext.Provider>
   );
 };
 
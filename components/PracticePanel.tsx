@@ -0,0 +1,153 @@
+import React, { useState } from 'react';
+import { Check, Lightbulb, Eye, RotateCcw } from 'lucide-react';
+import { AnswerKind, FinalAnswer, PracticeAttempt, SolutionItem } from '../types';
+import { formatFinalAnswer, getOptionLabel, gradeAnswer, scoreAttempt, stripOptionLabel } from '../services/practice';
+import ScientificText from './ScientificText';
+
+interface PracticePanelProps {
+  item: SolutionItem;
+  answer: FinalAnswer; // The item's gradable final answer
+  onUpdate: (update: (item: SolutionItem) => SolutionItem) => void; // Persists the attempt
+}
+
+const EMPTY_ATTEMPT: Omit<PracticeAttempt, 'score'> = {
+  answer: '',
+  correct: false,
+  attempts: 0,
+  hintsUsed: 0,
+  revealed: false,
+  answeredAt: 0,
+};
+
+/**
+ * Answer a question before seeing its solution: checked locally, with graded hints
+ */
+const PracticePanel: React.FC<PracticePanelProps> = ({ item, answer, onUpdate }) => {
+  const attempt = item.practice ?? scoreAttempt(EMPTY_ATTEMPT);
+  const [input, setInput] = useState(attempt.answer);
+  const [feedback, setFeedback] = useState<string | null>(null);
+  const hints = item.hints ?? [];
+  const isDone = attempt.correct || attempt.revealed;
+
+  const saveAttempt = (patch: Partial<PracticeAttempt>) => {
+    onUpdate(current => {
+      const { score: _score, ...previous } = current.practice ?? scoreAttempt(EMPTY_ATTEMPT);
+      return { ...current, practice: scoreAttempt({ ...previous, ...patch, answeredAt: Date.now() }) };
+    });
+  };
+
+  const handleCheck = () => {
+    if (!input.trim()) return;
+    const grade = gradeAnswer(answer, input);
+    setFeedback(grade.message);
+    saveAttempt({ answer: input, correct: grade.correct, attempts: attempt.attempts + 1 });
+  };
+
+  const handleRestart = () => {
+    setInput('');
+    setFeedback(null);
+    onUpdate(current => ({ ...current, practice: undefined }));
+  };
+
+  return (
+    <div className="mt-4 space-y-3 text-sm" onClick={(e) => e.stopPropagation()}>
+      {answer.kind === AnswerKind.CHOICE ? (
+        <div className="space-y-2">
+          {answer.options?.map((option, i) => (
+            <label
+              key={i}
+              className={`flex items-start space-x-2 p-2 rounded border cursor-pointer transition-colors ${
+                input === String(i) ? 'border-blue-500/60 bg-blue-500/10' : 'border-slate-700 hover:bg-slate-800'
+              }`}
+            >
+              <input
+                type="radio"
+                checked={input === String(i)}
+                onChange={() => setInput(String(i))}
+                disabled={isDone}
+                className="accent-blue-500 mt-0.5"
+              />
+              <span className="text-slate-200">
+                <span className="font-semibold mr-1">{getOptionLabel(i)}.</span>
+                <ScientificText text={stripOptionLabel(option)} />
+              </span>
+            </label>
+          ))}
+        </div>
+      ) : (
+        <div className="flex items-center gap-2">
+          <input
+            value={input}
+            onChange={(e) => setInput(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && !isDone && handleCheck()}
+            disabled={isDone}
+            placeholder={answer.kind === AnswerKind.NUMERIC ? `Nhập kết quả${answer.unit ? ` (${answer.unit})` : ''}...` : 'Nhập đáp án...'}
+            className="flex-1 bg-slate-900 border border-slate-700 rounded px-3 py-2 text-slate-200 placeholder-slate-600 focus:border-blue-500 focus:outline-none"
+          />
+          {answer.kind === AnswerKind.NUMERIC && answer.unit && <span className="text-slate-400">{answer.unit}</span>}
+        </div>
+      )}
+
+      {feedback && (
+        <p className={attempt.correct ? 'text-emerald-400' : 'text-amber-400'}>{feedback}</p>
+      )}
+
+      {hints.slice(0, attempt.hintsUsed).map((hint, i) => (
+        <div key={i} className="flex items-start p-2 rounded bg-amber-500/10 border border-amber-500/20 text-amber-200">
+          <Lightbulb className="w-4 h-4 mr-2 mt-0.5 shrink-0" />
+          <ScientificText text={hint} />
+        </div>
+      ))}
+
+      {isDone && (
+        <p className="text-slate-400">
+          Đáp án: <span className="text-slate-200 font-medium"><ScientificText text={formatFinalAnswer(answer)} /></span>
+          {' · '}Điểm: <span className="font-mono">{Math.round(attempt.score * 100)}%</span>
+        </p>
+      )}
+
+      <div className="flex flex-wrap gap-2">
+        {!isDone && (
+          <>
+            <button
+              onClick={handleCheck}
+              disabled={!input.trim()}
+              className="flex items-center px-3 py-1.5 rounded bg-blue-600 hover:bg-blue-500 text-xs text-white transition-colors disabled:opacity-50"
+            >
+              <Check className="w-3 h-3 mr-1" />
+              Kiểm tra
+            </button>
+            {hints.length > 0 && (
+              <button
+                onClick={() => saveAttempt({ hintsUsed: attempt.hintsUsed + 1 })}
+                disabled={attempt.hintsUsed >= hints.length}
+                className="flex items-center px-3 py-1.5 rounded bg-slate-700 hover:bg-slate-600 text-xs text-white transition-colors disabled:opacity-50"
+              >
+                <Lightbulb className="w-3 h-3 mr-1" />
+                Gợi ý ({attempt.hintsUsed}/{hints.length})
+              </button>
+            )}
+            <button
+              onClick={() => saveAttempt({ revealed: true })}
+              className="flex items-center px-3 py-1.5 rounded bg-slate-700 hover:bg-slate-600 text-xs text-white transition-colors"
+            >
+              <Eye className="w-3 h-3 mr-1" />
+              Xem lời giải
+            </button>
+          </>
+        )}
+        {item.practice && (
+          <button
+            onClick={handleRestart}
+            className="flex items-center px-3 py-1.5 rounded bg-slate-700 hover:bg-slate-600 text-xs text-white transition-colors"
+          >
+            <RotateCcw className="w-3 h-3 mr-1" />
+            Làm lại
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PracticePanel;
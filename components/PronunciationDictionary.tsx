@@ -0,0 +1,73 @@
+import React, { useState } from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import { PronunciationEntry, loadCustomPronunciations, saveCustomPronunciations } from '../services/pronunciation';
+
+// Custom readings added on top of the built-in pronunciation dictionary
+const PronunciationDictionary: React.FC = () => {
+  const [entries, setEntries] = useState<PronunciationEntry[]>(loadCustomPronunciations);
+  const [display, setDisplay] = useState('');
+  const [reading, setReading] = useState('');
+
+  const updateEntries = (next: PronunciationEntry[]) => {
+    setEntries(next);
+    saveCustomPronunciations(next);
+  };
+
+  const handleAdd = () => {
+    const entry = { display: display.trim(), reading: reading.trim() };
+    if (!entry.display || !entry.reading) return;
+    // Adding an existing notation replaces its reading
+    updateEntries([...entries.filter(e => e.display !== entry.display), entry]);
+    setDisplay('');
+    setReading('');
+  };
+
+  const inputClass = "min-w-0 flex-1 bg-slate-800 border border-slate-700 rounded px-2 py-1.5 text-xs text-slate-200 placeholder-slate-600 focus:outline-none focus:border-blue-500";
+
+  return (
+    <div className="space-y-1.5">
+      <span className="block text-xs uppercase tracking-wider text-slate-500">Từ điển phát âm</span>
+      {entries.length > 0 && (
+        <ul className="max-h-32 overflow-y-auto space-y-1">
+          {entries.map(entry => (
+            <li key={entry.display} className="flex items-center justify-between gap-2 px-2 py-1 rounded bg-slate-800/60 text-xs">
+              <span className="truncate">
+                <span className="font-mono text-slate-200">{entry.display}</span>
+                <span className="text-slate-500"> → </span>
+                <span className="text-slate-300">{entry.reading}</span>
+              </span>
+              <button
+                onClick={() => updateEntries(entries.filter(e => e.display !== entry.display))}
+                className="p-1 text-slate-500 hover:text-red-400 transition-colors shrink-0"
+                title="Xóa"
+              >
+                <Trash2 className="w-3.5 h-3.5" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+      <div className="flex items-center gap-2">
+        <input value={display} onChange={(e) => setDisplay(e.target.value)} placeholder="Ký hiệu, vd: NaClO" className={inputClass} />
+        <input
+          value={reading}
+          onChange={(e) => setReading(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && handleAdd()}
+          placeholder="Cách đọc, vd: Sodium Hypochlorite"
+          className={inputClass}
+        />
+        <button
+          onClick={handleAdd}
+          disabled={!display.trim() || !reading.trim()}
+          className="p-1.5 rounded bg-blue-600 hover:bg-blue-500 text-white transition-colors disabled:opacity-50 shrink-0"
+          title="Thêm"
+        >
+          <Plus className="w-3.5 h-3.5" />
+        </button>
+      </div>
+      <p className="text-xs text-slate-500">Áp dụng cho các bản đọc tạo mới.</p>
+    </div>
+  );
+};
+
+export default PronunciationDictionary;
@@ -0,0 +1,130 @@
+import React, { useRef, useState } from 'react';
+import { X, SquareDashedMousePointer } from 'lucide-react';
+import { SourceRegion } from '../types';
+
+interface RegionSelectorProps {
+  imageUrl: string;
+  initialRegions?: SourceRegion[];
+  onDone: (regions: SourceRegion[]) => void;
+  onCancel: () => void;
+}
+
+// Ignore accidental clicks: a region must cover at least 2% of each side
+const MIN_REGION_SIZE = 0.02;
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+
+const RegionSelector: React.FC<RegionSelectorProps> = ({ imageUrl, initialRegions = [], onDone, onCancel }) => {
+  const [regions, setRegions] = useState<SourceRegion[]>(initialRegions);
+  const [draft, setDraft] = useState<SourceRegion | null>(null);
+
+  const frameRef = useRef<HTMLDivElement>(null);
+  const dragStartRef = useRef<{ x: number; y: number } | null>(null);
+
+  const getRelativePoint = (e: React.PointerEvent) => {
+    const rect = frameRef.current!.getBoundingClientRect();
+    return { x: clamp01((e.clientX - rect.left) / rect.width), y: clamp01((e.clientY - rect.top) / rect.height) };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragStartRef.current = getRelativePoint(e);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const start = dragStartRef.current;
+    if (!start) return;
+    const point = getRelativePoint(e);
+    setDraft({
+      pageNumber: 1,
+      x: Math.min(start.x, point.x),
+      y: Math.min(start.y, point.y),
+      width: Math.abs(point.x - start.x),
+      height: Math.abs(point.y - start.y),
+    });
+  };
+
+  const handlePointerUp = () => {
+    dragStartRef.current = null;
+    if (draft && draft.width > MIN_REGION_SIZE && draft.height > MIN_REGION_SIZE) {
+      setRegions(prev => [...prev, draft]);
+    }
+    setDraft(null);
+  };
+
+  const removeRegion = (index: number) => {
+    setRegions(prev => prev.filter((_, i) => i !== index));
+  };
+
+  const toStyle = (region: SourceRegion): React.CSSProperties => ({
+    left: `${region.x * 100}%`,
+    top: `${region.y * 100}%`,
+    width: `${region.width * 100}%`,
+    height: `${region.height * 100}%`,
+  });
+
+  return (
+    <div className="fixed inset-0 z-50 bg-slate-950/90 backdrop-blur-sm flex items-center justify-center p-4 animate-fade-in">
+      <div className="w-full max-w-4xl max-h-full flex flex-col bg-slate-900 border border-slate-700 rounded-xl shadow-2xl overflow-hidden">
+        <div className="flex items-center justify-between px-5 py-3 border-b border-slate-700">
+          <h3 className="font-semibold text-slate-100">Chọn câu cần giải</h3>
+          <button onClick={onCancel} className="p-1.5 text-slate-400 hover:text-white transition-colors" title="Đóng">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex-1 min-h-0 flex items-center justify-center bg-slate-950 p-4 overflow-auto">
+          <div
+            ref={frameRef}
+            className="relative select-none cursor-crosshair touch-none"
+            onPointerDown={handlePointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+          >
+            <img src={imageUrl} alt="Trang tài liệu" draggable={false} className="max-h-[60vh] max-w-full block" />
+            {regions.map((region, index) => (
+              <div key={index} className="absolute border-2 border-emerald-400 bg-emerald-400/10" style={toStyle(region)}>
+                <span className="absolute -top-0.5 -left-0.5 px-1.5 text-xs font-bold bg-emerald-500 text-white rounded-br">
+                  {index + 1}
+                </span>
+                <button
+                  onPointerDown={(e) => e.stopPropagation()}
+                  onClick={() => removeRegion(index)}
+                  className="absolute -top-2.5 -right-2.5 p-0.5 rounded-full bg-slate-800 border border-slate-600 text-slate-300 hover:text-red-400"
+                  title="Xóa vùng này"
+                >
+                  <X className="w-3 h-3" />
+                </button>
+              </div>
+            ))}
+            {draft && <div className="absolute border-2 border-dashed border-blue-400 pointer-events-none" style={toStyle(draft)} />}
+          </div>
+        </div>
+
+        <div className="px-5 py-4 border-t border-slate-700 flex flex-wrap items-center justify-between gap-3">
+          <p className="text-xs text-slate-500 flex items-center">
+            <SquareDashedMousePointer className="w-3.5 h-3.5 mr-1.5" />
+            {regions.length > 0
+              ? `Đã chọn ${regions.length} vùng - chỉ các vùng này được gửi đi giải.`
+              : 'Kéo chuột để khoanh từng câu hỏi. Không chọn vùng nào = giải cả trang.'}
+          </p>
+          <div className="flex gap-3">
+            {regions.length > 0 && (
+              <button onClick={() => setRegions([])} className="px-4 py-2 rounded-lg text-slate-300 hover:text-white text-sm transition-colors">
+                Xóa tất cả
+              </button>
+            )}
+            <button
+              onClick={() => onDone(regions)}
+              className="px-5 py-2 rounded-lg bg-blue-600 hover:bg-blue-500 text-white text-sm font-medium transition-colors"
+            >
+              Xong
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RegionSelector;
@@ -0,0 +1,48 @@
+import React, { createContext, useContext, useMemo } from 'react';
+import { MarkupNode, parseScienceMarkup } from '../services/scienceMarkup';
+import { SubjectRenderOptions, getSubjectProfile } from '../services/subjects';
+
+// Renderer options of the lesson's subject, shared by every ScientificText below a provider
+export const RenderOptionsContext = createContext<SubjectRenderOptions>(getSubjectProfile().render);
+
+const renderNodes = (nodes: MarkupNode[]): React.ReactNode[] => nodes.map((node, index) => {
+  switch (node.type) {
+    case 'text':
+      return <React.Fragment key={index}>{node.text}</React.Fragment>;
+    case 'bold':
+      return <b key={index} className="text-emerald-400 font-bold">{renderNodes(node.children)}</b>;
+    case 'sup':
+      return <sup key={index} className="text-[0.7em] ml-[0.5px]">{renderNodes(node.children)}</sup>;
+    case 'sub':
+      return <sub key={index} className="text-[0.65em] font-medium ml-[0.5px]">{renderNodes(node.children)}</sub>;
+    case 'frac':
+      return (
+        <span key={index} className="inline-flex flex-col items-center align-middle mx-0.5 text-[0.85em] leading-tight">
+          <span className="border-b border-current px-0.5">{renderNodes(node.numerator)}</span>
+          <span className="px-0.5">{renderNodes(node.denominator)}</span>
+        </span>
+      );
+    case 'sqrt':
+      return (
+        <span key={index} className="whitespace-nowrap">
+          {node.index && <sup className="text-[0.6em] -mr-1">{renderNodes(node.index)}</sup>}
+          √<span className="border-t border-current pl-0.5">{renderNodes(node.children)}</span>
+        </span>
+      );
+    case 'math':
+      return node.display
+        ? <span key={index} className="block text-center my-2 font-serif">{renderNodes(node.children)}</span>
+        : <span key={index} className="font-serif">{renderNodes(node.children)}</span>;
+  }
+});
+
+// Custom Text Renderer for LaTeX, Scientific Formulas AND Bold Formatting
+const ScientificText: React.FC<{ text: string; className?: string }> = ({ text, className = "" }) => {
+  const { chemicalSubscripts } = useContext(RenderOptionsContext);
+  const nodes = useMemo(() => parseScienceMarkup(text, { chemicalSubscripts }), [text, chemicalSubscripts]);
+  if (!text) return null;
+
+  return <span className={className}>{renderNodes(nodes)}</span>;
+};
+
+export default ScientificText;
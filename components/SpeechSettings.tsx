@@ -0,0 +1,86 @@
+import React from 'react';
+import { Check } from 'lucide-react';
+import { VoicePitch, VoiceSettings } from '../types';
+import { PITCH_LABELS, PLAYBACK_RATES, VOICE_OPTIONS, getVoiceKey } from '../services/voiceSettings';
+import PronunciationDictionary from './PronunciationDictionary';
+
+interface SpeechSettingsProps {
+  voice: VoiceSettings;
+  onVoiceChange: (voice: VoiceSettings) => void;
+  playbackRate: number;
+  onPlaybackRateChange: (rate: number) => void;
+  subjectLabel: string;
+  subjectVoice: VoiceSettings; // Current default of the lesson's subject
+  onSaveSubjectVoice: () => void;
+}
+
+const chipClass = (isActive: boolean) => `px-2.5 py-1 rounded-full text-xs font-medium border transition-colors ${
+  isActive
+    ? 'bg-blue-600 border-blue-500 text-white'
+    : 'bg-slate-800 border-slate-700 text-slate-400 hover:text-white hover:border-slate-500'
+}`;
+
+// Voice, pitch, speed and pronunciation of the narration
+const SpeechSettings: React.FC<SpeechSettingsProps> = ({
+  voice,
+  onVoiceChange,
+  playbackRate,
+  onPlaybackRateChange,
+  subjectLabel,
+  subjectVoice,
+  onSaveSubjectVoice,
+}) => {
+  const isSubjectDefault = getVoiceKey(voice) === getVoiceKey(subjectVoice);
+
+  return (
+    <div className="w-full bg-slate-900/90 border border-slate-700 rounded-lg p-4 space-y-4 text-sm z-10">
+      <div className="space-y-1.5">
+        <label className="block text-xs uppercase tracking-wider text-slate-500">Giọng đọc</label>
+        <select
+          value={voice.voiceName}
+          onChange={(e) => onVoiceChange({ ...voice, voiceName: e.target.value })}
+          className="w-full bg-slate-800 border border-slate-700 rounded-lg px-3 py-2 text-slate-200 focus:outline-none focus:border-blue-500"
+        >
+          {VOICE_OPTIONS.map(option => (
+            <option key={option.name} value={option.name}>{option.name} - {option.label}</option>
+          ))}
+        </select>
+      </div>
+
+      <div className="space-y-1.5">
+        <span className="block text-xs uppercase tracking-wider text-slate-500">Cao độ</span>
+        <div className="flex flex-wrap gap-2">
+          {(Object.keys(PITCH_LABELS) as VoicePitch[]).map(pitch => (
+            <button key={pitch} onClick={() => onVoiceChange({ ...voice, pitch })} className={chipClass(voice.pitch === pitch)}>
+              {PITCH_LABELS[pitch]}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="space-y-1.5">
+        <span className="block text-xs uppercase tracking-wider text-slate-500">Tốc độ</span>
+        <div className="flex flex-wrap gap-2">
+          {PLAYBACK_RATES.map(rate => (
+            <button key={rate} onClick={() => onPlaybackRateChange(rate)} className={chipClass(playbackRate === rate)}>
+              {rate}×
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <button
+        onClick={onSaveSubjectVoice}
+        disabled={isSubjectDefault}
+        className="w-full flex items-center justify-center px-3 py-2 rounded-lg bg-slate-800 hover:bg-slate-700 border border-slate-700 text-xs text-slate-300 transition-colors disabled:opacity-60 disabled:hover:bg-slate-800"
+      >
+        {isSubjectDefault && <Check className="w-3 h-3 mr-1 text-emerald-400" />}
+        {isSubjectDefault ? `Giọng mặc định cho môn ${subjectLabel}` : `Đặt làm giọng mặc định cho môn ${subjectLabel}`}
+      </button>
+
+      <PronunciationDictionary />
+    </div>
+  );
+};
+
+export default SpeechSettings;
@@ -0,0 +1,246 @@
+import React, { useEffect, useState } from 'react';
+import { X, HardDrive, Pin, PinOff, Trash2, VolumeX, Loader2, Sparkles } from 'lucide-react';
+import {
+  EvictionPolicy,
+  StoragePreferences,
+  StorageUsage,
+  clearAllAudio,
+  evictLessons,
+  formatBytes,
+  getStorageUsage,
+  loadStoragePreferences,
+  saveStoragePreferences,
+  selectEvictions,
+  setLessonPinned,
+} from '../services/storageManager';
+import { clearCachedAudio, deleteFromCache } from '../services/storageService';
+
+interface StorageManagerProps {
+  isOpen: boolean;
+  onClose: () => void;
+  currentLessonId: string | null; // Never evicted from here
+}
+
+const POLICY_LABELS: Record<EvictionPolicy, string> = {
+  [EvictionPolicy.LRU]: 'Xóa bài lâu chưa mở nhất khi vượt giới hạn',
+  [EvictionPolicy.AGE]: 'Xóa bài không mở quá số ngày quy định',
+};
+
+const formatDate = (timestamp: number) => new Date(timestamp).toLocaleDateString('vi-VN');
+
+const StorageManager: React.FC<StorageManagerProps> = ({ isOpen, onClose, currentLessonId }) => {
+  const [usage, setUsage] = useState<StorageUsage | null>(null);
+  const [preferences, setPreferences] = useState<StoragePreferences>(loadStoragePreferences);
+  const [busyAction, setBusyAction] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (isOpen) loadUsage();
+  }, [isOpen]);
+
+  const loadUsage = async () => {
+    setUsage(await getStorageUsage());
+  };
+
+  // Runs one action at a time and refreshes the figures afterwards
+  const runAction = async (key: string, action: () => Promise<unknown>) => {
+    setBusyAction(key);
+    try {
+      await action();
+      await loadUsage();
+    } finally {
+      setBusyAction(null);
+    }
+  };
+
+  const updatePreferences = (patch: Partial<StoragePreferences>) => {
+    const next = { ...preferences, ...patch };
+    setPreferences(next);
+    saveStoragePreferences(next);
+  };
+
+  const handleDelete = (id: string) => {
+    if (window.confirm('Bạn có chắc muốn xóa bài học này khỏi lịch sử?')) {
+      runAction(`delete-${id}`, () => deleteFromCache(id));
+    }
+  };
+
+  const handleClearAllAudio = () => {
+    if (window.confirm('Xóa toàn bộ âm thanh đã lưu? Nội dung và lời giải vẫn được giữ lại.')) {
+      runAction('clear-audio', clearAllAudio);
+    }
+  };
+
+  const keepIds = currentLessonId ? [currentLessonId] : [];
+  const pendingEvictions = usage ? selectEvictions(usage, preferences, keepIds) : [];
+  const quotaRatio = usage?.usage && usage.quota ? usage.usage / usage.quota : 0;
+
+  return (
+    <>
+      {/* Overlay */}
+      {isOpen && (
+        <div
+          className="fixed inset-0 bg-black/50 backdrop-blur-sm z-[60]"
+          onClick={onClose}
+        />
+      )}
+
+      {/* Sidebar Panel */}
+      <div className={`
+        fixed top-0 right-0 h-full w-full sm:w-[28rem] bg-slate-900 border-l border-slate-700 shadow-2xl z-[70] transform transition-transform duration-300 ease-in-out flex flex-col
+        ${isOpen ? 'translate-x-0' : 'translate-x-full'}
+      `}>
+        {/* Header */}
+        <div className="p-4 border-b border-slate-700 flex justify-between items-center bg-slate-800/50">
+          <div className="flex items-center text-white font-semibold text-lg">
+            <HardDrive className="w-5 h-5 mr-2 text-blue-400" />
+            Quản Lý Bộ Nhớ
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 text-slate-400 hover:text-white hover:bg-slate-700 rounded-full transition-colors"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-5 custom-scrollbar">
+          {!usage ? (
+            <div className="text-center text-slate-500 mt-10">Đang tải...</div>
+          ) : (
+            <>
+              {/* Usage */}
+              <div className="bg-slate-800 border border-slate-700 rounded-lg p-4 space-y-2 text-sm">
+                <div className="flex justify-between text-slate-300">
+                  <span>Bài học ({usage.lessons.length})</span>
+                  <span className="font-mono">{formatBytes(usage.lessonBytes)}</span>
+                </div>
+                {usage.quota !== undefined && (
+                  <>
+                    <div className="w-full h-2 bg-slate-700 rounded-full overflow-hidden">
+                      <div
+                        className={`h-full ${quotaRatio > 0.8 ? 'bg-red-500' : 'bg-blue-500'}`}
+                        style={{ width: `${Math.min(100, quotaRatio * 100)}%` }}
+                      />
+                    </div>
+                    <div className="flex justify-between text-xs text-slate-500">
+                      <span>Trình duyệt đang dùng {formatBytes(usage.usage ?? 0)}</span>
+                      <span>Tối đa {formatBytes(usage.quota)}</span>
+                    </div>
+                  </>
+                )}
+              </div>
+
+              {/* Eviction policy */}
+              <div className="bg-slate-800 border border-slate-700 rounded-lg p-4 space-y-3 text-sm">
+                <span className="block text-xs uppercase tracking-wider text-slate-500">Tự động dọn dẹp</span>
+                {(Object.keys(POLICY_LABELS) as EvictionPolicy[]).map(policy => (
+                  <label key={policy} className="flex items-center space-x-2 text-slate-300 cursor-pointer">
+                    <input
+                      type="radio"
+                      checked={preferences.policy === policy}
+                      onChange={() => updatePreferences({ policy })}
+                      className="accent-blue-500"
+                    />
+                    <span>{POLICY_LABELS[policy]}</span>
+                  </label>
+                ))}
+                <div className="flex flex-wrap gap-4 text-slate-400">
+                  <label className="flex items-center space-x-2">
+                    <span>Giới hạn</span>
+                    <input
+                      type="number"
+                      min={10}
+                      value={preferences.budgetMB}
+                      onChange={(e) => updatePreferences({ budgetMB: Math.max(10, Number(e.target.value) || 0) })}
+                      className="w-20 bg-slate-900 border border-slate-700 rounded px-2 py-1 text-slate-200"
+                    />
+                    <span>MB</span>
+                  </label>
+                  {preferences.policy === EvictionPolicy.AGE && (
+                    <label className="flex items-center space-x-2">
+                      <span>Sau</span>
+                      <input
+                        type="number"
+                        min={1}
+                        value={preferences.maxAgeDays}
+                        onChange={(e) => updatePreferences({ maxAgeDays: Math.max(1, Number(e.target.value) || 0) })}
+                        className="w-16 bg-slate-900 border border-slate-700 rounded px-2 py-1 text-slate-200"
+                      />
+                      <span>ngày</span>
+                    </label>
+                  )}
+                </div>
+                <div className="flex flex-wrap gap-2 pt-1">
+                  <button
+                    onClick={() => runAction('evict', () => evictLessons(keepIds))}
+                    disabled={!!busyAction || pendingEvictions.length === 0}
+                    className="flex items-center px-3 py-1.5 rounded bg-blue-600 hover:bg-blue-500 text-xs text-white transition-colors disabled:opacity-50"
+                  >
+                    {busyAction === 'evict' ? <Loader2 className="w-3 h-3 mr-1 animate-spin" /> : <Sparkles className="w-3 h-3 mr-1" />}
+                    Dọn dẹp ngay ({pendingEvictions.length} bài)
+                  </button>
+                  <button
+                    onClick={handleClearAllAudio}
+                    disabled={!!busyAction}
+                    className="flex items-center px-3 py-1.5 rounded bg-slate-700 hover:bg-slate-600 text-xs text-white transition-colors disabled:opacity-50"
+                  >
+                    {busyAction === 'clear-audio' ? <Loader2 className="w-3 h-3 mr-1 animate-spin" /> : <VolumeX className="w-3 h-3 mr-1" />}
+                    Chỉ xóa âm thanh
+                  </button>
+                </div>
+              </div>
+
+              {/* Lessons, largest first */}
+              <div className="space-y-2">
+                {usage.lessons.map(lesson => (
+                  <div key={lesson.id} className="bg-slate-800 border border-slate-700 rounded-lg p-3 text-sm">
+                    <div className="flex justify-between items-start gap-3">
+                      <p className="text-slate-200 font-medium line-clamp-2 flex-1">{lesson.title}</p>
+                      <span className="font-mono text-xs text-slate-400 shrink-0">{formatBytes(lesson.size)}</span>
+                    </div>
+                    <div className="flex justify-between items-center mt-2">
+                      <span className="text-xs text-slate-500">
+                        Mở lần cuối {formatDate(lesson.lastAccessed)}
+                        {lesson.audioSize > 0 && ` · âm thanh ${formatBytes(lesson.audioSize)}`}
+                      </span>
+                      <div className="flex items-center space-x-1">
+                        <button
+                          onClick={() => runAction(`pin-${lesson.id}`, () => setLessonPinned(lesson.id, !lesson.pinned))}
+                          disabled={!!busyAction}
+                          className={`p-1.5 rounded transition-colors ${lesson.pinned ? 'text-amber-400 hover:text-amber-300' : 'text-slate-500 hover:text-white'}`}
+                          title={lesson.pinned ? 'Bỏ ghim' : 'Ghim (không bao giờ tự xóa)'}
+                        >
+                          {lesson.pinned ? <Pin className="w-4 h-4" /> : <PinOff className="w-4 h-4" />}
+                        </button>
+                        {lesson.audioSize > 0 && (
+                          <button
+                            onClick={() => runAction(`audio-${lesson.id}`, () => clearCachedAudio(lesson.id))}
+                            disabled={!!busyAction}
+                            className="p-1.5 rounded text-slate-500 hover:text-white transition-colors"
+                            title="Xóa âm thanh"
+                          >
+                            <VolumeX className="w-4 h-4" />
+                          </button>
+                        )}
+                        <button
+                          onClick={() => handleDelete(lesson.id)}
+                          disabled={!!busyAction}
+                          className="p-1.5 rounded text-slate-500 hover:text-red-400 transition-colors"
+                          title="Xóa"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </div>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </>
+  );
+};
+
+export default StorageManager;
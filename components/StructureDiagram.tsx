@@ -0,0 +1,38 @@
+import React, { useMemo } from 'react';
+import { MolecularStructure } from '../types';
+import { getSvgDataUrl, renderStructureSvg } from '../services/structureDiagram';
+import ScientificText from './ScientificText';
+
+interface StructureDiagramProps {
+  structure: MolecularStructure;
+  maxHeight: number; // px
+}
+
+// Skeletal formula drawn from SMILES, captioned with the name and molecular formula
+const StructureDiagram: React.FC<StructureDiagramProps> = ({ structure, maxHeight }) => {
+  const src = useMemo(() => {
+    try {
+      return getSvgDataUrl(renderStructureSvg(structure.smiles));
+    } catch (error) {
+      console.warn('Could not draw structure:', error);
+      return null;
+    }
+  }, [structure.smiles]);
+
+  if (!src) return null;
+
+  return (
+    <figure className="flex flex-col items-center">
+      <img src={src} alt={structure.name || structure.smiles} className="max-w-full h-auto object-contain" style={{ maxHeight }} />
+      {(structure.name || structure.formula) && (
+        <figcaption className="mt-1 text-xs text-slate-600">
+          {structure.name}
+          {structure.name && structure.formula && ' · '}
+          {structure.formula && <ScientificText text={structure.formula} />}
+        </figcaption>
+      )}
+    </figure>
+  );
+};
+
+export default StructureDiagram;
@@ -0,0 +1,137 @@
+import React, { useState } from 'react';
+import { Send, Loader2, Volume2, RotateCcw } from 'lucide-react';
+import { AudioSegment, ChatMessage, ChatRole, VoiceSettings } from '../types';
+import { synthesizeNarration } from '../services/geminiService';
+import { getErrorMessage } from '../services/aiErrors';
+import ScientificText from './ScientificText';
+
+interface TutorChatProps {
+  messages: ChatMessage[];
+  onAsk: (question: string) => Promise<void>; // Resolves once the answer (or the failed question) is stored with the lesson
+  voice: VoiceSettings;
+  onPlayRequest: (title: string, text: string, segments: AudioSegment[]) => void;
+  placeholder: string;
+}
+
+/**
+ * Follow-up conversation with the tutor; answers can be read aloud in the main player
+ */
+const TutorChat: React.FC<TutorChatProps> = ({ messages, onAsk, voice, onPlayRequest, placeholder }) => {
+  const [input, setInput] = useState('');
+  const [pendingQuestion, setPendingQuestion] = useState<string | null>(null);
+  const [readingIndex, setReadingIndex] = useState<number | null>(null);
+
+  // Resolves whether the question reached the lesson's chat
+  const ask = async (question: string) => {
+    setPendingQuestion(question);
+    try {
+      await onAsk(question);
+      return true;
+    } catch (error) {
+      console.error("Error asking the tutor:", error);
+      alert(`Gia sư chưa trả lời được câu hỏi này. ${getErrorMessage(error)}`);
+      return false;
+    } finally {
+      setPendingQuestion(null);
+    }
+  };
+
+  const handleSend = async () => {
+    const question = input.trim();
+    if (!question || pendingQuestion) return;
+    setInput('');
+    if (!(await ask(question))) setInput(question);
+  };
+
+  const handleReadAloud = async (message: ChatMessage, index: number) => {
+    try {
+      setReadingIndex(index);
+      const segments = await synthesizeNarration(message.text, message.reading || message.text, voice);
+      onPlayRequest('Gia sư trả lời', message.text, segments);
+    } catch (error) {
+      console.error("Error reading the answer:", error);
+      alert(`Không thể tạo giọng đọc cho câu trả lời này. ${getErrorMessage(error)}`);
+    } finally {
+      setReadingIndex(null);
+    }
+  };
+
+  return (
+    <div className="space-y-3 text-sm" onClick={(e) => e.stopPropagation()}>
+      {messages.map((message, i) => (message.error && message.text === pendingQuestion) ? null : (
+        <div key={i} className={`flex ${message.role === ChatRole.STUDENT ? 'justify-end' : 'justify-start'}`}>
+          {message.error ? (
+            <div className="max-w-[85%] flex flex-col items-end gap-1">
+              <div className="px-3 py-2 rounded-lg bg-red-900/40 border border-red-700/60 text-red-100 whitespace-pre-wrap">{message.text}</div>
+              <div className="flex items-center gap-2 text-xs text-red-400">
+                <span>Chưa có câu trả lời. {message.error}</span>
+                <button
+                  onClick={() => ask(message.text)}
+                  disabled={!!pendingQuestion}
+                  className="flex items-center gap-1 text-red-300 hover:text-white transition-colors shrink-0 disabled:opacity-50"
+                >
+                  <RotateCcw className="w-3 h-3" />
+                  Hỏi lại
+                </button>
+              </div>
+            </div>
+          ) : message.role === ChatRole.STUDENT ? (
+            <div className="max-w-[85%] px-3 py-2 rounded-lg bg-blue-600/80 text-white whitespace-pre-wrap">{message.text}</div>
+          ) : (
+            <div className="max-w-[85%] px-3 py-2 rounded-lg bg-slate-800 border border-slate-700 text-slate-200 flex items-start gap-2">
+              <div className="whitespace-pre-wrap leading-relaxed flex-1">
+                <ScientificText text={message.text} />
+              </div>
+              <button
+                onClick={() => handleReadAloud(message, i)}
+                disabled={readingIndex !== null}
+                className="p-1 rounded text-slate-400 hover:text-white transition-colors shrink-0 disabled:opacity-50"
+                title="Nghe câu trả lời"
+              >
+                {readingIndex === i ? <Loader2 className="w-4 h-4 animate-spin" /> : <Volume2 className="w-4 h-4" />}
+              </button>
+            </div>
+          )}
+        </div>
+      ))}
+
+      {pendingQuestion && (
+        <>
+          <div className="flex justify-end">
+            <div className="max-w-[85%] px-3 py-2 rounded-lg bg-blue-600/50 text-white whitespace-pre-wrap">{pendingQuestion}</div>
+          </div>
+          <div className="flex items-center text-slate-500">
+            <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+            Gia sư đang trả lời...
+          </div>
+        </>
+      )}
+
+      <div className="flex items-end gap-2">
+        <textarea
+          value={input}
+          onChange={(e) => setInput(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter' && !e.shiftKey) {
+              e.preventDefault();
+              handleSend();
+            }
+          }}
+          rows={1}
+          placeholder={placeholder}
+          className="flex-1 resize-none bg-slate-900 border border-slate-700 rounded px-3 py-2 text-slate-200 placeholder-slate-600 focus:border-blue-500 focus:outline-none"
+        />
+        <button
+          onClick={handleSend}
+          disabled={!input.trim() || !!pendingQuestion}
+          className="p-2 rounded bg-blue-600 hover:bg-blue-500 text-white transition-colors disabled:opacity-50"
+          title="Gửi"
+        >
+          <Send className="w-4 h-4" />
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default TutorChat;
@@ -0,0 +1,104 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { AIErrorCategory, AIServiceError, classifyError, getErrorMessage, parseRetrySetting, withRetry } from './aiErrors';
+
+const apiError = (status: number, message = 'API error') => Object.assign(new Error(message), { status });
+
+describe('classifyError', () => {
+  it('classifies by status code', () => {
+    expect(classifyError(apiError(429)).category).toBe(AIErrorCategory.RATE_LIMITED);
+    expect(classifyError(apiError(401)).category).toBe(AIErrorCategory.AUTH);
+    expect(classifyError(apiError(503)).category).toBe(AIErrorCategory.SERVER);
+  });
+
+  it('classifies by error type and message', () => {
+    expect(classifyError(new Error('RESOURCE_EXHAUSTED: quota')).category).toBe(AIErrorCategory.RATE_LIMITED);
+    expect(classifyError(new SyntaxError('Unexpected token')).category).toBe(AIErrorCategory.MALFORMED_JSON);
+    expect(classifyError(new TypeError('Failed to fetch')).category).toBe(AIErrorCategory.NETWORK);
+    expect(classifyError(new DOMException('Aborted', 'AbortError')).category).toBe(AIErrorCategory.CANCELLED);
+    expect(classifyError('boom').category).toBe(AIErrorCategory.UNKNOWN);
+  });
+
+  it('keeps errors that are already classified', () => {
+    const error = new AIServiceError(AIErrorCategory.SAFETY_BLOCKED, 'Blocked');
+    expect(classifyError(error)).toBe(error);
+  });
+
+  it('gives a category message, with the details for unknown errors', () => {
+    expect(getErrorMessage(apiError(401))).toContain('API key');
+    expect(getErrorMessage(new Error('boom'))).toBe('Có lỗi xảy ra: boom');
+  });
+});
+
+describe('parseRetrySetting', () => {
+  it('reads non-negative numbers', () => {
+    expect(parseRetrySetting('5', 2)).toBe(5);
+    expect(parseRetrySetting('0', 2)).toBe(0);
+  });
+
+  it('falls back to the default for missing or invalid values', () => {
+    expect(parseRetrySetting(undefined, 2)).toBe(2);
+    expect(parseRetrySetting('', 2)).toBe(2);
+    expect(parseRetrySetting('abc', 2)).toBe(2);
+    expect(parseRetrySetting('-1', 1000)).toBe(1000);
+    expect(parseRetrySetting('Infinity', 2)).toBe(2);
+  });
+});
+
+describe('withRetry', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.useRealTimers();
+  });
+
+  const quiet = () => vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+  it('retries retryable errors until the call succeeds', async () => {
+    quiet();
+    const operation = vi.fn()
+      .mockRejectedValueOnce(apiError(503))
+      .mockRejectedValueOnce(new TypeError('Failed to fetch'))
+      .mockResolvedValue('ok');
+    await expect(withRetry(operation, { maxRetries: 2, baseDelayMs: 0 })).resolves.toBe('ok');
+    expect(operation.mock.calls.map(([attempt]) => attempt)).toEqual([0, 1, 2]);
+  });
+
+  it('throws non-retryable errors at once', async () => {
+    const operation = vi.fn().mockRejectedValue(apiError(401));
+    await expect(withRetry(operation, { maxRetries: 3, baseDelayMs: 0 })).rejects.toMatchObject({ category: AIErrorCategory.AUTH });
+    expect(operation).toHaveBeenCalledTimes(1);
+  });
+
+  it('gives up after the last retry', async () => {
+    quiet();
+    const operation = vi.fn().mockRejectedValue(apiError(429));
+    await expect(withRetry(operation, { maxRetries: 2, baseDelayMs: 0 })).rejects.toMatchObject({ category: AIErrorCategory.RATE_LIMITED });
+    expect(operation).toHaveBeenCalledTimes(3);
+  });
+
+  it('backs off exponentially up to the maximum delay', async () => {
+    quiet();
+    vi.useFakeTimers();
+    vi.spyOn(Math, 'random').mockReturnValue(0);
+    const timeout = vi.spyOn(globalThis, 'setTimeout');
+    const operation = vi.fn()
+      .mockRejectedValueOnce(apiError(503))
+      .mockRejectedValueOnce(apiError(503))
+      .mockRejectedValueOnce(apiError(503))
+      .mockResolvedValue('ok');
+
+    const result = withRetry(operation, { maxRetries: 3, baseDelayMs: 100, maxDelayMs: 300 });
+    await vi.runAllTimersAsync();
+    await expect(result).resolves.toBe('ok');
+    expect(timeout.mock.calls.map(([, ms]) => ms)).toEqual([100, 200, 300]);
+  });
+
+  it('stops waiting when the signal is aborted', async () => {
+    quiet();
+    const controller = new AbortController();
+    const operation = vi.fn().mockRejectedValue(apiError(503));
+    const result = withRetry(operation, { maxRetries: 5, baseDelayMs: 10000, signal: controller.signal });
+    setTimeout(() => controller.abort(), 10);
+    await expect(result).rejects.toMatchObject({ category: AIErrorCategory.CANCELLED });
+    expect(operation).toHaveBeenCalledTimes(1);
+  });
+});
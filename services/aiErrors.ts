@@ -0,0 +1,182 @@
+/**
+ * Error model shared by all AI providers.
+ * Every failure is classified so the UI can show a category-specific message
+ * and the retry helper knows which errors are worth another attempt.
+ */
+export enum AIErrorCategory {
+  RATE_LIMITED = 'RATE_LIMITED', // 429 / quota exhausted
+  SAFETY_BLOCKED = 'SAFETY_BLOCKED', // finishReason SAFETY or blocked prompt
+  RECITATION = 'RECITATION', // finishReason RECITATION (copyrighted text)
+  MALFORMED_JSON = 'MALFORMED_JSON', // Response is not the JSON we asked for
+  EMPTY_RESPONSE = 'EMPTY_RESPONSE', // No text / audio / image in the response
+  NETWORK = 'NETWORK', // Fetch failed, offline, timeout
+  AUTH = 'AUTH', // Missing or invalid API key
+  SERVER = 'SERVER', // 5xx from the API
+  CANCELLED = 'CANCELLED', // Aborted by the user
+  UNKNOWN = 'UNKNOWN',
+}
+
+const RETRYABLE_CATEGORIES = new Set<AIErrorCategory>([
+  AIErrorCategory.RATE_LIMITED,
+  AIErrorCategory.MALFORMED_JSON,
+  AIErrorCategory.EMPTY_RESPONSE,
+  AIErrorCategory.NETWORK,
+  AIErrorCategory.SERVER,
+]);
+
+const ERROR_MESSAGES: Record<AIErrorCategory, string> = {
+  [AIErrorCategory.RATE_LIMITED]: 'Hệ thống AI đang quá tải hoặc đã hết hạn mức sử dụng. Vui lòng đợi một lát rồi thử lại.',
+  [AIErrorCategory.SAFETY_BLOCKED]: 'Nội dung bị bộ lọc an toàn của AI chặn. Vui lòng kiểm tra lại tài liệu.',
+  [AIErrorCategory.RECITATION]: 'AI từ chối trích dẫn nguyên văn tài liệu này (bản quyền). Hãy thử tải lên từng phần hoặc nhập văn bản.',
+  [AIErrorCategory.MALFORMED_JSON]: 'AI trả về dữ liệu không đúng định dạng. Vui lòng thử lại.',
+  [AIErrorCategory.EMPTY_RESPONSE]: 'AI không trả về kết quả cho tài liệu này. Vui lòng thử lại.',
+  [AIErrorCategory.NETWORK]: 'Không thể kết nối tới máy chủ AI. Vui lòng kiểm tra kết nối mạng.',
+  [AIErrorCategory.AUTH]: 'API key không hợp lệ hoặc chưa được cấu hình (GEMINI_API_KEY).',
+  [AIErrorCategory.SERVER]: 'Máy chủ AI đang gặp sự cố. Vui lòng thử lại sau.',
+  [AIErrorCategory.CANCELLED]: 'Đã hủy xử lý.',
+  [AIErrorCategory.UNKNOWN]: 'Có lỗi xảy ra',
+};
+
+export class AIServiceError extends Error {
+  category: AIErrorCategory;
+  cause?: unknown;
+
+  constructor(category: AIErrorCategory, message: string, cause?: unknown) {
+    super(message);
+    this.name = 'AIServiceError';
+    this.category = category;
+    this.cause = cause;
+  }
+
+  get retryable(): boolean {
+    return RETRYABLE_CATEGORIES.has(this.category);
+  }
+}
+
+/**
+ * Map any thrown value (SDK ApiError, fetch TypeError, SyntaxError...) to an AIServiceError
+ */
+export const classifyError = (error: unknown): AIServiceError => {
+  if (error instanceof AIServiceError) return error;
+
+  const message = error instanceof Error ? error.message : String(error);
+  const status = typeof (error as { status?: unknown })?.status === 'number'
+    ? (error as { status: number }).status
+    : undefined;
+
+  let category = AIErrorCategory.UNKNOWN;
+  if ((error as { name?: string })?.name === 'AbortError') {
+    category = AIErrorCategory.CANCELLED;
+  } else if (status === 429 || /RESOURCE_EXHAUSTED|quota|rate limit/i.test(message)) {
+    category = AIErrorCategory.RATE_LIMITED;
+  } else if (status === 401 || status === 403 || /API key|PERMISSION_DENIED|UNAUTHENTICATED/i.test(message)) {
+    category = AIErrorCategory.AUTH;
+  } else if (status !== undefined && status >= 500) {
+    category = AIErrorCategory.SERVER;
+  } else if (error instanceof SyntaxError) {
+    category = AIErrorCategory.MALFORMED_JSON;
+  } else if (error instanceof TypeError && /fetch|network|load failed/i.test(message)) {
+    category = AIErrorCategory.NETWORK;
+  } else if (/network|timed? ?out|ECONNRESET|offline/i.test(message)) {
+    category = AIErrorCategory.NETWORK;
+  }
+
+  return new AIServiceError(category, message, error);
+};
+
+/**
+ * User-facing (Vietnamese) message for an error
+ */
+export const getErrorMessage = (error: unknown): string => {
+  const classified = classifyError(error);
+  if (classified.category === AIErrorCategory.UNKNOWN) {
+    return `${ERROR_MESSAGES[AIErrorCategory.UNKNOWN]}: ${classified.message}`;
+  }
+  return ERROR_MESSAGES[classified.category];
+};
+
+/**
+ * Throw a CANCELLED error if the signal has been aborted
+ */
+export const throwIfAborted = (signal?: AbortSignal) => {
+  if (signal?.aborted) {
+    throw new AIServiceError(AIErrorCategory.CANCELLED, 'Aborted');
+  }
+};
+
+export const isCancelledError = (error: unknown): boolean => {
+  return classifyError(error).category === AIErrorCategory.CANCELLED;
+};
+
+export interface RetryOptions {
+  maxRetries: number; // Extra attempts after the first one
+  baseDelayMs: number; // Delay before the first retry, doubled each time
+  maxDelayMs: number;
+  signal?: AbortSignal; // Stops retrying (and waiting) once aborted
+}
+
+/**
+ * Retry setting from the env config: a non-negative number, else the default
+ * (a NaN retry count would never stop retrying)
+ */
+export const parseRetrySetting = (value: string | undefined, fallback: number): number => {
+  const parsed = Number(value);
+  return value?.trim() && Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+};
+
+export const DEFAULT_RETRY_OPTIONS: RetryOptions = {
+  maxRetries: parseRetrySetting(process.env.AI_MAX_RETRIES, 2),
+  baseDelayMs: parseRetrySetting(process.env.AI_RETRY_BASE_DELAY_MS, 1000),
+  maxDelayMs: 15000,
+};
+
+/**
+ * setTimeout as a promise that rejects early when the signal is aborted
+ */
+export const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) {
+    reject(new AIServiceError(AIErrorCategory.CANCELLED, 'Aborted'));
+    return;
+  }
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(new AIServiceError(AIErrorCategory.CANCELLED, 'Aborted'));
+  };
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+/**
+ * Run an AI call, retrying retryable failures with exponential backoff (+ jitter).
+ * Non-retryable errors (auth, safety, recitation) are thrown immediately.
+ */
+export const withRetry = async <T>(
+  operation: (attempt: number) => Promise<T>,
+  options: Partial<RetryOptions> = {}
+): Promise<T> => {
+  const { maxRetries, baseDelayMs, maxDelayMs, signal } = { ...DEFAULT_RETRY_OPTIONS, ...options };
+
+  for (let attempt = 0; ; attempt++) {
+    throwIfAborted(signal);
+    try {
+      return await operation(attempt);
+    } catch (error) {
+      const classified = signal?.aborted
+        ? new AIServiceError(AIErrorCategory.CANCELLED, 'Aborted', error)
+        : classifyError(error);
+      if (!classified.retryable || attempt >= maxRetries) {
+        throw classified;
+      }
+
+      // Rate limits need a longer pause than transient network errors
+      const factor = classified.category === AIErrorCategory.RATE_LIMITED ? 2 : 1;
+      const backoff = Math.min(maxDelayMs, baseDelayMs * factor * 2 ** attempt);
+      const jitter = Math.random() * backoff * 0.2;
+      console.warn(`AI call failed (${classified.category}), retry ${attempt + 1}/${maxRetries} in ${Math.round(backoff + jitter)}ms`);
+      await sleep(backoff + jitter, signal);
+    }
+  }
+};
@@ -0,0 +1,83 @@
+import { ChatMessage, InlineAttachment, SolutionItem, Subject, VideoRecommendation, VoiceSettings } from '../types';
+import { geminiProvider } from './geminiProvider';
+import { mockProvider } from './mockProvider';
+
+/**
+ * Interface for the dual-script output
+ */
+export interface DualScriptResponse {
+  displayScript: string;
+  readingScript: string;
+  subject?: Subject; // Reported when the subject was auto-detected
+}
+
+/**
+ * What a follow-up question to the tutor is grounded in
+ */
+export interface TutorContext {
+  subject: Subject;
+  script: string; // Transcript of the lesson
+  item?: SolutionItem; // The solution asked about; the whole lesson when missing
+  attachments: InlineAttachment[]; // The original file (or the page/region of the question)
+  history: ChatMessage[]; // The conversation so far, ending with the student's question
+}
+
+export interface TutorReply {
+  text: string;
+  reading: string; // Phonetic/IUPAC version for TTS
+}
+
+/**
+ * Contract implemented by every AI backend (Gemini, offline mock...).
+ * The app only talks to the active provider through geminiService.
+ */
+export interface AIProvider {
+  id: string;
+  label: string; // Shown in the header badge
+  // A null subject means "detect it": the response then carries the detected subject.
+  // onProgress receives the transcript streamed so far.
+  extractScript: (
+    textInput: string,
+    attachments: InlineAttachment[],
+    subject: Subject | null,
+    signal?: AbortSignal,
+    onProgress?: (partial: DualScriptResponse) => void
+  ) => Promise<DualScriptResponse>;
+  // onItem is called as soon as each solution is complete (may repeat an index if the request is retried)
+  solveQuestions: (
+    script: string,
+    attachments: InlineAttachment[],
+    subject: Subject,
+    signal?: AbortSignal,
+    onItem?: (item: SolutionItem, index: number) => void
+  ) => Promise<SolutionItem[]>;
+  // Problems of the same kind as a solved one, with varied data and their own solutions
+  generateSimilarProblems: (
+    item: SolutionItem,
+    subject: Subject,
+    count: number,
+    signal?: AbortSignal
+  ) => Promise<SolutionItem[]>;
+  askTutor: (context: TutorContext, signal?: AbortSignal) => Promise<TutorReply>;
+  synthesizeSpeech: (script: string, voice: VoiceSettings, signal?: AbortSignal) => Promise<string>; // Base64 PCM (24kHz, 16-bit, mono)
+  generateImage: (prompt: string, signal?: AbortSignal) => Promise<string | undefined>; // Base64 PNG
+  suggestVideos: (script: string, signal?: AbortSignal) => Promise<VideoRecommendation[]>;
+}
+
+const PROVIDERS: Record<string, AIProvider> = {
+  [geminiProvider.id]: geminiProvider,
+  [mockProvider.id]: mockProvider,
+};
+
+/**
+ * Resolve the provider selected by AI_PROVIDER in .env.local (defaults to Gemini)
+ */
+export const getAIProvider = (): AIProvider => {
+  const selected = (process.env.AI_PROVIDER || geminiProvider.id).toLowerCase();
+  const provider = PROVIDERS[selected];
+  if (!provider) {
+    console.warn(`Unknown AI_PROVIDER "${selected}", falling back to Gemini.`);
+    return geminiProvider;
+  }
+  return provider;
+};
@@ -0,0 +1,76 @@
+import { FileData, QueueItem, QueueItemStatus, StageStatus, Subject } from '../types';
+import { getErrorMessage, isCancelledError } from './aiErrors';
+import { mapWithConcurrency } from './concurrency';
+import { getMimeType, validateFile } from './fileUtils';
+import { createFileInput, processWithCache } from './pipeline';
+
+// Worksheets processed at the same time (each one fans out further per page)
+export const BATCH_CONCURRENCY = 2;
+
+let nextQueueId = 0;
+
+/**
+ * Wrap dropped/selected files as queue items; invalid files are queued as errors.
+ * A file already loaded in the editor is queued as is, keeping its selected regions.
+ */
+export const createQueueItems = (files: (File | FileData)[]): QueueItem[] => {
+  return files.map(entry => {
+    const fileData: FileData = entry instanceof File
+      ? { file: entry, mimeType: getMimeType(entry), previewUrl: URL.createObjectURL(entry) }
+      : entry;
+    const validationError = validateFile(fileData.file);
+    return {
+      id: `queue-${Date.now()}-${nextQueueId++}`,
+      fileData,
+      status: validationError ? QueueItemStatus.ERROR : QueueItemStatus.QUEUED,
+      error: validationError ?? undefined,
+    };
+  });
+};
+
+/**
+ * Items that a (re)run of the queue should pick up
+ */
+export const getPendingQueueItems = (items: QueueItem[]): QueueItem[] => {
+  return items.filter(item =>
+    item.status === QueueItemStatus.QUEUED ||
+    item.status === QueueItemStatus.CANCELLED ||
+    (item.status === QueueItemStatus.ERROR && !validateFile(item.fileData.file))
+  );
+};
+
+/**
+ * Process queue items through hash -> cache -> pipeline with a concurrency limit.
+ * Each item fails independently; results land in history as separate lessons.
+ */
+export const processQueue = async (
+  items: QueueItem[],
+  onItemChange: (id: string, patch: Partial<QueueItem>) => void,
+  subject: Subject | null,
+  signal?: AbortSignal
+): Promise<void> => {
+  await mapWithConcurrency(items, BATCH_CONCURRENCY, async (item) => {
+    onItemChange(item.id, { status: QueueItemStatus.PROCESSING, error: undefined, stages: undefined });
+    try {
+      const input = await createFileInput(item.fileData, subject);
+      const { hash, result } = await processWithCache(input, {
+        signal,
+        onStagesChange: (stages) => onItemChange(item.id, { stages }),
+      });
+
+      const stages = result.stages;
+      const wasCancelled = !!stages && Object.values(stages).some(stage => stage.status === StageStatus.CANCELLED);
+      onItemChange(item.id, {
+        status: wasCancelled ? QueueItemStatus.CANCELLED : QueueItemStatus.DONE,
+        contentHash: hash,
+      });
+    } catch (error) {
+      onItemChange(item.id, isCancelledError(error)
+        ? { status: QueueItemStatus.CANCELLED }
+        : { status: QueueItemStatus.ERROR, error: getErrorMessage(error) });
+    }
+  }, signal).catch(error => {
+    // Items not started before cancellation simply stay queued
+    if (!isCancelledError(error)) throw error;
+  });
+};
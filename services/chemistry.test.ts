@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest';
+import { balanceEquation, formatEquation, getMolarMass, isBalanced, parseEquation, parseFormula } from './chemistry';
+
+describe('parseFormula', () => {
+  it('counts atoms, groups and hydrates', () => {
+    expect(parseFormula('H2SO4')).toEqual({ elements: { H: 2, S: 1, O: 4 }, charge: 0 });
+    expect(parseFormula('Ca(OH)2').elements).toEqual({ Ca: 1, O: 2, H: 2 });
+    expect(parseFormula('K4[Fe(CN)6]').elements).toEqual({ K: 4, Fe: 1, C: 6, N: 6 });
+    expect(parseFormula('CuSO4·5H2O').elements).toEqual({ Cu: 1, S: 1, O: 9, H: 10 });
+    expect(parseFormula('H₂O').elements).toEqual({ H: 2, O: 1 });
+  });
+
+  it('reads charges written with or without a caret', () => {
+    expect(parseFormula('SO4^2-')).toEqual({ elements: { S: 1, O: 4 }, charge: -2 });
+    expect(parseFormula('Fe3+')).toEqual({ elements: { Fe: 1 }, charge: 3 });
+    expect(parseFormula('NH4+')).toEqual({ elements: { N: 1, H: 4 }, charge: 1 });
+    expect(parseFormula('SO42-')).toEqual({ elements: { S: 1, O: 4 }, charge: -2 });
+  });
+
+  it('throws on invalid formulas', () => {
+    expect(() => parseFormula('Xy2')).toThrow();
+    expect(() => parseFormula('Ca(OH2')).toThrow();
+    expect(() => parseFormula('')).toThrow();
+  });
+});
+
+describe('getMolarMass', () => {
+  it('uses standard atomic weights by default', () => {
+    expect(getMolarMass('H2O')).toBe(18.015);
+    expect(getMolarMass('H2SO4')).toBe(98.072);
+  });
+
+  it('uses the rounded textbook values for school', () => {
+    expect(getMolarMass('H2SO4', { school: true })).toBe(98);
+    expect(getMolarMass('CuSO4·5H2O', { school: true })).toBe(250);
+    expect(getMolarMass('NaCl', { school: true })).toBe(58.5);
+  });
+});
+
+describe('parseEquation', () => {
+  it('reads coefficients, formulas and the arrow', () => {
+    expect(parseEquation('2H2 + O2 → 2H2O')).toEqual({
+      reactants: [{ coefficient: 2, formula: 'H2' }, { coefficient: 1, formula: 'O2' }],
+      products: [{ coefficient: 2, formula: 'H2O' }],
+      arrow: '→',
+    });
+  });
+
+  it('ignores conditions, states and gas marks', () => {
+    const equation = parseEquation('Fe + 2HCl →(t°) FeCl2 + H2↑');
+    expect(equation.products).toEqual([{ coefficient: 1, formula: 'FeCl2' }, { coefficient: 1, formula: 'H2' }]);
+  });
+
+  it('reads ions separated by spaced plus signs', () => {
+    const equation = parseEquation('NH4+ + OH- -> NH3 + H2O');
+    expect(equation.reactants.map(term => term.formula)).toEqual(['NH4+', 'OH-']);
+  });
+
+  it('throws without an arrow', () => {
+    expect(() => parseEquation('H2 + O2 = H2O')).toThrow();
+  });
+});
+
+describe('isBalanced', () => {
+  it('checks atoms and charges', () => {
+    expect(isBalanced(parseEquation('2H2 + O2 → 2H2O'))).toBe(true);
+    expect(isBalanced(parseEquation('H2 + O2 → H2O'))).toBe(false);
+    expect(isBalanced(parseEquation('Fe3+ + 3OH- → Fe(OH)3'))).toBe(true);
+  });
+});
+
+describe('balanceEquation', () => {
+  it('finds the smallest whole-number coefficients', () => {
+    expect(balanceEquation(parseEquation('H2 + O2 → H2O'))).toEqual([2, 1, 2]);
+    expect(balanceEquation(parseEquation('Al + H2SO4 → Al2(SO4)3 + H2'))).toEqual([2, 3, 1, 3]);
+    expect(balanceEquation(parseEquation('KMnO4 + HCl → KCl + MnCl2 + Cl2 + H2O'))).toEqual([2, 16, 2, 2, 5, 8]);
+  });
+
+  it('returns null when the species cannot balance', () => {
+    expect(balanceEquation(parseEquation('H2 → O2'))).toBeNull();
+  });
+});
+
+describe('formatEquation', () => {
+  it('writes the equation with the given coefficients', () => {
+    const equation = parseEquation('H2 + O2 → H2O');
+    expect(formatEquation(equation)).toBe('H2 + O2 → H2O');
+    expect(formatEquation(equation, [2, 1, 2])).toBe('2H2 + O2 → 2H2O');
+  });
+});
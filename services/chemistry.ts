@@ -0,0 +1,252 @@
+/**
+ * Local chemistry engine: periodic table, formula parsing, molar masses and equation balancing.
+ * Used to double-check the arithmetic and equations the solver writes.
+ */
+
+// Standard atomic weights (IUPAC, conventional values; mass number of the most stable isotope for radioactive elements)
+const ATOMIC_MASSES: Record<string, number> = {
+  H: 1.008, He: 4.0026, Li: 6.94, Be: 9.0122, B: 10.81, C: 12.011, N: 14.007, O: 15.999, F: 18.998, Ne: 20.18,
+  Na: 22.99, Mg: 24.305, Al: 26.982, Si: 28.085, P: 30.974, S: 32.06, Cl: 35.45, Ar: 39.948, K: 39.098, Ca: 40.078,
+  Sc: 44.956, Ti: 47.867, V: 50.942, Cr: 51.996, Mn: 54.938, Fe: 55.845, Co: 58.933, Ni: 58.693, Cu: 63.546, Zn: 65.38,
+  Ga: 69.723, Ge: 72.63, As: 74.922, Se: 78.971, Br: 79.904, Kr: 83.798, Rb: 85.468, Sr: 87.62, Y: 88.906, Zr: 91.224,
+  Nb: 92.906, Mo: 95.95, Tc: 98, Ru: 101.07, Rh: 102.91, Pd: 106.42, Ag: 107.87, Cd: 112.41, In: 114.82, Sn: 118.71,
+  Sb: 121.76, Te: 127.6, I: 126.9, Xe: 131.29, Cs: 132.91, Ba: 137.33, La: 138.91, Ce: 140.12, Pr: 140.91, Nd: 144.24,
+  Pm: 145, Sm: 150.36, Eu: 151.96, Gd: 157.25, Tb: 158.93, Dy: 162.5, Ho: 164.93, Er: 167.26, Tm: 168.93, Yb: 173.05,
+  Lu: 174.97, Hf: 178.49, Ta: 180.95, W: 183.84, Re: 186.21, Os: 190.23, Ir: 192.22, Pt: 195.08, Au: 196.97, Hg: 200.59,
+  Tl: 204.38, Pb: 207.2, Bi: 208.98, Po: 209, At: 210, Rn: 222, Fr: 223, Ra: 226, Ac: 227, Th: 232.04,
+  Pa: 231.04, U: 238.03, Np: 237, Pu: 244, Am: 243, Cm: 247, Bk: 247, Cf: 251, Es: 252, Fm: 257,
+  Md: 258, No: 259, Lr: 266, Rf: 267, Db: 268, Sg: 269, Bh: 270, Hs: 277, Mt: 278, Ds: 281,
+  Rg: 282, Cn: 285, Nh: 286, Fl: 289, Mc: 290, Lv: 293, Ts: 294, Og: 294,
+};
+
+// Rounded values used by Vietnamese textbooks (Cl = 35,5; Cu = 64...), which solutions follow
+const SCHOOL_MASSES: Record<string, number> = {
+  H: 1, He: 4, Li: 7, Be: 9, B: 11, C: 12, N: 14, O: 16, F: 19, Ne: 20, Na: 23, Mg: 24, Al: 27, Si: 28, P: 31,
+  S: 32, Cl: 35.5, Ar: 40, K: 39, Ca: 40, Cr: 52, Mn: 55, Fe: 56, Co: 59, Ni: 59, Cu: 64, Zn: 65, Br: 80,
+  Rb: 85.5, Sr: 88, Ag: 108, Sn: 119, I: 127, Cs: 133, Ba: 137, Pt: 195, Au: 197, Hg: 201, Pb: 207,
+};
+
+export const isElement = (symbol: string) => symbol in ATOMIC_MASSES;
+
+export interface ParsedFormula {
+  elements: Record<string, number>; // Atom count per element
+  charge: number;
+}
+
+const addCounts = (target: Record<string, number>, source: Record<string, number>, factor: number) => {
+  Object.entries(source).forEach(([element, count]) => {
+    target[element] = (target[element] ?? 0) + count * factor;
+  });
+};
+
+/**
+ * Parse "H2SO4", "Ca(OH)2", "K4[Fe(CN)6]", "CuSO4·5H2O", "SO4^2-", "NH4+", "Fe3+".
+ * Throws on anything that is not a valid formula.
+ */
+export const parseFormula = (input: string): ParsedFormula => {
+  let text = input.trim().replace(/\s+/g, '').replace(/[₀-₉]/g, digit => String(digit.charCodeAt(0) - 0x2080));
+
+  // Charge: "^2-", "^-", "(2-)" or a sign right after the formula
+  let charge = 0;
+  const chargeMatch = text.match(/(?:\^(\d*)([+-])|\((\d*)([+-])\)|(\d*)([+-]))$/);
+  if (chargeMatch) {
+    const [whole, caretSize, caretSign, parenSize, parenSign, digits, bareSign] = chargeMatch;
+    let size = Number(caretSize || parenSize || 1);
+    text = text.slice(0, text.length - whole.length);
+    // Typed without superscripts, the digits before the sign are ambiguous: "Fe3+" and "SO42-"
+    // end with the charge, "NH4+" with an atom count (single element, or two digits, means a charge)
+    if (digits) {
+      const isCharge = /^[A-Z][a-z]?$/.test(text) || digits.length >= 2;
+      size = isCharge ? Number(digits.slice(-1)) : 1;
+      text += isCharge ? digits.slice(0, -1) : digits;
+    }
+    charge = ((caretSign ?? parenSign ?? bareSign) === '-' ? -1 : 1) * size;
+  }
+
+  const elements: Record<string, number> = {};
+  // Hydrates: "CuSO4·5H2O", "CuSO4.5H2O", "CuSO4*5H2O"
+  text.split(/[·.*•]/).forEach((part, i) => {
+    const match = part.match(/^(\d*)(.+)$/);
+    if (!match || (i === 0 && match[1])) throw new Error(`Công thức không hợp lệ: ${input}`);
+    addCounts(elements, parseGroup(match[2], input), Number(match[1] || 1));
+  });
+  return { elements, charge };
+};
+
+// Recursive descent over elements and bracketed groups, each with an optional count
+const parseGroup = (text: string, input: string): Record<string, number> => {
+  let position = 0;
+
+  const readCount = () => {
+    const digits = text.slice(position).match(/^\d+/)?.[0];
+    position += digits?.length ?? 0;
+    return digits ? Number(digits) : 1;
+  };
+
+  const parseSequence = (closing?: string): Record<string, number> => {
+    const counts: Record<string, number> = {};
+    while (position < text.length) {
+      const char = text[position];
+      if (char === closing) {
+        position++;
+        return counts;
+      }
+      if (char === '(' || char === '[') {
+        position++;
+        const inner = parseSequence(char === '(' ? ')' : ']');
+        addCounts(counts, inner, readCount());
+        continue;
+      }
+      // Two-letter symbols first ("Co" before "C" + "o")
+      const symbol = [text.slice(position, position + 2), text.slice(position, position + 1)]
+        .find(candidate => /^[A-Z][a-z]?$/.test(candidate) && isElement(candidate));
+      if (!symbol) throw new Error(`Công thức không hợp lệ: ${input}`);
+      position += symbol.length;
+      addCounts(counts, { [symbol]: 1 }, readCount());
+    }
+    if (closing) throw new Error(`Thiếu dấu đóng ngoặc: ${input}`);
+    return counts;
+  };
+
+  const counts = parseSequence();
+  if (Object.keys(counts).length === 0) throw new Error(`Công thức không hợp lệ: ${input}`);
+  return counts;
+};
+
+/**
+ * Molar mass in g/mol. School values follow the rounded atomic masses of Vietnamese textbooks.
+ */
+export const getMolarMass = (formula: string, { school = false } = {}): number => {
+  const { elements } = parseFormula(formula);
+  const total = Object.entries(elements).reduce((sum, [element, count]) => {
+    const mass = (school ? SCHOOL_MASSES[element] : undefined) ?? ATOMIC_MASSES[element];
+    return sum + mass * count;
+  }, 0);
+  // Drop floating point noise ("98.07900000000001")
+  return Math.round(total * 1000) / 1000;
+};
+
+// --- EQUATIONS ---
+
+export interface EquationTerm {
+  coefficient: number;
+  formula: string;
+}
+
+export interface ParsedEquation {
+  reactants: EquationTerm[];
+  products: EquationTerm[];
+  arrow: string;
+}
+
+export const REACTION_ARROW = /\s*(?:→|⟶|->|⇌|⇄|⟷)\s*/;
+
+// Reaction conditions written next to the arrow, states and gas/precipitate marks
+const stripDecorations = (side: string) => side
+  .replace(/\((?:k|r|l|dd|rắn|lỏng|khí|s|g|aq)\)/gi, '')
+  .replace(/[↑↓]/g, '')
+  .trim();
+
+const parseTerms = (side: string): EquationTerm[] => {
+  // "NH4+ + OH-": species are separated by a spaced "+", or by any "+" before a new formula
+  const parts = /\s\+\s/.test(side) ? side.split(/\s+\+\s+/) : side.split(/\+(?=\d*\s*[A-Z([])/);
+  return parts.map(part => {
+    const match = stripDecorations(part).match(/^(\d+(?:[.,]\d+)?(?:\/\d+)?)?\s*(\S+)$/);
+    if (!match) throw new Error(`Không đọc được chất: ${part}`);
+    const [, coefficientText, formula] = match;
+    const coefficient = coefficientText?.includes('/')
+      ? Number(coefficientText.split('/')[0]) / Number(coefficientText.split('/')[1])
+      : Number((coefficientText ?? '1').replace(',', '.'));
+    parseFormula(formula); // Validates the formula
+    return { coefficient, formula };
+  });
+};
+
+/**
+ * Parse "2H2 + O2 → 2H2O" (conditions over the arrow such as "(t°)" are ignored)
+ */
+export const parseEquation = (text: string): ParsedEquation => {
+  const arrow = text.match(REACTION_ARROW)?.[0].trim();
+  if (!arrow) throw new Error(`Không có mũi tên phản ứng: ${text}`);
+  const sides = text.split(REACTION_ARROW);
+  if (sides.length !== 2) throw new Error(`Phương trình không hợp lệ: ${text}`);
+  // "→(t°)" / "→ t° " conditions stuck to the arrow
+  const products = sides[1].replace(/^\s*(?:\([^)]*\)|t°\S*|xt\S*)\s*/, '');
+  return { reactants: parseTerms(sides[0]), products: parseTerms(products), arrow };
+};
+
+// Atom and charge balance of each side: reactants count positive, products negative
+const getBalanceMatrix = (equation: ParsedEquation): { rows: string[]; columns: number[][] } => {
+  const terms = [...equation.reactants, ...equation.products];
+  const parsed = terms.map(term => parseFormula(term.formula));
+  const rows = Array.from(new Set(parsed.flatMap(formula => Object.keys(formula.elements))));
+  if (parsed.some(formula => formula.charge !== 0)) rows.push('charge');
+  const columns = parsed.map((formula, i) => {
+    const sign = i < equation.reactants.length ? 1 : -1;
+    return rows.map(row => sign * (row === 'charge' ? formula.charge : formula.elements[row] ?? 0));
+  });
+  return { rows, columns };
+};
+
+export const isBalanced = (equation: ParsedEquation): boolean => {
+  const { rows, columns } = getBalanceMatrix(equation);
+  const coefficients = [...equation.reactants, ...equation.products].map(term => term.coefficient);
+  return rows.every((_, r) => Math.abs(columns.reduce((sum, column, i) => sum + column[r] * coefficients[i], 0)) < 1e-9);
+};
+
+const gcd = (a: number, b: number): number => (b === 0 ? Math.abs(a) : gcd(b, a % b));
+
+/**
+ * Smallest whole-number coefficients, or null when the equation cannot be balanced
+ * or has more than one independent solution (e.g. two reactions written as one)
+ */
+export const balanceEquation = (equation: ParsedEquation): number[] | null => {
+  const { rows, columns } = getBalanceMatrix(equation);
+  const size = columns.length;
+  // Integer row reduction of the element x species matrix
+  const matrix = rows.map((_, r) => columns.map(column => column[r]));
+  const pivots: number[] = [];
+  let rank = 0;
+  for (let col = 0; col < size && rank < matrix.length; col++) {
+    const pivotRow = matrix.findIndex((row, r) => r >= rank && row[col] !== 0);
+    if (pivotRow === -1) continue;
+    [matrix[rank], matrix[pivotRow]] = [matrix[pivotRow], matrix[rank]];
+    for (let r = 0; r < matrix.length; r++) {
+      if (r === rank || matrix[r][col] === 0) continue;
+      const factor = matrix[r][col];
+      const pivot = matrix[rank][col];
+      matrix[r] = matrix[r].map((value, c) => value * pivot - matrix[rank][c] * factor);
+      const divisor = matrix[r].reduce((g, value) => gcd(g, value), 0) || 1;
+      matrix[r] = matrix[r].map(value => value / divisor);
+    }
+    pivots.push(col);
+    rank++;
+  }
+  if (size - rank !== 1) return null;
+
+  // The free species gets the product of the pivots, every pivot species follows from its row
+  const free = Array.from({ length: size }, (_, c) => c).find(c => !pivots.includes(c))!;
+  const scale = pivots.reduce((product, col, r) => product * Math.abs(matrix[r][col]), 1);
+  const solution = new Array<number>(size).fill(0);
+  solution[free] = scale;
+  pivots.forEach((col, r) => {
+    solution[col] = (-matrix[r][free] * scale) / matrix[r][col];
+  });
+
+  const divisor = solution.reduce((g, value) => gcd(g, Math.round(value)), 0);
+  const coefficients = solution.map(value => Math.round(value) / divisor);
+  const sign = Math.sign(coefficients[0]);
+  const normalized = coefficients.map(value => value * sign);
+  return normalized.every(value => value > 0) ? normalized : null;
+};
+
+export const formatEquation = (equation: ParsedEquation, coefficients?: number[]): string => {
+  const terms = [...equation.reactants, ...equation.products];
+  const format = (term: EquationTerm, i: number) => {
+    const coefficient = coefficients?.[i] ?? term.coefficient;
+    return `${coefficient === 1 ? '' : String(coefficient).replace('.', ',')}${term.formula}`;
+  };
+  const reactants = terms.slice(0, equation.reactants.length).map(format);
+  const products = terms.slice(equation.reactants.length).map((term, i) => format(term, i + equation.reactants.length));
+  return `${reactants.join(' + ')} ${equation.arrow} ${products.join(' + ')}`;
+};
@@ -0,0 +1,80 @@
+import { PDFDocument } from 'pdf-lib';
+import { describe, expect, it, vi } from 'vitest';
+import { PageTranscript } from '../types';
+import { buildTopicDigest, chunkText, joinPageScripts, splitPdfPages } from './documentChunker';
+
+const question = (index: number, length: number) => `Câu ${index}: ${'x'.repeat(length)}`;
+
+const page = (pageNumber: number, displayScript: string): PageTranscript => ({
+  pageNumber,
+  displayScript,
+  readingScript: displayScript.toLowerCase(),
+});
+
+describe('chunkText', () => {
+  it('keeps short text whole', () => {
+    expect(chunkText('Câu 1: ngắn', 100)).toEqual(['Câu 1: ngắn']);
+  });
+
+  it('cuts between questions and packs them into chunks', () => {
+    const text = [question(1, 30), question(2, 30), question(3, 30)].join('\n');
+    expect(chunkText(text, 80)).toEqual([`${question(1, 30)}\n${question(2, 30)}`, question(3, 30)]);
+  });
+
+  it('splits an oversized question at paragraphs, then mid-paragraph', () => {
+    const text = `Câu 1: đề bài\n\n${'a'.repeat(50)}\n\nCâu 2: ${'b'.repeat(10)}`;
+    const chunks = chunkText(text, 40);
+    chunks.forEach(chunk => expect(chunk.length).toBeLessThanOrEqual(40));
+    expect(chunks.join('')).toContain('a'.repeat(40));
+    expect(chunks[chunks.length - 1]).toContain('Câu 2');
+  });
+});
+
+describe('joinPageScripts', () => {
+  it('returns a single page as is', () => {
+    expect(joinPageScripts([page(1, 'Nội dung')], 'displayScript')).toBe('Nội dung');
+  });
+
+  it('marks every page, or every selected region', () => {
+    expect(joinPageScripts([page(1, 'A'), page(2, 'B')], 'readingScript')).toBe('[Trang 1]\na\n\n[Trang 2]\nb');
+    const region = { pageNumber: 1, x: 0, y: 0, width: 1, height: 0.5 };
+    expect(joinPageScripts([{ ...page(1, 'A'), region }, { ...page(1, 'B'), region }], 'displayScript'))
+      .toBe('[Vùng 1]\nA\n\n[Vùng 2]\nB');
+  });
+});
+
+describe('buildTopicDigest', () => {
+  it('takes an even share of every page', () => {
+    expect(buildTopicDigest([page(1, 'aaaaaa'), page(2, 'bbbbbb')], 6)).toBe('aaa\nbbb');
+    expect(buildTopicDigest([])).toBe('');
+  });
+});
+
+describe('splitPdfPages', () => {
+  it('splits a PDF into single-page documents', async () => {
+    const document = await PDFDocument.create();
+    document.addPage();
+    document.addPage();
+    document.addPage();
+    const pages = await splitPdfPages(await document.saveAsBase64());
+
+    expect(pages).toHaveLength(3);
+    for (const data of pages) {
+      expect((await PDFDocument.load(data)).getPageCount()).toBe(1);
+    }
+  });
+
+  it('returns a one-page PDF unchanged', async () => {
+    const document = await PDFDocument.create();
+    document.addPage();
+    const base64 = await document.saveAsBase64();
+    expect(await splitPdfPages(base64)).toEqual([base64]);
+  });
+
+  it('sends a file it cannot parse as a single document', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    expect(await splitPdfPages('bm90IGEgcGRm')).toEqual(['bm90IGEgcGRm']);
+    expect(warn).toHaveBeenCalled();
+    warn.mockRestore();
+  });
+});
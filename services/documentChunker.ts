@@ -0,0 +1,97 @@
+import { PDFDocument } from 'pdf-lib';
+import { PageTranscript } from '../types';
+
+// Keeps each OCR/solve request well inside the model's comfortable context
+export const MAX_CHUNK_CHARS = 6000;
+
+// Lines starting a new question: "Câu 1", "Bài 2:", "Question 3", "Ví dụ 4"...
+const QUESTION_START = /^\s*(?:Câu|Bài|Question|Ví dụ)\s*\d+/i;
+
+/**
+ * Split a multi-page PDF (base64) into one single-page PDF (base64) per page.
+ * Returns the original document as the only page if it cannot be parsed.
+ */
+export const splitPdfPages = async (pdfBase64: string): Promise<string[]> => {
+  try {
+    const source = await PDFDocument.load(pdfBase64, { ignoreEncryption: true });
+    const pageCount = source.getPageCount();
+    if (pageCount <= 1) return [pdfBase64];
+
+    const pages: string[] = [];
+    for (let i = 0; i < pageCount; i++) {
+      const pageDoc = await PDFDocument.create();
+      const [page] = await pageDoc.copyPages(source, [i]);
+      pageDoc.addPage(page);
+      pages.push(await pageDoc.saveAsBase64());
+    }
+    return pages;
+  } catch (error) {
+    console.warn('Could not split PDF, sending it as a single document:', error);
+    return [pdfBase64];
+  }
+};
+
+/**
+ * Split long text into chunks of at most maxChars, preferring question boundaries,
+ * then paragraph boundaries, and only cutting mid-paragraph as a last resort.
+ */
+export const chunkText = (text: string, maxChars = MAX_CHUNK_CHARS): string[] => {
+  if (text.length <= maxChars) return [text];
+
+  // 1. Group lines into questions
+  const blocks: string[] = [];
+  let current: string[] = [];
+  text.split('\n').forEach(line => {
+    if (QUESTION_START.test(line) && current.length > 0) {
+      blocks.push(current.join('\n'));
+      current = [];
+    }
+    current.push(line);
+  });
+  if (current.length > 0) blocks.push(current.join('\n'));
+
+  // 2. Break any oversized question into paragraphs, then into hard slices
+  const pieces = blocks.flatMap(block => {
+    if (block.length <= maxChars) return [block];
+    return block.split(/\n\s*\n/).flatMap(paragraph => {
+      const slices: string[] = [];
+      for (let i = 0; i < paragraph.length; i += maxChars) {
+        slices.push(paragraph.slice(i, i + maxChars));
+      }
+      return slices;
+    });
+  });
+
+  // 3. Pack pieces greedily into chunks
+  const chunks: string[] = [];
+  let buffer = '';
+  pieces.forEach(piece => {
+    if (buffer && buffer.length + piece.length + 1 > maxChars) {
+      chunks.push(buffer);
+      buffer = '';
+    }
+    buffer = buffer ? `${buffer}\n${piece}` : piece;
+  });
+  if (buffer) chunks.push(buffer);
+
+  return chunks;
+};
+
+/**
+ * Join per-page transcripts into one script, with page (or selected region) markers
+ */
+export const joinPageScripts = (pages: PageTranscript[], field: 'displayScript' | 'readingScript'): string => {
+  if (pages.length === 1) return pages[0][field];
+  return pages
+    .map((page, index) => `${page.region ? `[Vùng ${index + 1}]` : `[Trang ${page.pageNumber}]`}\n${page[field]}`)
+    .join('\n\n');
+};
+
+/**
+ * Short digest of the whole document (an even share of every page) for topic-level prompts
+ */
+export const buildTopicDigest = (pages: PageTranscript[], maxChars = 3000): string => {
+  if (pages.length === 0) return '';
+  const share = Math.floor(maxChars / pages.length);
+  return pages.map(page => page.displayScript.slice(0, share)).join('\n');
+};
@@ -0,0 +1,64 @@
+// @vitest-environment jsdom
+import JSZip from 'jszip';
+import { describe, expect, it } from 'vitest';
+import { parseDocx } from './docxParser';
+
+const NAMESPACES = [
+  'xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"',
+  'xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"',
+  'xmlns:a="http://schemas.openxmlformats.org/drawingml/2006/main"',
+].join(' ');
+
+const RELATIONSHIPS = `<?xml version="1.0" encoding="UTF-8"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+  <Relationship Id="rId5" Type="image" Target="media/image1.png"/>
+  <Relationship Id="rId6" Type="image" Target="media/chart.emf"/>
+  <Relationship Id="rId7" Type="hyperlink" Target="https://example.com" TargetMode="External"/>
+</Relationships>`;
+
+const paragraph = (content: string) => `<w:p><w:r>${content}</w:r></w:p>`;
+const text = (value: string) => `<w:t xml:space="preserve">${value}</w:t>`;
+const image = (relId: string) => `<w:drawing><a:blip r:embed="${relId}"/></w:drawing>`;
+
+const createDocx = async (body: string, files: Record<string, string> = {}): Promise<File> => {
+  const zip = new JSZip();
+  zip.file('word/document.xml', `<?xml version="1.0" encoding="UTF-8"?><w:document ${NAMESPACES}><w:body>${body}</w:body></w:document>`);
+  zip.file('word/_rels/document.xml.rels', RELATIONSHIPS);
+  Object.entries(files).forEach(([path, content]) => zip.file(path, content));
+  return new File([await zip.generateAsync({ type: 'uint8array' })], 'de-thi.docx');
+};
+
+describe('parseDocx', () => {
+  it('reads paragraphs, tabs, line breaks and tables', async () => {
+    const file = await createDocx([
+      paragraph(`${text('Câu 1:')}<w:tab/>${text('Tính')}<w:br/>${text('khối lượng')}`),
+      '<w:tbl><w:tr><w:tc><w:p><w:r><w:t>A</w:t></w:r></w:p></w:tc><w:tc><w:p><w:r><w:t>B</w:t></w:r></w:p></w:tc></w:tr></w:tbl>',
+      `<w:sdt><w:sdtContent>${paragraph(text('Câu 2'))}</w:sdtContent></w:sdt>`,
+    ].join(''));
+
+    expect(await parseDocx(file)).toEqual({ text: 'Câu 1:\tTính\nkhối lượng\nA | B\nCâu 2', images: [] });
+  });
+
+  it('replaces supported images by numbered placeholders, once per image', async () => {
+    const file = await createDocx([
+      paragraph(`${text('Hình vẽ:')}${image('rId5')}`),
+      paragraph(`${text('Lại:')}${image('rId5')}${image('rId6')}`),
+    ].join(''), { 'word/media/image1.png': 'png', 'word/media/chart.emf': 'emf' });
+
+    const { text: content, images } = await parseDocx(file);
+    expect(content).toBe('Hình vẽ: [Hình 1] \nLại: [Hình 1]');
+    expect(images).toEqual([{ mimeType: 'image/png', data: btoa('png'), label: '[Hình 1]' }]);
+  });
+
+  it('rejects files that are not Word documents', async () => {
+    await expect(parseDocx(new File(['not a zip'], 'x.docx'))).rejects.toThrow('File Word bị hỏng');
+    const zip = new JSZip();
+    zip.file('other.xml', '<x/>');
+    const withoutDocument = new File([await zip.generateAsync({ type: 'uint8array' })], 'x.docx');
+    await expect(parseDocx(withoutDocument)).rejects.toThrow('Không tìm thấy nội dung');
+  });
+
+  it('rejects an empty document', async () => {
+    await expect(parseDocx(await createDocx(paragraph('')))).rejects.toThrow('File Word không có nội dung.');
+  });
+});
@@ -0,0 +1,186 @@
+import JSZip from 'jszip';
+import { InlineAttachment } from '../types';
+
+/**
+ * Local .docx reader. A .docx is a zip of XML parts plus a media folder:
+ * text comes from word/document.xml, images are resolved through its relationships.
+ */
+
+export interface ParsedDocx {
+  text: string; // Plain text with "[Hình N]" placeholders where images appear
+  images: InlineAttachment[]; // Embedded images, labelled with their placeholder
+}
+
+// Keep requests reasonable for documents with many decorative images
+const MAX_IMAGES = 20;
+
+// Formats Gemini accepts directly; other raster formats are converted to PNG
+const SUPPORTED_IMAGE_TYPES: Record<string, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  webp: 'image/webp',
+};
+const CONVERTIBLE_IMAGE_TYPES: Record<string, string> = {
+  gif: 'image/gif',
+  bmp: 'image/bmp',
+};
+
+export const getImagePlaceholder = (index: number) => `[Hình ${index + 1}]`;
+
+/**
+ * Map relationship ids (rId7) to zip paths (word/media/image1.png)
+ */
+const readRelationships = async (zip: JSZip): Promise<Record<string, string>> => {
+  const relsXml = await zip.file('word/_rels/document.xml.rels')?.async('string');
+  if (!relsXml) return {};
+
+  const rels: Record<string, string> = {};
+  const doc = new DOMParser().parseFromString(relsXml, 'application/xml');
+  Array.from(doc.getElementsByTagName('Relationship')).forEach(rel => {
+    const id = rel.getAttribute('Id');
+    const target = rel.getAttribute('Target');
+    if (id && target && rel.getAttribute('TargetMode') !== 'External') {
+      rels[id] = target.startsWith('/') ? target.slice(1) : `word/${target}`;
+    }
+  });
+  return rels;
+};
+
+/**
+ * Re-encode a raster image the model does not accept (GIF, BMP) as PNG
+ */
+const convertToPng = async (bytes: Uint8Array, mimeType: string): Promise<string | null> => {
+  try {
+    const bitmap = await createImageBitmap(new Blob([bytes], { type: mimeType }));
+    const canvas = document.createElement('canvas');
+    canvas.width = bitmap.width;
+    canvas.height = bitmap.height;
+    canvas.getContext('2d')?.drawImage(bitmap, 0, 0);
+    return canvas.toDataURL('image/png').split(',')[1];
+  } catch (error) {
+    console.warn('Could not convert embedded image:', error);
+    return null;
+  }
+};
+
+const loadImage = async (zip: JSZip, path: string): Promise<InlineAttachment | null> => {
+  const entry = zip.file(path);
+  if (!entry) return null;
+
+  const extension = path.split('.').pop()?.toLowerCase() || '';
+  if (SUPPORTED_IMAGE_TYPES[extension]) {
+    return { mimeType: SUPPORTED_IMAGE_TYPES[extension], data: await entry.async('base64') };
+  }
+  if (CONVERTIBLE_IMAGE_TYPES[extension]) {
+    const png = await convertToPng(await entry.async('uint8array'), CONVERTIBLE_IMAGE_TYPES[extension]);
+    return png ? { mimeType: 'image/png', data: png } : null;
+  }
+  // EMF/WMF vector images cannot be rendered in the browser
+  return null;
+};
+
+/**
+ * Extract text (with image placeholders) and embedded images from a .docx file
+ */
+export const parseDocx = async (file: File): Promise<ParsedDocx> => {
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(await file.arrayBuffer());
+  } catch (error) {
+    throw new Error('File Word bị hỏng hoặc không đúng định dạng .docx.');
+  }
+
+  const documentXml = await zip.file('word/document.xml')?.async('string');
+  if (!documentXml) {
+    throw new Error('Không tìm thấy nội dung trong file Word.');
+  }
+
+  const rels = await readRelationships(zip);
+  const doc = new DOMParser().parseFromString(documentXml, 'application/xml');
+  const body = doc.getElementsByTagNameNS('*', 'body')[0];
+  if (!body) {
+    throw new Error('Không tìm thấy nội dung trong file Word.');
+  }
+
+  const images: InlineAttachment[] = [];
+  const imageIndexByPath = new Map<string, number>();
+
+  // Text of one paragraph, walking runs in document order
+  const readParagraph = async (paragraph: Element): Promise<string> => {
+    let text = '';
+    const walk = async (node: Element) => {
+      for (const child of Array.from(node.children)) {
+        switch (child.localName) {
+          case 't':
+            text += child.textContent || '';
+            break;
+          case 'tab':
+            text += '\t';
+            break;
+          case 'br':
+          case 'cr':
+            text += '\n';
+            break;
+          case 'blip': // DrawingML image: <a:blip r:embed="rId7"/>
+          case 'imagedata': { // VML image: <v:imagedata r:id="rId7"/>
+            const relId = child.getAttribute('r:embed') || child.getAttribute('r:id');
+            const path = relId ? rels[relId] : undefined;
+            if (!path) break;
+
+            let index = imageIndexByPath.get(path);
+            if (index === undefined && images.length < MAX_IMAGES) {
+              const image = await loadImage(zip, path);
+              if (image) {
+                index = images.length;
+                images.push({ ...image, label: getImagePlaceholder(index) });
+                imageIndexByPath.set(path, index);
+              }
+            }
+            if (index !== undefined) text += ` ${getImagePlaceholder(index)} `;
+            break;
+          }
+          default:
+            await walk(child);
+        }
+      }
+    };
+    await walk(paragraph);
+    return text;
+  };
+
+  const lines: string[] = [];
+  const readBlock = async (block: Element) => {
+    if (block.localName === 'p') {
+      lines.push(await readParagraph(block));
+    } else if (block.localName === 'tbl') {
+      // One line per table row, cells separated by " | "
+      for (const row of Array.from(block.getElementsByTagNameNS('*', 'tr'))) {
+        const cells: string[] = [];
+        for (const cell of Array.from(row.getElementsByTagNameNS('*', 'tc'))) {
+          const paragraphs = Array.from(cell.getElementsByTagNameNS('*', 'p'));
+          const cellText: string[] = [];
+          for (const paragraph of paragraphs) cellText.push(await readParagraph(paragraph));
+          cells.push(cellText.join(' ').trim());
+        }
+        lines.push(cells.join(' | '));
+      }
+    } else if (block.localName === 'sdt') {
+      // Content controls wrap regular paragraphs
+      for (const child of Array.from(block.getElementsByTagNameNS('*', 'sdtContent')[0]?.children || [])) {
+        await readBlock(child);
+      }
+    }
+  };
+
+  for (const block of Array.from(body.children)) {
+    await readBlock(block);
+  }
+
+  const text = lines.join('\n').replace(/\n{3,}/g, '\n\n').trim();
+  if (!text && images.length === 0) {
+    throw new Error('File Word không có nội dung.');
+  }
+
+  return { text, images };
+};
@@ -1,6 +1,15 @@
 import { FileData } from '../types';
 
-export const readFileToBase64 = (file: File): Promise<string> => {
+export const base64ToBlob = (base64: string, mimeType: string): Blob => {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return new Blob([bytes], { type: mimeType });
+};
+
+export const readFileToBase64 = (file: Blob): Promise<string> => {
   return new Promise((resolve, reject) => {
     const reader = new FileReader();
     reader.readAsDataURL(file);
@@ -21,18 +30,38 @@ export const getFileIconName = (mimeType: string): string => {
   return 'file';
 };
 
+const DOCX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+
+const getExtension = (file: File): string => file.name.split('.').pop()?.toLowerCase() || '';
+
+export const isDocxFile = (file: File): boolean => {
+  return file.type === DOCX_MIME_TYPE || getExtension(file) === 'docx';
+};
+
+/**
+ * MIME type of an uploaded file. Some browsers/OSes report no type for .docx,
+ * so Word documents are also recognised by extension.
+ */
+export const getMimeType = (file: File): string => {
+  return isDocxFile(file) ? DOCX_MIME_TYPE : file.type;
+};
+
 export const validateFile = (file: File): string | null => {
   const validTypes = [
     'application/pdf',
     'image/jpeg',
     'image/png',
     'image/webp',
-    // Word docs
-    'application/vnd.openxmlformats-officedocument.wordprocessingml.document', 
-    'application/msword'
+    // Word docs (.docx only, read locally)
+    DOCX_MIME_TYPE,
   ];
+
+  // Legacy binary .doc cannot be read in the browser
+  if (file.type === 'application/msword' || getExtension(file) === 'doc') {
+    return 'File Word cũ (.doc) không được hỗ trợ. Vui lòng lưu lại dưới dạng .docx hoặc PDF.';
+  }
   
-  if (!validTypes.includes(file.type)) {
+  if (!validTypes.includes(getMimeType(file))) {
     return 'Định dạng file không được hỗ trợ. Vui lòng sử dụng PDF, Hình ảnh hoặc Word.';
   }
   
@@ -0,0 +1,62 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { ChatMessage, ChatRole, Subject } from '../types';
+import { geminiProvider } from './geminiProvider';
+
+const { generateContent } = vi.hoisted(() => ({ generateContent: vi.fn() }));
+
+vi.mock('@google/genai', async importOriginal => ({
+  ...await importOriginal<typeof import('@google/genai')>(),
+  GoogleGenAI: class {
+    models = { generateContent };
+  },
+}));
+
+const message = (role: ChatRole, text: string): ChatMessage => ({ role, text, createdAt: 0 });
+
+interface Turn {
+  role: string;
+  texts: string[];
+}
+
+const askWithHistory = async (history: ChatMessage[]): Promise<Turn[]> => {
+  generateContent.mockResolvedValue({ text: JSON.stringify({ text: 'Đáp', reading: 'Đáp' }) });
+  await geminiProvider.askTutor({ subject: Subject.MATH, script: 'Bài học', attachments: [], history });
+  const contents: { role: string; parts: { text: string }[] }[] = generateContent.mock.calls[0][0].contents;
+  return contents.map(({ role, parts }) => ({ role, texts: parts.map(part => part.text) }));
+};
+
+describe('askTutor', () => {
+  afterEach(() => {
+    generateContent.mockReset();
+  });
+
+  it('sends the conversation after the grounding as alternating turns', async () => {
+    const turns = await askWithHistory([
+      message(ChatRole.STUDENT, 'Câu 1?'),
+      message(ChatRole.TUTOR, 'Trả lời 1'),
+      message(ChatRole.STUDENT, 'Câu 2?'),
+    ]);
+    expect(turns.map(({ role }) => role)).toEqual(['user', 'model', 'user', 'model', 'user']);
+    expect(turns.slice(2).map(({ texts }) => texts)).toEqual([['Câu 1?'], ['Trả lời 1'], ['Câu 2?']]);
+  });
+
+  it('starts the kept history on a student turn', async () => {
+    const history = Array.from({ length: 25 }, (_, index) =>
+      message(index % 2 === 0 ? ChatRole.STUDENT : ChatRole.TUTOR, `Tin ${index}`)
+    );
+    const turns = await askWithHistory(history);
+    expect(turns[2]).toEqual({ role: 'user', texts: ['Tin 6'] });
+    expect(turns[turns.length - 1]).toEqual({ role: 'user', texts: ['Tin 24'] });
+    turns.forEach((turn, index) => {
+      if (index > 0) expect(turn.role).not.toBe(turns[index - 1].role);
+    });
+  });
+
+  it('merges back-to-back questions into one turn', async () => {
+    const turns = await askWithHistory([
+      message(ChatRole.STUDENT, 'Câu chưa được trả lời?'),
+      message(ChatRole.STUDENT, 'Câu mới?'),
+    ]);
+    expect(turns.slice(2)).toEqual([{ role: 'user', texts: ['Câu chưa được trả lời?', 'Câu mới?'] }]);
+  });
+});
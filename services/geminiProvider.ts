@@ -0,0 +1,591 @@
+import { GenerateContentParameters, GenerateContentResponse, GoogleGenAI, HarmBlockThreshold, HarmCategory, Modality, Type } from "@google/genai";
+import { AnswerKind, ChatMessage, ChatRole, Difficulty, InlineAttachment, SolutionItem, Subject, VideoRecommendation, VoicePitch, VoiceSettings } from "../types";
+import { AIProvider, DualScriptResponse, TutorContext, TutorReply } from "./aiProvider";
+import { AIErrorCategory, AIServiceError, withRetry } from "./aiErrors";
+import { SUBJECT_PROFILES, SubjectProfile, getSubjectProfile } from "./subjects";
+import { createJsonArrayParser, readPartialStringField } from "./incrementalJson";
+
+const TEXT_MODEL = "gemini-2.5-flash";
+const TTS_MODEL = "gemini-2.5-flash-preview-tts";
+const IMAGE_MODEL = "gemini-2.5-flash-image";
+
+// Created lazily so the app can boot (e.g. with the mock provider) without an API key
+let client: GoogleGenAI | null = null;
+
+const getClient = (): GoogleGenAI => {
+  if (!client) {
+    client = new GoogleGenAI({ apiKey: process.env.API_KEY });
+  }
+  return client;
+};
+
+// --- GOOGLE AI STUDIO CONFIGURATION ---
+// Disable safety filters to allow processing of educational materials
+const STUDIO_SAFETY_SETTINGS = [
+  { category: HarmCategory.HARM_CATEGORY_HATE_SPEECH, threshold: HarmBlockThreshold.BLOCK_NONE },
+  { category: HarmCategory.HARM_CATEGORY_SEXUALLY_EXPLICIT, threshold: HarmBlockThreshold.BLOCK_NONE },
+  { category: HarmCategory.HARM_CATEGORY_HARASSMENT, threshold: HarmBlockThreshold.BLOCK_NONE },
+  { category: HarmCategory.HARM_CATEGORY_DANGEROUS_CONTENT, threshold: HarmBlockThreshold.BLOCK_NONE },
+];
+
+/**
+ * Throw a classified error when the model refused to answer
+ */
+const assertNotBlocked = (response: GenerateContentResponse) => {
+  const blockReason = response.promptFeedback?.blockReason;
+  if (blockReason) {
+    throw new AIServiceError(AIErrorCategory.SAFETY_BLOCKED, `Prompt blocked: ${blockReason}`);
+  }
+
+  const finishReason = response.candidates?.[0]?.finishReason;
+  if (finishReason === "RECITATION") {
+    throw new AIServiceError(AIErrorCategory.RECITATION, "Blocked by RECITATION");
+  }
+  if (finishReason === "SAFETY" || finishReason === "PROHIBITED_CONTENT" || finishReason === "BLOCKLIST") {
+    throw new AIServiceError(AIErrorCategory.SAFETY_BLOCKED, `Blocked by ${finishReason}`);
+  }
+};
+
+const withAbortSignal = (params: GenerateContentParameters, signal?: AbortSignal): GenerateContentParameters => {
+  return signal ? { ...params, config: { ...params.config, abortSignal: signal } } : params;
+};
+
+/**
+ * Single entry point for generateContent: retries transient failures and rejects blocked responses
+ */
+const generate = (params: GenerateContentParameters, signal?: AbortSignal): Promise<GenerateContentResponse> => {
+  return withRetry(async () => {
+    const response = await getClient().models.generateContent(withAbortSignal(params, signal));
+    assertNotBlocked(response);
+    return response;
+  }, { signal });
+};
+
+/**
+ * Generate and parse a JSON response. Malformed JSON is retried like a transient error.
+ */
+const generateJson = <T>(params: GenerateContentParameters, signal?: AbortSignal): Promise<T> => {
+  return withRetry(async () => {
+    const response = await getClient().models.generateContent(withAbortSignal(params, signal));
+    assertNotBlocked(response);
+
+    if (!response.text) {
+      throw new AIServiceError(AIErrorCategory.EMPTY_RESPONSE, "Empty response from model");
+    }
+    try {
+      return JSON.parse(response.text) as T;
+    } catch (error) {
+      throw new AIServiceError(AIErrorCategory.MALFORMED_JSON, "Model returned invalid JSON", error);
+    }
+  }, { signal });
+};
+
+/**
+ * Streaming variant of generateJson. Every attempt gets a fresh handler from createTextHandler,
+ * which receives the accumulated text after each chunk. A retried attempt starts over, so
+ * what the handler reports must be idempotent (e.g. "item N is ...").
+ */
+const generateJsonStream = <T>(
+  params: GenerateContentParameters,
+  createTextHandler: () => (text: string) => void,
+  signal?: AbortSignal
+): Promise<T> => {
+  return withRetry(async () => {
+    const onText = createTextHandler();
+    const stream = await getClient().models.generateContentStream(withAbortSignal(params, signal));
+    let text = '';
+    for await (const chunk of stream) {
+      assertNotBlocked(chunk);
+      if (chunk.text) {
+        text += chunk.text;
+        onText(text);
+      }
+    }
+
+    if (!text) {
+      throw new AIServiceError(AIErrorCategory.EMPTY_RESPONSE, "Empty response from model");
+    }
+    try {
+      return JSON.parse(text) as T;
+    } catch (error) {
+      throw new AIServiceError(AIErrorCategory.MALFORMED_JSON, "Model returned invalid JSON", error);
+    }
+  }, { signal });
+};
+
+/**
+ * Convert attachments to request parts; labelled ones are preceded by their
+ * placeholder so the model can match "[Hình 1]" in the text to the image.
+ */
+const toInlineParts = (attachments: InlineAttachment[]): any[] => {
+  return attachments.flatMap(attachment => {
+    const inline = { inlineData: { mimeType: attachment.mimeType, data: attachment.data } };
+    return attachment.label ? [{ text: attachment.label }, inline] : [inline];
+  });
+};
+
+/**
+ * Helper function to call Gemini with a specific system prompt
+ */
+const callGeminiWithPrompt = (
+  systemPrompt: string,
+  userPrompt: string,
+  parts: any[],
+  temperature: number,
+  detectSubject: boolean,
+  signal?: AbortSignal,
+  onProgress?: (partial: DualScriptResponse) => void
+): Promise<DualScriptResponse> => {
+  const finalParts = [...parts, { text: userPrompt }];
+  const required = ["displayScript", "readingScript"];
+
+  // Report the transcript as it is typed out (readingScript follows displayScript in the schema)
+  const handleText = (text: string) => {
+    onProgress?.({
+      displayScript: readPartialStringField(text, "displayScript") ?? "",
+      readingScript: readPartialStringField(text, "readingScript") ?? "",
+    });
+  };
+
+  return generateJsonStream<DualScriptResponse>({
+    model: TEXT_MODEL,
+    contents: [{ role: 'user', parts: finalParts }],
+    config: {
+      systemInstruction: systemPrompt,
+      temperature,
+      responseMimeType: "application/json",
+      safetySettings: STUDIO_SAFETY_SETTINGS,
+      responseSchema: {
+        type: Type.OBJECT,
+        properties: {
+          displayScript: { type: Type.STRING },
+          readingScript: { type: Type.STRING },
+          ...(detectSubject && { subject: { type: Type.STRING, enum: Object.values(Subject) } })
+        },
+        required: detectSubject ? [...required, "subject"] : required,
+        propertyOrdering: detectSubject ? ["subject", ...required] : required
+      }
+    }
+  }, () => handleText, signal);
+};
+
+// Fallback instructions used when the verbatim OCR prompt is blocked by RECITATION
+const SAFE_PROMPT_SUFFIX = `
+    LƯU Ý BẢN QUYỀN:
+    - KHÔNG chép nguyên văn đoạn văn dài.
+    - Diễn đạt lại nội dung bằng lời của bạn nhưng giữ nguyên mọi số liệu, công thức, đáp án và thứ tự câu hỏi.
+  `;
+const SAFE_USER_INSTRUCTION = "Hãy tóm lược trung thành nội dung tài liệu (giữ nguyên số liệu và công thức), không chép nguyên văn.";
+
+const buildOcrPrompt = (profile: SubjectProfile) => `
+    ${profile.ocrRole}
+
+    NHIỆM VỤ:
+    1. Trích xuất nội dung từ tài liệu.
+    2. Tạo 2 phiên bản văn bản:
+
+    YÊU CẦU CHI TIẾT:
+
+    A. "displayScript" (Để hiển thị):${profile.displayRules}
+
+    B. "readingScript" (Để đọc Audio - QUAN TRỌNG):${profile.readingRules}
+
+    Ví dụ Output:
+    ${JSON.stringify(profile.readingExample, null, 2)}
+  `;
+
+// Used when the subject is not chosen: the model classifies the document, then applies that subject's rules
+const buildAutoOcrPrompt = () => `
+    Bạn là công cụ trích xuất văn bản (OCR) cho tài liệu học tập phổ thông.
+
+    NHIỆM VỤ:
+    1. Xác định môn học của tài liệu: "subject" là một trong ${Object.values(Subject).join(", ")}.
+    2. Trích xuất nội dung và tạo 2 phiên bản văn bản theo quy tắc của ĐÚNG môn học đó:
+       - "displayScript" (Để hiển thị).
+       - "readingScript" (Để đọc Audio - QUAN TRỌNG).
+${Object.values(SUBJECT_PROFILES).map(profile => `
+    MÔN ${profile.label.toUpperCase()} (${profile.id}):
+    A. displayScript:${profile.displayRules}
+    B. readingScript:${profile.readingRules}`).join("\n")}
+  `;
+
+const AUTO_READING_INSTRUCTION = "Hãy xác định môn học, trích xuất và xử lý nội dung này theo quy tắc đọc của môn đó.";
+
+/**
+ * Step 1: Analyze content (Text, Image, PDF)
+ */
+const extractScript = async (
+  textInput: string,
+  attachments: InlineAttachment[],
+  subject: Subject | null,
+  signal?: AbortSignal,
+  onProgress?: (partial: DualScriptResponse) => void
+): Promise<DualScriptResponse> => {
+  const parts: any[] = toInlineParts(attachments);
+  if (textInput) parts.push({ text: textInput });
+
+  const promptOCR = subject ? buildOcrPrompt(getSubjectProfile(subject)) : buildAutoOcrPrompt();
+  const userInstruction = subject ? getSubjectProfile(subject).readingInstruction : AUTO_READING_INSTRUCTION;
+
+  try {
+    console.log(`Attempting OCR with ${subject ?? "auto-detected"} subject rules...`);
+    return await callGeminiWithPrompt(promptOCR, userInstruction, parts, 0.1, !subject, signal, onProgress);
+  } catch (error) {
+    if (!(error instanceof AIServiceError) || error.category !== AIErrorCategory.RECITATION) {
+      throw error;
+    }
+    // Verbatim transcription of textbook content trips the recitation filter:
+    // ask for a faithful paraphrase instead of a word-for-word copy.
+    console.warn("Blocked by RECITATION. Retrying with safe prompt...");
+    return callGeminiWithPrompt(`${promptOCR}\n${SAFE_PROMPT_SUFFIX}`, SAFE_USER_INSTRUCTION, parts, 0.4, !subject, signal, onProgress);
+  }
+};
+
+// Style instructions read by the TTS model, not spoken
+const PITCH_INSTRUCTIONS: Record<VoicePitch, string | null> = {
+  [VoicePitch.LOW]: "Read the following aloud in a low, deep voice:",
+  [VoicePitch.NORMAL]: null,
+  [VoicePitch.HIGH]: "Read the following aloud in a higher-pitched, bright voice:",
+};
+
+/**
+ * Step 2: Convert script into Audio
+ */
+const synthesizeSpeech = async (script: string, voice: VoiceSettings, signal?: AbortSignal): Promise<string> => {
+  // Prebuilt voices have no pitch parameter: the TTS model follows a spoken style instruction instead
+  const pitchInstruction = PITCH_INSTRUCTIONS[voice.pitch];
+  const response = await generate({
+    model: TTS_MODEL,
+    contents: [{ parts: [{ text: pitchInstruction ? `${pitchInstruction}\n${script}` : script }] }],
+    config: {
+      responseModalities: [Modality.AUDIO],
+      speechConfig: {
+        voiceConfig: {
+          prebuiltVoiceConfig: { voiceName: voice.voiceName },
+        },
+      },
+    },
+  }, signal);
+
+  const base64Audio = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
+  if (!base64Audio) {
+    throw new AIServiceError(AIErrorCategory.EMPTY_RESPONSE, "Không nhận được dữ liệu âm thanh.");
+  }
+  return base64Audio;
+};
+
+/**
+ * Step 3: Find related YouTube videos
+ */
+const suggestVideos = async (script: string, signal?: AbortSignal): Promise<VideoRecommendation[]> => {
+  const prompt = `
+    Dựa trên nội dung sau, đề xuất 3 từ khóa tìm kiếm Youtube.
+    Nội dung: ${script.substring(0, 3000)}...
+    Yêu cầu: Trả về JSON mảng [{"title": "...", "query": "..."}].
+  `;
+
+  return generateJson<VideoRecommendation[]>({
+    model: TEXT_MODEL,
+    contents: { parts: [{ text: prompt }] },
+    config: {
+      responseMimeType: "application/json",
+      safetySettings: STUDIO_SAFETY_SETTINGS,
+      responseSchema: {
+         type: Type.ARRAY,
+         items: {
+           type: Type.OBJECT,
+           properties: {
+             title: { type: Type.STRING },
+             query: { type: Type.STRING }
+           }
+         }
+      }
+    }
+  }, signal);
+};
+
+/**
+ * Helper: Generate Image from Prompt using Gemini Image Model
+ */
+const generateImage = async (imagePrompt: string, signal?: AbortSignal): Promise<string | undefined> => {
+  if (!imagePrompt) return undefined;
+
+  const response = await generate({
+    model: IMAGE_MODEL,
+    contents: { parts: [{ text: imagePrompt }] },
+    // Note: responseMimeType is not supported for nano banana series models for image output config usually,
+    // but we need to prompt it to generate an image.
+    // Actually, standard usage for image gen in this SDK is just generateContent with text prompt.
+  }, signal);
+
+  // Iterate to find image part
+  const parts = response.candidates?.[0]?.content?.parts;
+  if (parts) {
+    for (const part of parts) {
+      if (part.inlineData) {
+        return part.inlineData.data; // Base64 string
+      }
+    }
+  }
+  return undefined;
+};
+
+// Rules shared by every request that writes worked solutions
+const buildSolutionRules = (profile: SubjectProfile) => `
+    QUY TẮC NGHIÊM NGẶT VỀ NGÔN NGỮ:${profile.languageRules}
+
+    3. XỬ LÝ HÌNH ẢNH MINH HỌA (QUAN TRỌNG - CHẾ ĐỘ TIẾT KIỆM - TRIGGER CONDITION):${profile.illustrationRules}
+
+    4. ĐỊNH DẠNG VĂN BẢN:
+       - Dùng dấu gạch đầu dòng (-) cho các bước.
+       - Dùng **In Đậm** cho tiêu đề.
+
+    5. ĐÁP ÁN CUỐI CÙNG ("finalAnswer" - để học sinh tự luyện tập, app tự chấm):
+       - Câu trắc nghiệm: kind = "CHOICE", "options" là các phương án theo đúng thứ tự trong đề, "correctOption" là chỉ số (bắt đầu từ 0) của phương án đúng.
+       - Đáp án là một số: kind = "NUMERIC", "value" là số (dấu chấm thập phân), "unit" là đơn vị (ví dụ "lít", "g", "mol/L"), "tolerance" là sai số tương đối chấp nhận (mặc định 0.01).
+       - Đáp án ngắn khác (công thức, tên chất...): kind = "TEXT", "text" là đáp án ngắn gọn.
+
+    6. GỢI Ý ("hints"): 2-3 gợi ý tăng dần, từ gợi ý hướng đi đến gần như toàn bộ phương pháp, KHÔNG nêu đáp án cuối cùng.
+`;
+
+const SOLUTION_ITEM_EXAMPLE = `
+        "questionDisplay": "Đề bài",
+        "questionReading": "Đề bài (phiên bản để đọc)",
+        "solutionDisplay": "Lời giải",
+        "solutionReading": "Lời giải (phiên bản để đọc)",
+        "imagePrompt": "Câu lệnh vẽ (Chỉ khi cần thiết, nếu không để trống)",
+        "structures": [],
+        "finalAnswer": { "kind": "NUMERIC", "value": 2.24, "unit": "lít", "tolerance": 0.01 },
+        "hints": ["Gợi ý 1", "Gợi ý 2"]`;
+
+const SOLUTION_ITEM_PROPERTIES = {
+  questionDisplay: { type: Type.STRING },
+  questionReading: { type: Type.STRING },
+  solutionDisplay: { type: Type.STRING },
+  solutionReading: { type: Type.STRING },
+  imagePrompt: { type: Type.STRING },
+  structures: {
+    type: Type.ARRAY,
+    items: {
+      type: Type.OBJECT,
+      properties: {
+        smiles: { type: Type.STRING },
+        formula: { type: Type.STRING },
+        name: { type: Type.STRING }
+      },
+      required: ["smiles"]
+    }
+  },
+  finalAnswer: {
+    type: Type.OBJECT,
+    properties: {
+      kind: { type: Type.STRING, enum: Object.values(AnswerKind) },
+      options: { type: Type.ARRAY, items: { type: Type.STRING } },
+      correctOption: { type: Type.INTEGER },
+      value: { type: Type.NUMBER },
+      unit: { type: Type.STRING },
+      tolerance: { type: Type.NUMBER },
+      text: { type: Type.STRING }
+    },
+    required: ["kind"]
+  },
+  hints: { type: Type.ARRAY, items: { type: Type.STRING } }
+};
+
+/**
+ * Step 4: Detect and Solve Questions (text + image prompts)
+ */
+const solveQuestions = async (
+  script: string,
+  attachments: InlineAttachment[],
+  subject: Subject,
+  signal?: AbortSignal,
+  onItem?: (item: SolutionItem, index: number) => void
+): Promise<SolutionItem[]> => {
+  const profile = getSubjectProfile(subject);
+
+  // Prompt updated: STRICT "TRIGGER CONDITION" FOR DRAWING
+  const prompt = `
+    Bạn là ${profile.tutorRole} (GDPT 2018 Việt Nam).
+${buildSolutionRules(profile)}
+    Nội dung văn bản (OCR) tham khảo:
+    """
+    ${script}
+    """
+
+    JSON Output (Array):
+    [
+      {${SOLUTION_ITEM_EXAMPLE}
+      }
+    ]
+  `;
+
+  // Pass the original file if available so Gemini can "see" the structures
+  const parts: any[] = toInlineParts(attachments);
+
+  parts.push({ text: prompt });
+
+  // Emit every solution as soon as its JSON object is complete
+  const createTextHandler = () => createJsonArrayParser<SolutionItem>((item, index) => onItem?.(item, index));
+
+  return generateJsonStream<SolutionItem[]>({
+    model: TEXT_MODEL,
+    contents: { parts },
+    config: {
+      responseMimeType: "application/json",
+      safetySettings: STUDIO_SAFETY_SETTINGS,
+      responseSchema: {
+         type: Type.ARRAY,
+         items: {
+           type: Type.OBJECT,
+           properties: SOLUTION_ITEM_PROPERTIES
+         }
+      }
+    }
+  }, createTextHandler, signal);
+};
+
+/**
+ * New problems of the same kind as a solved one, with their own solutions and answers
+ */
+const generateSimilarProblems = async (
+  item: SolutionItem,
+  subject: Subject,
+  count: number,
+  signal?: AbortSignal
+): Promise<SolutionItem[]> => {
+  const profile = getSubjectProfile(subject);
+
+  const prompt = `
+    Bạn là ${profile.tutorRole} (GDPT 2018 Việt Nam).
+    Học sinh vừa làm xong bài dưới đây và muốn luyện thêm. Hãy ra ${count} bài TƯƠNG TỰ:
+    - Cùng dạng bài và cùng phương pháp giải, nhưng thay đổi số liệu và chất/đối tượng (không chép lại đề gốc).
+    - Số liệu phải cho ra kết quả hợp lý (ưu tiên số đẹp) và đã được kiểm tra lại.
+    - Mỗi bài có lời giải chi tiết, đáp án cuối cùng và độ khó "difficulty": "EASY" (dễ hơn bài gốc), "MEDIUM" (tương đương) hoặc "HARD" (khó hơn). Nên có đủ các mức độ.
+${buildSolutionRules(profile)}
+    Bài gốc:
+    """
+    ${item.questionDisplay}
+    """
+
+    Lời giải bài gốc:
+    """
+    ${item.solutionDisplay}
+    """
+
+    JSON Output (Array):
+    [
+      {${SOLUTION_ITEM_EXAMPLE},
+        "difficulty": "MEDIUM"
+      }
+    ]
+  `;
+
+  return generateJson<SolutionItem[]>({
+    model: TEXT_MODEL,
+    contents: { parts: [{ text: prompt }] },
+    config: {
+      responseMimeType: "application/json",
+      safetySettings: STUDIO_SAFETY_SETTINGS,
+      responseSchema: {
+         type: Type.ARRAY,
+         items: {
+           type: Type.OBJECT,
+           properties: {
+             ...SOLUTION_ITEM_PROPERTIES,
+             difficulty: { type: Type.STRING, enum: Object.values(Difficulty) }
+           }
+         }
+      }
+    }
+  }, signal);
+};
+
+// Long conversations only keep their latest turns
+const MAX_CHAT_TURNS = 20;
+
+/**
+ * Latest turns of a conversation as alternating user/model contents. The kept part starts on a
+ * student turn (it follows the canned model reply to the grounding), and back-to-back messages
+ * of one role (a question whose answer failed) are merged into one turn.
+ */
+const toChatContents = (history: ChatMessage[]) => {
+  const recent = history.slice(-MAX_CHAT_TURNS);
+  const first = recent.findIndex(message => message.role === ChatRole.STUDENT);
+  const turns: { role: string; parts: { text: string }[] }[] = [];
+  recent.slice(first === -1 ? recent.length : first).forEach(message => {
+    const role = message.role === ChatRole.TUTOR ? "model" : "user";
+    const last = turns[turns.length - 1];
+    if (last?.role === role) last.parts.push({ text: message.text });
+    else turns.push({ role, parts: [{ text: message.text }] });
+  });
+  return turns;
+};
+
+/**
+ * Answer a follow-up question, grounded in the lesson, the solution asked about and the original file
+ */
+const askTutor = async (context: TutorContext, signal?: AbortSignal): Promise<TutorReply> => {
+  const profile = getSubjectProfile(context.subject);
+  const { item } = context;
+
+  const grounding = `
+    Bạn là ${profile.tutorRole} (GDPT 2018 Việt Nam), đang trả lời câu hỏi của học sinh về ${item ? 'một bài tập đã giải' : 'bài học'} dưới đây.
+    - Trả lời ngắn gọn, đúng trọng tâm câu hỏi, giải thích từng bước khi cần. Dùng Tiếng Việt.
+    - Chỉ dựa trên đề bài, lời giải và tài liệu gốc đính kèm. Nếu lời giải có chỗ sai, hãy chỉ ra và sửa lại.
+    - Trả về "text" (hiển thị) và "reading" (phiên bản để đọc).
+
+    QUY TẮC NGÔN NGỮ:${profile.languageRules}
+
+    Nội dung bài học (OCR):
+    """
+    ${context.script}
+    """
+${item ? `
+    Đề bài:
+    """
+    ${item.questionDisplay}
+    """
+
+    Lời giải:
+    """
+    ${item.solutionDisplay}
+    """
+` : ''}`;
+
+  // The grounding goes first, followed by the conversation as alternating turns
+  const contents = [
+    { role: "user", parts: [...toInlineParts(context.attachments), { text: grounding }] },
+    { role: "model", parts: [{ text: "Em cứ hỏi, thầy sẽ giải thích." }] },
+    ...toChatContents(context.history),
+  ];
+
+  return generateJson<TutorReply>({
+    model: TEXT_MODEL,
+    contents,
+    config: {
+      responseMimeType: "application/json",
+      safetySettings: STUDIO_SAFETY_SETTINGS,
+      responseSchema: {
+        type: Type.OBJECT,
+        properties: {
+          text: { type: Type.STRING },
+          reading: { type: Type.STRING }
+        },
+        required: ["text", "reading"]
+      }
+    }
+  }, signal);
+};
+
+export const geminiProvider: AIProvider = {
+  id: 'gemini',
+  label: 'Gemini 2.5 Flash',
+  extractScript,
+  solveQuestions,
+  generateSimilarProblems,
+  askTutor,
+  synthesizeSpeech,
+  generateImage,
+  suggestVideos,
+};
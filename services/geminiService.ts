@@ -1,359 +1,174 @@
-import { GoogleGenAI, Modality, Type } from "@google/genai";
-import { SolutionItem } from "../types";
+import { AudioSegment, InlineAttachment, SolutionItem, Subject, VideoRecommendation, VoiceSettings } from "../types";
+import { getAIProvider, DualScriptResponse, TutorContext, TutorReply } from "./aiProvider";
+import { isCancelledError, throwIfAborted } from "./aiErrors";
+import { DEFAULT_SUBJECT, SubjectProfile, getSubjectProfile } from "./subjects";
+import { mapWithConcurrency } from "./concurrency";
+import { getSegmentText, planNarration } from "./narration";
+import { applyPronunciation } from "./pronunciation";
+import { isReplacedByStructures } from "./structureDiagram";
 
-// Initialize Gemini
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+// Parallel TTS requests of one narration
+const TTS_CONCURRENCY = 3;
 
-/**
- * Interface for the dual-script output
- */
-interface DualScriptResponse {
-  displayScript: string;
-  readingScript: string;
-}
-
-// --- GOOGLE AI STUDIO CONFIGURATION ---
-// Disable safety filters to allow processing of educational materials 
-const STUDIO_SAFETY_SETTINGS = [
-  { category: 'HARM_CATEGORY_HATE_SPEECH', threshold: 'BLOCK_NONE' },
-  { category: 'HARM_CATEGORY_SEXUALLY_EXPLICIT', threshold: 'BLOCK_NONE' },
-  { category: 'HARM_CATEGORY_HARASSMENT', threshold: 'BLOCK_NONE' },
-  { category: 'HARM_CATEGORY_DANGEROUS_CONTENT', threshold: 'BLOCK_NONE' },
-];
-
-/**
- * Helper function to call Gemini with a specific system prompt
- */
-const callGeminiWithPrompt = async (
-  model: string,
-  systemPrompt: string,
-  userPrompt: string,
-  parts: any[]
-): Promise<DualScriptResponse | null> => {
-  try {
-    const finalParts = [...parts, { text: userPrompt }];
-
-    const response = await ai.models.generateContent({
-      model: model,
-      contents: [{ role: 'user', parts: finalParts }], 
-      config: {
-        systemInstruction: systemPrompt,
-        temperature: 0.1, 
-        responseMimeType: "application/json",
-        safetySettings: STUDIO_SAFETY_SETTINGS, 
-        responseSchema: {
-          type: Type.OBJECT,
-          properties: {
-            displayScript: { type: Type.STRING },
-            readingScript: { type: Type.STRING }
-          },
-          required: ["displayScript", "readingScript"]
-        }
-      }
-    });
-
-    const candidate = response.candidates?.[0];
-    if (candidate?.finishReason === "RECITATION" || candidate?.finishReason === "SAFETY") {
-      console.warn(`Blocked by ${candidate.finishReason}. Retrying with safe prompt...`);
-      return null; 
-    }
-
-    if (response.text) {
-      return JSON.parse(response.text) as DualScriptResponse;
-    }
-
-    return null;
-  } catch (error) {
-    console.warn("Attempt failed:", error);
-    return null;
-  }
-};
+// Gemini TTS output: 24kHz, 16-bit, mono PCM
+const PCM_BYTES_PER_SECOND = 24000 * 2;
 
 /**
  * Step 1: Analyze content (Text, Image, PDF)
  */
 export const generateReadingScript = async (
   textInput: string,
-  fileBase64?: string,
-  mimeType?: string
+  attachments: InlineAttachment[] = [],
+  subject: Subject | null = null, // null: let the model detect the subject
+  signal?: AbortSignal,
+  onProgress?: (partial: DualScriptResponse) => void
 ): Promise<DualScriptResponse> => {
-  
-  const model = "gemini-2.5-flash"; 
-  
-  const parts: any[] = [];
-  if (fileBase64 && mimeType) {
-    parts.push({
-      inlineData: { mimeType: mimeType, data: fileBase64 }
-    });
-  }
-  if (textInput) parts.push({ text: textInput });
-
-  const promptOCR = `
-    Bạn là công cụ trích xuất văn bản (OCR) và chuẩn hóa danh pháp hóa học.
-    
-    NHIỆM VỤ:
-    1. Trích xuất nội dung từ tài liệu.
-    2. Tạo 2 phiên bản văn bản:
-    
-    YÊU CẦU CHI TIẾT:
-    
-    A. "displayScript" (Để hiển thị):
-       - Giữ nguyên công thức hóa học ngắn gọn (H2SO4, Cu, NaCl...).
-       - Giữ nguyên cấu trúc đề bài.
-    
-    B. "readingScript" (Để đọc Audio - QUAN TRỌNG):
-       - CHUYỂN ĐỔI TOÀN BỘ CÔNG THỨC HÓA HỌC SANG TÊN GỌI TIẾNG ANH (IUPAC).
-       - TUYỆT ĐỐI KHÔNG đọc từng chữ cái (Ví dụ: KHÔNG đọc "Hờ hai ét ô bốn", KHÔNG đọc "Ca hát ca").
-       - Nguyên tố: 
-         + Cu -> đọc là "Copper" (không đọc Đồng).
-         + Fe -> đọc là "Iron" (không đọc Sắt).
-         + Na -> đọc là "Sodium" (không đọc Natri).
-       - Hợp chất:
-         + H2SO4 -> đọc là "Sulfuric Acid".
-         + HCl -> đọc là "Hydrochloric Acid".
-         + KMnO4 -> đọc là "Potassium Permanganate".
-       - Các từ nối trong câu vẫn giữ Tiếng Việt bình thường.
-       
-    Ví dụ Output:
-    {
-      "displayScript": "Cho Fe tác dụng với dung dịch HCl...",
-      "readingScript": "Cho Iron tác dụng với dung dịch Hydrochloric Acid..."
-    }
-  `;
-
-  const userInstruction = "Hãy trích xuất và xử lý nội dung này theo đúng chuẩn danh pháp IUPAC tiếng Anh cho phần đọc.";
-
-  console.log("Attempting OCR with IUPAC rules...");
-  const result1 = await callGeminiWithPrompt(model, promptOCR, userInstruction, parts);
-  if (result1) return result1;
-
-  throw new Error("Không thể xử lý tài liệu này. Vui lòng thử lại.");
+  return getAIProvider().extractScript(textInput, attachments, subject, signal, onProgress);
 };
 
 /**
- * Step 2: Convert script into Audio
+ * Step 2: Convert script into Audio. Formulas, units and numbers left in the script are
+ * spelled out by the local pronunciation dictionary first.
  */
-export const synthesizeSpeech = async (script: string): Promise<string> => {
-  const model = "gemini-2.5-flash-preview-tts";
-
-  try {
-    const response = await ai.models.generateContent({
-      model: model,
-      contents: [{ parts: [{ text: script }] }],
-      config: {
-        responseModalities: [Modality.AUDIO],
-        speechConfig: {
-          voiceConfig: {
-            prebuiltVoiceConfig: { voiceName: 'Kore' },
-          },
-        },
-      },
-    });
-
-    const base64Audio = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
-    if (!base64Audio) throw new Error("Không nhận được dữ liệu âm thanh.");
-    return base64Audio;
-  } catch (error) {
-    console.error("Gemini TTS Error:", error);
-    throw new Error("Lỗi khi tạo giọng nói.");
-  }
+export const synthesizeSpeech = async (script: string, voice: VoiceSettings, signal?: AbortSignal): Promise<string> => {
+  return getAIProvider().synthesizeSpeech(applyPronunciation(script), voice, signal);
 };
 
 /**
- * Step 3: Find related YouTube videos
+ * Step 2b: Narrate a lesson sentence by sentence. The reading script is split into
+ * segments synthesized separately, each aligned with the display script for highlighting.
  */
-export const getRelatedVideoQueries = async (script: string): Promise<Array<{title: string, query: string}>> => {
-  const model = "gemini-2.5-flash";
-  const prompt = `
-    Dựa trên nội dung sau, đề xuất 3 từ khóa tìm kiếm Youtube.
-    Nội dung: ${script.substring(0, 3000)}...
-    Yêu cầu: Trả về JSON mảng [{"title": "...", "query": "..."}].
-  `;
-  
-  try {
-    const response = await ai.models.generateContent({
-      model,
-      contents: { parts: [{ text: prompt }] },
-      config: {
-        responseMimeType: "application/json",
-        safetySettings: STUDIO_SAFETY_SETTINGS,
-        responseSchema: {
-           type: Type.ARRAY,
-           items: {
-             type: Type.OBJECT,
-             properties: {
-               title: { type: Type.STRING },
-               query: { type: Type.STRING }
-             }
-           }
-        }
-      }
-    });
-    
-    if (response.text) return JSON.parse(response.text);
-    return [];
-  } catch (e) {
-    console.error("Video suggestion error", e);
-    return [];
-  }
+export const synthesizeNarration = async (
+  displayScript: string,
+  readingScript: string,
+  voice: VoiceSettings,
+  signal?: AbortSignal
+): Promise<AudioSegment[]> => {
+  const plan = planNarration(displayScript, readingScript);
+  return mapWithConcurrency(plan, TTS_CONCURRENCY, async (sentences): Promise<AudioSegment> => ({
+    sentences,
+    audioBase64: await synthesizeSpeech(getSegmentText(readingScript, sentences), voice, signal),
+  }), signal);
 };
 
 /**
- * Helper: Generate Image from Prompt using Gemini Image Model
+ * Step 3: Find related YouTube videos
  */
-const generateChemicalImage = async (imagePrompt: string): Promise<string | undefined> => {
-  if (!imagePrompt) return undefined;
-  
-  // Use 'gemini-2.5-flash-image' for image generation as per guidelines
-  const model = "gemini-2.5-flash-image"; 
-  
-  try {
-    const response = await ai.models.generateContent({
-      model,
-      contents: { parts: [{ text: imagePrompt }] },
-      // Note: responseMimeType is not supported for nano banana series models for image output config usually, 
-      // but we need to prompt it to generate an image. 
-      // Actually, standard usage for image gen in this SDK is just generateContent with text prompt.
-    });
+export const getRelatedVideoQueries = async (script: string, signal?: AbortSignal): Promise<VideoRecommendation[]> => {
+  return getAIProvider().suggestVideos(script, signal);
+};
 
-    // Iterate to find image part
-    const parts = response.candidates?.[0]?.content?.parts;
-    if (parts) {
-      for (const part of parts) {
-        if (part.inlineData) {
-          return part.inlineData.data; // Base64 string
-        }
-      }
-    }
-    return undefined;
-  } catch (e) {
-    console.error("Image generation failed:", e);
-    return undefined;
-  }
+// Logic check: Only generate if prompt is substantial and not a molecule drawn locally
+const needsIllustration = (item: SolutionItem): boolean => {
+  const prompt = item.imagePrompt?.trim();
+  return !!prompt && prompt.length > 10 && prompt.toLowerCase() !== "none" && !isReplacedByStructures(item);
+};
+
+// Force accuracy keywords for the subject's illustration style
+const createIllustration = (item: SolutionItem, profile: SubjectProfile, signal?: AbortSignal): Promise<string | undefined> => {
+  return getAIProvider().generateImage(profile.imageStyle.replace('{prompt}', item.imagePrompt!.trim()), signal);
 };
 
 /**
- * Step 4: Detect, Solve Questions AND Generate Images
+ * Step 4: Detect, Solve Questions AND Generate Images.
+ * Solutions are reported through onUpdate as they stream in; illustrations fill in as they finish.
  */
 export const analyzeAndSolve = async (
   script: string, 
-  fileBase64?: string, 
-  mimeType?: string
+  attachments: InlineAttachment[] = [],
+  subject: Subject = DEFAULT_SUBJECT,
+  signal?: AbortSignal,
+  onUpdate?: (items: SolutionItem[]) => void
 ): Promise<SolutionItem[]> => {
-  const model = "gemini-2.5-flash";
-  
-  // Prompt updated: STRICT "TRIGGER CONDITION" FOR DRAWING
-  const prompt = `
-    Bạn là Gia Sư Hóa Học Thông Minh (GDPT 2018 Việt Nam).
-    
-    QUY TẮC NGHIÊM NGẶT VỀ NGÔN NGỮ:
-    1. HIỂN THỊ (Display): Dùng ký hiệu hóa học chuẩn (H2SO4, Cu, Fe...).
-    2. ĐỌC (Reading): BẮT BUỘC DÙNG TÊN TIẾNG ANH IUPAC.
-
-    3. XỬ LÝ HÌNH ẢNH MINH HỌA (QUAN TRỌNG - CHẾ ĐỘ TIẾT KIỆM - TRIGGER CONDITION):
-       - CHỈ TẠO "imagePrompt" KHI VÀ CHỈ KHI đề bài hoặc lời giải CÓ YÊU CẦU CỤ THỂ như:
-         + "Vẽ", "Viết công thức cấu tạo", "Minh họa", "Sơ đồ".
-         + Hoặc nội dung là cấu trúc Hữu cơ cần hình ảnh để hiểu (đồng phân, liên kết không gian).
-       
-       - TRƯỜNG HỢP KHÔNG VẼ (BẮT BUỘC ĐỂ CHUỖI RỖNG ""):
-         + Bài toán tính toán số liệu (tính mol, nồng độ, khối lượng...).
-         + Bài lý thuyết nhận biết, chuỗi phản ứng đơn giản.
-         + Câu hỏi trắc nghiệm không yêu cầu hình vẽ.
-
-       - NẾU PHẢI VẼ (Khi thỏa điều kiện trên):
-         + Prompt tiếng Anh, bao gồm SMILES hoặc Formula.
-         + Style: "Scientific textbook diagram", "2D skeletal", "Explicit atoms", "Black lines", "White background".
-
-    4. ĐỊNH DẠNG VĂN BẢN:
-       - Dùng dấu gạch đầu dòng (-) cho các bước.
-       - Dùng **In Đậm** cho tiêu đề.
-    
-    Nội dung văn bản (OCR) tham khảo: 
-    """
-    ${script.substring(0, 10000)}
-    """
-
-    JSON Output (Array):
-    [
-      { 
-        "questionDisplay": "Đề bài",
-        "questionReading": "Đề bài đọc IUPAC",
-        "solutionDisplay": "Lời giải", 
-        "solutionReading": "Lời giải đọc IUPAC",
-        "imagePrompt": "Câu lệnh vẽ (Chỉ khi cần thiết, nếu không để trống)"
+  const provider = getAIProvider();
+  const profile = getSubjectProfile(subject);
+
+  const current: SolutionItem[] = [];
+  const illustrations = new Map<number, Promise<void>>();
+  const report = () => onUpdate?.(current.filter(Boolean));
+
+  // Start an item's illustration as soon as the item is known (once per index)
+  const illustrate = (item: SolutionItem, index: number) => {
+    if (!needsIllustration(item) || illustrations.has(index)) return;
+
+    illustrations.set(index, (async () => {
+      try {
+        const imageBase64 = await createIllustration(item, profile, signal);
+        if (!current[index]) return; // Dropped by the final response
+        current[index] = { ...current[index], illustrationImage: imageBase64 };
+        report();
+      } catch (err) {
+        // Cancellation is rethrown below once every illustration has settled
+        if (!isCancelledError(err)) console.warn(`Failed to generate image for: ${item.imagePrompt}`, err);
       }
-    ]
-  `;
-
-  try {
-     const parts: any[] = [];
-    
-     // Pass the original file if available so Gemini can "see" the structures
-     if (fileBase64 && mimeType) {
-       parts.push({
-         inlineData: {
-           mimeType: mimeType,
-           data: fileBase64
-         }
-       });
-     }
- 
-     parts.push({ text: prompt });
-
-     // 1. Get Text Solutions and Image Prompts
-     const response = await ai.models.generateContent({
-      model,
-      contents: { parts },
-      config: {
-        responseMimeType: "application/json",
-        safetySettings: STUDIO_SAFETY_SETTINGS, 
-        responseSchema: {
-           type: Type.ARRAY,
-           items: {
-             type: Type.OBJECT,
-             properties: {
-               questionDisplay: { type: Type.STRING },
-               questionReading: { type: Type.STRING },
-               solutionDisplay: { type: Type.STRING },
-               solutionReading: { type: Type.STRING },
-               imagePrompt: { type: Type.STRING }
-             }
-           }
-        }
-      }
-    });
+    })());
+  };
+
+  const setItem = (item: SolutionItem, index: number) => {
+    current[index] = { ...item, illustrationImage: current[index]?.illustrationImage };
+    illustrate(item, index);
+  };
+
+  // 1. Get Text Solutions and Image Prompts (streamed)
+  const items = await provider.solveQuestions(script, attachments, subject, signal, (item, index) => {
+    setItem(item, index);
+    report();
+  });
+
+  // 2. The complete response is authoritative (a streamed element may have been skipped)
+  items.forEach(setItem);
+  current.length = items.length;
+  report();
+
+  await Promise.all(illustrations.values());
+  throwIfAborted(signal);
+  return [...current];
+};
 
-    let items: SolutionItem[] = [];
-    if (response.text) {
-      items = JSON.parse(response.text) as SolutionItem[];
-    } else {
-      return [];
+/**
+ * Step 5: Practice problems of the same kind as a solved question, illustrated like the lesson's own
+ */
+export const generateSimilarProblems = async (
+  item: SolutionItem,
+  subject: Subject = DEFAULT_SUBJECT,
+  count = 3,
+  signal?: AbortSignal
+): Promise<SolutionItem[]> => {
+  const profile = getSubjectProfile(subject);
+  const items = await getAIProvider().generateSimilarProblems(item, subject, count, signal);
+
+  return Promise.all(items.map(async (problem) => {
+    if (!needsIllustration(problem)) return problem;
+    try {
+      return { ...problem, illustrationImage: await createIllustration(problem, profile, signal) };
+    } catch (err) {
+      if (isCancelledError(err)) throw err;
+      console.warn(`Failed to generate image for: ${problem.imagePrompt}`, err);
+      return problem;
     }
+  }));
+};
 
-    // 2. Parallel Image Generation for each item with a prompt
-    console.log("Generating images for solutions...");
-    const itemsWithImages = await Promise.all(items.map(async (item) => {
-      // Logic check: Only generate if prompt is substantial
-      if (item.imagePrompt && item.imagePrompt.trim().length > 10 && item.imagePrompt.toLowerCase() !== "none") {
-        try {
-          // Force accuracy keywords
-          const enforcedPrompt = `Scientifically accurate chemical structure, ${item.imagePrompt}, 2D flat view, high quality, white background`;
-          const imageBase64 = await generateChemicalImage(enforcedPrompt);
-          return { ...item, illustrationImage: imageBase64 };
-        } catch (err) {
-          console.warn(`Failed to generate image for: ${item.imagePrompt}`, err);
-          return item;
-        }
-      }
-      return item;
-    }));
+/**
+ * Step 6: Follow-up question to the tutor about the lesson or one of its solutions
+ */
+export const askTutor = async (context: TutorContext, signal?: AbortSignal): Promise<TutorReply> => {
+  return getAIProvider().askTutor(context, signal);
+};
 
-    return itemsWithImages;
+/**
+ * Playback length of base64 PCM audio, in seconds
+ */
+export const getPcmDuration = (base64Pcm: string): number => {
+  const padding = base64Pcm.endsWith('==') ? 2 : base64Pcm.endsWith('=') ? 1 : 0;
+  return (base64Pcm.length * 3 / 4 - padding) / PCM_BYTES_PER_SECOND;
+};
 
-  } catch (e) {
-    console.error("Solver error", e);
-    return [];
-  }
+/**
+ * Concatenate base64 PCM clips into one (e.g. to download a whole narration)
+ */
+export const joinPcmBase64 = (clips: string[]): string => {
+  return btoa(clips.map(clip => atob(clip)).join(''));
 };
 
 /**
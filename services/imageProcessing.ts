@@ -0,0 +1,237 @@
+/**
+ * Client-side photo clean-up before OCR: rotate, deskew, crop, grayscale/contrast,
+ * then downscale and re-encode as JPEG so uploads stay small.
+ */
+
+export interface CropRect {
+  // Normalized (0..1) to the rotated image
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface ImageEdits {
+  quarterTurns: number; // 0..3, clockwise
+  skewAngle: number; // Fine rotation in degrees (deskew)
+  crop: CropRect | null;
+  grayscale: boolean;
+  contrast: number; // 1 = unchanged
+}
+
+export const DEFAULT_IMAGE_EDITS: ImageEdits = {
+  quarterTurns: 0,
+  skewAngle: 0,
+  crop: null,
+  grayscale: false,
+  contrast: 1,
+};
+
+// Plenty for OCR of a worksheet page, far below phone camera resolution
+export const MAX_IMAGE_DIMENSION = 2000;
+export const TARGET_IMAGE_BYTES = 1.5 * 1024 * 1024;
+
+const MAX_SKEW_ANGLE = 15;
+const JPEG_QUALITIES = [0.9, 0.8, 0.7, 0.6, 0.5];
+
+export const loadImageBitmap = (file: Blob): Promise<ImageBitmap> => {
+  return createImageBitmap(file, { imageOrientation: 'from-image' });
+};
+
+const getRotation = (edits: ImageEdits) => ((edits.quarterTurns * 90 + edits.skewAngle) * Math.PI) / 180;
+
+// Bounding box of a width x height rectangle rotated by angle (radians)
+const getRotatedSize = (width: number, height: number, angle: number) => {
+  const cos = Math.abs(Math.cos(angle));
+  const sin = Math.abs(Math.sin(angle));
+  return { width: width * cos + height * sin, height: width * sin + height * cos };
+};
+
+/**
+ * Draw the source rotated around its centre on a canvas big enough to hold it (white corners)
+ */
+const drawRotated = (source: ImageBitmap, angle: number, scale: number) => {
+  const width = source.width * scale;
+  const height = source.height * scale;
+  const size = getRotatedSize(width, height, angle);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(size.width));
+  canvas.height = Math.max(1, Math.round(size.height));
+
+  const ctx = canvas.getContext('2d')!;
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.translate(canvas.width / 2, canvas.height / 2);
+  ctx.rotate(angle);
+  ctx.drawImage(source, -width / 2, -height / 2, width, height);
+  return canvas;
+};
+
+/**
+ * Grayscale and contrast per pixel (ctx.filter is not available in every browser)
+ */
+const applyTone = (canvas: HTMLCanvasElement, grayscale: boolean, contrast: number) => {
+  if (!grayscale && contrast === 1) return;
+  const ctx = canvas.getContext('2d')!;
+  const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  const data = imageData.data;
+  const adjust = (value: number) => Math.min(255, Math.max(0, (value - 128) * contrast + 128));
+
+  for (let i = 0; i < data.length; i += 4) {
+    if (grayscale) {
+      const gray = adjust(0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2]);
+      data[i] = data[i + 1] = data[i + 2] = gray;
+    } else {
+      data[i] = adjust(data[i]);
+      data[i + 1] = adjust(data[i + 1]);
+      data[i + 2] = adjust(data[i + 2]);
+    }
+  }
+  ctx.putImageData(imageData, 0, 0);
+};
+
+/**
+ * Render the edited image, scaled so its longest side is at most maxDimension.
+ * Pass `crop: null` to get the full rotated frame (used by the editor preview).
+ */
+export const renderEditedImage = (
+  source: ImageBitmap,
+  edits: ImageEdits,
+  maxDimension = MAX_IMAGE_DIMENSION
+): HTMLCanvasElement => {
+  const crop = edits.crop ?? { x: 0, y: 0, width: 1, height: 1 };
+  const angle = getRotation(edits);
+
+  // Scale while rotating so large photos are never processed at full resolution
+  const full = getRotatedSize(source.width, source.height, angle);
+  const croppedLongest = Math.max(full.width * crop.width, full.height * crop.height);
+  const scale = Math.min(1, maxDimension / croppedLongest);
+
+  const rotated = drawRotated(source, angle, scale);
+  const sx = Math.round(crop.x * rotated.width);
+  const sy = Math.round(crop.y * rotated.height);
+  const sw = Math.max(1, Math.round(crop.width * rotated.width));
+  const sh = Math.max(1, Math.round(crop.height * rotated.height));
+
+  const output = document.createElement('canvas');
+  output.width = sw;
+  output.height = sh;
+  output.getContext('2d')!.drawImage(rotated, sx, sy, sw, sh, 0, 0, sw, sh);
+
+  applyTone(output, edits.grayscale, edits.contrast);
+  return output;
+};
+
+/**
+ * Estimate the fine rotation (degrees) that makes text lines horizontal.
+ * Projection profile: dark pixels projected onto the vertical axis give the
+ * sharpest peaks (highest sum of squares) when lines are level.
+ */
+export const detectSkewAngle = (source: ImageBitmap, quarterTurns = 0): number => {
+  const sample = renderEditedImage(source, { ...DEFAULT_IMAGE_EDITS, quarterTurns, grayscale: true }, 600);
+  const { data, width, height } = sample.getContext('2d')!.getImageData(0, 0, sample.width, sample.height);
+
+  let sum = 0;
+  for (let i = 0; i < data.length; i += 4) sum += data[i];
+  const threshold = sum / (data.length / 4) - 40;
+
+  const points: Array<[number, number]> = [];
+  for (let y = 0; y < height; y += 2) {
+    for (let x = 0; x < width; x += 2) {
+      if (data[(y * width + x) * 4] < threshold) points.push([x - width / 2, y - height / 2]);
+    }
+  }
+  if (points.length < 50) return 0;
+
+  const binCount = Math.ceil(Math.hypot(width, height)) + 2;
+  let bestAngle = 0;
+  let bestScore = -1;
+  for (let degrees = -MAX_SKEW_ANGLE; degrees <= MAX_SKEW_ANGLE; degrees += 0.5) {
+    const theta = (degrees * Math.PI) / 180;
+    const sin = Math.sin(theta);
+    const cos = Math.cos(theta);
+    const bins = new Float64Array(binCount);
+    for (const [x, y] of points) {
+      bins[Math.round(-x * sin + y * cos + binCount / 2)]++;
+    }
+    let score = 0;
+    for (let i = 0; i < binCount; i++) score += bins[i] * bins[i];
+    if (score > bestScore) {
+      bestScore = score;
+      bestAngle = degrees;
+    }
+  }
+  // Lines tilted by +a are levelled by rotating -a
+  return bestAngle === 0 ? 0 : -bestAngle;
+};
+
+/**
+ * Encode as JPEG, lowering quality (then resolution) until it fits the target size
+ */
+const encodeToTarget = async (canvas: HTMLCanvasElement, maxBytes: number): Promise<Blob> => {
+  const toBlob = (source: HTMLCanvasElement, quality: number) =>
+    new Promise<Blob>((resolve, reject) =>
+      source.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Không thể nén ảnh.'))), 'image/jpeg', quality)
+    );
+
+  let current = canvas;
+  for (let attempt = 0; attempt < 3; attempt++) {
+    for (const quality of JPEG_QUALITIES) {
+      const blob = await toBlob(current, quality);
+      if (blob.size <= maxBytes) return blob;
+    }
+    const smaller = document.createElement('canvas');
+    smaller.width = Math.round(current.width * 0.75);
+    smaller.height = Math.round(current.height * 0.75);
+    smaller.getContext('2d')!.drawImage(current, 0, 0, smaller.width, smaller.height);
+    current = smaller;
+  }
+  return toBlob(current, JPEG_QUALITIES[JPEG_QUALITIES.length - 1]);
+};
+
+const toJpegName = (name: string) => `${name.replace(/\.[^.]+$/, '') || 'image'}.jpg`;
+
+/**
+ * Apply the edits and return a compressed JPEG file ready for upload
+ */
+export const processImageFile = async (file: File, edits: ImageEdits): Promise<File> => {
+  const bitmap = await loadImageBitmap(file);
+  try {
+    const canvas = renderEditedImage(bitmap, edits);
+    const blob = await encodeToTarget(canvas, TARGET_IMAGE_BYTES);
+    return new File([blob], toJpegName(file.name), { type: 'image/jpeg', lastModified: Date.now() });
+  } finally {
+    bitmap.close();
+  }
+};
+
+/**
+ * Cut a normalized region out of a base64 image, returned as base64 JPEG
+ */
+export const cropImageRegion = async (base64: string, mimeType: string, region: CropRect): Promise<string> => {
+  const blob = await (await fetch(`data:${mimeType};base64,${base64}`)).blob();
+  const bitmap = await loadImageBitmap(blob);
+  try {
+    const canvas = renderEditedImage(bitmap, { ...DEFAULT_IMAGE_EDITS, crop: region });
+    return canvas.toDataURL('image/jpeg', 0.92).split(',')[1];
+  } finally {
+    bitmap.close();
+  }
+};
+
+/**
+ * Automatic downscale/re-encode only (batch uploads). Small images are kept as-is.
+ */
+export const compressImageFile = async (file: File): Promise<File> => {
+  if (!file.type.startsWith('image/')) return file;
+  try {
+    const bitmap = await loadImageBitmap(file);
+    const fits = file.size <= TARGET_IMAGE_BYTES && Math.max(bitmap.width, bitmap.height) <= MAX_IMAGE_DIMENSION;
+    bitmap.close();
+    return fits ? file : await processImageFile(file, DEFAULT_IMAGE_EDITS);
+  } catch (error) {
+    console.warn('Could not compress image, uploading original:', error);
+    return file;
+  }
+};
@@ -0,0 +1,57 @@
+import { describe, expect, it, vi } from 'vitest';
+import { createJsonArrayParser, readPartialStringField } from './incrementalJson';
+
+// Feed the parser the accumulated text after every chunk, as a stream would
+const feedInChunks = (text: string, size: number, parse: (text: string) => void) => {
+  for (let end = size; end < text.length + size; end += size) {
+    parse(text.slice(0, end));
+  }
+};
+
+describe('createJsonArrayParser', () => {
+  const elements = [
+    { question: 'Câu {1}: "x" = ?', steps: [{ text: '[a]' }, { text: 'b\\\\' }] },
+    { question: 'Câu 2', steps: [] },
+    { question: 'Câu 3 \\"}', steps: [{ text: '}' }] },
+  ];
+  const json = JSON.stringify(elements, null, 2);
+
+  it('emits every element once, as soon as it is complete', () => {
+    [1, 7, json.length].forEach(size => {
+      const onElement = vi.fn();
+      feedInChunks(json, size, createJsonArrayParser(onElement));
+      expect(onElement.mock.calls).toEqual(elements.map((element, index) => [element, index]));
+    });
+  });
+
+  it('waits for the closing brace of an element', () => {
+    const onElement = vi.fn();
+    const parse = createJsonArrayParser(onElement);
+    parse('[{"question": "Câu 1"}, {"question": "Câu');
+    expect(onElement).toHaveBeenCalledTimes(1);
+    parse('[{"question": "Câu 1"}, {"question": "Câu 2"}');
+    expect(onElement).toHaveBeenLastCalledWith({ question: 'Câu 2' }, 1);
+  });
+
+  it('skips a malformed element without shifting the next index', () => {
+    const onElement = vi.fn();
+    createJsonArrayParser(onElement)('[{"a": 1,}, {"a": 2}]');
+    expect(onElement.mock.calls).toEqual([[{ a: 2 }, 0]]);
+  });
+});
+
+describe('readPartialStringField', () => {
+  it('returns null until the field starts', () => {
+    expect(readPartialStringField('{"subject": "MATH", "displ', 'displayScript')).toBeNull();
+  });
+
+  it('decodes the value typed so far', () => {
+    expect(readPartialStringField('{"displayScript": "Câu 1:\\n\\"x\\" = \\u00b2 và', 'displayScript')).toBe('Câu 1:\n"x" = ² và');
+    expect(readPartialStringField('{"displayScript" : "xong", "readingScript": "đọc"}', 'displayScript')).toBe('xong');
+  });
+
+  it('stops before an escape split across chunks', () => {
+    expect(readPartialStringField('{"displayScript": "a\\', 'displayScript')).toBe('a');
+    expect(readPartialStringField('{"displayScript": "a\\u00', 'displayScript')).toBe('a');
+  });
+});
@@ -0,0 +1,79 @@
+/**
+ * Helpers for reading JSON while it is still being streamed by the model.
+ */
+
+/**
+ * Incremental parser for a top-level JSON array of objects.
+ * Feed it the accumulated text; every element is emitted once, as soon as its closing brace arrives.
+ */
+export const createJsonArrayParser = <T>(onElement: (element: T, index: number) => void) => {
+  let position = 0;
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+  let elementStart = -1;
+  let count = 0;
+
+  return (text: string) => {
+    for (; position < text.length; position++) {
+      const char = text[position];
+      if (inString) {
+        if (escaped) escaped = false;
+        else if (char === '\\') escaped = true;
+        else if (char === '"') inString = false;
+        continue;
+      }
+
+      if (char === '"') {
+        inString = true;
+      } else if (char === '{' || char === '[') {
+        if (depth === 1 && char === '{') elementStart = position;
+        depth++;
+      } else if (char === '}' || char === ']') {
+        depth--;
+        if (depth === 1 && char === '}' && elementStart >= 0) {
+          const raw = text.slice(elementStart, position + 1);
+          elementStart = -1;
+          try {
+            onElement(JSON.parse(raw) as T, count++);
+          } catch {
+            // A malformed element is left to the final full parse
+          }
+        }
+      }
+    }
+  };
+};
+
+const ESCAPES: Record<string, string> = { n: '\n', t: '\t', r: '\r', b: '\b', f: '\f', '"': '"', '\\': '\\', '/': '/' };
+
+/**
+ * Decoded value of a string field in a possibly incomplete JSON object,
+ * e.g. the displayScript typed so far. Returns null until the field starts.
+ */
+export const readPartialStringField = (text: string, field: string): string | null => {
+  const match = new RegExp(`"${field}"\\s*:\\s*"`).exec(text);
+  if (!match) return null;
+
+  let value = '';
+  for (let i = match.index + match[0].length; i < text.length; i++) {
+    const char = text[i];
+    if (char === '"') break;
+    if (char !== '\\') {
+      value += char;
+      continue;
+    }
+    const next = text[i + 1];
+    if (next === undefined) break; // Escape split across chunks
+    if (next === 'u') {
+      const hex = text.slice(i + 2, i + 6);
+      if (hex.length < 4) break;
+      value += String.fromCharCode(parseInt(hex, 16));
+      i += 5;
+    } else {
+      value += ESCAPES[next] ?? next;
+      i++;
+    }
+  }
+  return value;
+};
@@ -0,0 +1,168 @@
+import JSZip from 'jszip';
+import { BLOB_STORES, LessonMeta, StoredLesson, addStoredLesson, readStoredLesson } from './storageService';
+
+/**
+ * Portable lesson bundles: a zip holding a versioned manifest and, per lesson,
+ * its stored result plus every binary (original file, images, audio).
+ *
+ *   manifest.json
+ *   lessons/<hash>/result.json
+ *   lessons/<hash>/<n>.bin
+ */
+
+const BUNDLE_FORMAT = 'GiaSuThongMinh-lessons';
+const BUNDLE_VERSION = 1;
+
+export const BUNDLE_EXTENSION = '.giasu.zip';
+
+interface BundleBlobEntry {
+  store: string; // Object store it is restored into
+  key: string; // Referenced from the result as { $blob: key }
+  type: string; // MIME type (not kept by the zip)
+  path: string;
+}
+
+interface BundleLessonEntry {
+  meta: LessonMeta;
+  blobs: BundleBlobEntry[];
+}
+
+interface BundleManifest {
+  format: string;
+  version: number;
+  createdAt: number;
+  lessons: BundleLessonEntry[];
+}
+
+export interface ImportSummary {
+  imported: number;
+  skipped: number; // Already in the history (same content hash)
+}
+
+const INVALID_BUNDLE_MESSAGE = 'File không phải gói bài học hợp lệ.';
+
+const CONTENT_HASH_PATTERN = /^[0-9a-f]{64}$/;
+
+/**
+ * Pack the given lessons into a bundle file. Lessons no longer in the history are left out.
+ */
+export const exportLessons = async (ids: string[]): Promise<Blob> => {
+  const zip = new JSZip();
+  const manifest: BundleManifest = { format: BUNDLE_FORMAT, version: BUNDLE_VERSION, createdAt: Date.now(), lessons: [] };
+
+  for (const id of ids) {
+    const lesson = await readStoredLesson(id);
+    if (!lesson) continue;
+
+    const folder = `lessons/${id}`;
+    zip.file(`${folder}/result.json`, JSON.stringify(lesson.data));
+    const blobs = lesson.blobs.map((blob, index) => {
+      const path = `${folder}/${index}.bin`;
+      zip.file(path, blob.data);
+      return { store: blob.store, key: blob.key, type: blob.data.type, path };
+    });
+    manifest.lessons.push({ meta: lesson.meta, blobs });
+  }
+
+  zip.file('manifest.json', JSON.stringify(manifest, null, 2));
+  return zip.generateAsync({ type: 'blob', compression: 'DEFLATE' });
+};
+
+/**
+ * Trigger a browser download of a bundle
+ */
+export const downloadBundle = (bundle: Blob, name: string) => {
+  const url = window.URL.createObjectURL(bundle);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = `${name}${BUNDLE_EXTENSION}`;
+  a.click();
+  window.URL.revokeObjectURL(url);
+};
+
+const isValidEntry = (entry: BundleLessonEntry): boolean => {
+  const id = entry?.meta?.id;
+  return typeof id === 'string'
+    && CONTENT_HASH_PATTERN.test(id)
+    && Array.isArray(entry.blobs)
+    && entry.blobs.every(blob => BLOB_STORES.includes(blob?.store)
+      && typeof blob.key === 'string' && blob.key.startsWith(`${id}:`)
+      && typeof blob.path === 'string');
+};
+
+const isValidSource = (source: LessonMeta['source']): boolean =>
+  !!source && typeof source.name === 'string' && typeof source.mimeType === 'string';
+
+// Read one lesson of the bundle back into its stored form
+const readLesson = async (zip: JSZip, entry: BundleLessonEntry): Promise<StoredLesson> => {
+  const resultJson = await zip.file(`lessons/${entry.meta.id}/result.json`)?.async('string');
+  let data: any;
+  try {
+    data = resultJson ? JSON.parse(resultJson) : null;
+  } catch {
+    data = null;
+  }
+  if (!data || typeof data.script !== 'string' || !Array.isArray(data.solutions)) {
+    throw new Error(`${INVALID_BUNDLE_MESSAGE} Bài học "${entry.meta.title}" bị hỏng.`);
+  }
+
+  const blobs = await Promise.all(entry.blobs.map(async blob => {
+    const bytes = await zip.file(blob.path)?.async('uint8array');
+    if (!bytes) throw new Error(`${INVALID_BUNDLE_MESSAGE} Thiếu dữ liệu của bài "${entry.meta.title}".`);
+    return { store: blob.store, key: blob.key, data: new Blob([bytes], { type: blob.type }) };
+  }));
+
+  const meta: LessonMeta = {
+    id: entry.meta.id,
+    title: typeof entry.meta.title === 'string' ? entry.meta.title : 'Nội dung không có tiêu đề',
+    renamed: !!entry.meta.renamed,
+    timestamp: Number(entry.meta.timestamp) || Date.now(),
+    lastAccessed: Date.now(), // Just imported: not the first to be evicted
+    pinned: false,
+    size: 0,
+    audioSize: 0,
+    subject: data.subject,
+    tags: Array.isArray(entry.meta.tags) ? entry.meta.tags.filter((tag: unknown) => typeof tag === 'string') : [],
+    folder: typeof entry.meta.folder === 'string' ? entry.meta.folder : undefined,
+    source: isValidSource(entry.meta.source) ? entry.meta.source : undefined,
+  };
+  return { meta, data, blobs };
+};
+
+/**
+ * Validate a bundle file and merge its lessons into the history.
+ * The whole file is checked before anything is written; lessons whose
+ * content hash is already stored are skipped.
+ */
+export const importBundle = async (file: Blob): Promise<ImportSummary> => {
+  let zip: JSZip;
+  let manifest: BundleManifest;
+  try {
+    zip = await JSZip.loadAsync(await file.arrayBuffer());
+    manifest = JSON.parse(await zip.file('manifest.json')!.async('string'));
+  } catch (error) {
+    throw new Error(INVALID_BUNDLE_MESSAGE);
+  }
+
+  if (manifest?.format !== BUNDLE_FORMAT || !Array.isArray(manifest.lessons)) {
+    throw new Error(INVALID_BUNDLE_MESSAGE);
+  }
+  if (typeof manifest.version !== 'number' || manifest.version > BUNDLE_VERSION) {
+    throw new Error('Gói bài học được tạo bởi phiên bản mới hơn của ứng dụng. Vui lòng cập nhật rồi thử lại.');
+  }
+  if (!manifest.lessons.every(isValidEntry)) {
+    throw new Error(INVALID_BUNDLE_MESSAGE);
+  }
+
+  const lessons: StoredLesson[] = [];
+  for (const entry of manifest.lessons) {
+    lessons.push(await readLesson(zip, entry));
+  }
+
+  const summary: ImportSummary = { imported: 0, skipped: 0 };
+  for (const lesson of lessons) {
+    if (await addStoredLesson(lesson)) summary.imported++;
+    else summary.skipped++;
+  }
+  return summary;
+};
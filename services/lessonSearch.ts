@@ -0,0 +1,79 @@
+import { HistoryEntry, ProcessingResult, Subject } from '../types';
+
+/**
+ * Full-text search and filters of the lesson history.
+ * Texts are compared without case or Vietnamese diacritics ("este" finds "Este", "hoá" finds "hóa").
+ */
+
+export const normalizeSearchText = (text: string): string => {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[đĐ]/g, 'd')
+    .toLowerCase()
+    .replace(/\s+/g, ' ')
+    .trim();
+};
+
+/**
+ * Searchable text of a lesson: script, questions and solutions (display versions)
+ */
+export const buildSearchText = (result: Pick<ProcessingResult, 'script' | 'solutions'>): string => {
+  const parts = [result.script ?? ''];
+  (result.solutions ?? []).forEach(item => parts.push(item.questionDisplay ?? '', item.solutionDisplay ?? ''));
+  return normalizeSearchText(parts.join('\n'));
+};
+
+/**
+ * Every word of the query must appear in the text (in any order)
+ */
+export const matchesQuery = (normalizedText: string, query: string): boolean => {
+  const words = normalizeSearchText(query).split(' ').filter(Boolean);
+  return words.every(word => normalizedText.includes(word));
+};
+
+export interface HistoryFilters {
+  query: string;
+  from?: string; // yyyy-mm-dd (date input value), inclusive
+  to?: string;
+  subject?: Subject;
+  tag?: string;
+  folder?: string;
+}
+
+export const EMPTY_FILTERS: HistoryFilters = { query: '' };
+
+export const hasActiveFilters = (filters: HistoryFilters): boolean =>
+  !!(filters.query.trim() || filters.from || filters.to || filters.subject || filters.tag || filters.folder);
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Entries passing the filters. matchingIds holds the full-text matches of filters.query
+ * (null when there is no query).
+ */
+export const filterHistory = (
+  entries: HistoryEntry[],
+  filters: HistoryFilters,
+  matchingIds: Set<string> | null
+): HistoryEntry[] => {
+  const from = filters.from ? new Date(`${filters.from}T00:00`).getTime() : -Infinity;
+  const to = filters.to ? new Date(`${filters.to}T00:00`).getTime() + DAY_MS : Infinity;
+  const titleQuery = normalizeSearchText(filters.query);
+
+  return entries.filter(entry =>
+    entry.timestamp >= from && entry.timestamp < to
+    && (!filters.subject || entry.subject === filters.subject)
+    && (!filters.tag || entry.tags.includes(filters.tag))
+    && (!filters.folder || entry.folder === filters.folder)
+    // A renamed lesson is also found by its new title
+    && (!matchingIds || matchingIds.has(entry.id) || matchesQuery(normalizeSearchText(entry.title), titleQuery))
+  );
+};
+
+/**
+ * Tags typed as "este, hữu cơ; ôn thi" -> unique trimmed tags
+ */
+export const parseTags = (input: string): string[] => {
+  return Array.from(new Set(input.split(/[,;]/).map(tag => tag.trim()).filter(Boolean)));
+};
@@ -0,0 +1,173 @@
+import { AnswerKind, Difficulty, InlineAttachment, SolutionItem, Subject, VideoRecommendation, VoiceSettings } from '../types';
+import { AIProvider, DualScriptResponse, TutorContext } from './aiProvider';
+import { sleep } from './aiErrors';
+import { detectSubject } from './subjects';
+
+/**
+ * Offline provider returning deterministic fixture data.
+ * Enable with AI_PROVIDER=mock in .env.local to develop or run e2e tests without an API key.
+ */
+
+const SIMULATED_LATENCY_MS = 300;
+const SAMPLE_RATE = 24000;
+
+// 1x1 white PNG, enough for the illustration slot to render
+const FIXTURE_IMAGE_BASE64 =
+  'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mP8/x8AAwMCAO+ip1sAAAAASUVORK5CYII=';
+
+const FIXTURE_SCRIPT: DualScriptResponse = {
+  displayScript:
+    'Câu 1: Cho 5,6 gam Fe tác dụng hoàn toàn với dung dịch HCl dư. Tính thể tích khí H2 thu được (đktc).\n' +
+    'Câu 2: Viết công thức cấu tạo của C2H5OH.',
+  readingScript:
+    'Câu 1: Cho 5,6 gam Iron tác dụng hoàn toàn với dung dịch Hydrochloric Acid dư. Tính thể tích khí Hydrogen thu được (điều kiện tiêu chuẩn).\n' +
+    'Câu 2: Viết công thức cấu tạo của Ethanol.',
+};
+
+const FIXTURE_SOLUTIONS: SolutionItem[] = [
+  {
+    questionDisplay: 'Cho 5,6 gam Fe tác dụng hoàn toàn với dung dịch HCl dư. Tính thể tích khí H2 thu được (đktc).',
+    questionReading: 'Cho 5,6 gam Iron tác dụng hoàn toàn với dung dịch Hydrochloric Acid dư. Tính thể tích khí Hydrogen thu được.',
+    solutionDisplay:
+      '**Phương trình:**\n- Fe + 2HCl → FeCl2 + H2\n**Tính toán:**\n- nFe = 5,6 / 56 = 0,1 mol\n- nH2 = nFe = 0,1 mol\n- V(H2) = 0,1 × 22,4 = 2,24 lít',
+    solutionReading:
+      'Phương trình: Iron cộng hai Hydrochloric Acid tạo thành Iron two Chloride và Hydrogen. Số mol Iron bằng 5,6 chia 56 bằng 0,1 mol. Thể tích Hydrogen bằng 2,24 lít.',
+    imagePrompt: '',
+    finalAnswer: { kind: AnswerKind.NUMERIC, value: 2.24, unit: 'lít', tolerance: 0.01 },
+    hints: [
+      'Viết phương trình phản ứng giữa Fe và HCl.',
+      'Tính số mol Fe, rồi suy ra số mol H2 theo tỉ lệ phương trình.',
+      'Ở đktc, 1 mol khí chiếm 22,4 lít.',
+    ],
+  },
+  {
+    questionDisplay: 'Viết công thức cấu tạo của C2H5OH.',
+    questionReading: 'Viết công thức cấu tạo của Ethanol.',
+    solutionDisplay: '**Công thức cấu tạo:**\n- CH3 - CH2 - OH',
+    solutionReading: 'Công thức cấu tạo của Ethanol gồm nhóm methyl liên kết với nhóm methylene và nhóm hydroxyl.',
+    imagePrompt: '',
+    structures: [{ smiles: 'CCO', formula: 'C2H6O', name: 'Ethanol' }],
+    finalAnswer: { kind: AnswerKind.TEXT, text: 'CH3-CH2-OH' },
+    hints: ['Ethanol có 2 nguyên tử C.', 'Nhóm chức -OH gắn vào một nguyên tử C no.'],
+  },
+];
+
+// Same Fe + HCl problem with other masses (multiples of 0,1 mol keep the numbers exact)
+const SIMILAR_PROBLEM_MOLES: [number, Difficulty][] = [[0.05, Difficulty.EASY], [0.2, Difficulty.MEDIUM], [0.35, Difficulty.HARD]];
+
+const formatNumber = (value: number) => value.toLocaleString('vi-VN', { maximumFractionDigits: 3 });
+
+const createSimilarProblem = (moles: number, difficulty: Difficulty): SolutionItem => {
+  const mass = formatNumber(moles * 56);
+  const volume = formatNumber(moles * 22.4);
+  return {
+    questionDisplay: `Cho ${mass} gam Fe tác dụng hoàn toàn với dung dịch HCl dư. Tính thể tích khí H2 thu được (đktc).`,
+    questionReading: `Cho ${mass} gam Iron tác dụng hoàn toàn với dung dịch Hydrochloric Acid dư. Tính thể tích khí Hydrogen thu được.`,
+    solutionDisplay: `**Phương trình:**\n- Fe + 2HCl → FeCl2 + H2\n**Tính toán:**\n- nFe = ${mass} / 56 = ${formatNumber(moles)} mol\n- V(H2) = ${formatNumber(moles)} × 22,4 = ${volume} lít`,
+    solutionReading: `Số mol Iron bằng ${mass} chia 56 bằng ${formatNumber(moles)} mol. Thể tích Hydrogen bằng ${volume} lít.`,
+    imagePrompt: '',
+    finalAnswer: { kind: AnswerKind.NUMERIC, value: Number((moles * 22.4).toFixed(3)), unit: 'lít', tolerance: 0.01 },
+    hints: ['Tính số mol Fe.', 'Số mol H2 bằng số mol Fe.'],
+    difficulty,
+  };
+};
+
+const FIXTURE_VIDEOS: VideoRecommendation[] = [
+  { title: 'Kim loại tác dụng với axit', query: 'Fe tác dụng HCl hóa 12' },
+  { title: 'Tính thể tích khí ở đktc', query: 'cách tính thể tích khí đktc' },
+  { title: 'Công thức cấu tạo ancol etylic', query: 'công thức cấu tạo C2H5OH' },
+];
+
+/**
+ * Build a quiet 220Hz tone whose length follows the script length,
+ * encoded like Gemini TTS output (raw 16-bit PCM, base64).
+ */
+const createTonePcmBase64 = (script: string): string => {
+  const seconds = Math.min(10, Math.max(1, script.length * 0.06));
+  const sampleCount = Math.floor(SAMPLE_RATE * seconds);
+  const bytes = new Uint8Array(sampleCount * 2);
+  const view = new DataView(bytes.buffer);
+  for (let i = 0; i < sampleCount; i++) {
+    const sample = Math.round(Math.sin((2 * Math.PI * 220 * i) / SAMPLE_RATE) * 2000);
+    view.setInt16(i * 2, sample, true);
+  }
+
+  let binary = '';
+  const CHUNK = 0x8000;
+  for (let i = 0; i < bytes.length; i += CHUNK) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + CHUNK));
+  }
+  return btoa(binary);
+};
+
+export const mockProvider: AIProvider = {
+  id: 'mock',
+  label: 'Mock (Offline)',
+
+  extractScript: async (
+    textInput: string,
+    _attachments: InlineAttachment[],
+    subject: Subject | null,
+    signal?: AbortSignal,
+    onProgress?: (partial: DualScriptResponse) => void
+  ) => {
+    // Echo typed text so text-mode flows stay recognisable
+    const script = textInput.trim()
+      ? { displayScript: textInput, readingScript: textInput, subject: subject ?? detectSubject(textInput) }
+      : { ...FIXTURE_SCRIPT, subject: subject ?? Subject.CHEMISTRY };
+
+    // Simulate streaming: first half of the transcript, then the rest
+    await sleep(SIMULATED_LATENCY_MS, signal);
+    onProgress?.({ displayScript: script.displayScript.slice(0, script.displayScript.length / 2), readingScript: '' });
+    await sleep(SIMULATED_LATENCY_MS, signal);
+    onProgress?.(script);
+    return script;
+  },
+
+  solveQuestions: async (
+    _script: string,
+    _attachments: InlineAttachment[],
+    _subject: Subject,
+    signal?: AbortSignal,
+    onItem?: (item: SolutionItem, index: number) => void
+  ) => {
+    const items = FIXTURE_SOLUTIONS.map(item => ({ ...item }));
+    // One solution per simulated chunk
+    for (let i = 0; i < items.length; i++) {
+      await sleep(SIMULATED_LATENCY_MS, signal);
+      onItem?.(items[i], i);
+    }
+    return items;
+  },
+
+  generateSimilarProblems: async (_item: SolutionItem, _subject: Subject, count: number, signal?: AbortSignal) => {
+    await sleep(SIMULATED_LATENCY_MS, signal);
+    return Array.from({ length: count }, (_, i) => createSimilarProblem(...SIMILAR_PROBLEM_MOLES[i % SIMILAR_PROBLEM_MOLES.length]));
+  },
+
+  askTutor: async (context: TutorContext, signal?: AbortSignal) => {
+    await sleep(SIMULATED_LATENCY_MS, signal);
+    const question = context.history[context.history.length - 1]?.text ?? '';
+    const topic = context.item ? 'lời giải bài này' : 'bài học';
+    return {
+      text: `Em hỏi: "${question}". Trong ${topic}, mỗi bước đều suy ra từ bước trước: ví dụ nH2 = nFe vì theo phương trình Fe + 2HCl → FeCl2 + H2, tỉ lệ mol Fe : H2 là 1 : 1.`,
+      reading: `Trong ${topic}, số mol Hydrogen bằng số mol Iron vì theo phương trình, tỉ lệ mol Iron và Hydrogen là một một.`,
+    };
+  },
+
+  synthesizeSpeech: async (script: string, _voice: VoiceSettings, signal?: AbortSignal) => {
+    await sleep(SIMULATED_LATENCY_MS, signal);
+    return createTonePcmBase64(script);
+  },
+
+  generateImage: async (prompt: string, signal?: AbortSignal) => {
+    if (!prompt) return undefined;
+    await sleep(SIMULATED_LATENCY_MS, signal);
+    return FIXTURE_IMAGE_BASE64;
+  },
+
+  suggestVideos: async (_script: string, signal?: AbortSignal) => {
+    await sleep(SIMULATED_LATENCY_MS, signal);
+    return FIXTURE_VIDEOS.map(video => ({ ...video }));
+  },
+};
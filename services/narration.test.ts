@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { MAX_SEGMENT_CHARS, getSegmentText, planNarration, timeSentences } from './narration';
+
+const sentence = (index: number) => `Đây là câu số ${index} của bài giảng hôm nay.`;
+
+describe('planNarration', () => {
+  it('pairs reading and display sentences one to one', () => {
+    const display = 'Ta có $x^2 = 4$. Vậy $x = 2$ hoặc $x = -2$.';
+    const reading = 'Ta có x bình phương bằng 4. Vậy x bằng 2 hoặc x bằng trừ 2.';
+    const [segment] = planNarration(display, reading);
+    expect(segment.map(({ reading: span }) => reading.slice(span.start, span.end))).toEqual([
+      'Ta có x bình phương bằng 4.',
+      'Vậy x bằng 2 hoặc x bằng trừ 2.',
+    ]);
+    expect(segment.map(({ display: span }) => display.slice(span.start, span.end))).toEqual([
+      'Ta có $x^2 = 4$.',
+      'Vậy $x = 2$ hoặc $x = -2$.',
+    ]);
+  });
+
+  it('merges reading sentences without display text into a neighbour', () => {
+    const display = 'Câu hỏi đầu tiên của bài.';
+    const reading = 'Câu hỏi đầu tiên của bài. Mời các em cùng suy nghĩ.';
+    expect(planNarration(display, reading)).toEqual([[
+      { reading: { start: 0, end: reading.length }, display: { start: 0, end: display.length } },
+    ]]);
+  });
+
+  it('keeps every segment within the length limit', () => {
+    const reading = Array.from({ length: 40 }, (_, index) => sentence(index)).join(' ');
+    const segments = planNarration(reading, reading);
+    expect(segments.length).toBeGreaterThan(1);
+    segments.forEach(segment => expect(getSegmentText(reading, segment).length).toBeLessThanOrEqual(MAX_SEGMENT_CHARS));
+    expect(segments.map(segment => getSegmentText(reading, segment)).join(' ')).toBe(reading);
+  });
+
+  it('splits merged reading longer than the limit at sentence ends', () => {
+    const display = 'Lời giải ngắn gọn.';
+    const reading = Array.from({ length: 30 }, (_, index) => sentence(index)).join(' ');
+    const sentences = planNarration(display, reading).flat();
+    expect(sentences.length).toBeGreaterThan(1);
+    sentences.forEach(({ reading: span, display: shown }) => {
+      expect(span.end - span.start).toBeLessThanOrEqual(MAX_SEGMENT_CHARS);
+      expect(reading[span.end - 1]).toBe('.');
+      expect(shown).toEqual({ start: 0, end: display.length });
+    });
+  });
+
+  it('splits a run-on line at spaces', () => {
+    const reading = Array.from({ length: 200 }, () => 'một').join(' ');
+    const sentences = planNarration(reading, reading).flat();
+    expect(sentences.length).toBeGreaterThan(1);
+    sentences.forEach(({ reading: span }) => {
+      expect(span.end - span.start).toBeLessThanOrEqual(MAX_SEGMENT_CHARS);
+      expect(reading.slice(span.start, span.end)).toMatch(/^một( một)*$/);
+    });
+  });
+});
+
+describe('timeSentences', () => {
+  it('shares a segment duration out by spoken length', () => {
+    const timed = timeSentences([{
+      sentences: [
+        { reading: { start: 0, end: 30 }, display: { start: 0, end: 10 } },
+        { reading: { start: 31, end: 41 }, display: { start: 11, end: 20 } },
+      ],
+      audioBase64: '',
+    }], [8]);
+    expect(timed.map(({ start, end }) => [start, end])).toEqual([[0, 6], [6, 8]]);
+  });
+});
@@ -0,0 +1,187 @@
+import { AudioSegment, NarrationSentence, TextSpan } from '../types';
+
+/**
+ * Splits a lesson into TTS-sized segments and aligns the reading script
+ * (what is spoken) with the display script (what is highlighted).
+ */
+
+// Longest piece of reading script sent in one TTS request
+export const MAX_SEGMENT_CHARS = 500;
+
+// "A.", "a)", "Câu 1." are labels rather than sentences
+const MIN_SENTENCE_CHARS = 12;
+
+const SENTENCE_END = /[.!?…]/;
+
+const spanLength = (span: TextSpan) => span.end - span.start;
+
+// Span without surrounding whitespace, or null when nothing is left
+const trimSpan = (text: string, start: number, end: number): TextSpan | null => {
+  while (start < end && /\s/.test(text[start])) start++;
+  while (end > start && /\s/.test(text[end - 1])) end--;
+  return end > start ? { start, end } : null;
+};
+
+/**
+ * Non-empty lines of the text
+ */
+const splitParagraphs = (text: string): TextSpan[] => {
+  const spans: TextSpan[] = [];
+  for (const match of text.matchAll(/[^\n]+/g)) {
+    const span = trimSpan(text, match.index!, match.index! + match[0].length);
+    if (span) spans.push(span);
+  }
+  return spans;
+};
+
+/**
+ * Sentences of a span: cut at line breaks and at . ! ? … followed by whitespace,
+ * never inside $...$ or **...** so that markup stays intact for the renderer.
+ */
+const splitSentences = (text: string, span: TextSpan): TextSpan[] => {
+  const spans: TextSpan[] = [];
+  let start = span.start;
+  let inMath = false;
+  let inBold = false;
+
+  const cut = (end: number) => {
+    const sentence = trimSpan(text, start, end);
+    if (sentence) spans.push(sentence);
+    start = end;
+  };
+
+  for (let i = span.start; i < span.end; i++) {
+    const char = text[i];
+    if (char === '\n') {
+      inMath = inBold = false;
+      cut(i);
+    } else if (char === '$') {
+      inMath = !inMath;
+    } else if (char === '*' && text[i + 1] === '*') {
+      inBold = !inBold;
+      i++;
+    } else if (!inMath && !inBold && SENTENCE_END.test(char) && /\s/.test(text[i + 1] ?? '')
+      && i + 1 - start >= MIN_SENTENCE_CHARS) {
+      cut(i + 1);
+    }
+  }
+  cut(span.end);
+  return spans;
+};
+
+const coverSpans = (spans: TextSpan[]): TextSpan => ({ start: spans[0].start, end: spans[spans.length - 1].end });
+
+/**
+ * Pair reading units with display units. Equal counts pair one to one; otherwise each display
+ * unit goes to the reading unit at the same relative position in the text, and reading units
+ * left without display text are merged into a neighbour.
+ */
+const alignSpans = (reading: TextSpan[], display: TextSpan[]): NarrationSentence[] => {
+  if (reading.length === 0) return [];
+  if (display.length === 0) return [{ reading: coverSpans(reading), display: { start: 0, end: 0 } }];
+  if (reading.length === display.length) {
+    return reading.map((span, index) => ({ reading: span, display: display[index] }));
+  }
+
+  // Cumulative end of every reading unit, as a fraction of the reading length
+  const readingTotal = reading.reduce((sum, span) => sum + spanLength(span), 0);
+  let readingSoFar = 0;
+  const readingEnds = reading.map(span => (readingSoFar += spanLength(span)) / readingTotal);
+
+  const displayTotal = display.reduce((sum, span) => sum + spanLength(span), 0);
+  let displaySoFar = 0;
+  const owners = display.map(span => {
+    const middle = (displaySoFar + spanLength(span) / 2) / displayTotal;
+    displaySoFar += spanLength(span);
+    return readingEnds.findIndex(end => end >= middle);
+  });
+
+  const pairs: NarrationSentence[] = [];
+  let pendingStart: number | null = null; // Leading reading units without display text
+  reading.forEach((span, index) => {
+    const owned = display.filter((_, displayIndex) => owners[displayIndex] === index);
+    if (owned.length > 0) {
+      pairs.push({ reading: { start: pendingStart ?? span.start, end: span.end }, display: coverSpans(owned) });
+      pendingStart = null;
+    } else if (pairs.length > 0) {
+      pairs[pairs.length - 1].reading.end = span.end;
+    } else {
+      pendingStart ??= span.start;
+    }
+  });
+  return pairs;
+};
+
+/**
+ * Cut a sentence whose reading is longer than MAX_SEGMENT_CHARS (merged reading units,
+ * a run-on line) at the last sentence end or space before the limit.
+ * Every piece keeps the sentence's display span.
+ */
+const splitLongSentence = (readingScript: string, sentence: NarrationSentence): NarrationSentence[] => {
+  const pieces: NarrationSentence[] = [];
+  let { start } = sentence.reading;
+  const { end } = sentence.reading;
+  while (end - start > MAX_SEGMENT_CHARS) {
+    const window = readingScript.slice(start, start + MAX_SEGMENT_CHARS + 1);
+    const sentenceEnd = window.search(/[.!?…]\s(?!.*[.!?…]\s)/s);
+    const space = window.search(/\s\S*$/);
+    const cut = start + (sentenceEnd > 0 ? sentenceEnd + 1 : space > 0 ? space : MAX_SEGMENT_CHARS);
+    const piece = trimSpan(readingScript, start, cut);
+    if (piece) pieces.push({ reading: piece, display: sentence.display });
+    start = cut;
+  }
+  const rest = trimSpan(readingScript, start, end);
+  if (rest) pieces.push({ reading: rest, display: sentence.display });
+  return pieces;
+};
+
+/**
+ * Sentence-aligned narration of a lesson, grouped into TTS segments of at most MAX_SEGMENT_CHARS.
+ * Paragraphs are aligned first, then the sentences inside each pair of paragraphs.
+ */
+export const planNarration = (displayScript: string, readingScript: string): NarrationSentence[][] => {
+  const sentences = alignSpans(splitParagraphs(readingScript), splitParagraphs(displayScript)).flatMap(paragraph =>
+    alignSpans(splitSentences(readingScript, paragraph.reading), splitSentences(displayScript, paragraph.display))
+  ).flatMap(sentence => splitLongSentence(readingScript, sentence));
+
+  const segments: NarrationSentence[][] = [];
+  let current: NarrationSentence[] = [];
+  sentences.forEach(sentence => {
+    // Measured from the segment start so that the separators between sentences count too
+    if (current.length > 0 && sentence.reading.end - current[0].reading.start > MAX_SEGMENT_CHARS) {
+      segments.push(current);
+      current = [];
+    }
+    current.push(sentence);
+  });
+  if (current.length > 0) segments.push(current);
+  return segments;
+};
+
+/**
+ * Text spoken by one segment (separators between its sentences included)
+ */
+export const getSegmentText = (readingScript: string, sentences: NarrationSentence[]): string => {
+  return readingScript.slice(sentences[0].reading.start, sentences[sentences.length - 1].reading.end);
+};
+
+export interface TimedSentence extends NarrationSentence {
+  segmentIndex: number;
+  start: number; // Seconds from the start of its segment
+  end: number;
+}
+
+/**
+ * Estimated timing of every sentence: a segment's duration is shared out by spoken length
+ */
+export const timeSentences = (segments: AudioSegment[], durations: number[]): TimedSentence[] => {
+  return segments.flatMap((segment, segmentIndex) => {
+    const total = segment.sentences.reduce((sum, sentence) => sum + spanLength(sentence.reading), 0);
+    let elapsed = 0;
+    return segment.sentences.map(sentence => {
+      const start = elapsed;
+      elapsed += total > 0 ? (spanLength(sentence.reading) / total) * durations[segmentIndex] : 0;
+      return { ...sentence, segmentIndex, start, end: elapsed };
+    });
+  });
+};
@@ -0,0 +1,288 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ChatRole, PipelineStage, PipelineStages, ProcessingResult, SolutionItem, StageStatus, Subject } from '../types';
+import { AIErrorCategory, AIServiceError } from './aiErrors';
+import { analyzeAndSolve, generateReadingScript, getRelatedVideoQueries, synthesizeNarration } from './geminiService';
+import { createInitialStages, getLessonHash, getStages, getUnfinishedStages, processWithCache, runPipeline } from './pipeline';
+import { cropImageRegion } from './imageProcessing';
+import { evictLessons } from './storageManager';
+import { getFromCache, saveToCache } from './storageService';
+
+vi.mock('./geminiService', () => ({
+  analyzeAndSolve: vi.fn(),
+  generateReadingScript: vi.fn(),
+  getRelatedVideoQueries: vi.fn(),
+  synthesizeNarration: vi.fn(),
+}));
+
+vi.mock('./storageService', () => ({
+  getFromCache: vi.fn(),
+  saveSourceFile: vi.fn(),
+  saveToCache: vi.fn(),
+}));
+
+vi.mock('./imageProcessing', () => ({
+  cropImageRegion: vi.fn(),
+}));
+
+vi.mock('./storageManager', () => ({
+  evictLessons: vi.fn(),
+}));
+
+const solution: SolutionItem = {
+  questionDisplay: 'Tính $x$ biết $2x = 4$.',
+  questionReading: 'Tính x biết hai x bằng bốn.',
+  solutionDisplay: '$x = 2$',
+  solutionReading: 'x bằng hai',
+};
+
+const input = { textInput: 'Giải phương trình $2x = 4$.', subject: Subject.MATH };
+
+const statuses = (stages: PipelineStages) =>
+  Object.fromEntries(Object.entries(stages).map(([stage, state]) => [stage, state.status]));
+
+const allStatuses = (status: StageStatus) => ({
+  [PipelineStage.OCR]: status,
+  [PipelineStage.SOLVE]: status,
+  [PipelineStage.VIDEOS]: status,
+  [PipelineStage.TTS]: status,
+});
+
+const mockServices = () => {
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+  vi.mocked(generateReadingScript).mockResolvedValue({ displayScript: 'Bài 1: $2x = 4$.', readingScript: 'Bài một: hai x bằng bốn.' });
+  vi.mocked(analyzeAndSolve).mockResolvedValue([solution]);
+  vi.mocked(getRelatedVideoQueries).mockResolvedValue([{ title: 'Phương trình bậc nhất', query: 'phương trình bậc nhất' }]);
+  vi.mocked(synthesizeNarration).mockResolvedValue([]);
+};
+
+const resetMocks = () => {
+  vi.resetAllMocks();
+  vi.restoreAllMocks();
+};
+
+describe('runPipeline', () => {
+  beforeEach(mockServices);
+  afterEach(resetMocks);
+
+  it('runs every stage and reports a partial result after each one', async () => {
+    const onPartialResult = vi.fn();
+    const result = await runPipeline(input, { onPartialResult });
+
+    expect(statuses(result.stages!)).toEqual(allStatuses(StageStatus.DONE));
+    expect(result.script).toBe('Bài 1: $2x = 4$.');
+    expect(result.subject).toBe(Subject.MATH);
+    expect(result.solutions).toEqual([{ ...solution, pageNumber: 1, sourceRegion: undefined }]);
+    expect(result.relatedVideos).toHaveLength(1);
+    expect(onPartialResult).toHaveBeenCalledTimes(4);
+    expect(vi.mocked(analyzeAndSolve).mock.calls[0][0]).toBe('Bài 1: $2x = 4$.');
+  });
+
+  it('reports the transcript and solutions while they stream in', async () => {
+    vi.mocked(generateReadingScript).mockImplementation(async (_text, _attachments, _subject, _signal, onProgress) => {
+      onProgress?.({ displayScript: 'Bài 1', readingScript: '' });
+      return { displayScript: 'Bài 1: $2x = 4$.', readingScript: 'Bài một.' };
+    });
+    vi.mocked(analyzeAndSolve).mockImplementation(async (_script, _attachments, _subject, _signal, onUpdate) => {
+      onUpdate?.([solution]);
+      return [solution, solution];
+    });
+    const onProgress = vi.fn();
+    await runPipeline(input, { onProgress });
+
+    const updates: ProcessingResult[] = onProgress.mock.calls.map(([partial]) => partial);
+    expect(updates[0].script).toBe('Bài 1');
+    expect(updates[1].solutions).toEqual([{ ...solution, pageNumber: 1, sourceRegion: undefined }]);
+  });
+
+  it('reads and solves long text chunk by chunk', async () => {
+    vi.mocked(generateReadingScript).mockImplementation(async text => ({ displayScript: text.slice(0, 6), readingScript: text.slice(0, 6) }));
+    const longText = [`Câu 1: ${'a'.repeat(5000)}`, `Câu 2: ${'b'.repeat(5000)}`].join('\n');
+    const result = await runPipeline({ ...input, textInput: longText });
+
+    expect(generateReadingScript).toHaveBeenCalledTimes(2);
+    expect(result.script).toBe('[Trang 1]\nCâu 1:\n\n[Trang 2]\nCâu 2:');
+    expect(vi.mocked(analyzeAndSolve).mock.calls.map(([script]) => script)).toEqual(['Câu 1:', 'Câu 2:']);
+    expect(result.solutions.map(item => item.pageNumber)).toEqual([1, 2]);
+  });
+
+  it('uses the subject detected on most pages, or the keywords of the script', async () => {
+    vi.mocked(generateReadingScript)
+      .mockResolvedValueOnce({ displayScript: 'Trang 1', readingScript: 'Trang 1', subject: Subject.PHYSICS })
+      .mockResolvedValueOnce({ displayScript: 'Trang 2', readingScript: 'Trang 2', subject: Subject.MATH })
+      .mockResolvedValueOnce({ displayScript: 'Trang 3', readingScript: 'Trang 3', subject: Subject.PHYSICS });
+    const longText = [1, 2, 3].map(index => `Câu ${index}: ${'x'.repeat(5000)}`).join('\n');
+    const detected = await runPipeline({ textInput: longText });
+    expect(detected.subject).toBe(Subject.PHYSICS);
+    expect(vi.mocked(analyzeAndSolve).mock.calls.map(([, , subject]) => subject)).toEqual([Subject.PHYSICS, Subject.PHYSICS, Subject.PHYSICS]);
+
+    vi.mocked(generateReadingScript).mockResolvedValue({ displayScript: 'Một vật có vận tốc 10 m/s.', readingScript: '' });
+    expect((await runPipeline({ textInput: 'Bài tập' })).subject).toBe(Subject.PHYSICS);
+  });
+
+  it('reads and solves every selected region on its own', async () => {
+    const regions = [
+      { pageNumber: 1, x: 0, y: 0, width: 1, height: 0.5 },
+      { pageNumber: 1, x: 0, y: 0.5, width: 1, height: 0.5 },
+    ];
+    vi.mocked(cropImageRegion).mockImplementation(async (_data, _mimeType, region) => `crop-${region.y}`);
+    const result = await runPipeline({ textInput: '', fileBase64: 'aW1hZ2U=', mimeType: 'image/png', regions });
+
+    expect(vi.mocked(generateReadingScript).mock.calls.map(([, attachments]) => attachments)).toEqual([
+      [{ mimeType: 'image/jpeg', data: 'crop-0' }],
+      [{ mimeType: 'image/jpeg', data: 'crop-0.5' }],
+    ]);
+    expect(result.pages?.map(page => page.region)).toEqual(regions);
+    expect(result.solutions.map(item => item.sourceRegion)).toEqual(regions);
+  });
+
+  it('throws when OCR fails and cancels the stages that depend on it', async () => {
+    vi.mocked(generateReadingScript).mockRejectedValue(new AIServiceError(AIErrorCategory.SERVER, 'Down'));
+    const onPartialResult = vi.fn();
+
+    await expect(runPipeline(input, { onPartialResult })).rejects.toThrow('Down');
+    const saved: ProcessingResult = onPartialResult.mock.calls[0][0];
+    expect(statuses(saved.stages!)).toEqual({
+      ...allStatuses(StageStatus.CANCELLED),
+      [PipelineStage.OCR]: StageStatus.ERROR,
+    });
+    expect(saved.stages![PipelineStage.OCR].error).toBeTruthy();
+    expect(analyzeAndSolve).not.toHaveBeenCalled();
+  });
+
+  it('keeps the other stages when a dependent stage fails', async () => {
+    vi.mocked(getRelatedVideoQueries).mockRejectedValue(new Error('boom'));
+    const result = await runPipeline(input);
+
+    expect(statuses(result.stages!)).toEqual({ ...allStatuses(StageStatus.DONE), [PipelineStage.VIDEOS]: StageStatus.ERROR });
+    expect(result.solutions).toHaveLength(1);
+  });
+
+  it('resumes a partial result without redoing finished stages', async () => {
+    const previous = await runPipeline(input);
+    vi.clearAllMocks();
+    const interrupted: ProcessingResult = {
+      ...previous,
+      stages: { ...previous.stages!, [PipelineStage.SOLVE]: { status: StageStatus.CANCELLED } },
+    };
+
+    const result = await runPipeline(input, { previous: interrupted });
+    expect(statuses(result.stages!)).toEqual(allStatuses(StageStatus.DONE));
+    expect(generateReadingScript).not.toHaveBeenCalled();
+    expect(analyzeAndSolve).toHaveBeenCalledTimes(1);
+    expect(getRelatedVideoQueries).not.toHaveBeenCalled();
+  });
+
+  it('only runs the requested stages', async () => {
+    const previous = await runPipeline(input);
+    vi.clearAllMocks();
+
+    await runPipeline(input, { previous, only: [PipelineStage.TTS] });
+    expect(synthesizeNarration).toHaveBeenCalledTimes(1);
+    expect(generateReadingScript).not.toHaveBeenCalled();
+    expect(analyzeAndSolve).not.toHaveBeenCalled();
+  });
+
+  it('marks the stages cancelled when aborted', async () => {
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(runPipeline(input, { signal: controller.signal })).rejects.toMatchObject({ category: AIErrorCategory.CANCELLED });
+    expect(generateReadingScript).not.toHaveBeenCalled();
+  });
+});
+
+describe('getUnfinishedStages', () => {
+  it('lists stages without an outcome, leaving failed ones to an explicit retry', () => {
+    const stages: PipelineStages = {
+      ...createInitialStages(),
+      [PipelineStage.OCR]: { status: StageStatus.DONE },
+      [PipelineStage.SOLVE]: { status: StageStatus.ERROR, error: 'Lỗi' },
+      [PipelineStage.VIDEOS]: { status: StageStatus.CANCELLED },
+    };
+    const result: ProcessingResult = { script: '', audioBase64: null, relatedVideos: [], solutions: [], stages };
+    expect(getUnfinishedStages(result)).toEqual([PipelineStage.VIDEOS, PipelineStage.TTS]);
+  });
+
+  it('treats results cached before the pipeline as complete', () => {
+    const legacy: ProcessingResult = { script: 'Bài cũ', audioBase64: null, relatedVideos: [], solutions: [] };
+    expect(statuses(getStages(legacy))).toEqual(allStatuses(StageStatus.DONE));
+    expect(getUnfinishedStages(legacy)).toEqual([]);
+  });
+});
+
+describe('processWithCache', () => {
+  beforeEach(() => {
+    mockServices();
+    vi.mocked(evictLessons).mockResolvedValue(0);
+  });
+  afterEach(resetMocks);
+
+  it('returns a complete cached result without running anything', async () => {
+    const cached = await runPipeline(input);
+    vi.clearAllMocks();
+    vi.mocked(getFromCache).mockResolvedValue(cached);
+
+    const lesson = await processWithCache(input, { hash: 'lesson-1' });
+    expect(lesson).toEqual({ hash: 'lesson-1', result: cached, fromCache: true });
+    expect(generateReadingScript).not.toHaveBeenCalled();
+    expect(saveToCache).not.toHaveBeenCalled();
+  });
+
+  it('resumes an interrupted lesson and stores every finished stage', async () => {
+    const finished = await runPipeline(input);
+    vi.clearAllMocks();
+    vi.mocked(getFromCache).mockResolvedValue({
+      ...finished,
+      stages: { ...finished.stages!, [PipelineStage.TTS]: { status: StageStatus.RUNNING } },
+    });
+
+    const lesson = await processWithCache(input, { hash: 'lesson-1' });
+    expect(lesson.fromCache).toBe(false);
+    expect(synthesizeNarration).toHaveBeenCalledTimes(1);
+    expect(analyzeAndSolve).not.toHaveBeenCalled();
+    expect(saveToCache).toHaveBeenCalledWith('lesson-1', lesson.result);
+    expect(evictLessons).toHaveBeenCalledWith(['lesson-1']);
+  });
+
+  it('does not store a lesson whose OCR failed', async () => {
+    vi.mocked(getFromCache).mockResolvedValue(null);
+    vi.mocked(generateReadingScript).mockRejectedValue(new Error('boom'));
+
+    await expect(processWithCache(input, { hash: 'lesson-1' })).rejects.toThrow('boom');
+    expect(saveToCache).not.toHaveBeenCalled();
+  });
+
+  it('keeps edits made while the lesson was processing', async () => {
+    vi.mocked(getFromCache).mockResolvedValue(null);
+    const chat = [{ role: ChatRole.STUDENT, text: 'Tại sao?', createdAt: 1 }];
+
+    const lesson = await processWithCache(input, { hash: 'lesson-1', applyEdits: partial => ({ ...partial, chat }) });
+    expect(lesson.result.chat).toBe(chat);
+    vi.mocked(saveToCache).mock.calls.forEach(([, saved]) => expect(saved.chat).toBe(chat));
+  });
+});
+
+describe('getLessonHash', () => {
+  const image = { textInput: '', fileBase64: 'aW1hZ2U=', mimeType: 'image/png' };
+  const region = { pageNumber: 1, x: 0.1, y: 0.2, width: 0.5, height: 0.3 };
+
+  it('gives the same file the same id', async () => {
+    expect(await getLessonHash(image)).toBe(await getLessonHash({ ...image }));
+    expect(await getLessonHash(image)).toBe(await getLessonHash({ ...image, regions: [] }));
+  });
+
+  it('tells apart different selections of regions', async () => {
+    const whole = await getLessonHash(image);
+    const selected = await getLessonHash({ ...image, regions: [region] });
+    const other = await getLessonHash({ ...image, regions: [{ ...region, y: 0.6 }] });
+    expect(new Set([whole, selected, other]).size).toBe(3);
+  });
+
+  it('tells apart an explicitly chosen subject', async () => {
+    const detected = await getLessonHash({ textInput: 'Bài tập' });
+    const math = await getLessonHash({ textInput: 'Bài tập', subject: Subject.MATH });
+    expect(detected).not.toBe(math);
+    expect(await getLessonHash({ textInput: 'Bài tập', subject: null })).toBe(detected);
+  });
+});
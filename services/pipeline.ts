@@ -0,0 +1,416 @@
+import { FileData, InlineAttachment, PageTranscript, SourceRegion, Subject, PipelineStage, PipelineStages, ProcessingResult, SolutionItem, StageState, StageStatus } from '../types';
+import { analyzeAndSolve, generateReadingScript, getRelatedVideoQueries, synthesizeNarration } from './geminiService';
+import { getErrorMessage, isCancelledError, throwIfAborted } from './aiErrors';
+import { mapWithConcurrency } from './concurrency';
+import { buildTopicDigest, chunkText, joinPageScripts, splitPdfPages } from './documentChunker';
+import { parseDocx } from './docxParser';
+import { toReadingScript } from './pronunciation';
+import { isDocxFile, readFileToBase64 } from './fileUtils';
+import { computeContentHash } from './hashUtils';
+import { cropImageRegion } from './imageProcessing';
+import { DEFAULT_SUBJECT, detectSubject } from './subjects';
+import { getFromCache, saveSourceFile, saveToCache } from './storageService';
+import { getSubjectVoice, getVoiceKey } from './voiceSettings';
+import { evictLessons } from './storageManager';
+
+export interface PipelineInput {
+  textInput: string;
+  fileBase64?: string; // Original file: hashed for the cache, split into pages for PDFs
+  sourceFile?: File; // The upload itself, kept with the lesson in the history
+  mimeType?: string;
+  attachments?: InlineAttachment[]; // Images extracted locally (e.g. from .docx), sent with the text
+  regions?: SourceRegion[]; // Selected areas of an image; each one is read and solved separately
+  subject?: Subject | null; // Chosen by the user; detected during OCR when missing
+}
+
+export interface PipelineOptions {
+  signal?: AbortSignal;
+  previous?: ProcessingResult; // Resume from a partial result instead of starting over
+  only?: PipelineStage[]; // Restrict the run to these stages (e.g. retry a failed one)
+  onStagesChange?: (stages: PipelineStages) => void;
+  onPartialResult?: (result: ProcessingResult) => void; // Called after every finished stage
+  onProgress?: (result: ProcessingResult) => void; // Streamed updates within a stage, for display only
+}
+
+export const STAGE_LABELS: Record<PipelineStage, string> = {
+  [PipelineStage.OCR]: 'Đọc nội dung (OCR)',
+  [PipelineStage.SOLVE]: 'Giải bài tập & vẽ hình minh họa',
+  [PipelineStage.VIDEOS]: 'Tìm video tham khảo',
+  [PipelineStage.TTS]: 'Tạo giọng đọc',
+};
+
+// Everything after OCR only needs the scripts, so these run in parallel
+const DEPENDENT_STAGES = [PipelineStage.SOLVE, PipelineStage.VIDEOS, PipelineStage.TTS];
+
+// Bounded fan-out for long documents (per page / text chunk)
+const OCR_CONCURRENCY = 3;
+const SOLVE_CONCURRENCY = 2;
+
+/**
+ * One page of a PDF or one chunk of long text, processed by its own request
+ */
+interface DocumentUnit {
+  textInput: string;
+  attachments: InlineAttachment[];
+  region?: SourceRegion;
+}
+
+/**
+ * Split the input into page/chunk sized units. Images stay a single unit.
+ * Extracted text (typed or from .docx) is chunked; each chunk carries the images it references.
+ */
+const splitIntoUnits = async (input: PipelineInput): Promise<DocumentUnit[]> => {
+  if (input.attachments) {
+    const attachments = input.attachments;
+    const chunks = chunkText(input.textInput);
+    if (chunks.length === 1) return [{ textInput: chunks[0], attachments }];
+    return chunks.map(chunk => ({
+      textInput: chunk,
+      attachments: attachments.filter(attachment => attachment.label && chunk.includes(attachment.label)),
+    }));
+  }
+  if (input.fileBase64 && input.mimeType?.includes('pdf')) {
+    const pages = await splitPdfPages(input.fileBase64);
+    return pages.map(page => ({
+      textInput: input.textInput,
+      attachments: [{ mimeType: input.mimeType!, data: page }],
+    }));
+  }
+  // Question regions are only selectable on images; a PDF is always solved page by page above
+  if (input.fileBase64 && input.mimeType && input.regions?.length) {
+    const { fileBase64, mimeType } = input;
+    return Promise.all(input.regions.map(async region => ({
+      textInput: input.textInput,
+      attachments: [{ mimeType: 'image/jpeg', data: await cropImageRegion(fileBase64, mimeType, region) }],
+      region,
+    })));
+  }
+  if (input.fileBase64 && input.mimeType) {
+    return [{ textInput: input.textInput, attachments: [{ mimeType: input.mimeType, data: input.fileBase64 }] }];
+  }
+  return chunkText(input.textInput).map(chunk => ({ textInput: chunk, attachments: [] }));
+};
+
+interface StageContext {
+  getUnits: () => Promise<DocumentUnit[]>;
+  subject: Subject | null; // Requested subject (null = auto-detect)
+  signal?: AbortSignal;
+  report: (patch: Partial<ProcessingResult>) => void; // Publish work in progress of a running stage
+}
+
+type StageRunner = (result: ProcessingResult, context: StageContext) => Promise<Partial<ProcessingResult>>;
+
+// Pages of one document may be classified differently: the majority wins
+const mostFrequent = (subjects: Subject[]): Subject | undefined => {
+  const counts = new Map<Subject, number>();
+  subjects.forEach(subject => counts.set(subject, (counts.get(subject) ?? 0) + 1));
+  return [...counts.entries()].sort((a, b) => b[1] - a[1])[0]?.[0];
+};
+
+// Results cached before page support have no transcript per page
+const getPages = (result: ProcessingResult): PageTranscript[] => {
+  return result.pages ?? [{ pageNumber: 1, displayScript: result.script, readingScript: result.readingScript || toReadingScript(result.script) }];
+};
+
+const STAGE_RUNNERS: Record<PipelineStage, StageRunner> = {
+  [PipelineStage.OCR]: async (_result, { getUnits, subject, signal, report }) => {
+    const units = await getUnits();
+    const detected: Subject[] = [];
+    // Transcript typed so far, per unit, for a live preview
+    const partialScripts: string[] = units.map(() => '');
+    const pages = await mapWithConcurrency(units, OCR_CONCURRENCY, async (unit, index): Promise<PageTranscript> => {
+      const response = await generateReadingScript(unit.textInput, unit.attachments, subject, signal, (partial) => {
+        partialScripts[index] = partial.displayScript;
+        report({ script: partialScripts.filter(Boolean).join('\n\n') });
+      });
+      if (response.subject) detected.push(response.subject);
+      // Without a reading script from the model, it is built locally from the transcript
+      const displayScript = response.displayScript;
+      const readingScript = response.readingScript || toReadingScript(displayScript);
+      return unit.region
+        ? { pageNumber: unit.region.pageNumber, displayScript, readingScript, region: unit.region }
+        : { pageNumber: index + 1, displayScript, readingScript };
+    }, signal);
+
+    const script = joinPageScripts(pages, 'displayScript');
+    return {
+      pages,
+      script,
+      readingScript: joinPageScripts(pages, 'readingScript'),
+      subject: subject ?? mostFrequent(detected) ?? detectSubject(script),
+    };
+  },
+  [PipelineStage.SOLVE]: async (result, { getUnits, signal, report }) => {
+    const pages = getPages(result);
+    // Page files are only available while the original file is loaded
+    const units = await getUnits();
+    const unitsMatchPages = units.length === pages.length;
+
+    // Solutions stream in per page; pages are kept in order
+    const solved: SolutionItem[][] = pages.map(() => []);
+    const tag = (items: SolutionItem[], page: PageTranscript) =>
+      items.map(item => ({ ...item, pageNumber: page.pageNumber, sourceRegion: page.region }));
+
+    await mapWithConcurrency(pages, SOLVE_CONCURRENCY, async (page, index) => {
+      const unit = unitsMatchPages ? units[index] : undefined;
+      const subject = result.subject ?? DEFAULT_SUBJECT;
+      const items = await analyzeAndSolve(page.displayScript, unit?.attachments, subject, signal, (partial) => {
+        solved[index] = tag(partial, page);
+        report({ solutions: solved.flat() });
+      });
+      solved[index] = tag(items, page);
+    }, signal);
+
+    return { solutions: solved.flat() };
+  },
+  [PipelineStage.VIDEOS]: async (result, { signal }) => ({
+    relatedVideos: await getRelatedVideoQueries(buildTopicDigest(getPages(result)), signal),
+  }),
+  [PipelineStage.TTS]: async (result, { signal }) => {
+    // Narrated in the subject's default voice; other voices are added from the Player
+    const voice = getSubjectVoice(result.subject);
+    const segments = await synthesizeNarration(result.script, result.readingScript || toReadingScript(result.script), voice, signal);
+    return { narrations: { ...result.narrations, [getVoiceKey(voice)]: segments } };
+  },
+};
+
+export const createInitialStages = (): PipelineStages => ({
+  [PipelineStage.OCR]: { status: StageStatus.PENDING },
+  [PipelineStage.SOLVE]: { status: StageStatus.PENDING },
+  [PipelineStage.VIDEOS]: { status: StageStatus.PENDING },
+  [PipelineStage.TTS]: { status: StageStatus.PENDING },
+});
+
+const createEmptyResult = (): ProcessingResult => ({
+  script: '',
+  audioBase64: null,
+  relatedVideos: [],
+  solutions: [],
+  stages: createInitialStages(),
+});
+
+/**
+ * Stage map of a result; results cached before the pipeline existed are complete
+ */
+export const getStages = (result: ProcessingResult): PipelineStages => {
+  if (result.stages) return result.stages;
+  const done: StageState = { status: StageStatus.DONE };
+  return {
+    [PipelineStage.OCR]: done,
+    [PipelineStage.SOLVE]: done,
+    [PipelineStage.VIDEOS]: done,
+    [PipelineStage.TTS]: done,
+  };
+};
+
+/**
+ * Stages that never reached an outcome (not started, interrupted or cancelled).
+ * Failed stages are excluded: they are retried explicitly from the Player.
+ */
+export const getUnfinishedStages = (result: ProcessingResult): PipelineStage[] => {
+  const stages = getStages(result);
+  return (Object.keys(stages) as PipelineStage[]).filter(stage =>
+    stages[stage].status !== StageStatus.DONE && stages[stage].status !== StageStatus.ERROR
+  );
+};
+
+/**
+ * Run OCR -> (solve | videos | TTS) with per-stage status, timing and cancellation.
+ * Partial results are reported after each stage so callers can persist them.
+ * Throws only when OCR fails, since nothing else can run without the script.
+ */
+export const runPipeline = async (input: PipelineInput, options: PipelineOptions = {}): Promise<ProcessingResult> => {
+  const { signal, previous, onStagesChange, onPartialResult, onProgress } = options;
+
+  let result: ProcessingResult = previous
+    ? { ...previous, stages: { ...getStages(previous) } }
+    : createEmptyResult();
+  let stages = result.stages as PipelineStages;
+
+  // Splitting a PDF is local but not free: do it at most once per run
+  let unitsPromise: Promise<DocumentUnit[]> | null = null;
+  const context: StageContext = {
+    signal,
+    subject: input.subject ?? null,
+    getUnits: () => (unitsPromise ??= splitIntoUnits(input)),
+    report: (patch) => {
+      result = { ...result, ...patch };
+      onProgress?.(result);
+    },
+  };
+
+  const shouldRun = (stage: PipelineStage) => {
+    if (options.only) return options.only.includes(stage);
+    return stages[stage].status !== StageStatus.DONE;
+  };
+
+  const updateStage = (stage: PipelineStage, patch: Partial<StageState>) => {
+    stages = { ...stages, [stage]: { ...stages[stage], ...patch } };
+    result = { ...result, stages };
+    onStagesChange?.(stages);
+  };
+
+  const runStage = async (stage: PipelineStage) => {
+    updateStage(stage, { status: StageStatus.RUNNING, startedAt: Date.now(), finishedAt: undefined, error: undefined });
+    try {
+      throwIfAborted(signal);
+      const patch = await STAGE_RUNNERS[stage](result, context);
+      result = { ...result, ...patch };
+      updateStage(stage, { status: StageStatus.DONE, finishedAt: Date.now() });
+    } catch (error) {
+      const cancelled = isCancelledError(error);
+      if (!cancelled) console.error(`Pipeline stage ${stage} failed:`, error);
+      updateStage(stage, {
+        status: cancelled ? StageStatus.CANCELLED : StageStatus.ERROR,
+        finishedAt: Date.now(),
+        error: cancelled ? undefined : getErrorMessage(error),
+      });
+      if (stage === PipelineStage.OCR) {
+        // Mark the untouched stages as cancelled so the saved state is consistent
+        DEPENDENT_STAGES.filter(shouldRun).forEach(s => updateStage(s, { status: StageStatus.CANCELLED }));
+        throw error;
+      }
+    } finally {
+      onPartialResult?.(result);
+    }
+  };
+
+  onStagesChange?.(stages);
+
+  if (shouldRun(PipelineStage.OCR)) {
+    await runStage(PipelineStage.OCR);
+  }
+
+  await Promise.all(DEPENDENT_STAGES.filter(shouldRun).map(runStage));
+
+  return result;
+};
+
+/**
+ * Pipeline input for an uploaded file. Word documents are read locally,
+ * since the model does not accept .docx directly.
+ */
+export const createFileInput = async (fileData: FileData, subject: Subject | null = null): Promise<PipelineInput> => {
+  const fileBase64 = await readFileToBase64(fileData.file);
+  if (isDocxFile(fileData.file)) {
+    const { text, images } = await parseDocx(fileData.file);
+    return { textInput: text, fileBase64, sourceFile: fileData.file, mimeType: fileData.mimeType, attachments: images, subject };
+  }
+  return { textInput: '', fileBase64, sourceFile: fileData.file, mimeType: fileData.mimeType, regions: fileData.regions, subject };
+};
+
+/**
+ * The part of the original file a question was read from (its page or region), or the whole
+ * file when no question is given. Grounds follow-up questions to the tutor.
+ */
+export const getSourceAttachments = async (
+  input: PipelineInput,
+  item?: SolutionItem,
+  getPdfPages = () => splitPdfPages(input.fileBase64!)
+): Promise<InlineAttachment[]> => {
+  if (input.attachments) {
+    // Extracted text: the images the question refers to
+    return item ? input.attachments.filter(attachment => attachment.label && item.questionDisplay.includes(attachment.label)) : input.attachments;
+  }
+  if (!input.fileBase64 || !input.mimeType) return [];
+  if (item?.pageNumber && input.mimeType.includes('pdf')) {
+    const page = (await getPdfPages())[item.pageNumber - 1];
+    if (page) return [{ mimeType: input.mimeType, data: page }];
+  }
+  if (item?.sourceRegion && !input.mimeType.includes('pdf')) {
+    return [{ mimeType: 'image/jpeg', data: await cropImageRegion(input.fileBase64, input.mimeType, item.sourceRegion) }];
+  }
+  return [{ mimeType: input.mimeType, data: input.fileBase64 }];
+};
+
+// Runs `load` once and shares its promise; a failed load is dropped so the next call retries
+const once = <T>(load: () => Promise<T>) => {
+  let promise: Promise<T> | null = null;
+  return () => {
+    promise ??= load().catch(error => {
+      promise = null;
+      throw error;
+    });
+    return promise;
+  };
+};
+
+/**
+ * getSourceAttachments for one loaded file: the file is read (and a PDF split into pages)
+ * on the first question only, later questions reuse it.
+ */
+export const createSourceAttachments = (fileData: FileData, subject: Subject | null = null) => {
+  const getInput = once(() => createFileInput(fileData, subject));
+  const getPdfPages = once(async () => splitPdfPages((await getInput()).fileBase64!));
+  return async (item?: SolutionItem) => getSourceAttachments(await getInput(), item, getPdfPages);
+};
+
+/**
+ * Persist a partial result once OCR succeeded, so no finished work is lost.
+ * Returns whether it was saved.
+ */
+export const savePartialResult = (hash: string, partial: ProcessingResult): boolean => {
+  if (partial.stages?.[PipelineStage.OCR].status === StageStatus.DONE) {
+    saveToCache(hash, partial);
+    return true;
+  }
+  return false;
+};
+
+export interface ProcessedLesson {
+  hash: string; // Content hash, also the history id
+  result: ProcessingResult;
+  fromCache: boolean; // Complete result found in the cache, nothing was run
+}
+
+/**
+ * History id of the lesson an input produces. A different selection of regions,
+ * or an explicitly chosen subject, is a different lesson.
+ */
+export const getLessonHash = (input: PipelineInput): Promise<string> => {
+  const regionsKey = input.regions?.length ? JSON.stringify(input.regions) : '';
+  const subjectKey = input.subject ? `|${input.subject}` : '';
+  return computeContentHash((input.fileBase64 ?? input.textInput) + regionsKey + subjectKey);
+};
+
+export interface CachedRunOptions extends Pick<PipelineOptions, 'signal' | 'onStagesChange' | 'onProgress'> {
+  hash?: string; // Already computed by the caller (see getLessonHash)
+  // Changes made to the open lesson while it streams in (audio, chat...), merged into every
+  // partial result so they are neither lost on screen nor overwritten in the cache
+  applyEdits?: (partial: ProcessingResult) => ProcessingResult;
+}
+
+/**
+ * Full flow for one input: hash -> cache lookup -> pipeline (resuming interrupted work) -> cache.
+ * onProgress receives every streamed update as well as the result after each finished stage.
+ */
+export const processWithCache = async (input: PipelineInput, options: CachedRunOptions = {}): Promise<ProcessedLesson> => {
+  const { hash: knownHash, applyEdits = (partial: ProcessingResult) => partial, ...runOptions } = options;
+  const hash = knownHash ?? await getLessonHash(input);
+
+  // The upload is stored once the lesson is (lessons cached without it get it on re-upload)
+  const keepSourceFile = () => {
+    if (input.sourceFile) saveSourceFile(hash, input.sourceFile, input.regions);
+  };
+
+  // Complete results are returned directly, interrupted ones are resumed
+  const cached = await getFromCache(hash);
+  if (cached && getUnfinishedStages(cached).length === 0) {
+    keepSourceFile();
+    return { hash, result: cached, fromCache: true };
+  }
+
+  const result = applyEdits(await runPipeline(input, {
+    ...runOptions,
+    previous: cached ?? undefined,
+    onProgress: (partial) => runOptions.onProgress?.(applyEdits(partial)),
+    onPartialResult: (partial) => {
+      const merged = applyEdits(partial);
+      if (savePartialResult(hash, merged)) keepSourceFile();
+      runOptions.onProgress?.(merged);
+    },
+  }));
+  // Make room for what was just stored (never at the expense of this lesson)
+  evictLessons([hash]).catch(error => console.warn('Cache eviction failed:', error));
+  return { hash, result, fromCache: false };
+};
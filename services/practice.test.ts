@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'vitest';
+import { AnswerKind, FinalAnswer, SolutionItem } from '../types';
+import { formatFinalAnswer, getPracticeSummary, gradeAnswer, isGradable, parseNumericAnswer, scoreAttempt } from './practice';
+
+const numeric: FinalAnswer = { kind: AnswerKind.NUMERIC, value: 2.24, unit: 'lít' };
+const choice: FinalAnswer = { kind: AnswerKind.CHOICE, options: ['A. 1,12', 'B. 2,24', 'C. 3,36'], correctOption: 1 };
+const text: FinalAnswer = { kind: AnswerKind.TEXT, text: 'Axit sunfuric' };
+
+describe('parseNumericAnswer', () => {
+  it('reads decimal commas, powers of ten and units', () => {
+    expect(parseNumericAnswer('2,24 lít')).toEqual({ value: 2.24, unit: 'lít' });
+    expect(parseNumericAnswer('0.1mol')).toEqual({ value: 0.1, unit: 'mol' });
+    expect(parseNumericAnswer('1,5.10^-3 M')?.value).toBeCloseTo(1.5e-3);
+    expect(parseNumericAnswer('1.5e-3')?.value).toBeCloseTo(1.5e-3);
+    expect(parseNumericAnswer('−3,2 kJ')).toEqual({ value: -3.2, unit: 'kJ' });
+  });
+
+  it('returns null without a number', () => {
+    expect(parseNumericAnswer('hai lít')).toBeNull();
+  });
+});
+
+describe('gradeAnswer', () => {
+  it('accepts numbers within the tolerance', () => {
+    expect(gradeAnswer(numeric, '2,24').correct).toBe(true);
+    expect(gradeAnswer(numeric, '2.23 lít').correct).toBe(true);
+    expect(gradeAnswer(numeric, '2,5 lít')).toEqual({ correct: false, message: 'Chưa đúng, kết quả của em lớn hơn đáp án.' });
+  });
+
+  it('converts units of the same quantity', () => {
+    expect(gradeAnswer(numeric, '2240 ml').correct).toBe(true);
+    expect(gradeAnswer(numeric, '2,24 g').correct).toBe(false);
+  });
+
+  it('grades choices by index and text without case or accents', () => {
+    expect(gradeAnswer(choice, '1').correct).toBe(true);
+    expect(gradeAnswer(choice, '0').correct).toBe(false);
+    expect(gradeAnswer(text, 'axit sunfuric').correct).toBe(true);
+    expect(gradeAnswer(text, 'Axít sunfuríc').correct).toBe(true);
+    expect(gradeAnswer(text, 'axit clohidric').correct).toBe(false);
+  });
+});
+
+describe('isGradable', () => {
+  it('requires an answer that can be checked', () => {
+    expect(isGradable(numeric)).toBe(true);
+    expect(isGradable(choice)).toBe(true);
+    expect(isGradable(text)).toBe(true);
+    expect(isGradable(undefined)).toBe(false);
+    expect(isGradable({ kind: AnswerKind.NUMERIC })).toBe(false);
+    expect(isGradable({ ...choice, correctOption: 3 })).toBe(false);
+    expect(isGradable({ kind: AnswerKind.TEXT, text: '  ' })).toBe(false);
+  });
+});
+
+describe('formatFinalAnswer', () => {
+  it('shows the answer as the student would write it', () => {
+    expect(formatFinalAnswer(numeric)).toBe('2,24 lít');
+    expect(formatFinalAnswer(choice)).toBe('B. 2,24');
+    expect(formatFinalAnswer(text)).toBe('Axit sunfuric');
+  });
+});
+
+describe('scoreAttempt', () => {
+  const attempt = { answer: '2,24', correct: true, attempts: 1, hintsUsed: 0, revealed: false, answeredAt: 0 };
+
+  it('gives full marks for a right first answer', () => {
+    expect(scoreAttempt(attempt).score).toBe(1);
+  });
+
+  it('takes a quarter off for every hint and wrong answer', () => {
+    expect(scoreAttempt({ ...attempt, hintsUsed: 1 }).score).toBe(0.75);
+    expect(scoreAttempt({ ...attempt, hintsUsed: 1, attempts: 3 }).score).toBe(0.25);
+    expect(scoreAttempt({ ...attempt, hintsUsed: 3, attempts: 3 }).score).toBe(0);
+  });
+
+  it('gives nothing when wrong or revealed', () => {
+    expect(scoreAttempt({ ...attempt, correct: false }).score).toBe(0);
+    expect(scoreAttempt({ ...attempt, revealed: true }).score).toBe(0);
+  });
+});
+
+describe('getPracticeSummary', () => {
+  it('counts gradable, answered and the total score', () => {
+    const item = (finalAnswer?: FinalAnswer, practice?: SolutionItem['practice']): SolutionItem => ({
+      questionDisplay: '', questionReading: '', solutionDisplay: '', solutionReading: '', finalAnswer, practice,
+    });
+    const practice = { answer: '', correct: true, attempts: 1, hintsUsed: 0, revealed: false, answeredAt: 0 };
+    const solutions = [
+      item(numeric, { ...practice, score: 1 }),
+      item(choice, { ...practice, correct: false, revealed: true, score: 0 }),
+      item(text, { ...practice, correct: false, score: 0 }),
+      item(undefined, { ...practice, score: 1 }),
+    ];
+    expect(getPracticeSummary(solutions)).toEqual({ gradable: 3, answered: 2, score: 1 });
+  });
+});
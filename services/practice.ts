@@ -0,0 +1,203 @@
+import { AnswerKind, FinalAnswer, PracticeAttempt, SolutionItem } from '../types';
+import { normalizeSearchText } from './lessonSearch';
+
+/**
+ * Practice mode: answers are graded locally against the solver's structured final answer
+ */
+
+const DEFAULT_TOLERANCE = 0.01; // 1% relative error for numeric answers
+const HINT_PENALTY = 0.25; // Score lost per hint shown
+const RETRY_PENALTY = 0.25; // Score lost per wrong answer before the right one
+
+interface UnitInfo {
+  quantity: string;
+  factor: number; // To the quantity's base unit
+}
+
+const UNITS: Record<string, UnitInfo> = {
+  // Mass (g)
+  mg: { quantity: 'mass', factor: 1e-3 }, g: { quantity: 'mass', factor: 1 }, gam: { quantity: 'mass', factor: 1 },
+  kg: { quantity: 'mass', factor: 1e3 }, 'tấn': { quantity: 'mass', factor: 1e6 },
+  // Volume (L)
+  ml: { quantity: 'volume', factor: 1e-3 }, mL: { quantity: 'volume', factor: 1e-3 }, cm3: { quantity: 'volume', factor: 1e-3 },
+  l: { quantity: 'volume', factor: 1 }, L: { quantity: 'volume', factor: 1 }, 'lít': { quantity: 'volume', factor: 1 },
+  dm3: { quantity: 'volume', factor: 1 }, m3: { quantity: 'volume', factor: 1e3 },
+  // Amount (mol) and concentration (mol/L)
+  mmol: { quantity: 'amount', factor: 1e-3 }, mol: { quantity: 'amount', factor: 1 }, kmol: { quantity: 'amount', factor: 1e3 },
+  M: { quantity: 'concentration', factor: 1 }, 'mol/L': { quantity: 'concentration', factor: 1 }, 'mol/l': { quantity: 'concentration', factor: 1 },
+  mM: { quantity: 'concentration', factor: 1e-3 },
+  // Length (m)
+  mm: { quantity: 'length', factor: 1e-3 }, cm: { quantity: 'length', factor: 1e-2 }, dm: { quantity: 'length', factor: 0.1 },
+  m: { quantity: 'length', factor: 1 }, km: { quantity: 'length', factor: 1e3 },
+  // Time (s)
+  ms: { quantity: 'time', factor: 1e-3 }, s: { quantity: 'time', factor: 1 }, 'giây': { quantity: 'time', factor: 1 },
+  min: { quantity: 'time', factor: 60 }, 'phút': { quantity: 'time', factor: 60 }, h: { quantity: 'time', factor: 3600 }, 'giờ': { quantity: 'time', factor: 3600 },
+  // Speed (m/s)
+  'm/s': { quantity: 'speed', factor: 1 }, 'km/h': { quantity: 'speed', factor: 1 / 3.6 },
+  // Energy (J), force (N), power (W)
+  J: { quantity: 'energy', factor: 1 }, kJ: { quantity: 'energy', factor: 1e3 }, cal: { quantity: 'energy', factor: 4.184 }, kcal: { quantity: 'energy', factor: 4184 },
+  N: { quantity: 'force', factor: 1 }, kN: { quantity: 'force', factor: 1e3 },
+  W: { quantity: 'power', factor: 1 }, kW: { quantity: 'power', factor: 1e3 },
+  // Pressure (Pa)
+  Pa: { quantity: 'pressure', factor: 1 }, kPa: { quantity: 'pressure', factor: 1e3 }, atm: { quantity: 'pressure', factor: 101325 }, mmHg: { quantity: 'pressure', factor: 133.322 },
+  // Electricity
+  V: { quantity: 'voltage', factor: 1 }, A: { quantity: 'current', factor: 1 }, mA: { quantity: 'current', factor: 1e-3 },
+  'Ω': { quantity: 'resistance', factor: 1 }, ohm: { quantity: 'resistance', factor: 1 },
+  '%': { quantity: 'percent', factor: 1 },
+};
+
+// Case-insensitive fallback, only for spellings that stay unambiguous ("m" / "M", "mm" / "mM" do not)
+const LOWERCASE_UNITS = new Map<string, UnitInfo | null>();
+Object.entries(UNITS).forEach(([unit, info]) => {
+  const key = unit.toLowerCase();
+  const existing = LOWERCASE_UNITS.get(key);
+  const isSameUnit = existing && existing.quantity === info.quantity && existing.factor === info.factor;
+  LOWERCASE_UNITS.set(key, existing === undefined || isSameUnit ? info : null);
+});
+
+const cleanUnit = (unit: string): string => unit
+  .trim()
+  .replace(/\s+/g, '')
+  .replace(/³/g, '3')
+  .replace(/\^3/g, '3')
+  .replace(/[.,;]$/, '');
+
+const lookupUnit = (unit: string): UnitInfo | null => {
+  const cleaned = cleanUnit(unit);
+  return UNITS[cleaned] ?? LOWERCASE_UNITS.get(cleaned.toLowerCase()) ?? null;
+};
+
+export interface ParsedNumber {
+  value: number;
+  unit: string;
+}
+
+/**
+ * Read "2,24 lít", "0.1mol", "1,5.10^-3 M", "1.5e-3", "−3,2 kJ"
+ */
+export const parseNumericAnswer = (input: string): ParsedNumber | null => {
+  const text = input.trim().replace(/−/g, '-');
+  const match = text.match(/^([+-]?\d+(?:[.,]\d+)?)\s*(?:(?:[x×*.·]\s*10\s*\^?\s*([+-]?\d+))|(?:e([+-]?\d+)))?\s*(.*)$/i);
+  if (!match) return null;
+
+  // "2,24" and "2.24" are both accepted (Vietnamese decimal comma)
+  const mantissa = match[1].replace(',', '.');
+  const exponent = Number(match[2] ?? match[3] ?? 0);
+  const value = Number(mantissa) * Math.pow(10, exponent);
+  return Number.isFinite(value) ? { value, unit: match[4].trim() } : null;
+};
+
+export interface GradeResult {
+  correct: boolean;
+  message: string;
+}
+
+const gradeNumeric = (expected: FinalAnswer, input: string): GradeResult => {
+  const parsed = parseNumericAnswer(input);
+  if (!parsed || expected.value === undefined) {
+    return { correct: false, message: `Không đọc được số. Ví dụ: 2,24${expected.unit ? ` ${expected.unit}` : ''}` };
+  }
+
+  let value = parsed.value;
+  const expectedUnit = expected.unit?.trim() ?? '';
+  // A missing unit is taken to be the expected one
+  if (parsed.unit && expectedUnit && cleanUnit(parsed.unit) !== cleanUnit(expectedUnit)) {
+    const given = lookupUnit(parsed.unit);
+    const target = lookupUnit(expectedUnit);
+    if (!given || !target || given.quantity !== target.quantity) {
+      return { correct: false, message: `Đơn vị "${parsed.unit}" không phù hợp. Hãy dùng đơn vị ${expectedUnit}.` };
+    }
+    value = (value * given.factor) / target.factor;
+  }
+
+  const tolerance = expected.tolerance && expected.tolerance > 0 ? expected.tolerance : DEFAULT_TOLERANCE;
+  const correct = Math.abs(value - expected.value) <= tolerance * Math.abs(expected.value) + 1e-12;
+  return correct
+    ? { correct, message: 'Chính xác!' }
+    : { correct, message: value > expected.value ? 'Chưa đúng, kết quả của em lớn hơn đáp án.' : 'Chưa đúng, kết quả của em nhỏ hơn đáp án.' };
+};
+
+// Formulas and names compare without case, accents or spaces
+const compactText = (text: string) => normalizeSearchText(text).replace(/[\s.]/g, '');
+
+/**
+ * Grade an answer: the option index for multiple choice, the typed text otherwise
+ */
+export const gradeAnswer = (expected: FinalAnswer, input: string): GradeResult => {
+  switch (expected.kind) {
+    case AnswerKind.CHOICE: {
+      const correct = Number(input) === expected.correctOption;
+      return { correct, message: correct ? 'Chính xác!' : 'Chưa đúng, hãy thử lại.' };
+    }
+    case AnswerKind.NUMERIC:
+      return gradeNumeric(expected, input);
+    default: {
+      const correct = !!expected.text && compactText(input) === compactText(expected.text);
+      return { correct, message: correct ? 'Chính xác!' : 'Chưa khớp với đáp án, hãy thử lại.' };
+    }
+  }
+};
+
+/**
+ * Practice is possible when the expected answer can actually be checked
+ */
+export const isGradable = (answer?: FinalAnswer): answer is FinalAnswer => {
+  if (!answer) return false;
+  switch (answer.kind) {
+    case AnswerKind.CHOICE:
+      return !!answer.options?.length && answer.correctOption !== undefined
+        && answer.correctOption >= 0 && answer.correctOption < answer.options.length;
+    case AnswerKind.NUMERIC:
+      return typeof answer.value === 'number' && Number.isFinite(answer.value);
+    case AnswerKind.TEXT:
+      return !!answer.text?.trim();
+    default:
+      return false;
+  }
+};
+
+export const getOptionLabel = (index: number) => String.fromCharCode(65 + index);
+
+// Option text without its own "A." / "B)" prefix
+export const stripOptionLabel = (option: string) => option.replace(/^\s*[A-Ha-h]\s*[.):]\s*/, '');
+
+export const formatFinalAnswer = (answer: FinalAnswer): string => {
+  switch (answer.kind) {
+    case AnswerKind.CHOICE:
+      return `${getOptionLabel(answer.correctOption ?? 0)}. ${stripOptionLabel(answer.options?.[answer.correctOption ?? 0] ?? '')}`;
+    case AnswerKind.NUMERIC:
+      return `${answer.value?.toLocaleString('vi-VN', { maximumFractionDigits: 6 })}${answer.unit ? ` ${answer.unit}` : ''}`;
+    default:
+      return answer.text ?? '';
+  }
+};
+
+/**
+ * Score of an attempt: 1 for a right first answer, less for every hint and wrong answer,
+ * 0 when the solution was revealed first
+ */
+export const gradeScore = (attempt: Omit<PracticeAttempt, 'score'>): number => {
+  if (!attempt.correct || attempt.revealed) return 0;
+  return Math.max(0, 1 - HINT_PENALTY * attempt.hintsUsed - RETRY_PENALTY * (attempt.attempts - 1));
+};
+
+export const scoreAttempt = (attempt: Omit<PracticeAttempt, 'score'>): PracticeAttempt => ({
+  ...attempt,
+  score: gradeScore(attempt),
+});
+
+export interface PracticeSummary {
+  gradable: number; // Questions that can be practised
+  answered: number; // Correct or revealed
+  score: number; // Sum of scores
+}
+
+export const getPracticeSummary = (solutions: SolutionItem[]): PracticeSummary => {
+  const gradable = solutions.filter(item => isGradable(item.finalAnswer));
+  const done = gradable.filter(item => item.practice?.correct || item.practice?.revealed);
+  return {
+    gradable: gradable.length,
+    answered: done.length,
+    score: done.reduce((sum, item) => sum + (item.practice?.score ?? 0), 0),
+  };
+};
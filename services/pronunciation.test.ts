@@ -0,0 +1,76 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { applyPronunciation, loadCustomPronunciations, readInteger, readNumber, saveCustomPronunciations } from './pronunciation';
+
+const storage = new Map<string, string>();
+vi.stubGlobal('localStorage', {
+  getItem: (key: string) => storage.get(key) ?? null,
+  setItem: (key: string, value: string) => storage.set(key, value),
+});
+
+describe('readInteger', () => {
+  it('reads Vietnamese numbers with their special forms', () => {
+    expect(readInteger('0')).toBe('không');
+    expect(readInteger('15')).toBe('mười lăm');
+    expect(readInteger('21')).toBe('hai mươi mốt');
+    expect(readInteger('24')).toBe('hai mươi bốn');
+    expect(readInteger('25')).toBe('hai mươi lăm');
+    expect(readInteger('105')).toBe('một trăm linh năm');
+    expect(readInteger('2024')).toBe('hai nghìn không trăm hai mươi bốn');
+    expect(readInteger('1000000')).toBe('một triệu');
+  });
+});
+
+describe('readNumber', () => {
+  it('reads the decimal comma', () => {
+    expect(readNumber('2,24')).toBe('hai phẩy hai mươi bốn');
+    expect(readNumber('22,4')).toBe('hai mươi hai phẩy bốn');
+    expect(readNumber('0,05')).toBe('không phẩy không năm');
+  });
+
+  it('tells thousands separators from decimal points', () => {
+    expect(readNumber('1.000.000')).toBe('một triệu');
+    expect(readNumber('2.5')).toBe('hai phẩy năm');
+  });
+});
+
+describe('applyPronunciation', () => {
+  beforeEach(() => {
+    storage.clear();
+    saveCustomPronunciations([]);
+  });
+
+  it('reads numbers with their units', () => {
+    expect(applyPronunciation('Thể tích 2,24 lít ở 25°C')).toBe('Thể tích hai phẩy hai mươi bốn lít ở hai mươi lăm độ C');
+    expect(applyPronunciation('Nồng độ 0,5 mol/l')).toBe('Nồng độ không phẩy năm mol trên lít');
+    expect(applyPronunciation('Khối lượng 1,5.10^3 g')).toBe('Khối lượng một phẩy năm nhân mười mũ ba gam');
+  });
+
+  it('reads formulas by name with their coefficients', () => {
+    expect(applyPronunciation('Phản ứng: 2Al + 3H2SO4 → Al2(SO4)3 + 3H2'))
+      .toBe('Phản ứng: hai Aluminium + ba Sulfuric Acid tạo thành Aluminium Sulfate + ba Hydrogen');
+  });
+
+  it('keeps digits inside unknown formulas', () => {
+    expect(applyPronunciation('Số mol Mg3N2 là 0,1 mol')).toBe('Số mol Mg3N2 là không phẩy một mol');
+  });
+
+  it('leaves element symbols that are Vietnamese words outside chemistry', () => {
+    expect(applyPronunciation('Ca dao Việt Nam và Na ngọt')).toBe('Ca dao Việt Nam và Na ngọt');
+  });
+
+  it('reads those symbols as elements next to a formula or a reaction', () => {
+    expect(applyPronunciation('Thả mẩu Na vào cốc HCl')).toBe('Thả mẩu Sodium vào cốc Hydrochloric Acid');
+    expect(applyPronunciation('Đốt 2Na + Cl2 → 2NaCl')).toBe('Đốt hai Sodium + Chlorine tạo thành hai Sodium Chloride');
+  });
+
+  it('leaves text without Vietnamese alone', () => {
+    expect(applyPronunciation('Hello 2.5 mol H2SO4')).toBe('Hello 2.5 mol H2SO4');
+  });
+
+  it('uses custom readings as soon as they are saved', () => {
+    expect(applyPronunciation('Dùng NaClO khử trùng')).toBe('Dùng NaClO khử trùng');
+    saveCustomPronunciations([{ display: 'NaClO', reading: 'Sodium Hypochlorite' }]);
+    expect(loadCustomPronunciations()).toEqual([{ display: 'NaClO', reading: 'Sodium Hypochlorite' }]);
+    expect(applyPronunciation('Dùng NaClO khử trùng')).toBe('Dùng Sodium Hypochlorite khử trùng');
+  });
+});
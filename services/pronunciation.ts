@@ -0,0 +1,272 @@
+/**
+ * Deterministic pronunciation of the text sent to TTS: formulas, ions, units, symbols and
+ * Vietnamese numbers ("2,24" -> "hai phẩy hai mươi bốn"). Users can add their own entries,
+ * remembered in localStorage.
+ */
+
+export interface PronunciationEntry {
+  display: string; // As written, e.g. "H2SO4"
+  reading: string; // As spoken, e.g. "Sulfuric Acid"
+}
+
+// Element symbols that are also Vietnamese words ("Ca dao", "quả na", "Li"): read as elements
+// only in a chemistry context (see isChemistryContext)
+const AMBIGUOUS_ELEMENTS: Record<string, string> = {
+  Ca: 'Calcium', Na: 'Sodium', Cu: 'Copper', Li: 'Lithium', Si: 'Silicon', Sn: 'Tin',
+};
+
+// Formulas and ions, read with their English (IUPAC) names like the reading scripts.
+// Single-letter symbols (C, O, S, V...) are left out: they are also variables and words.
+const FORMULAS: Record<string, string> = {
+  // Elements
+  Fe: 'Iron', Al: 'Aluminium', Mg: 'Magnesium', Zn: 'Zinc', Ag: 'Silver', Pb: 'Lead', Hg: 'Mercury',
+  Au: 'Gold', Mn: 'Manganese', Cr: 'Chromium', Br: 'Bromine', Cl2: 'Chlorine', H2: 'Hydrogen', O2: 'Oxygen',
+  N2: 'Nitrogen', O3: 'Ozone', Br2: 'Bromine', I2: 'Iodine',
+  // Compounds
+  H2O: 'Water', HCl: 'Hydrochloric Acid', H2SO4: 'Sulfuric Acid', HNO3: 'Nitric Acid', H3PO4: 'Phosphoric Acid',
+  H2CO3: 'Carbonic Acid', H2S: 'Hydrogen Sulfide', HF: 'Hydrofluoric Acid', HBr: 'Hydrobromic Acid',
+  CH3COOH: 'Acetic Acid', NaOH: 'Sodium Hydroxide', KOH: 'Potassium Hydroxide', 'Ca(OH)2': 'Calcium Hydroxide',
+  'Ba(OH)2': 'Barium Hydroxide', 'Fe(OH)2': 'Iron two Hydroxide', 'Fe(OH)3': 'Iron three Hydroxide',
+  'Cu(OH)2': 'Copper two Hydroxide', 'Al(OH)3': 'Aluminium Hydroxide', NH3: 'Ammonia', NaCl: 'Sodium Chloride',
+  KCl: 'Potassium Chloride', CaCl2: 'Calcium Chloride', FeCl2: 'Iron two Chloride', FeCl3: 'Iron three Chloride',
+  CuCl2: 'Copper two Chloride', AlCl3: 'Aluminium Chloride', ZnCl2: 'Zinc Chloride', MgCl2: 'Magnesium Chloride',
+  BaCl2: 'Barium Chloride', AgNO3: 'Silver Nitrate', AgCl: 'Silver Chloride', CaCO3: 'Calcium Carbonate',
+  Na2CO3: 'Sodium Carbonate', NaHCO3: 'Sodium Bicarbonate', K2CO3: 'Potassium Carbonate', CuSO4: 'Copper two Sulfate',
+  FeSO4: 'Iron two Sulfate', 'Fe2(SO4)3': 'Iron three Sulfate', 'Al2(SO4)3': 'Aluminium Sulfate',
+  Na2SO4: 'Sodium Sulfate', BaSO4: 'Barium Sulfate',
+  KMnO4: 'Potassium Permanganate', KClO3: 'Potassium Chlorate', K2Cr2O7: 'Potassium Dichromate', KNO3: 'Potassium Nitrate',
+  CO2: 'Carbon Dioxide', CO: 'Carbon Monoxide', SO2: 'Sulfur Dioxide', SO3: 'Sulfur Trioxide', NO2: 'Nitrogen Dioxide',
+  NO: 'Nitric Oxide', N2O: 'Nitrous Oxide', P2O5: 'Phosphorus Pentoxide', SiO2: 'Silicon Dioxide', CaO: 'Calcium Oxide',
+  MgO: 'Magnesium Oxide', Na2O: 'Sodium Oxide', CuO: 'Copper two Oxide', FeO: 'Iron two Oxide', Fe2O3: 'Iron three Oxide',
+  Fe3O4: 'Iron two three Oxide', Al2O3: 'Aluminium Oxide', ZnO: 'Zinc Oxide', MnO2: 'Manganese Dioxide', H2O2: 'Hydrogen Peroxide',
+  CH4: 'Methane', C2H6: 'Ethane', C3H8: 'Propane', C4H10: 'Butane', C2H4: 'Ethylene', C2H2: 'Acetylene', C6H6: 'Benzene',
+  CH3OH: 'Methanol', C2H5OH: 'Ethanol', C6H12O6: 'Glucose', C12H22O11: 'Sucrose',
+  // Ions
+  'H+': 'Hydrogen ion', 'OH-': 'Hydroxide', 'Cl-': 'Chloride', 'NH4+': 'Ammonium', 'NO3-': 'Nitrate',
+  'SO4^2-': 'Sulfate', 'SO42-': 'Sulfate', 'CO3^2-': 'Carbonate', 'CO32-': 'Carbonate', 'HCO3-': 'Bicarbonate',
+  'PO4^3-': 'Phosphate', 'PO43-': 'Phosphate', 'Fe^2+': 'Iron two ion', 'Fe2+': 'Iron two ion',
+  'Fe^3+': 'Iron three ion', 'Fe3+': 'Iron three ion', 'Cu^2+': 'Copper two ion', 'Cu2+': 'Copper two ion',
+  'Na+': 'Sodium ion', 'K+': 'Potassium ion', 'Ag+': 'Silver ion', 'Ca^2+': 'Calcium ion', 'Ca2+': 'Calcium ion',
+};
+
+// Read only right after a number ("2,24 lít", "25 °C")
+const UNITS: Record<string, string> = {
+  'mol/l': 'mol trên lít', 'mol/L': 'mol trên lít', 'g/mol': 'gam trên mol', 'g/ml': 'gam trên mi li lít', 'g/mL': 'gam trên mi li lít',
+  mol: 'mol', mmol: 'mi li mol', M: 'mol trên lít', g: 'gam', kg: 'ki lô gam', mg: 'mi li gam',
+  ml: 'mi li lít', mL: 'mi li lít', l: 'lít', L: 'lít', cm3: 'xen ti mét khối', 'cm³': 'xen ti mét khối',
+  dm3: 'đề xi mét khối', 'dm³': 'đề xi mét khối', m3: 'mét khối', 'm³': 'mét khối',
+  '°C': 'độ C', '°F': 'độ F', '%': 'phần trăm',
+  'km/h': 'ki lô mét trên giờ', 'm/s': 'mét trên giây', 'm/s2': 'mét trên giây bình phương', 'm/s²': 'mét trên giây bình phương',
+  km: 'ki lô mét', m: 'mét', cm: 'xen ti mét', mm: 'mi li mét', s: 'giây', ms: 'mi li giây', h: 'giờ',
+  J: 'jun', kJ: 'ki lô jun', cal: 'ca lo', kcal: 'ki lô ca lo', N: 'niu tơn', W: 'oát', kW: 'ki lô oát',
+  V: 'vôn', A: 'am pe', mA: 'mi li am pe', 'Ω': 'ôm', Hz: 'héc', Pa: 'pát xcan', atm: 'át mốt phe',
+};
+
+// Read wherever they appear
+const SYMBOLS: Record<string, string> = {
+  '→': ' tạo thành ', '⟶': ' tạo thành ', '->': ' tạo thành ', '⇌': ' thuận nghịch tạo thành ', '⇄': ' thuận nghịch tạo thành ',
+  '⇒': ' suy ra ', '=>': ' suy ra ', '≈': ' xấp xỉ ', '≤': ' nhỏ hơn hoặc bằng ', '≥': ' lớn hơn hoặc bằng ', '≠': ' khác ',
+  '×': ' nhân ', '÷': ' chia ', '±': ' cộng trừ ', '√': ' căn bậc hai của ', '∞': ' vô cùng ', 'Δ': ' đen ta ', 'π': ' pi ',
+  't°': ' nhiệt độ ', '°C': ' độ C ', '°': ' độ ', '↑': '', '↓': '',
+};
+
+// --- NUMBERS ---
+
+const DIGITS = ['không', 'một', 'hai', 'ba', 'bốn', 'năm', 'sáu', 'bảy', 'tám', 'chín'];
+const GROUP_NAMES = ['', 'nghìn', 'triệu', 'tỷ'];
+
+// 0..999; `full` reads the leading zeros of an inner group ("một nghìn không trăm linh năm")
+const readTriple = (value: number, full: boolean): string => {
+  const hundreds = Math.floor(value / 100);
+  const tens = Math.floor((value % 100) / 10);
+  const units = value % 10;
+  const words: string[] = [];
+  if (full || hundreds > 0) words.push(DIGITS[hundreds], 'trăm');
+  if (tens === 0) {
+    if (units > 0 && words.length > 0) words.push('linh');
+  } else {
+    words.push(tens === 1 ? 'mười' : `${DIGITS[tens]} mươi`);
+  }
+  if (units === 1 && tens >= 2) words.push('mốt');
+  else if (units === 5 && tens >= 1) words.push('lăm');
+  else if (units > 0) words.push(DIGITS[units]);
+  return words.join(' ');
+};
+
+const readDigits = (digits: string) => digits.split('').map(digit => DIGITS[Number(digit)]).join(' ');
+
+/**
+ * Vietnamese reading of a whole number written with digits ("2024" -> "hai nghìn không trăm hai mươi bốn")
+ */
+export const readInteger = (digits: string): string => {
+  const trimmed = digits.replace(/^0+(?=\d)/, '');
+  // Beyond hundreds of billions, digit by digit
+  if (trimmed.length > 12) return readDigits(trimmed);
+  const value = Number(trimmed);
+  if (value === 0) return DIGITS[0];
+
+  const groups: number[] = [];
+  for (let rest = value; rest > 0; rest = Math.floor(rest / 1000)) groups.push(rest % 1000);
+  const words: string[] = [];
+  for (let i = groups.length - 1; i >= 0; i--) {
+    if (groups[i] === 0) continue;
+    words.push(readTriple(groups[i], i < groups.length - 1));
+    if (GROUP_NAMES[i]) words.push(GROUP_NAMES[i]);
+  }
+  return words.join(' ');
+};
+
+/**
+ * "2,24" -> "hai phẩy hai mươi bốn", "0,05" -> "không phẩy không năm", "1.000" -> "một nghìn"
+ */
+export const readNumber = (text: string): string => {
+  // A dot followed by groups of three digits separates thousands ("1.000.000"), any other dot is a decimal point
+  const normalized = /^\d{1,3}(\.\d{3})+$/.test(text) ? text.replace(/\./g, '') : text.replace('.', ',');
+  const [integer, decimals] = normalized.split(',');
+  if (!decimals) return readInteger(integer);
+  // Short decimals are read as a number, long ones or leading zeros digit by digit
+  const decimalWords = decimals.length <= 3 && !decimals.startsWith('0') ? readInteger(decimals) : readDigits(decimals);
+  return `${readInteger(integer)} phẩy ${decimalWords}`;
+};
+
+// --- CUSTOM ENTRIES ---
+
+const STORAGE_KEY = 'GiaSuThongMinh_pronunciation';
+
+export const loadCustomPronunciations = (): PronunciationEntry[] => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch (error) {
+    console.warn('Could not read pronunciation dictionary:', error);
+    return [];
+  }
+};
+
+export const saveCustomPronunciations = (entries: PronunciationEntry[]) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(entries));
+  } catch (error) {
+    console.warn('Could not save pronunciation dictionary:', error);
+  }
+  compiled = null;
+};
+
+// --- APPLYING ---
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Words and formulas only match whole: "HCl" but not inside "HClO4", "Fe" but not in "Fe2O3".
+// A coefficient may come right before a formula ("2HCl").
+const WORD_START = '(?:(?<![\\p{L}\\d])|(?<=(?<![\\p{L}\\d.,])\\d+))';
+const WORD_END = '(?![\\p{L}\\d])';
+
+const toPattern = (key: string) =>
+  `${/^[\p{L}\d]/u.test(key) ? WORD_START : ''}${escapeRegExp(key)}${/[\p{L}\d]$/u.test(key) ? WORD_END : ''}`;
+
+const byLengthDesc = (a: string, b: string) => b.length - a.length;
+
+const REACTION_SIGNS = '[→⟶⇌⇄]|->';
+
+interface CompiledDictionary {
+  pattern: RegExp;
+  terms: Map<string, string>;
+  formulaContext: RegExp; // A formula or reaction sign somewhere in a sentence
+}
+
+// Built on first use, dropped whenever the custom entries are saved
+let compiled: CompiledDictionary | null = null;
+
+const getDictionary = (): CompiledDictionary => {
+  if (compiled) return compiled;
+
+  const custom = loadCustomPronunciations().filter(entry => entry.display.trim());
+  const terms = new Map<string, string>([...Object.entries(SYMBOLS), ...Object.entries(FORMULAS)]);
+  custom.forEach(entry => terms.set(entry.display.trim(), ` ${entry.reading.trim()} `));
+  const termPattern = Array.from(terms.keys()).sort(byLengthDesc).map(toPattern).join('|');
+  const elementPattern = Object.keys(AMBIGUOUS_ELEMENTS).map(toPattern).join('|');
+  const unitPattern = Object.keys(UNITS).sort(byLengthDesc).map(escapeRegExp).join('|');
+  const unitSuffix = `(?:\\s?(${unitPattern})${WORD_END})?`;
+
+  const pattern = new RegExp(
+    // Digits glued to letters or brackets are formula subscripts ("Mg3N2") and stay as written;
+    // "1,5.10^3": the dot before a power of ten is a multiplication
+    `\\^(-?\\d+)${unitSuffix}|\\.(?=10\\^)|(?<![\\p{L})\\]])(\\d{1,3}(?:\\.\\d{3})+(?:,\\d+)?|\\d+(?:[.,]\\d+)?)${unitSuffix}|(${elementPattern})|${termPattern}`,
+    'gu'
+  );
+  const formulaPattern = Object.keys(FORMULAS).sort(byLengthDesc).map(toPattern).join('|');
+  const formulaContext = new RegExp(`${formulaPattern}|${REACTION_SIGNS}`, 'u');
+  compiled = { pattern, terms, formulaContext };
+  return compiled;
+};
+
+// Sentence around a position (a dot between digits is a decimal point, not the end of a sentence)
+const getSentence = (text: string, offset: number) => {
+  const boundary = /[!?;\n]|\.(?!\d)/g;
+  let start = 0;
+  let end = text.length;
+  for (const match of text.matchAll(boundary)) {
+    if (match.index! < offset) start = match.index! + 1;
+    else {
+      end = match.index!;
+      break;
+    }
+  }
+  return text.slice(start, end);
+};
+
+/**
+ * A symbol is chemistry when it carries a coefficient ("2Na"), stands next to "+", "=" or an
+ * arrow, or shares its sentence with a formula ("Cho Na vào dung dịch HCl")
+ */
+const isChemistryContext = (text: string, offset: number, symbol: string, formulaContext: RegExp) => {
+  const before = text.slice(0, offset);
+  const after = text.slice(offset + symbol.length);
+  if (/\d$/.test(before) || new RegExp(`(?:[+=]|${REACTION_SIGNS})\\s*$`, 'u').test(before)) return true;
+  if (new RegExp(`^\\s*(?:[+=]|${REACTION_SIGNS})`, 'u').test(after)) return true;
+  return formulaContext.test(getSentence(text, offset));
+};
+
+// Vietnamese letters: numbers and units are only spelled out in Vietnamese text (not in English lessons)
+const VIETNAMESE_TEXT = /[ăâđêôơưàáảãạằắẳẵặầấẩẫậèéẻẽẹềếểễệìíỉĩịòóỏõọồốổỗộờớởỡợùúủũụừứửữựỳýỷỹỵ]/i;
+
+/**
+ * Replace formulas, units, symbols and numbers by how they are spoken.
+ * Text that is not Vietnamese is returned unchanged.
+ */
+export const applyPronunciation = (text: string): string => {
+  if (!VIETNAMESE_TEXT.test(text)) return text;
+  const { pattern, terms, formulaContext } = getDictionary();
+  return text
+    .replace(pattern, (
+      match: string,
+      exponent: string | undefined,
+      exponentUnit: string | undefined,
+      number: string | undefined,
+      unit: string | undefined,
+      element: string | undefined,
+      offset: number
+    ) => {
+      if (exponent !== undefined) {
+        const power = exponent.startsWith('-') ? `trừ ${readNumber(exponent.slice(1))}` : readNumber(exponent);
+        return exponentUnit ? ` mũ ${power} ${UNITS[exponentUnit]}` : ` mũ ${power} `;
+      }
+      if (match === '.') return ' nhân ';
+      if (number !== undefined) {
+        if (unit) return `${readNumber(number)} ${UNITS[unit]}`;
+        // Keep a coefficient apart from the formula it multiplies
+        return /[\p{L}(]/u.test(text.charAt(offset + match.length)) ? `${readNumber(number)} ` : readNumber(number);
+      }
+      if (element !== undefined) {
+        return isChemistryContext(text, offset, element, formulaContext) ? AMBIGUOUS_ELEMENTS[element] : element;
+      }
+      return terms.get(match) ?? match;
+    })
+    .replace(/[ \t]{2,}/g, ' ')
+    .replace(/ +([,.;:!?])/g, '$1');
+};
+
+/**
+ * Reading script built locally from a display script, without a model call
+ */
+export const toReadingScript = (displayScript: string): string => applyPronunciation(displayScript);
@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { MarkupNode, parseScienceMarkup, toPlainText } from './scienceMarkup';
+
+const math = { chemicalSubscripts: false };
+const chemistry = { chemicalSubscripts: true };
+
+const text = (value: string): MarkupNode => ({ type: 'text', text: value });
+const sup = (value: string): MarkupNode => ({ type: 'sup', children: [text(value)] });
+const sub = (value: string): MarkupNode => ({ type: 'sub', children: [text(value)] });
+
+describe('parseScienceMarkup', () => {
+  it('parses bold and LaTeX fractions, roots and symbols', () => {
+    expect(parseScienceMarkup('**Đáp án:** $\\frac{1}{2}$', math)).toEqual([
+      { type: 'bold', children: [text('Đáp án:')] },
+      text(' '),
+      { type: 'math', display: false, children: [{ type: 'frac', numerator: [text('1')], denominator: [text('2')] }] },
+    ]);
+    expect(parseScienceMarkup('$$\\sqrt[3]{x} \\le \\pi$$', math)).toEqual([
+      { type: 'math', display: true, children: [{ type: 'sqrt', index: [text('3')], children: [text('x')] }, text(' ≤ π')] },
+    ]);
+  });
+
+  it('keeps the sign after a superscript in math', () => {
+    expect(parseScienceMarkup('a^2+b^2=c^2', math)).toEqual([
+      text('a'), sup('2'), text('+b'), sup('2'), text('=c'), sup('2'),
+    ]);
+    expect(parseScienceMarkup('10^-2', math)).toEqual([text('10'), sup('-2')]);
+  });
+
+  it('reads charges, counts and states in chemistry', () => {
+    expect(parseScienceMarkup('SO4^2- + Na^+', chemistry)).toEqual([
+      text('SO'), sub('4'), sup('2-'), text(' + Na'), sup('+'),
+    ]);
+    expect(parseScienceMarkup('NaCl(aq) -> Ca(OH)2', chemistry)).toEqual([
+      text('NaCl'), sub('(aq)'), text(' → Ca(OH)'), sub('2'),
+    ]);
+  });
+
+  it('stops at the end of unbalanced formulas', () => {
+    expect(toPlainText(parseScienceMarkup('$\\sqrt[3 x$', math))).toBe('3 x√()');
+    expect(toPlainText(parseScienceMarkup('$\\sqrt[$', math))).toBe('√()');
+    expect(toPlainText(parseScienceMarkup('$x^{2 + 1$', math))).toBe('x2 + 1');
+    expect(toPlainText(parseScienceMarkup('$\\frac{1$', math))).toBe('1/');
+    expect(toPlainText(parseScienceMarkup('$\\frac$', math))).toBe('/');
+    expect(toPlainText(parseScienceMarkup('$\\text{ab$', math))).toBe('ab');
+  });
+});
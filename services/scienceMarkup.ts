@@ -0,0 +1,284 @@
+/**
+ * Parser for the markup found in OCR transcripts and AI solutions: **bold**,
+ * inline/display LaTeX ($...$, $$...$$, \(...\), \[...\]) and chemistry notation
+ * (H2SO4 subscripts, SO4^2- charges, (aq) states, arrows).
+ * Produces a small node tree shared by the on-screen renderer and the Word export.
+ */
+
+export type MarkupNode =
+  | { type: 'text'; text: string }
+  | { type: 'bold'; children: MarkupNode[] }
+  | { type: 'sup'; children: MarkupNode[] }
+  | { type: 'sub'; children: MarkupNode[] }
+  | { type: 'frac'; numerator: MarkupNode[]; denominator: MarkupNode[] }
+  | { type: 'sqrt'; index?: MarkupNode[]; children: MarkupNode[] }
+  | { type: 'math'; display: boolean; children: MarkupNode[] };
+
+export interface MarkupOptions {
+  chemicalSubscripts: boolean; // "H2O" -> H + sub(2); also enables (aq) states and ⇌ for <=>
+}
+
+// LaTeX commands rendered as a single character
+const SYMBOLS: Record<string, string> = {
+  alpha: 'α', beta: 'β', gamma: 'γ', delta: 'δ', epsilon: 'ε', varepsilon: 'ε', zeta: 'ζ', eta: 'η',
+  theta: 'θ', lambda: 'λ', mu: 'μ', nu: 'ν', xi: 'ξ', pi: 'π', rho: 'ρ', sigma: 'σ', tau: 'τ',
+  phi: 'φ', varphi: 'φ', chi: 'χ', psi: 'ψ', omega: 'ω',
+  Gamma: 'Γ', Delta: 'Δ', Theta: 'Θ', Lambda: 'Λ', Pi: 'Π', Sigma: 'Σ', Phi: 'Φ', Psi: 'Ψ', Omega: 'Ω',
+  times: '×', cdot: '·', div: '÷', pm: '±', mp: '∓',
+  le: '≤', leq: '≤', ge: '≥', geq: '≥', neq: '≠', ne: '≠', approx: '≈', equiv: '≡', sim: '∼', propto: '∝',
+  infty: '∞', partial: '∂', nabla: '∇', int: '∫', oint: '∮', sum: '∑', prod: '∏',
+  to: '→', rightarrow: '→', longrightarrow: '⟶', leftarrow: '←', Rightarrow: '⇒', Leftarrow: '⇐',
+  Leftrightarrow: '⇔', iff: '⇔', leftrightarrow: '↔', rightleftharpoons: '⇌', uparrow: '↑', downarrow: '↓',
+  in: '∈', notin: '∉', subset: '⊂', subseteq: '⊆', cup: '∪', cap: '∩', emptyset: '∅', varnothing: '∅',
+  forall: '∀', exists: '∃', angle: '∠', perp: '⊥', parallel: '∥', circ: '°', degree: '°',
+  ldots: '…', cdots: '⋯', dots: '…', prime: '′',
+  sin: 'sin', cos: 'cos', tan: 'tan', cot: 'cot', log: 'log', ln: 'ln', lim: 'lim', max: 'max', min: 'min',
+};
+
+// Spacing and escaped characters
+const LITERALS: Record<string, string> = {
+  ',': ' ', ';': ' ', ':': ' ', '!': '', ' ': ' ', quad: ' ', qquad: '  ',
+  '{': '{', '}': '}', '%': '%', '$': '$', '&': '&', '#': '#', '_': '_', '\\': '\n',
+};
+
+// Commands whose argument is plain text
+const TEXT_COMMANDS = new Set(['text', 'mathrm', 'textrm', 'operatorname', 'mbox']);
+const BOLD_COMMANDS = new Set(['textbf', 'mathbf', 'boldsymbol']);
+const FRACTION_COMMANDS = new Set(['frac', 'dfrac', 'tfrac']);
+// Sizing wrappers that only matter for typesetting
+const IGNORED_COMMANDS = new Set(['left', 'right', 'big', 'Big', 'displaystyle', 'limits']);
+
+/**
+ * Append text, merging with a preceding text node
+ */
+const pushText = (nodes: MarkupNode[], text: string) => {
+  if (!text) return;
+  const last = nodes[nodes.length - 1];
+  if (last && last.type === 'text') last.text += text;
+  else nodes.push({ type: 'text', text });
+};
+
+class MathParser {
+  private pos = 0;
+
+  constructor(private readonly src: string, private readonly options: MarkupOptions) {}
+
+  parse(): MarkupNode[] {
+    return this.parseSequence(false);
+  }
+
+  private parseSequence(inGroup: boolean): MarkupNode[] {
+    const nodes: MarkupNode[] = [];
+    while (this.pos < this.src.length) {
+      const char = this.src[this.pos];
+      if (char === '}') {
+        this.pos++;
+        if (inGroup) return nodes;
+        continue; // Unbalanced brace: drop it
+      }
+      if (char === '{') {
+        this.pos++;
+        nodes.push(...this.parseSequence(true));
+      } else if (char === '^' || char === '_') {
+        this.pos++;
+        const children = this.parseArgument();
+        nodes.push({ type: char === '^' ? 'sup' : 'sub', children });
+      } else if (char === '\\') {
+        this.parseCommand(nodes);
+      } else {
+        this.pos++;
+        pushText(nodes, char);
+      }
+    }
+    return nodes;
+  }
+
+  private readCommandName(): string {
+    const match = /^[A-Za-z]+/.exec(this.src.slice(this.pos));
+    if (match) {
+      this.pos += match[0].length;
+      return match[0];
+    }
+    // Single non-letter command such as \, or \{
+    return this.src[this.pos++] ?? '';
+  }
+
+  private skipSpaces() {
+    while (this.src[this.pos] === ' ') this.pos++;
+  }
+
+  // Raw text of a {...} argument (for \text and \ce)
+  private readRawGroup(): string {
+    this.skipSpaces();
+    if (this.src[this.pos] !== '{') return '';
+    let depth = 0;
+    const start = this.pos + 1;
+    for (; this.pos < this.src.length; this.pos++) {
+      if (this.src[this.pos] === '{') depth++;
+      if (this.src[this.pos] === '}' && --depth === 0) break;
+    }
+    const raw = this.src.slice(start, this.pos);
+    this.pos++;
+    return raw;
+  }
+
+  // Argument of ^, _, \frac...: a {group}, a command, or a single character
+  private parseArgument(): MarkupNode[] {
+    this.skipSpaces();
+    const char = this.src[this.pos];
+    if (char === undefined) return [];
+    if (char === '{') {
+      this.pos++;
+      return this.parseSequence(true);
+    }
+    if (char === '\\') {
+      const nodes: MarkupNode[] = [];
+      this.parseCommand(nodes);
+      return nodes;
+    }
+    this.pos++;
+    return [{ type: 'text', text: char }];
+  }
+
+  private parseCommand(nodes: MarkupNode[]) {
+    this.pos++; // Backslash
+    const name = this.readCommandName();
+
+    if (FRACTION_COMMANDS.has(name)) {
+      const numerator = this.parseArgument();
+      nodes.push({ type: 'frac', numerator, denominator: this.parseArgument() });
+    } else if (name === 'sqrt') {
+      let index: MarkupNode[] | undefined;
+      if (this.src[this.pos] === '[') {
+        // A missing "]" takes the rest of the formula as the index
+        const close = this.src.indexOf(']', this.pos);
+        const end = close === -1 ? this.src.length : close;
+        index = new MathParser(this.src.slice(this.pos + 1, end), this.options).parse();
+        this.pos = end + 1;
+      }
+      nodes.push({ type: 'sqrt', index, children: this.parseArgument() });
+    } else if (TEXT_COMMANDS.has(name)) {
+      pushText(nodes, this.readRawGroup());
+    } else if (BOLD_COMMANDS.has(name)) {
+      nodes.push({ type: 'bold', children: this.parseArgument() });
+    } else if (name === 'ce') {
+      // mhchem: chemistry notation always gets subscripts
+      nodes.push(...parsePlainText(this.readRawGroup(), { chemicalSubscripts: true }));
+    } else if (IGNORED_COMMANDS.has(name)) {
+      if (this.src[this.pos] === '.') this.pos++; // \left. is an invisible delimiter
+    } else if (name in SYMBOLS) {
+      pushText(nodes, SYMBOLS[name]);
+    } else if (name in LITERALS) {
+      pushText(nodes, LITERALS[name]);
+    } else {
+      pushText(nodes, name); // Unknown command: show its name rather than dropping content
+    }
+  }
+}
+
+// Superscript after "^": {group}, signed number (10^-2), or one character.
+// Chemistry also takes a trailing charge (SO4^2-) or a lone one (Na^+); in math "a^2+b^2" keeps its "+".
+const SUP = String.raw`\^(?:\{([^{}]*)\}|([+-]?\d+(?:[.,]\d+)?|[A-Za-z0-9°]))`;
+const CHEM_SUP = String.raw`\^(?:\{([^{}]*)\}|([+-]?\d+(?:[.,]\d+)?[+-]?|[+-]|[A-Za-z0-9°]))`;
+// Subscript after "_": {group} or a word (v_0, v_max)
+const SUB = String.raw`_(?:\{([^{}]*)\}|([A-Za-z0-9]+))`;
+// Element or closing parenthesis followed by a count: H2, (OH)2
+const CHEM_COUNT = String.raw`([A-Z][a-z]?|\))(\d+)`;
+// Physical state right after a formula: NaCl(aq), CaCO3(r)
+const CHEM_STATE = String.raw`(?<=[A-Za-z0-9)])\((s|l|g|aq|r|k|dd)\)`;
+const ARROW = String.raw`<=>|<->|-->|->|=>`;
+const COMMAND = String.raw`\\([A-Za-z]+)`;
+
+const buildPlainRegex = (chemistry: boolean) => new RegExp(
+  [chemistry ? CHEM_SUP : SUP, SUB, COMMAND, ARROW, ...(chemistry ? [CHEM_COUNT, CHEM_STATE] : [])].map(part => `(${part})`).join('|'),
+  'g'
+);
+
+const PLAIN_REGEX = buildPlainRegex(false);
+const CHEMISTRY_REGEX = buildPlainRegex(true);
+
+const ARROWS: Record<string, string> = { '-->': '⟶', '->': '→', '=>': '⇒', '<->': '⇌' };
+
+/**
+ * Text outside math delimiters: ^/_ scripts, \commands, arrows and chemistry counts
+ */
+export const parsePlainText = (text: string, options: MarkupOptions): MarkupNode[] => {
+  const nodes: MarkupNode[] = [];
+  const regex = new RegExp(options.chemicalSubscripts ? CHEMISTRY_REGEX : PLAIN_REGEX);
+  let lastIndex = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = regex.exec(text)) !== null) {
+    pushText(nodes, text.slice(lastIndex, match.index));
+    lastIndex = regex.lastIndex;
+    const [, sup, supGroup, supToken, sub, subGroup, subToken, command, commandName, arrow, count, countBase, countDigits, state, stateName] = match;
+
+    if (sup) {
+      nodes.push({ type: 'sup', children: supGroup !== undefined ? parsePlainText(supGroup, options) : [{ type: 'text', text: supToken }] });
+    } else if (sub) {
+      nodes.push({ type: 'sub', children: subGroup !== undefined ? parsePlainText(subGroup, options) : [{ type: 'text', text: subToken }] });
+    } else if (command) {
+      pushText(nodes, SYMBOLS[commandName] ?? command);
+    } else if (arrow) {
+      // <=> is an equilibrium in chemistry, an equivalence elsewhere
+      pushText(nodes, arrow === '<=>' ? (options.chemicalSubscripts ? '⇌' : '⇔') : ARROWS[arrow]);
+    } else if (count) {
+      pushText(nodes, countBase);
+      nodes.push({ type: 'sub', children: [{ type: 'text', text: countDigits }] });
+    } else if (state) {
+      nodes.push({ type: 'sub', children: [{ type: 'text', text: `(${stateName})` }] });
+    }
+  }
+  pushText(nodes, text.slice(lastIndex));
+  return nodes;
+};
+
+// Display math first so "$$" is not read as two empty inline formulas
+const SEGMENT_REGEX = /(\$\$[\s\S]+?\$\$|\\\[[\s\S]+?\\\]|\\\([\s\S]+?\\\)|\$[^$\n]+?\$|\*\*[\s\S]*?\*\*)/g;
+
+/**
+ * Parse a full text: bold segments, math segments and plain text
+ */
+export const parseScienceMarkup = (text: string, options: MarkupOptions): MarkupNode[] => {
+  if (!text) return [];
+  const nodes: MarkupNode[] = [];
+
+  text.split(SEGMENT_REGEX).forEach(part => {
+    if (!part) return;
+    if (part.startsWith('**') && part.endsWith('**') && part.length >= 4) {
+      nodes.push({ type: 'bold', children: parseScienceMarkup(part.slice(2, -2), options) });
+    } else if (part.startsWith('$$') || part.startsWith('\\[')) {
+      nodes.push({ type: 'math', display: true, children: new MathParser(part.slice(2, -2), options).parse() });
+    } else if (part.startsWith('\\(')) {
+      nodes.push({ type: 'math', display: false, children: new MathParser(part.slice(2, -2), options).parse() });
+    } else if (part.length > 2 && part.startsWith('$') && part.endsWith('$')) {
+      nodes.push({ type: 'math', display: false, children: new MathParser(part.slice(1, -1), options).parse() });
+    } else {
+      nodes.push(...parsePlainText(part, options));
+    }
+  });
+  return nodes;
+};
+
+/**
+ * Flat text of a node list, used where formatting is unavailable (fractions in Word, alt text...)
+ */
+export const toPlainText = (nodes: MarkupNode[]): string => {
+  return nodes.map(node => {
+    switch (node.type) {
+      case 'text':
+        return node.text;
+      case 'frac': {
+        const wrap = (part: MarkupNode[]) => {
+          const value = toPlainText(part);
+          return value.length > 1 ? `(${value})` : value;
+        };
+        return `${wrap(node.numerator)}/${wrap(node.denominator)}`;
+      }
+      case 'sqrt':
+        return `${node.index ? toPlainText(node.index) : ''}√(${toPlainText(node.children)})`;
+      default:
+        return toPlainText(node.children);
+    }
+  }).join('');
+};
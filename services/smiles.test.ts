@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { AROMATIC_ORDER, Molecule, extractSmiles, parseSmiles } from './smiles';
+
+const hydrogens = (molecule: Molecule) => molecule.atoms.map(atom => `${atom.element}${atom.hydrogens}`);
+
+describe('parseSmiles', () => {
+  it('builds chains and branches with implicit hydrogens', () => {
+    const aceticAcid = parseSmiles('CC(=O)O');
+    expect(hydrogens(aceticAcid)).toEqual(['C3', 'C0', 'O0', 'O1']);
+    expect(aceticAcid.bonds).toEqual([
+      { from: 0, to: 1, order: 1 },
+      { from: 1, to: 2, order: 2 },
+      { from: 1, to: 3, order: 1 },
+    ]);
+    expect(hydrogens(parseSmiles('C#N'))).toEqual(['C1', 'N0']);
+    expect(hydrogens(parseSmiles('ClCCBr'))).toEqual(['Cl0', 'C2', 'C2', 'Br0']);
+  });
+
+  it('closes rings and marks aromatic bonds', () => {
+    const benzene = parseSmiles('c1ccccc1');
+    expect(benzene.atoms.every(atom => atom.aromatic && atom.hydrogens === 1)).toBe(true);
+    expect(benzene.bonds).toHaveLength(6);
+    expect(benzene.bonds.every(bond => bond.order === AROMATIC_ORDER)).toBe(true);
+    expect(hydrogens(parseSmiles('c1ccncc1'))[3]).toBe('N0');
+    expect(parseSmiles('C%10CC%10').bonds).toHaveLength(3);
+    expect(hydrogens(parseSmiles('C1CCCCC1'))).toEqual(Array(6).fill('C2'));
+  });
+
+  it('reads bracket atoms with their charge and hydrogens', () => {
+    expect(parseSmiles('[NH4+]').atoms).toEqual([{ element: 'N', aromatic: false, charge: 1, hydrogens: 4 }]);
+    expect(parseSmiles('[Fe+3]').atoms[0].charge).toBe(3);
+    expect(parseSmiles('[O--]').atoms[0].charge).toBe(-2);
+    expect(parseSmiles('c1cc[nH]c1').atoms[3]).toEqual({ element: 'N', aromatic: true, charge: 0, hydrogens: 1 });
+    expect(hydrogens(parseSmiles('C[C@@H](N)C(=O)O'))).toEqual(['C3', 'C1', 'N2', 'C0', 'O0', 'O1']);
+  });
+
+  it('keeps the parts of a salt apart', () => {
+    const salt = parseSmiles('[Na+].[Cl-]');
+    expect(salt.atoms.map(atom => atom.charge)).toEqual([1, -1]);
+    expect(salt.bonds).toEqual([]);
+  });
+
+  it('rejects invalid SMILES', () => {
+    ['', 'C1CC', 'C(C', 'CC)', '[NH4', 'C$C', '(C)', 'C11'].forEach(smiles => {
+      expect(() => parseSmiles(smiles)).toThrow('SMILES không hợp lệ');
+    });
+  });
+});
+
+describe('extractSmiles', () => {
+  it('finds the SMILES quoted in an illustration prompt', () => {
+    expect(extractSmiles('Skeletal formula of ethanol, SMILES: CCO, black lines')).toBe('CCO');
+    expect(extractSmiles('Vẽ cấu tạo theo SMILES CC(=O)O.')).toBe('CC(=O)O');
+    expect(extractSmiles('A beaker of water')).toBeNull();
+  });
+});
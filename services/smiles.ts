@@ -0,0 +1,170 @@
+/**
+ * SMILES parser: turns "CC(=O)O" or "c1ccccc1" into a graph of atoms and bonds,
+ * with the implicit hydrogens of the organic subset filled in.
+ */
+
+export interface MoleculeAtom {
+  element: string; // Capitalized symbol ("C", "Cl"), also for aromatic atoms
+  aromatic: boolean;
+  charge: number;
+  hydrogens: number; // Implicit or bracket hydrogens
+}
+
+export interface MoleculeBond {
+  from: number;
+  to: number;
+  order: number; // 1, 2, 3, or 1.5 for aromatic
+}
+
+export interface Molecule {
+  atoms: MoleculeAtom[];
+  bonds: MoleculeBond[];
+}
+
+export const AROMATIC_ORDER = 1.5;
+
+// Organic subset atoms may be written without brackets; their hydrogens are implied
+const NORMAL_VALENCES: Record<string, number[]> = {
+  B: [3], C: [4], N: [3, 5], O: [2], P: [3, 5], S: [2, 4, 6], F: [1], Cl: [1], Br: [1], I: [1],
+};
+const ORGANIC_SUBSET = /^(Cl|Br|[BCNOPSFI]|[bcnops])/;
+const AROMATIC_BRACKET_SYMBOLS = ['se', 'as', 'b', 'c', 'n', 'o', 'p', 's'];
+const BOND_ORDERS: Record<string, number> = { '-': 1, '=': 2, '#': 3, ':': AROMATIC_ORDER, '/': 1, '\\': 1 };
+
+const capitalize = (symbol: string) => symbol.charAt(0).toUpperCase() + symbol.slice(1);
+
+const invalid = (smiles: string, reason: string): never => {
+  throw new Error(`SMILES không hợp lệ (${reason}): ${smiles}`);
+};
+
+// "[NH4+]", "[O-]", "[13CH3]", "[C@@H]", "[Fe+3]", "[nH]"
+const parseBracketAtom = (content: string, smiles: string): MoleculeAtom => {
+  const match = content.match(/^\d*([A-Z][a-z]?|se|as|[bcnops])(@{1,2}(?:TH\d|AL\d|SP\d|TB\d+|OH\d+)?)?(H\d*)?([+-]+\d*)?(:\d+)?$/);
+  if (!match) return invalid(smiles, `[${content}]`);
+  const [, symbol, , hydrogens, charge] = match;
+
+  const aromatic = AROMATIC_BRACKET_SYMBOLS.includes(symbol);
+  let chargeValue = 0;
+  if (charge) {
+    const digits = charge.match(/\d+/)?.[0];
+    const sign = charge.startsWith('-') ? -1 : 1;
+    chargeValue = sign * (digits ? Number(digits) : charge.length); // "+2" or "++"
+  }
+  return {
+    element: capitalize(symbol),
+    aromatic,
+    charge: chargeValue,
+    hydrogens: hydrogens ? Number(hydrogens.slice(1) || 1) : 0,
+  };
+};
+
+// Smallest normal valence that holds all bonds; aromatic atoms count their bonds as 1.5
+const getImplicitHydrogens = (atom: MoleculeAtom, bondOrderSum: number): number => {
+  const valences = NORMAL_VALENCES[atom.element];
+  if (!valences) return 0;
+  const used = Math.floor(bondOrderSum);
+  const valence = valences.find(v => v >= used);
+  return valence === undefined ? 0 : valence - used;
+};
+
+/**
+ * Parse a SMILES string. Stereo marks are accepted and ignored.
+ */
+export const parseSmiles = (smiles: string): Molecule => {
+  const source = smiles.trim();
+  if (!source) return invalid(smiles, 'rỗng');
+
+  const atoms: MoleculeAtom[] = [];
+  const bonds: MoleculeBond[] = [];
+  const bracketAtoms = new Set<number>();
+  const branchStack: number[] = [];
+  const openRings = new Map<number, { atom: number; order: number | null }>();
+  let previous: number | null = null;
+  let pendingOrder: number | null = null;
+  let position = 0;
+
+  const addBond = (from: number, to: number, order: number | null) => {
+    if (from === to || bonds.some(b => (b.from === from && b.to === to) || (b.from === to && b.to === from))) {
+      invalid(smiles, 'liên kết lặp');
+    }
+    const aromatic = atoms[from].aromatic && atoms[to].aromatic;
+    bonds.push({ from, to, order: order ?? (aromatic ? AROMATIC_ORDER : 1) });
+  };
+
+  const addAtom = (atom: MoleculeAtom, bracket: boolean) => {
+    const index = atoms.push(atom) - 1;
+    if (bracket) bracketAtoms.add(index);
+    if (previous !== null) addBond(previous, index, pendingOrder);
+    previous = index;
+    pendingOrder = null;
+  };
+
+  while (position < source.length) {
+    const char = source[position];
+    const rest = source.slice(position);
+
+    if (char === '[') {
+      const end = source.indexOf(']', position);
+      if (end < 0) invalid(smiles, 'thiếu "]"');
+      addAtom(parseBracketAtom(source.slice(position + 1, end), smiles), true);
+      position = end + 1;
+    } else if (ORGANIC_SUBSET.test(rest)) {
+      const symbol = rest.match(ORGANIC_SUBSET)![0];
+      const aromatic = symbol === symbol.toLowerCase();
+      addAtom({ element: capitalize(symbol), aromatic, charge: 0, hydrogens: 0 }, false);
+      position += symbol.length;
+    } else if (char in BOND_ORDERS) {
+      pendingOrder = BOND_ORDERS[char];
+      position++;
+    } else if (char === '(') {
+      if (previous === null) invalid(smiles, 'nhánh không có nguyên tử gốc');
+      branchStack.push(previous!);
+      position++;
+    } else if (char === ')') {
+      if (branchStack.length === 0) invalid(smiles, 'thừa ")"');
+      previous = branchStack.pop()!;
+      position++;
+    } else if (/[\d%]/.test(char)) {
+      const digits = char === '%' ? source.slice(position + 1, position + 3) : char;
+      if (!/^\d+$/.test(digits)) invalid(smiles, 'số vòng');
+      const ring = Number(digits);
+      if (previous === null) invalid(smiles, 'số vòng không có nguyên tử');
+      const open = openRings.get(ring);
+      if (open) {
+        addBond(open.atom, previous!, pendingOrder ?? open.order);
+        openRings.delete(ring);
+      } else {
+        openRings.set(ring, { atom: previous!, order: pendingOrder });
+      }
+      pendingOrder = null;
+      position += char === '%' ? 3 : 1;
+    } else if (char === '.') {
+      previous = null;
+      pendingOrder = null;
+      position++;
+    } else {
+      invalid(smiles, `ký tự "${char}"`);
+    }
+  }
+
+  if (openRings.size > 0) invalid(smiles, 'vòng chưa đóng');
+  if (branchStack.length > 0) invalid(smiles, 'thiếu ")"');
+
+  atoms.forEach((atom, index) => {
+    if (bracketAtoms.has(index)) return;
+    const bondOrderSum = bonds
+      .filter(bond => bond.from === index || bond.to === index)
+      .reduce((sum, bond) => sum + bond.order, 0);
+    atom.hydrogens = getImplicitHydrogens(atom, bondOrderSum);
+  });
+
+  return { atoms, bonds };
+};
+
+/**
+ * SMILES quoted in an older illustration prompt ("... SMILES CCO, black lines")
+ */
+export const extractSmiles = (text: string): string | null => {
+  const smiles = text.match(/SMILES\s*[:=]?\s*([^\s,;"']+)/i)?.[1].replace(/\.$/, '');
+  return smiles || null;
+};
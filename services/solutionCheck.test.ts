@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { Subject } from '../types';
+import { SolutionIssueKind, checkSolution } from './solutionCheck';
+
+describe('checkSolution', () => {
+  it('accepts a correct solution', () => {
+    const solution = [
+      '**Phương trình:** Fe + 2HCl → FeCl2 + H2 (1)',
+      'n(Fe) = 5,6 / 56 = 0,1 mol',
+      'M(H2SO4) = 2 + 32 + 64 = 98 g/mol',
+      'V = 0,1 × 22,4 = 2,24 lít',
+    ].join('\n');
+    expect(checkSolution(solution)).toEqual([]);
+  });
+
+  it('reports an unbalanced equation with its balanced form', () => {
+    expect(checkSolution('Phương trình: Al + HCl → AlCl3 + H2')).toEqual([{
+      kind: SolutionIssueKind.EQUATION,
+      source: 'Al + HCl → AlCl3 + H2',
+      message: 'Phương trình chưa cân bằng',
+      corrected: '2Al + 6HCl → 2AlCl3 + 3H2',
+    }]);
+  });
+
+  it('reports a wrong molar mass once', () => {
+    const issues = checkSolution('M(CaCO3) = 40 + 12 + 3.16 = 90 g/mol');
+    expect(issues).toHaveLength(1);
+    expect(issues[0]).toMatchObject({ kind: SolutionIssueKind.MOLAR_MASS, corrected: '100 g/mol' });
+  });
+
+  it('reports wrong arithmetic', () => {
+    const issues = checkSolution('n = 11,2 / 22,4 = 0,25 mol');
+    expect(issues).toHaveLength(1);
+    expect(issues[0]).toMatchObject({ kind: SolutionIssueKind.ARITHMETIC, corrected: '0,5' });
+  });
+
+  it('accepts values rounded to the digits they show', () => {
+    expect(checkSolution('m = 0,15 × 58,5 = 8,78 g')).toEqual([]);
+    expect(checkSolution('x = 1/3 = 0,33')).toEqual([]);
+  });
+
+  it('reads a dot between numbers as a multiplication or a decimal point', () => {
+    expect(checkSolution('n = 1,5.10^-3 × 2 = 3.10^-3')).toEqual([]);
+    expect(checkSolution('m = 2.5 * 4 = 10')).toEqual([]);
+  });
+
+  it('only checks equations and molar masses in chemistry', () => {
+    expect(checkSolution('Al + HCl → AlCl3 + H2', Subject.MATH)).toEqual([]);
+    expect(checkSolution('M(H2O) = 20', Subject.PHYSICS)).toEqual([]);
+    expect(checkSolution('2 + 2 = 5', Subject.MATH)).toHaveLength(1);
+  });
+
+  it('leaves lines it cannot read alone', () => {
+    expect(checkSolution('Ta có: x = y + 1 nên y = 3')).toEqual([]);
+    expect(checkSolution('Phương trình: Xy + Q → Z')).toEqual([]);
+  });
+});
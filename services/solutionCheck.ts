@@ -0,0 +1,200 @@
+import { Subject } from '../types';
+import { REACTION_ARROW, balanceEquation, formatEquation, getMolarMass, isBalanced, parseEquation } from './chemistry';
+
+/**
+ * Local double-check of a written solution: equation balance, molar masses and arithmetic.
+ * Only clear mismatches are reported; anything that cannot be parsed is left alone.
+ */
+
+export enum SolutionIssueKind {
+  EQUATION = 'EQUATION',
+  MOLAR_MASS = 'MOLAR_MASS',
+  ARITHMETIC = 'ARITHMETIC',
+}
+
+export interface SolutionIssue {
+  kind: SolutionIssueKind;
+  source: string; // The line (or part of it) as written
+  message: string;
+  corrected?: string; // The value or equation it should be
+}
+
+const RELATIVE_TOLERANCE = 0.005;
+
+const stripMarkup = (line: string) => line.replace(/\*\*/g, '').replace(/\$/g, '').replace(/^\s*[-•]\s*/, '').trim();
+
+const formatNumber = (value: number, decimals: number) =>
+  value.toLocaleString('vi-VN', { maximumFractionDigits: Math.max(decimals, 2) + 1, useGrouping: false });
+
+// A stated value agrees when it is the computed one rounded to the digits it shows
+const agrees = (computed: number, stated: number, decimals: number) =>
+  Math.abs(computed - stated) <= Math.max(RELATIVE_TOLERANCE * Math.abs(stated), 0.5 * Math.pow(10, -decimals)) + 1e-9;
+
+// --- ARITHMETIC ---
+
+/**
+ * Evaluate "5.6/56", "0.1*22.4", "2*(1+16)", "1.5*10^-3" (already normalized)
+ */
+const evaluate = (expression: string): number | null => {
+  const tokens = expression.match(/\d+(?:\.\d+)?|[-+*/^()]/g);
+  if (!tokens || tokens.join('') !== expression.replace(/\s+/g, '')) return null;
+  let position = 0;
+
+  const parsePrimary = (): number => {
+    const token = tokens[position++];
+    if (token === '-') return -parsePower();
+    if (token === '+') return parsePower();
+    if (token === '(') {
+      const value = parseSum();
+      if (tokens[position++] !== ')') throw new Error('Thiếu dấu đóng ngoặc');
+      return value;
+    }
+    if (token === undefined || !/^\d/.test(token)) throw new Error('Biểu thức không hợp lệ');
+    return Number(token);
+  };
+  const parsePower = (): number => {
+    const base = parsePrimary();
+    if (tokens[position] !== '^') return base;
+    position++;
+    return Math.pow(base, parsePower());
+  };
+  const parseProduct = (): number => {
+    let value = parsePower();
+    while (tokens[position] === '*' || tokens[position] === '/') {
+      value = tokens[position++] === '*' ? value * parsePower() : value / parsePower();
+    }
+    return value;
+  };
+  const parseSum = (): number => {
+    let value = parseProduct();
+    while (tokens[position] === '+' || tokens[position] === '-') {
+      value = tokens[position++] === '+' ? value + parseProduct() : value - parseProduct();
+    }
+    return value;
+  };
+
+  try {
+    const value = parseSum();
+    return position === tokens.length && Number.isFinite(value) ? value : null;
+  } catch {
+    return null;
+  }
+};
+
+interface NumericSegment {
+  readings: number[]; // Values under each reading of "." (decimal point or multiplication)
+  hasOperator: boolean;
+  decimals: number; // Digits shown after the decimal separator (plain numbers)
+}
+
+// Digits and operators at the start of a "=" segment, followed at most by a unit ("2,24 lít", "0,5 mol/L")
+const EXPRESSION_PREFIX = /^[\s\d.,+\-−×*·:/()^]+/;
+
+const readSegment = (segment: string): NumericSegment | null => {
+  const prefix = segment.match(EXPRESSION_PREFIX)?.[0].replace(/[\s(]+$/, '') ?? '';
+  const rest = segment.slice(prefix.length).replace(/[a-zA-Z]+\^?[23]\b/g, '');
+  if (!/\d/.test(prefix) || /\d/.test(rest)) return null;
+
+  const base = prefix.trim()
+    .replace(/−/g, '-')
+    .replace(/[×·]/g, '*')
+    .replace(/(\d)\s*x\s*(\d)/g, '$1*$2')
+    .replace(/:/g, '/');
+  // Vietnamese decimals use a comma, and a dot between numbers is then a multiplication;
+  // without any comma the dot may be either, so both readings are kept
+  const hasComma = /\d,\d/.test(base);
+  const variants = hasComma
+    ? [base.replace(/(\d)\.(\d)/g, '$1*$2').replace(/(\d),(\d)/g, '$1.$2')]
+    : [base, base.replace(/(\d)\.(\d)/g, '$1*$2')];
+  const readings = variants.map(evaluate).filter((value): value is number => value !== null);
+  if (readings.length === 0) return null;
+
+  const hasOperator = /[-+*/^]/.test(variants[0].replace(/^-/, ''));
+  const decimals = base.match(/[.,](\d+)$/)?.[1].length ?? 0;
+  return { readings, hasOperator, decimals };
+};
+
+// "5,6 / 56 = 0,2": each expression is compared with the plain number written right after it
+const checkArithmetic = (line: string): SolutionIssue[] => {
+  const segments = line.split(/[=≈]/);
+  const issues: SolutionIssue[] = [];
+  for (let i = 0; i < segments.length - 1; i++) {
+    const expression = readSegment(segments[i]);
+    const result = readSegment(segments[i + 1]);
+    if (!expression?.hasOperator || !result || result.hasOperator) continue;
+
+    const stated = result.readings[0];
+    if (expression.readings.some(value => agrees(value, stated, result.decimals))) continue;
+    issues.push({
+      kind: SolutionIssueKind.ARITHMETIC,
+      source: `${segments[i].trim()} = ${segments[i + 1].trim()}`,
+      message: 'Kết quả phép tính có thể sai',
+      corrected: formatNumber(expression.readings[0], result.decimals),
+    });
+  }
+  return issues;
+};
+
+// --- CHEMISTRY ---
+
+// "M(H2SO4) = ... = 98", "M_{CuSO4} = 160 g/mol"
+const MOLAR_MASS_LABEL = /^\s*M\s*(?:\(\s*([^)=\s]+)\s*\)|_\{?([^}=\s]+)\}?)\s*$/;
+
+const checkMolarMass = (line: string): SolutionIssue | null => {
+  const segments = line.split(/[=≈]/);
+  const label = segments[0].match(MOLAR_MASS_LABEL);
+  if (!label || segments.length < 2) return null;
+  const formula = label[1] ?? label[2];
+  const last = readSegment(segments[segments.length - 1]);
+  if (!last || last.hasOperator) return null;
+
+  try {
+    const school = getMolarMass(formula, { school: true });
+    const precise = getMolarMass(formula);
+    const stated = last.readings[0];
+    if (Math.abs(stated - school) <= 0.5 || Math.abs(stated - precise) <= 0.5) return null;
+    return {
+      kind: SolutionIssueKind.MOLAR_MASS,
+      source: line,
+      message: `Khối lượng mol của ${formula} có thể sai`,
+      corrected: `${formatNumber(school, 1)} g/mol`,
+    };
+  } catch {
+    return null;
+  }
+};
+
+const checkEquation = (line: string): SolutionIssue | null => {
+  // "Phương trình: Fe + 2HCl → FeCl2 + H2 (1)": drop the label and the numbering
+  const text = line.split(':').pop()!.replace(/\s*\(\d+\)\s*\.?$/, '').replace(/\.$/, '').trim();
+  try {
+    const equation = parseEquation(text);
+    if (isBalanced(equation)) return null;
+    const coefficients = balanceEquation(equation);
+    return {
+      kind: SolutionIssueKind.EQUATION,
+      source: text,
+      message: coefficients ? 'Phương trình chưa cân bằng' : 'Phương trình không cân bằng được, có thể sai chất',
+      corrected: coefficients ? formatEquation(equation, coefficients) : undefined,
+    };
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Check every line of a solution. Equations and molar masses are only checked for chemistry
+ * (results without a subject are chemistry).
+ */
+export const checkSolution = (text: string, subject?: Subject): SolutionIssue[] => {
+  const isChemistry = !subject || subject === Subject.CHEMISTRY;
+  return text.split('\n').map(stripMarkup).filter(Boolean).flatMap(line => {
+    if (isChemistry && REACTION_ARROW.test(line)) {
+      const issue = checkEquation(line);
+      return issue ? [issue] : [];
+    }
+    const molarMass = isChemistry ? checkMolarMass(line) : null;
+    // A wrong molar mass usually also shows up as its own arithmetic error: report it once
+    return molarMass ? [molarMass] : checkArithmetic(line);
+  });
+};
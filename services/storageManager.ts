@@ -0,0 +1,154 @@
+import { LessonMeta, clearCachedAudio, deleteFromCache, getLessonMetas, updateLessonMeta } from './storageService';
+
+/**
+ * Storage accounting and eviction of cached lessons.
+ * Policies are remembered in localStorage; pinned lessons are never evicted.
+ */
+
+export enum EvictionPolicy {
+  LRU = 'LRU', // Least recently opened first, once over budget
+  AGE = 'AGE', // Not opened for maxAgeDays, then oldest first if still over budget
+}
+
+export interface StoragePreferences {
+  policy: EvictionPolicy;
+  maxAgeDays: number;
+  budgetMB: number; // Lessons may use at most this much
+}
+
+export interface LessonStorageInfo {
+  id: string;
+  title: string;
+  timestamp: number;
+  lastAccessed: number;
+  pinned: boolean;
+  size: number; // Bytes
+  audioSize: number;
+}
+
+export interface StorageUsage {
+  lessons: LessonStorageInfo[]; // Largest first
+  lessonBytes: number;
+  usage?: number; // Whole origin, from navigator.storage.estimate()
+  quota?: number;
+}
+
+const STORAGE_KEY = 'GiaSuThongMinh_storage';
+
+const DEFAULT_PREFERENCES: StoragePreferences = { policy: EvictionPolicy.LRU, maxAgeDays: 30, budgetMB: 300 };
+
+// Evict before the browser's own quota runs out
+const QUOTA_SAFETY_RATIO = 0.8;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MB = 1024 * 1024;
+
+export const loadStoragePreferences = (): StoragePreferences => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? { ...DEFAULT_PREFERENCES, ...JSON.parse(stored) } : DEFAULT_PREFERENCES;
+  } catch (error) {
+    console.warn('Could not read storage preferences:', error);
+    return DEFAULT_PREFERENCES;
+  }
+};
+
+export const saveStoragePreferences = (preferences: StoragePreferences) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(preferences));
+  } catch (error) {
+    console.warn('Could not save storage preferences:', error);
+  }
+};
+
+const toLessonInfo = (meta: LessonMeta): LessonStorageInfo => ({
+  id: meta.id,
+  title: meta.title,
+  timestamp: meta.timestamp,
+  lastAccessed: meta.lastAccessed,
+  pinned: meta.pinned,
+  size: meta.size,
+  audioSize: meta.audioSize,
+});
+
+export const getStorageUsage = async (): Promise<StorageUsage> => {
+  const lessons = (await getLessonMetas()).map(toLessonInfo).sort((a, b) => b.size - a.size);
+  const lessonBytes = lessons.reduce((sum, lesson) => sum + lesson.size, 0);
+  const estimate = await navigator.storage?.estimate?.().catch(() => undefined);
+  return { lessons, lessonBytes, usage: estimate?.usage, quota: estimate?.quota };
+};
+
+// Bytes the lessons may take: the user's budget, capped by what the browser grants
+const getBudgetBytes = (usage: StorageUsage, preferences: StoragePreferences): number => {
+  const budget = preferences.budgetMB * MB;
+  if (!usage.quota) return budget;
+  // Whatever else the origin stores counts against the browser quota too
+  const otherBytes = Math.max(0, (usage.usage ?? 0) - usage.lessonBytes);
+  return Math.min(budget, usage.quota * QUOTA_SAFETY_RATIO - otherBytes);
+};
+
+/**
+ * Lessons the policy would remove now, in eviction order
+ */
+export const selectEvictions = (
+  usage: StorageUsage,
+  preferences: StoragePreferences,
+  keepIds: string[] = [],
+  now = Date.now()
+): LessonStorageInfo[] => {
+  const candidates = usage.lessons.filter(lesson => !lesson.pinned && !keepIds.includes(lesson.id));
+  const budget = getBudgetBytes(usage, preferences);
+  const evicted: LessonStorageInfo[] = [];
+  let total = usage.lessonBytes;
+
+  if (preferences.policy === EvictionPolicy.AGE) {
+    const maxAge = preferences.maxAgeDays * DAY_MS;
+    candidates.filter(lesson => now - lesson.lastAccessed > maxAge).forEach(lesson => {
+      evicted.push(lesson);
+      total -= lesson.size;
+    });
+  }
+
+  const order = preferences.policy === EvictionPolicy.LRU
+    ? (a: LessonStorageInfo, b: LessonStorageInfo) => a.lastAccessed - b.lastAccessed
+    : (a: LessonStorageInfo, b: LessonStorageInfo) => a.timestamp - b.timestamp;
+  for (const lesson of candidates.filter(lesson => !evicted.includes(lesson)).sort(order)) {
+    if (total <= budget) break;
+    evicted.push(lesson);
+    total -= lesson.size;
+  }
+  return evicted;
+};
+
+/**
+ * Apply the eviction policy. keepIds (e.g. the open lesson) are never removed.
+ * Resolves with the number of lessons removed.
+ */
+export const evictLessons = async (keepIds: string[] = []): Promise<number> => {
+  const evicted = selectEvictions(await getStorageUsage(), loadStoragePreferences(), keepIds);
+  for (const lesson of evicted) {
+    await deleteFromCache(lesson.id);
+  }
+  return evicted.length;
+};
+
+export const formatBytes = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < MB) return `${(bytes / 1024).toFixed(0)} KB`;
+  if (bytes < 1024 * MB) return `${(bytes / MB).toFixed(1)} MB`;
+  return `${(bytes / (1024 * MB)).toFixed(2)} GB`;
+};
+
+export const setLessonPinned = async (id: string, pinned: boolean): Promise<void> => {
+  await updateLessonMeta(id, meta => ({ ...meta, pinned }));
+};
+
+/**
+ * Remove narration audio from every lesson; it is re-created on demand from the Player
+ */
+export const clearAllAudio = async (): Promise<void> => {
+  const usage = await getStorageUsage();
+  for (const lesson of usage.lessons.filter(lesson => lesson.audioSize > 0)) {
+    await clearCachedAudio(lesson.id);
+  }
+};
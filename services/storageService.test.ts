@@ -0,0 +1,122 @@
+import 'fake-indexeddb/auto';
+import { IDBFactory } from 'fake-indexeddb';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ProcessingResult, Subject } from '../types';
+import { getLessonMetas, saveToCache, searchLessons } from './storageService';
+
+const DB_NAME = 'GiaSuThongMinh_DB';
+
+const request = <T>(idbRequest: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+  idbRequest.onsuccess = () => resolve(idbRequest.result);
+  idbRequest.onerror = () => reject(idbRequest.error);
+});
+
+// Database as an older version of the app left it
+const createDatabase = (version: number, populate: (db: IDBDatabase) => void): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    const open = indexedDB.open(DB_NAME, version);
+    open.onupgradeneeded = () => populate(open.result);
+    open.onsuccess = () => {
+      open.result.close();
+      resolve();
+    };
+    open.onerror = () => reject(open.error);
+  });
+};
+
+const readDatabase = async () => {
+  const db = await request(indexedDB.open(DB_NAME));
+  const readAll = (store: string) => request(db.transaction([store], 'readonly').objectStore(store).getAll());
+  const contents = {
+    version: db.version,
+    stores: Array.from(db.objectStoreNames).sort(),
+    results: await readAll('results'),
+    audio: await readAll('audio'),
+    media: await readAll('media'),
+  };
+  db.close();
+  return contents;
+};
+
+const legacyResult = {
+  script: 'Bài 1: Este và lipit\nCho etyl axetat tác dụng với NaOH.',
+  audioBase64: 'AAAAAA==',
+  relatedVideos: [],
+  solutions: [{
+    questionDisplay: 'Viết phương trình hóa học',
+    questionReading: '',
+    solutionDisplay: 'CH3COOC2H5 + NaOH → CH3COONa + C2H5OH',
+    solutionReading: '',
+    illustrationImage: 'iVBORw==',
+  }],
+  subject: Subject.CHEMISTRY,
+};
+
+describe('storage migrations', () => {
+  beforeEach(() => {
+    vi.stubGlobal('indexedDB', new IDBFactory());
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('creates the latest schema for a new database', async () => {
+    const result: ProcessingResult = { script: 'Bài mới', audioBase64: null, relatedVideos: [], solutions: [] };
+    await saveToCache('new', result);
+
+    const { version, stores, results } = await readDatabase();
+    expect(version).toBe(3);
+    expect(stores).toEqual(['audio', 'lessons', 'media', 'results', 'search']);
+    expect(results).toEqual([{ id: 'new', data: result }]);
+  });
+
+  it('splits v1 records into metadata, result and binary stores', async () => {
+    await createDatabase(1, db => {
+      db.createObjectStore('analysis_cache', { keyPath: 'id' })
+        .put({ id: 'lesson', timestamp: 100, pinned: true, data: legacyResult });
+    });
+
+    const [meta] = await getLessonMetas();
+    expect(meta).toMatchObject({
+      id: 'lesson',
+      title: 'Bài 1: Este và lipit',
+      timestamp: 100,
+      lastAccessed: 100,
+      pinned: true,
+      subject: Subject.CHEMISTRY,
+      tags: [],
+      audioSize: 4,
+    });
+    expect(meta.size).toBeGreaterThan(meta.audioSize);
+
+    const { stores, results, audio, media } = await readDatabase();
+    expect(stores).not.toContain('analysis_cache');
+    expect(results).toEqual([{
+      id: 'lesson',
+      data: {
+        ...legacyResult,
+        audioBase64: { $blob: 'lesson:0' },
+        solutions: [{ ...legacyResult.solutions[0], illustrationImage: { $blob: 'lesson:1' } }],
+      },
+    }]);
+    expect(audio).toEqual([{ key: 'lesson:0', lessonId: 'lesson', data: expect.any(Blob) }]);
+    expect(await audio[0].data.arrayBuffer()).toEqual(new Uint8Array(4).buffer);
+    expect(media).toEqual([{ key: 'lesson:1', lessonId: 'lesson', data: expect.any(Blob) }]);
+    expect(await searchLessons('etyl axetat')).toEqual(new Set(['lesson']));
+  });
+
+  it('indexes the lessons of a v2 database for search', async () => {
+    await createDatabase(2, db => {
+      db.createObjectStore('lessons', { keyPath: 'id' }).createIndex('timestamp', 'timestamp');
+      db.createObjectStore('results', { keyPath: 'id' }).put({ id: 'v2', data: { script: 'Dao động điều hòa', solutions: [] } });
+      db.createObjectStore('audio', { keyPath: 'key' });
+      db.createObjectStore('media', { keyPath: 'key' });
+    });
+
+    expect(await searchLessons('dieu hoa')).toEqual(new Set(['v2']));
+    expect(await searchLessons('este')).toEqual(new Set());
+  });
+});
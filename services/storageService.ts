@@ -1,21 +1,230 @@
-
-import { ProcessingResult, HistoryEntry } from '../types';
+import { ProcessingResult, HistoryEntry, SourceRegion, Subject } from '../types';
+import { base64ToBlob, readFileToBase64 } from './fileUtils';
+import { buildSearchText, matchesQuery } from './lessonSearch';
 
 const DB_NAME = 'GiaSuThongMinh_DB';
-const STORE_NAME = 'analysis_cache';
-const DB_VERSION = 1;
+const DB_VERSION = 3;
+
+// v2 stores: light metadata for lists, the result itself, and its binary data apart
+const LESSONS_STORE = 'lessons';
+const RESULTS_STORE = 'results';
+const AUDIO_STORE = 'audio';
+const MEDIA_STORE = 'media';
+const SEARCH_STORE = 'search'; // v3: normalized text of each lesson, read only when searching
+const ALL_STORES = [LESSONS_STORE, RESULTS_STORE, AUDIO_STORE, MEDIA_STORE, SEARCH_STORE];
+
+// v1: one record per lesson holding everything
+const LEGACY_STORE = 'analysis_cache';
+
+/**
+ * Metadata of a stored lesson: everything lists, search and eviction need, without the data
+ */
+export interface LessonMeta {
+  id: string; // The SHA-256 hash of the input content
+  title: string;
+  renamed?: boolean; // Title set by the user: kept when the lesson is saved again
+  timestamp: number; // Last saved
+  lastAccessed: number; // Last opened (least-recently-used eviction)
+  pinned: boolean; // Never evicted automatically
+  size: number; // Approximate bytes of the stored lesson
+  audioSize: number; // Part of size taken by narration audio
+  subject?: Subject;
+  tags: string[];
+  folder?: string;
+  source?: SourceFileInfo; // Original upload, stored in the media store (missing for typed text)
+}
+
+export interface SourceFileInfo {
+  name: string;
+  mimeType: string;
+  size: number;
+  regions?: SourceRegion[]; // Areas of the image that were selected for processing
+}
+
+// Binary data is stored in its own record and referenced from the result
+interface BlobRef {
+  $blob: string; // Key in the audio or media store
+}
+
+interface BlobRecord {
+  key: string; // `${lessonId}:${n}` or `${lessonId}:source`, so all binaries of a lesson form one key range
+  lessonId: string;
+  data: Blob;
+}
+
+interface ResultRecord {
+  id: string;
+  data: unknown; // ProcessingResult with binary fields replaced by BlobRefs
+}
+
+interface SearchRecord {
+  id: string;
+  text: string;
+}
+
+// Base64 fields of a result: stored as Blobs (about 25% smaller, and not held as strings)
+const BINARY_FIELDS: Record<string, { mimeType: string; store: string }> = {
+  audioBase64: { mimeType: 'audio/L16;rate=24000', store: AUDIO_STORE }, // Raw PCM
+  illustrationImage: { mimeType: 'image/png', store: MEDIA_STORE },
+};
+
+const lessonKeyRange = (lessonId: string) => IDBKeyRange.bound(`${lessonId}:`, `${lessonId}:\uffff`);
+// Numbered binaries of the result only (the original file is not rewritten with it)
+const resultKeyRange = (lessonId: string) => IDBKeyRange.bound(`${lessonId}:0`, `${lessonId}:9\uffff`);
+const getSourceKey = (lessonId: string) => `${lessonId}:source`;
+
+const getTitle = (script: unknown): string => {
+  const safeScript = typeof script === 'string' ? script : '';
+  const title = safeScript.split('\n')[0].substring(0, 60) + (safeScript.length > 60 ? '...' : '');
+  return title || 'Nội dung không có tiêu đề';
+};
+
+interface SplitLesson {
+  data: unknown;
+  blobs: { store: string; record: BlobRecord }[];
+  size: number;
+  audioSize: number;
+}
+
+// Sizes are approximate: JSON length of the result plus the bytes of its binaries
+const withSizes = (data: unknown, blobs: SplitLesson['blobs']): SplitLesson => {
+  const blobBytes = (store?: string) => blobs
+    .filter(blob => !store || blob.store === store)
+    .reduce((sum, blob) => sum + blob.record.data.size, 0);
+  return { data, blobs, size: JSON.stringify(data).length + blobBytes(), audioSize: blobBytes(AUDIO_STORE) };
+};
+
+/**
+ * Move the binary fields of a result (base64, or Blobs in v1 records) into blob records
+ */
+const splitResult = (lessonId: string, result: unknown): SplitLesson => {
+  const blobs: SplitLesson['blobs'] = [];
+
+  const split = (value: unknown, key?: string): unknown => {
+    const binary = key ? BINARY_FIELDS[key] : undefined;
+    if (binary && (value instanceof Blob || (typeof value === 'string' && value))) {
+      const data = value instanceof Blob ? value : base64ToBlob(value as string, binary.mimeType);
+      const record: BlobRecord = { key: `${lessonId}:${blobs.length}`, lessonId, data };
+      blobs.push({ store: binary.store, record });
+      return { $blob: record.key } as BlobRef;
+    }
+    if (Array.isArray(value)) return value.map(item => split(item));
+    if (value && typeof value === 'object') {
+      return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, split(v, k)]));
+    }
+    return value;
+  };
+
+  return withSizes(split(result), blobs);
+};
+
+const isBlobRef = (value: unknown): value is BlobRef =>
+  !!value && typeof value === 'object' && typeof (value as BlobRef).$blob === 'string';
+
+/**
+ * Put the binary data back into a stored result, as base64
+ */
+const joinResult = async (data: unknown, blobs: Map<string, Blob>): Promise<ProcessingResult> => {
+  const join = async (value: unknown): Promise<unknown> => {
+    if (isBlobRef(value)) {
+      const blob = blobs.get(value.$blob);
+      return blob ? readFileToBase64(blob) : null;
+    }
+    if (Array.isArray(value)) return Promise.all(value.map(join));
+    if (value && typeof value === 'object') {
+      const entries = await Promise.all(Object.entries(value).map(async ([k, v]) => [k, await join(v)]));
+      return Object.fromEntries(entries);
+    }
+    return value;
+  };
+  return (await join(data)) as ProcessingResult;
+};
+
+/**
+ * Write a split lesson into the v2 stores, replacing the previous binaries of its result
+ */
+const putLesson = (transaction: IDBTransaction, meta: LessonMeta, lesson: SplitLesson) => {
+  [AUDIO_STORE, MEDIA_STORE].forEach(store => transaction.objectStore(store).delete(resultKeyRange(meta.id)));
+  lesson.blobs.forEach(({ store, record }) => transaction.objectStore(store).put(record));
+  transaction.objectStore(RESULTS_STORE).put({ id: meta.id, data: lesson.data } as ResultRecord);
+  transaction.objectStore(SEARCH_STORE).put({ id: meta.id, text: buildSearchText(lesson.data as ProcessingResult) } as SearchRecord);
+  const size = lesson.size + (meta.source?.size ?? 0);
+  transaction.objectStore(LESSONS_STORE).put({ ...meta, size, audioSize: lesson.audioSize });
+};
+
+// --- SCHEMA MIGRATIONS ---
+// MIGRATIONS[v] upgrades a database at version v - 1 to version v, inside the upgrade transaction.
+// Records are written with putLesson (latest layout): all migrations create their stores
+// synchronously, before any cursor callback runs.
+
+type Migration = (db: IDBDatabase, transaction: IDBTransaction) => void;
+
+const MIGRATIONS: Record<number, Migration> = {
+  1: (db) => {
+    db.createObjectStore(LEGACY_STORE, { keyPath: 'id' });
+  },
+  2: (db, transaction) => {
+    const lessons = db.createObjectStore(LESSONS_STORE, { keyPath: 'id' });
+    lessons.createIndex('timestamp', 'timestamp');
+    lessons.createIndex('lastAccessed', 'lastAccessed');
+    lessons.createIndex('subject', 'subject');
+    lessons.createIndex('tags', 'tags', { multiEntry: true });
+    db.createObjectStore(RESULTS_STORE, { keyPath: 'id' });
+    db.createObjectStore(AUDIO_STORE, { keyPath: 'key' });
+    db.createObjectStore(MEDIA_STORE, { keyPath: 'key' });
+
+    // Split every v1 record (one at a time), then drop the old store
+    const cursorRequest = transaction.objectStore(LEGACY_STORE).openCursor();
+    cursorRequest.onsuccess = () => {
+      const cursor = cursorRequest.result;
+      if (!cursor) {
+        db.deleteObjectStore(LEGACY_STORE);
+        return;
+      }
+      const item = cursor.value;
+      const data = item.data ?? {};
+      putLesson(transaction, {
+        id: item.id,
+        title: getTitle(data.script),
+        timestamp: item.timestamp ?? Date.now(),
+        lastAccessed: item.lastAccessed ?? item.timestamp ?? Date.now(),
+        pinned: !!item.pinned,
+        size: 0,
+        audioSize: 0,
+        subject: data.subject,
+        tags: [],
+      }, splitResult(item.id, data));
+      cursor.continue();
+    };
+  },
+  3: (db, transaction) => {
+    db.createObjectStore(SEARCH_STORE, { keyPath: 'id' });
+    transaction.objectStore(LESSONS_STORE).createIndex('folder', 'folder');
+
+    const cursorRequest = transaction.objectStore(RESULTS_STORE).openCursor();
+    cursorRequest.onsuccess = () => {
+      const cursor = cursorRequest.result;
+      if (!cursor) return;
+      const record: ResultRecord = cursor.value;
+      transaction.objectStore(SEARCH_STORE).put({ id: record.id, text: buildSearchText(record.data as ProcessingResult) });
+      cursor.continue();
+    };
+  },
+};
 
 /**
- * Open the IndexedDB database
+ * Open the IndexedDB database, running the migrations it is missing
  */
 const openDB = (): Promise<IDBDatabase> => {
   return new Promise((resolve, reject) => {
     const request = indexedDB.open(DB_NAME, DB_VERSION);
 
     request.onupgradeneeded = (event) => {
-      const db = (event.target as IDBOpenDBRequest).result;
-      if (!db.objectStoreNames.contains(STORE_NAME)) {
-        db.createObjectStore(STORE_NAME, { keyPath: 'id' });
+      const db = request.result;
+      const transaction = request.transaction!;
+      for (let version = event.oldVersion + 1; version <= DB_VERSION; version++) {
+        console.log(`Migrating database to version ${version}`);
+        MIGRATIONS[version](db, transaction);
       }
     };
 
@@ -29,92 +238,191 @@ const openDB = (): Promise<IDBDatabase> => {
   });
 };
 
-export interface CachedItem {
-  id: string; // The SHA-256 hash of the input content
-  timestamp: number;
-  data: ProcessingResult;
-}
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const transactionDone = (transaction: IDBTransaction): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+// Read-modify-write sequences are chained, so concurrent updates never overwrite each other
+let writeChain: Promise<unknown> = Promise.resolve();
+const serializeWrite = <T>(task: () => Promise<T>): Promise<T> => {
+  const run = writeChain.then(task, task);
+  writeChain = run.catch(() => undefined);
+  return run;
+};
+
+const getLessonMeta = async (id: string): Promise<LessonMeta | undefined> => {
+  const db = await openDB();
+  return requestToPromise(db.transaction([LESSONS_STORE], 'readonly').objectStore(LESSONS_STORE).get(id));
+};
+
+/**
+ * Full lesson: result record and its binaries are read in one transaction
+ */
+const readLesson = async (id: string): Promise<ProcessingResult | null> => {
+  const db = await openDB();
+  const transaction = db.transaction([RESULTS_STORE, AUDIO_STORE, MEDIA_STORE], 'readonly');
+  const record = await requestToPromise<ResultRecord | undefined>(transaction.objectStore(RESULTS_STORE).get(id));
+  if (!record) return null;
+
+  const blobs = new Map<string, Blob>();
+  for (const store of [AUDIO_STORE, MEDIA_STORE]) {
+    const records = await requestToPromise<BlobRecord[]>(transaction.objectStore(store).getAll(resultKeyRange(id)));
+    records.forEach(blob => blobs.set(blob.key, blob.data));
+  }
+  return joinResult(record.data, blobs);
+};
+
+const writeLesson = async (meta: LessonMeta, result: ProcessingResult): Promise<void> => {
+  const lesson = splitResult(meta.id, result);
+  const db = await openDB();
+  const transaction = db.transaction(ALL_STORES, 'readwrite');
+  putLesson(transaction, meta, lesson);
+  await transactionDone(transaction);
+};
 
 /**
- * Save analysis result to cache
+ * Save analysis result to cache (pin, tags and access time of an existing lesson are kept)
  */
 export const saveToCache = async (hash: string, result: ProcessingResult): Promise<void> => {
   try {
-    const db = await openDB();
-    return new Promise((resolve, reject) => {
-      const transaction = db.transaction([STORE_NAME], 'readwrite');
-      const store = transaction.objectStore(STORE_NAME);
-      
-      const item: CachedItem = {
+    await serializeWrite(async () => {
+      const existing = await getLessonMeta(hash);
+      await writeLesson({
+        lastAccessed: Date.now(),
+        pinned: false,
+        tags: [],
+        ...existing,
         id: hash,
+        title: existing?.renamed ? existing.title : getTitle(result.script),
         timestamp: Date.now(),
-        data: result
-      };
+        size: 0,
+        audioSize: 0,
+        subject: result.subject,
+      }, result);
+    });
+  } catch (error) {
+    console.error('Failed to save to cache:', error);
+  }
+};
 
-      const request = store.put(item);
+/**
+ * Change the metadata of a lesson (pin, access time...). Resolves with the updated
+ * metadata, or null when nothing is cached under this hash.
+ */
+export const updateLessonMeta = async (
+  hash: string,
+  update: (meta: LessonMeta) => LessonMeta
+): Promise<LessonMeta | null> => {
+  try {
+    return await serializeWrite(async () => {
+      const db = await openDB();
+      const transaction = db.transaction([LESSONS_STORE], 'readwrite');
+      const store = transaction.objectStore(LESSONS_STORE);
+      const meta = await requestToPromise<LessonMeta | undefined>(store.get(hash));
+      if (!meta) return null;
+      const updated = update(meta);
+      store.put(updated);
+      await transactionDone(transaction);
+      return updated;
+    });
+  } catch (error) {
+    console.error('Failed to update lesson metadata:', error);
+    return null;
+  }
+};
 
-      request.onsuccess = () => resolve();
-      request.onerror = () => reject(request.error);
+/**
+ * Apply a change to a cached result in place, e.g. to keep audio or images generated
+ * after the lesson was saved. The timestamp is kept so the lesson does not move in the history.
+ * Resolves with the updated result, or null when nothing is cached under this hash.
+ */
+export const updateCachedResult = async (
+  hash: string,
+  update: (result: ProcessingResult) => ProcessingResult
+): Promise<ProcessingResult | null> => {
+  try {
+    return await serializeWrite(async () => {
+      const meta = await getLessonMeta(hash);
+      const current = meta && await readLesson(hash);
+      if (!meta || !current) return null;
+      const result = update(current);
+      const title = meta.renamed ? meta.title : getTitle(result.script);
+      await writeLesson({ ...meta, title, subject: result.subject }, result);
+      return result;
     });
   } catch (error) {
-    console.error('Failed to save to cache:', error);
+    console.error('Failed to update cache:', error);
+    return null;
   }
 };
 
 /**
- * Retrieve result from cache by hash
+ * Retrieve result from cache by hash (and record the access for eviction)
  */
 export const getFromCache = async (hash: string): Promise<ProcessingResult | null> => {
   try {
-    const db = await openDB();
-    return new Promise((resolve, reject) => {
-      const transaction = db.transaction([STORE_NAME], 'readonly');
-      const store = transaction.objectStore(STORE_NAME);
-      const request = store.get(hash);
-
-      request.onsuccess = () => {
-        const result = request.result as CachedItem;
-        resolve(result ? result.data : null);
-      };
-      request.onerror = () => reject(request.error);
-    });
+    const result = await readLesson(hash);
+    if (result) updateLessonMeta(hash, meta => ({ ...meta, lastAccessed: Date.now() }));
+    return result;
   } catch (error) {
     console.error('Failed to read from cache:', error);
     return null;
   }
 };
 
+/**
+ * Metadata of every stored lesson, newest first (no result data is read)
+ */
+export const getLessonMetas = async (): Promise<LessonMeta[]> => {
+  try {
+    const db = await openDB();
+    const index = db.transaction([LESSONS_STORE], 'readonly').objectStore(LESSONS_STORE).index('timestamp');
+    const metas = await requestToPromise<LessonMeta[]>(index.getAll());
+    return metas.reverse();
+  } catch (error) {
+    console.error('Failed to list lessons:', error);
+    return [];
+  }
+};
+
 /**
  * Get all history entries (metadata only)
  */
 export const getHistory = async (): Promise<HistoryEntry[]> => {
+  const metas = await getLessonMetas();
+  return metas.map(meta => ({
+    id: meta.id,
+    timestamp: meta.timestamp,
+    title: meta.title,
+    subject: meta.subject,
+    tags: meta.tags ?? [],
+    folder: meta.folder,
+  }));
+};
+
+/**
+ * Ids of the lessons whose script, questions or solutions contain every word of the query
+ */
+export const searchLessons = async (query: string): Promise<Set<string>> => {
   try {
     const db = await openDB();
-    return new Promise((resolve, reject) => {
-      const transaction = db.transaction([STORE_NAME], 'readonly');
-      const store = transaction.objectStore(STORE_NAME);
-      const request = store.getAll();
-
-      request.onsuccess = () => {
-        const results = request.result as CachedItem[];
-        // Map to lighter objects for the UI list
-        const history: HistoryEntry[] = results.map(item => {
-           const safeScript = item.data.script || '';
-           const title = safeScript.split('\n')[0].substring(0, 60) + (safeScript.length > 60 ? '...' : '');
-           return {
-             id: item.id,
-             timestamp: item.timestamp,
-             title: title || 'Nội dung không có tiêu đề'
-           };
-        }).sort((a, b) => b.timestamp - a.timestamp); // Sort newest first
-        
-        resolve(history);
-      };
-      request.onerror = () => reject(request.error);
-    });
+    const store = db.transaction([SEARCH_STORE], 'readonly').objectStore(SEARCH_STORE);
+    const records = await requestToPromise<SearchRecord[]>(store.getAll());
+    return new Set(records.filter(record => matchesQuery(record.text, query)).map(record => record.id));
   } catch (error) {
-    console.error('Failed to get history:', error);
-    return [];
+    console.error('Failed to search lessons:', error);
+    return new Set();
   }
 };
 
@@ -122,17 +430,152 @@ export const getHistory = async (): Promise<HistoryEntry[]> => {
  * Delete item from cache
  */
 export const deleteFromCache = async (id: string): Promise<void> => {
+  try {
+    await serializeWrite(async () => {
+      const db = await openDB();
+      const transaction = db.transaction(ALL_STORES, 'readwrite');
+      transaction.objectStore(LESSONS_STORE).delete(id);
+      transaction.objectStore(RESULTS_STORE).delete(id);
+      transaction.objectStore(SEARCH_STORE).delete(id);
+      [AUDIO_STORE, MEDIA_STORE].forEach(store => transaction.objectStore(store).delete(lessonKeyRange(id)));
+      await transactionDone(transaction);
+    });
+  } catch (error) {
+    console.error('Failed to delete from cache:', error);
+  }
+};
+
+// Stored data without narration audio (the TTS stage stays done: audio is re-created on demand)
+const stripAudio = (value: unknown): unknown => {
+  if (Array.isArray(value)) return value.map(stripAudio);
+  if (value && typeof value === 'object' && !isBlobRef(value)) {
+    return Object.fromEntries(Object.entries(value)
+      .filter(([k]) => k !== 'narrations')
+      .map(([k, v]) => [k, k === 'audioBase64' ? null : stripAudio(v)]));
+  }
+  return value;
+};
+
+/**
+ * Remove narration audio (lesson and solutions) from a cached lesson, keeping everything else
+ */
+export const clearCachedAudio = async (hash: string): Promise<void> => {
+  try {
+    await serializeWrite(async () => {
+      const db = await openDB();
+      const transaction = db.transaction([LESSONS_STORE, RESULTS_STORE, AUDIO_STORE], 'readwrite');
+      const meta = await requestToPromise<LessonMeta | undefined>(transaction.objectStore(LESSONS_STORE).get(hash));
+      const record = await requestToPromise<ResultRecord | undefined>(transaction.objectStore(RESULTS_STORE).get(hash));
+      if (!meta || !record) return;
+
+      transaction.objectStore(AUDIO_STORE).delete(resultKeyRange(hash));
+      transaction.objectStore(RESULTS_STORE).put({ id: hash, data: stripAudio(record.data) });
+      transaction.objectStore(LESSONS_STORE).put({ ...meta, size: meta.size - meta.audioSize, audioSize: 0 });
+      await transactionDone(transaction);
+    });
+  } catch (error) {
+    console.error('Failed to clear cached audio:', error);
+  }
+};
+
+/**
+ * Keep the original upload with a cached lesson, so reopening it shows the page view again.
+ * Does nothing when the lesson is not cached yet or already has its file.
+ */
+export const saveSourceFile = async (hash: string, file: File, regions?: SourceRegion[]): Promise<void> => {
+  try {
+    await serializeWrite(async () => {
+      const db = await openDB();
+      const transaction = db.transaction([LESSONS_STORE, MEDIA_STORE], 'readwrite');
+      const meta = await requestToPromise<LessonMeta | undefined>(transaction.objectStore(LESSONS_STORE).get(hash));
+      if (!meta || meta.source) return;
+
+      const source: SourceFileInfo = { name: file.name, mimeType: file.type, size: file.size, regions };
+      transaction.objectStore(MEDIA_STORE).put({ key: getSourceKey(hash), lessonId: hash, data: file } as BlobRecord);
+      transaction.objectStore(LESSONS_STORE).put({ ...meta, source, size: meta.size + file.size });
+      await transactionDone(transaction);
+    });
+  } catch (error) {
+    console.error('Failed to save source file:', error);
+  }
+};
+
+/**
+ * Original upload of a cached lesson, with the regions it was processed with
+ */
+export const getSourceFile = async (hash: string): Promise<{ file: File; regions?: SourceRegion[] } | null> => {
   try {
     const db = await openDB();
-    return new Promise((resolve, reject) => {
-      const transaction = db.transaction([STORE_NAME], 'readwrite');
-      const store = transaction.objectStore(STORE_NAME);
-      const request = store.delete(id);
+    const transaction = db.transaction([LESSONS_STORE, MEDIA_STORE], 'readonly');
+    const meta = await requestToPromise<LessonMeta | undefined>(transaction.objectStore(LESSONS_STORE).get(hash));
+    if (!meta?.source) return null;
+    const record = await requestToPromise<BlobRecord | undefined>(transaction.objectStore(MEDIA_STORE).get(getSourceKey(hash)));
+    if (!record) return null;
+    const file = new File([record.data], meta.source.name, { type: meta.source.mimeType });
+    return { file, regions: meta.source.regions };
+  } catch (error) {
+    console.error('Failed to read source file:', error);
+    return null;
+  }
+};
+
+// --- RAW LESSON ACCESS (bundles) ---
+
+export const BLOB_STORES = [AUDIO_STORE, MEDIA_STORE];
+
+/**
+ * A lesson exactly as stored: metadata, result with blob references, and all its binaries (original file included)
+ */
+export interface StoredLesson {
+  meta: LessonMeta;
+  data: unknown;
+  blobs: { store: string; key: string; data: Blob }[];
+}
+
+export const readStoredLesson = async (id: string): Promise<StoredLesson | null> => {
+  const db = await openDB();
+  const transaction = db.transaction(ALL_STORES, 'readonly');
+  const meta = await requestToPromise<LessonMeta | undefined>(transaction.objectStore(LESSONS_STORE).get(id));
+  const record = await requestToPromise<ResultRecord | undefined>(transaction.objectStore(RESULTS_STORE).get(id));
+  if (!meta || !record) return null;
+
+  const blobs: StoredLesson['blobs'] = [];
+  for (const store of BLOB_STORES) {
+    const records = await requestToPromise<BlobRecord[]>(transaction.objectStore(store).getAll(lessonKeyRange(id)));
+    records.forEach(blob => blobs.push({ store, key: blob.key, data: blob.data }));
+  }
+  return { meta, data: record.data, blobs };
+};
+
+/**
+ * Add a stored lesson (e.g. from an imported bundle). Lessons already in the history are
+ * left untouched: resolves with false when one with the same content hash exists, or when
+ * the lesson could not be written.
+ */
+export const addStoredLesson = async (lesson: StoredLesson): Promise<boolean> => {
+  try {
+    return await serializeWrite(async () => {
+      if (await getLessonMeta(lesson.meta.id)) return false;
+
+      const { id } = lesson.meta;
+      const source = lesson.blobs.find(blob => blob.key === getSourceKey(id));
+      const blobs = lesson.blobs
+        .filter(blob => blob !== source)
+        .map(({ store, key, data }) => ({ store, record: { key, lessonId: id, data } }));
+      const meta: LessonMeta = {
+        ...lesson.meta,
+        source: source && lesson.meta.source ? { ...lesson.meta.source, size: source.data.size } : undefined,
+      };
 
-      request.onsuccess = () => resolve();
-      request.onerror = () => reject(request.error);
+      const db = await openDB();
+      const transaction = db.transaction(ALL_STORES, 'readwrite');
+      putLesson(transaction, meta, withSizes(lesson.data, blobs));
+      if (meta.source) transaction.objectStore(MEDIA_STORE).put({ key: getSourceKey(id), lessonId: id, data: source!.data });
+      await transactionDone(transaction);
+      return true;
     });
   } catch (error) {
-    console.error('Failed to delete from cache:', error);
+    console.warn('Failed to add stored lesson:', error);
+    return false;
   }
-};
\ No newline at end of file
+};
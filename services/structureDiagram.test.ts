@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { SolutionItem } from '../types';
+import { getRenderableStructures, isReplacedByStructures, renderStructureSvg } from './structureDiagram';
+
+const item = (patch: Partial<SolutionItem>): SolutionItem => ({
+  questionDisplay: 'Viết công thức cấu tạo của etanol',
+  questionReading: '',
+  solutionDisplay: 'CH3CH2OH',
+  solutionReading: '',
+  ...patch,
+});
+
+describe('renderStructureSvg', () => {
+  it('draws bonds and heteroatom labels', () => {
+    const svg = renderStructureSvg('CCO');
+    expect(svg).toMatch(/^<svg xmlns="http:\/\/www.w3.org\/2000\/svg" width="\d+" height="\d+"/);
+    expect(svg.match(/<line /g)).toHaveLength(2);
+    expect(svg).toContain('>O</text>');
+    expect(svg).not.toContain('<circle');
+  });
+
+  it('draws a circle in aromatic rings', () => {
+    expect(renderStructureSvg('c1ccccc1').match(/<circle /g)).toHaveLength(1);
+  });
+
+  it('throws on invalid SMILES', () => {
+    expect(() => renderStructureSvg('C1CC')).toThrow('SMILES không hợp lệ');
+  });
+});
+
+describe('getRenderableStructures', () => {
+  it('keeps the structures that can be drawn', () => {
+    expect(getRenderableStructures(item({ structures: [{ smiles: 'CCO', name: 'ethanol' }, { smiles: 'C1CC' }] })))
+      .toEqual([{ smiles: 'CCO', name: 'ethanol' }]);
+  });
+
+  it('reads the SMILES of an older illustration prompt', () => {
+    const older = item({ imagePrompt: 'Skeletal structure of ethanol, SMILES: CCO, white background' });
+    expect(getRenderableStructures(older)).toEqual([{ smiles: 'CCO' }]);
+    expect(isReplacedByStructures(older)).toBe(true);
+  });
+
+  it('keeps generating images for other illustrations', () => {
+    expect(isReplacedByStructures(item({ imagePrompt: 'Thí nghiệm điều chế khí H2', structures: [{ smiles: 'CCO' }] }))).toBe(false);
+    expect(isReplacedByStructures(item({ structures: [{ smiles: 'CCO' }] }))).toBe(false);
+  });
+});
@@ -0,0 +1,440 @@
+import { MolecularStructure, SolutionItem } from '../types';
+import { Molecule, MoleculeAtom, extractSmiles, parseSmiles } from './smiles';
+
+/**
+ * Local 2D drawing of molecules as skeletal formulas (SVG): rings as regular polygons,
+ * chains as zigzags, carbons unlabeled and heteroatoms written with their hydrogens.
+ */
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+const BOND_LENGTH = 36; // px
+const FONT_SIZE = 15;
+const LABEL_RADIUS = 8; // Bonds stop short of a written atom
+const BOND_SPACING = 5; // Between the lines of a double or triple bond
+const PADDING = 16;
+const COMPONENT_GAP = 1.5; // Between the parts of a salt ("Na+.Cl-"), in bond lengths
+const STROKE = '#111827';
+
+const add = (a: Point, b: Point): Point => ({ x: a.x + b.x, y: a.y + b.y });
+const subtract = (a: Point, b: Point): Point => ({ x: a.x - b.x, y: a.y - b.y });
+const scale = (a: Point, factor: number): Point => ({ x: a.x * factor, y: a.y * factor });
+const length = (a: Point) => Math.hypot(a.x, a.y);
+const normalize = (a: Point): Point => {
+  const size = length(a);
+  return size < 1e-9 ? { x: 1, y: 0 } : scale(a, 1 / size);
+};
+const rotate = (a: Point, angle: number): Point => ({
+  x: a.x * Math.cos(angle) - a.y * Math.sin(angle),
+  y: a.x * Math.sin(angle) + a.y * Math.cos(angle),
+});
+const fromAngle = (angle: number): Point => ({ x: Math.cos(angle), y: Math.sin(angle) });
+
+const DEG = Math.PI / 180;
+
+// --- RINGS ---
+
+/**
+ * One ring per independent cycle: for every bond that closes a cycle of a spanning tree,
+ * the shortest path between its atoms without that bond
+ */
+const findRings = (molecule: Molecule, neighbors: number[][]): number[][] => {
+  const visited = new Set<number>();
+  const treeBonds = new Set<string>();
+  const key = (a: number, b: number) => (a < b ? `${a}-${b}` : `${b}-${a}`);
+
+  molecule.atoms.forEach((_, start) => {
+    if (visited.has(start)) return;
+    visited.add(start);
+    const queue = [start];
+    while (queue.length) {
+      const atom = queue.shift()!;
+      neighbors[atom].forEach(next => {
+        if (visited.has(next)) return;
+        visited.add(next);
+        treeBonds.add(key(atom, next));
+        queue.push(next);
+      });
+    }
+  });
+
+  const rings: number[][] = [];
+  const seen = new Set<string>();
+  molecule.bonds.forEach(({ from, to }) => {
+    if (treeBonds.has(key(from, to))) return;
+    // Breadth-first search from "from" to "to" that may not use the closing bond itself
+    const parents = new Map<number, number>([[from, -1]]);
+    const queue = [from];
+    while (queue.length && !parents.has(to)) {
+      const atom = queue.shift()!;
+      neighbors[atom].forEach(next => {
+        if (parents.has(next) || (atom === from && next === to)) return;
+        parents.set(next, atom);
+        queue.push(next);
+      });
+    }
+    if (!parents.has(to)) return;
+    const ring: number[] = [];
+    for (let atom = to; atom !== -1; atom = parents.get(atom)!) ring.push(atom);
+    const ringKey = [...ring].sort((a, b) => a - b).join(',');
+    if (!seen.has(ringKey)) {
+      seen.add(ringKey);
+      rings.push(ring);
+    }
+  });
+  return rings;
+};
+
+// --- LAYOUT ---
+
+interface Layout {
+  positions: Point[];
+  rings: number[][];
+  ringCenters: Map<number, Point>; // Per ring index, once placed
+}
+
+const layoutMolecule = (molecule: Molecule): Layout => {
+  const count = molecule.atoms.length;
+  const neighbors: number[][] = molecule.atoms.map(() => []);
+  molecule.bonds.forEach(({ from, to }) => {
+    neighbors[from].push(to);
+    neighbors[to].push(from);
+  });
+  const bondOrder = (a: number, b: number) =>
+    molecule.bonds.find(bond => (bond.from === a && bond.to === b) || (bond.from === b && bond.to === a))?.order ?? 1;
+
+  const rings = findRings(molecule, neighbors);
+  const positions: (Point | undefined)[] = new Array(count).fill(undefined);
+  const ringCenters = new Map<number, Point>();
+  const placedRings = new Set<number>();
+  const turns: number[] = new Array(count).fill(1); // Zigzag side of each chain atom
+  const queue: number[] = [];
+
+  const place = (atom: number, point: Point) => {
+    positions[atom] = point;
+    queue.push(atom);
+  };
+
+  // Regular polygon through `start`, going around the ring in the direction that puts `second` next
+  const placePolygon = (ringIndex: number, center: Point, start: number, second?: number, secondPoint?: Point) => {
+    const ring = rings[ringIndex];
+    const size = ring.length;
+    let order = [...ring.slice(ring.indexOf(start)), ...ring.slice(0, ring.indexOf(start))];
+    if (second !== undefined && order[1] !== second) order = [order[0], ...order.slice(1).reverse()];
+    const radius = BOND_LENGTH / (2 * Math.sin(Math.PI / size));
+    const startAngle = Math.atan2(positions[start]!.y - center.y, positions[start]!.x - center.x);
+    let step = (2 * Math.PI) / size;
+    if (secondPoint) {
+      const forward = add(center, scale(fromAngle(startAngle + step), radius));
+      if (length(subtract(forward, secondPoint)) > 1) step = -step;
+    }
+    order.forEach((atom, k) => {
+      if (!positions[atom]) place(atom, add(center, scale(fromAngle(startAngle + k * step), radius)));
+    });
+    ringCenters.set(ringIndex, center);
+    placedRings.add(ringIndex);
+  };
+
+  // Ring entered through one placed atom, lying on the far side of `outward`
+  const placeRingFrom = (ringIndex: number, atom: number, outward: Point) => {
+    const radius = BOND_LENGTH / (2 * Math.sin(Math.PI / rings[ringIndex].length));
+    placePolygon(ringIndex, add(positions[atom]!, scale(normalize(outward), radius)), atom);
+  };
+
+  // Rings fused to placed ones share an edge; spiro rings share one atom; bridged ones are left to the chain layout
+  const placeAttachedRings = () => {
+    let changed = true;
+    while (changed) {
+      changed = false;
+      rings.forEach((ring, ringIndex) => {
+        if (placedRings.has(ringIndex)) return;
+        const placed = ring.filter(atom => positions[atom]);
+        if (placed.length === 0) return;
+        changed = true;
+        if (placed.length === 1) {
+          const [atom] = placed;
+          const owner = [...placedRings].find(index => rings[index].includes(atom));
+          const outward = owner !== undefined ? subtract(positions[atom]!, ringCenters.get(owner)!) : { x: 1, y: 0 };
+          placeRingFrom(ringIndex, atom, outward);
+          return;
+        }
+        const [a, b] = placed;
+        const gap = Math.abs(ring.indexOf(a) - ring.indexOf(b));
+        const adjacent = placed.length === 2 && (gap === 1 || gap === ring.length - 1);
+        if (!adjacent) {
+          placedRings.add(ringIndex);
+          return;
+        }
+        const size = ring.length;
+        const middle = scale(add(positions[a]!, positions[b]!), 0.5);
+        const owner = [...placedRings].find(index => rings[index].includes(a) && rings[index].includes(b));
+        const away = owner !== undefined ? subtract(middle, ringCenters.get(owner)!) : rotate(subtract(positions[b]!, positions[a]!), Math.PI / 2);
+        const apothem = BOND_LENGTH / (2 * Math.tan(Math.PI / size));
+        placePolygon(ringIndex, add(middle, scale(normalize(away), apothem)), a, b, positions[b]);
+      });
+    }
+  };
+
+  // Directions of the unplaced neighbors of a placed atom
+  const getDirections = (atom: number, unplaced: number[]): Point[] => {
+    const placedNeighbors = neighbors[atom].filter(n => positions[n]);
+    const n = unplaced.length;
+    if (placedNeighbors.length === 0) {
+      return unplaced.map((_, i) => fromAngle(-30 * DEG + (i * 2 * Math.PI) / n));
+    }
+    if (placedNeighbors.length === 1) {
+      const incoming = normalize(subtract(positions[atom]!, positions[placedNeighbors[0]]!));
+      if (n === 1) {
+        // Triple bonds and cumulated double bonds are straight
+        const straight = bondOrder(atom, placedNeighbors[0]) === 3 || bondOrder(atom, unplaced[0]) === 3
+          || (bondOrder(atom, placedNeighbors[0]) === 2 && bondOrder(atom, unplaced[0]) === 2);
+        if (straight) return [incoming];
+        // Zigzag to the side that is freer of atoms already drawn (away from ortho substituents)
+        const crowding = (turn: number) => {
+          const point = add(positions[atom]!, scale(rotate(incoming, turn * 60 * DEG), BOND_LENGTH));
+          return positions.reduce((sum, p) => (p ? sum + 1 / Math.max(1, length(subtract(p, point)) ** 2) : sum), 0);
+        };
+        if (crowding(-turns[atom]) < crowding(turns[atom]) - 1e-6) turns[atom] = -turns[atom];
+        return [rotate(incoming, turns[atom] * 60 * DEG)];
+      }
+      return unplaced.map((_, i) => rotate(incoming, -Math.PI + ((i + 1) * 2 * Math.PI) / (n + 1)));
+    }
+    const pointsAway = placedNeighbors.map(neighbor => normalize(subtract(positions[atom]!, positions[neighbor]!)));
+    let outward = pointsAway.reduce(add, { x: 0, y: 0 });
+    if (length(outward) < 1e-6) outward = rotate(pointsAway[0], Math.PI / 2);
+    outward = normalize(outward);
+    return unplaced.map((_, i) => rotate(outward, (i - (n - 1) / 2) * 60 * DEG));
+  };
+
+  const layoutComponent = (first: number) => {
+    // Rings first, substituents then grow outward without crossing them
+    const members = new Set([first]);
+    const pending = [first];
+    while (pending.length) {
+      neighbors[pending.pop()!].forEach(next => {
+        if (members.has(next)) return;
+        members.add(next);
+        pending.push(next);
+      });
+    }
+    const startRing = rings
+      .map((ring, index) => ({ ring, index }))
+      .filter(({ ring }) => members.has(ring[0]))
+      .sort((a, b) => b.ring.length - a.ring.length)[0]?.index ?? -1;
+    const start = startRing >= 0 ? rings[startRing][0] : first;
+    positions[start] = { x: 0, y: 0 };
+    queue.push(start);
+    if (startRing >= 0) placeRingFrom(startRing, start, { x: 1, y: 0 });
+    placeAttachedRings();
+
+    while (queue.length) {
+      const atom = queue.shift()!;
+      const unplaced = neighbors[atom].filter(n => !positions[n]);
+      const directions = getDirections(atom, unplaced);
+      unplaced.forEach((next, i) => {
+        if (positions[next]) return; // Placed meanwhile with a ring
+        turns[next] = -turns[atom];
+        place(next, add(positions[atom]!, scale(directions[i], BOND_LENGTH)));
+        const ringIndex = rings.findIndex((ring, index) => !placedRings.has(index) && ring.includes(next));
+        if (ringIndex >= 0) placeRingFrom(ringIndex, next, directions[i]);
+        placeAttachedRings();
+      });
+    }
+  };
+
+  // Parts of a salt or mixture side by side, left to right
+  let offset = 0;
+  for (let atom = 0; atom < count; atom++) {
+    if (positions[atom]) continue;
+    const before = new Set(positions.map((p, i) => (p ? i : -1)).filter(i => i >= 0));
+    layoutComponent(atom);
+    const component = positions.map((p, i) => i).filter(i => positions[i] && !before.has(i));
+    const minX = Math.min(...component.map(i => positions[i]!.x));
+    const maxX = Math.max(...component.map(i => positions[i]!.x));
+    const shift = offset - minX;
+    component.forEach(i => { positions[i] = { x: positions[i]!.x + shift, y: positions[i]!.y }; });
+    rings.forEach((ring, index) => {
+      if (component.includes(ring[0]) && ringCenters.has(index)) {
+        const center = ringCenters.get(index)!;
+        ringCenters.set(index, { x: center.x + shift, y: center.y });
+      }
+    });
+    offset += maxX - minX + COMPONENT_GAP * BOND_LENGTH;
+  }
+
+  return { positions: positions as Point[], rings, ringCenters };
+};
+
+// --- DRAWING ---
+
+const escapeXml = (text: string) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+const formatCharge = (charge: number) => {
+  if (charge === 0) return '';
+  const sign = charge > 0 ? '+' : '−';
+  return Math.abs(charge) === 1 ? sign : `${Math.abs(charge)}${sign}`;
+};
+
+// Skeletal formulas leave carbons unwritten, except lone or charged ones
+const isLabeled = (atom: MoleculeAtom, degree: number) => atom.element !== 'C' || degree === 0 || atom.charge !== 0;
+
+const line = (a: Point, b: Point) =>
+  `<line x1="${a.x.toFixed(1)}" y1="${a.y.toFixed(1)}" x2="${b.x.toFixed(1)}" y2="${b.y.toFixed(1)}" />`;
+
+/**
+ * "OH", "HO", "NH2", "O−": the hydrogens go on the side away from the bonds
+ */
+const drawLabel = (atom: MoleculeAtom, point: Point, bondsFromLeft: boolean): string => {
+  const hydrogens = atom.hydrogens > 0 ? `H${atom.hydrogens > 1 ? `<tspan dy="4" font-size="${FONT_SIZE * 0.7}">${atom.hydrogens}</tspan><tspan dy="-4"></tspan>` : ''}` : '';
+  const charge = formatCharge(atom.charge);
+  const chargeText = charge ? `<tspan dy="-6" font-size="${FONT_SIZE * 0.7}">${charge}</tspan>` : '';
+  const y = (point.y + FONT_SIZE * 0.35).toFixed(1);
+  const symbolWidth = atom.element.length * FONT_SIZE * 0.62;
+  const parts = [`<text x="${point.x.toFixed(1)}" y="${y}" text-anchor="middle">${escapeXml(atom.element)}${hydrogens || bondsFromLeft ? '' : chargeText}</text>`];
+  if (hydrogens) {
+    parts.push(bondsFromLeft
+      ? `<text x="${(point.x + symbolWidth / 2).toFixed(1)}" y="${y}" text-anchor="start">${hydrogens}${chargeText}</text>`
+      : `<text x="${(point.x - symbolWidth / 2).toFixed(1)}" y="${y}" text-anchor="end">${hydrogens}</text>`);
+    if (!bondsFromLeft && chargeText) {
+      parts.push(`<text x="${(point.x + symbolWidth / 2).toFixed(1)}" y="${y}" text-anchor="start">${chargeText}</text>`);
+    }
+  } else if (bondsFromLeft && chargeText) {
+    parts.push(`<text x="${(point.x + symbolWidth / 2).toFixed(1)}" y="${y}" text-anchor="start">${chargeText}</text>`);
+  }
+  return parts.join('');
+};
+
+/**
+ * Draw a SMILES string as an SVG skeletal formula. Throws on invalid SMILES.
+ */
+export const renderStructureSvg = (smiles: string): string => {
+  const molecule = parseSmiles(smiles);
+  const { positions, rings, ringCenters } = layoutMolecule(molecule);
+  const degree = molecule.atoms.map((_, i) => molecule.bonds.filter(b => b.from === i || b.to === i).length);
+  const labeled = molecule.atoms.map((atom, i) => isLabeled(atom, degree[i]));
+
+  const minX = Math.min(...positions.map(p => p.x)) - PADDING - FONT_SIZE;
+  const minY = Math.min(...positions.map(p => p.y)) - PADDING;
+  const maxX = Math.max(...positions.map(p => p.x)) + PADDING + FONT_SIZE;
+  const maxY = Math.max(...positions.map(p => p.y)) + PADDING;
+  const origin = { x: minX, y: minY };
+  const at = (atom: number) => subtract(positions[atom], origin);
+
+  // Aromatic rings get a circle instead of alternating double bonds
+  const aromaticRings = rings
+    .map((ring, index) => ({ ring, index }))
+    .filter(({ ring, index }) => ringCenters.has(index) && ring.every(atom => molecule.atoms[atom].aromatic));
+  const ringOf = (a: number, b: number) => rings.findIndex((ring, index) => ringCenters.has(index) && ring.includes(a) && ring.includes(b));
+
+  const lines: string[] = [];
+  molecule.bonds.forEach(({ from, to, order }) => {
+    let start = at(from);
+    let end = at(to);
+    const direction = normalize(subtract(end, start));
+    if (labeled[from]) start = add(start, scale(direction, LABEL_RADIUS));
+    if (labeled[to]) end = subtract(end, scale(direction, LABEL_RADIUS));
+    const normal = rotate(direction, Math.PI / 2);
+
+    if (order === 3) {
+      lines.push(line(start, end), line(add(start, scale(normal, BOND_SPACING)), add(end, scale(normal, BOND_SPACING))),
+        line(subtract(start, scale(normal, BOND_SPACING)), subtract(end, scale(normal, BOND_SPACING))));
+    } else if (order === 2) {
+      const ringIndex = ringOf(from, to);
+      if (ringIndex >= 0) {
+        // Inside the ring, shortened at both ends
+        const center = subtract(ringCenters.get(ringIndex)!, origin);
+        const side = Math.sign((center.x - start.x) * normal.x + (center.y - start.y) * normal.y) || 1;
+        const shift = scale(normal, side * BOND_SPACING * 1.2);
+        const inset = scale(direction, BOND_LENGTH * 0.15);
+        lines.push(line(start, end), line(add(add(start, shift), inset), subtract(add(end, shift), inset)));
+      } else {
+        const half = scale(normal, BOND_SPACING / 2);
+        lines.push(line(add(start, half), add(end, half)), line(subtract(start, half), subtract(end, half)));
+      }
+    } else {
+      lines.push(line(start, end));
+    }
+  });
+
+  const circles = aromaticRings.map(({ ring, index }) => {
+    const center = subtract(ringCenters.get(index)!, origin);
+    const apothem = BOND_LENGTH / (2 * Math.tan(Math.PI / ring.length));
+    return `<circle cx="${center.x.toFixed(1)}" cy="${center.y.toFixed(1)}" r="${(apothem * 0.6).toFixed(1)}" fill="none" />`;
+  });
+
+  const labels = molecule.atoms.map((atom, i) => {
+    if (!labeled[i]) return '';
+    const others = molecule.bonds.filter(b => b.from === i || b.to === i).map(b => (b.from === i ? b.to : b.from));
+    const bondsFromLeft = others.length === 0 || others.reduce((sum, other) => sum + positions[other].x - positions[i].x, 0) <= 0;
+    return drawLabel(atom, at(i), bondsFromLeft);
+  });
+
+  const width = Math.ceil(maxX - minX);
+  const height = Math.ceil(maxY - minY);
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">`
+    + `<g stroke="${STROKE}" stroke-width="1.6" stroke-linecap="round">${lines.join('')}${circles.join('')}</g>`
+    + `<g fill="${STROKE}" font-family="Arial, Helvetica, sans-serif" font-size="${FONT_SIZE}">${labels.join('')}</g>`
+    + '</svg>';
+};
+
+export const getSvgDataUrl = (svg: string) => `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+
+/**
+ * PNG (base64, white background) of an SVG, for exports that cannot embed SVG (Word)
+ */
+export const rasterizeSvg = (svg: string, pixelRatio = 2): Promise<{ base64: string; width: number; height: number }> => {
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => {
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.max(1, Math.round(image.width * pixelRatio));
+      canvas.height = Math.max(1, Math.round(image.height * pixelRatio));
+      const context = canvas.getContext('2d')!;
+      context.fillStyle = '#ffffff';
+      context.fillRect(0, 0, canvas.width, canvas.height);
+      context.drawImage(image, 0, 0, canvas.width, canvas.height);
+      resolve({ base64: canvas.toDataURL('image/png').split(',')[1], width: image.width, height: image.height });
+    };
+    image.onerror = () => reject(new Error('Không thể chuyển hình cấu tạo sang PNG'));
+    image.src = getSvgDataUrl(svg);
+  });
+};
+
+// --- SOLUTION ITEMS ---
+
+const canRender = (smiles: string) => {
+  try {
+    parseSmiles(smiles);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// Illustration prompts that only ask for a molecule, not for a diagram
+const MOLECULAR_PROMPT = /smiles|skeletal|structur|molecul|c[oô]ng th[uứ]c c[aấ]u t[aạ]o/i;
+
+/**
+ * Molecules of a solution that can be drawn locally. Results solved before structures
+ * were returned separately may still quote a SMILES in their illustration prompt.
+ */
+export const getRenderableStructures = (item: SolutionItem): MolecularStructure[] => {
+  const structures = item.structures?.length
+    ? item.structures
+    : (() => {
+        const smiles = item.imagePrompt ? extractSmiles(item.imagePrompt) : null;
+        return smiles ? [{ smiles }] : [];
+      })();
+  return structures.filter(structure => structure.smiles && canRender(structure.smiles));
+};
+
+/**
+ * True when the illustration prompt only asks for molecules that are drawn locally:
+ * no image is generated (or shown, for older results)
+ */
+export const isReplacedByStructures = (item: SolutionItem): boolean => {
+  return !!item.imagePrompt && MOLECULAR_PROMPT.test(item.imagePrompt) && getRenderableStructures(item).length > 0;
+};
@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { Subject } from '../types';
+import { DEFAULT_SUBJECT, SUBJECT_PROFILES, detectSubject, getSubjectProfile, isSubject } from './subjects';
+
+describe('detectSubject', () => {
+  it('picks the subject with the most keywords', () => {
+    expect(detectSubject('Giải phương trình sau và vẽ đồ thị hàm số y = 2x + 1.')).toBe(Subject.MATH);
+    expect(detectSubject('Một vật có vận tốc 10 m/s chịu tác dụng của lực F.')).toBe(Subject.PHYSICS);
+    expect(detectSubject('Cho 0,1 mol Fe vào dung dịch HCl, phản ứng xảy ra hoàn toàn.')).toBe(Subject.CHEMISTRY);
+    expect(detectSubject('Cho cây có kiểu gen Aa tự thụ phấn, tỉ lệ kiểu hình ở F1 là bao nhiêu?')).toBe(Subject.BIOLOGY);
+    expect(detectSubject('Choose the correct answer to complete the following sentence.')).toBe(Subject.ENGLISH);
+  });
+
+  it('falls back to the default subject', () => {
+    expect(detectSubject('Xin chào')).toBe(DEFAULT_SUBJECT);
+  });
+});
+
+describe('subject profiles', () => {
+  it('only renders chemical subscripts in chemistry', () => {
+    expect(getSubjectProfile(Subject.CHEMISTRY).render.chemicalSubscripts).toBe(true);
+    expect(getSubjectProfile(Subject.MATH).render.chemicalSubscripts).toBe(false);
+  });
+
+  it('uses the default profile for results without a subject', () => {
+    expect(getSubjectProfile(undefined)).toBe(SUBJECT_PROFILES[DEFAULT_SUBJECT]);
+    expect(getSubjectProfile(null)).toBe(SUBJECT_PROFILES[DEFAULT_SUBJECT]);
+  });
+
+  it('recognizes stored subject values', () => {
+    expect(isSubject('PHYSICS')).toBe(true);
+    expect(isSubject('HISTORY')).toBe(false);
+    expect(isSubject(undefined)).toBe(false);
+  });
+});
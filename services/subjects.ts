@@ -0,0 +1,244 @@
+import { Subject } from '../types';
+
+/**
+ * Prompt fragments and display options for one subject. The provider assembles
+ * its OCR and solving prompts from these, so adding a subject needs no prompt code.
+ */
+export interface SubjectProfile {
+  id: Subject;
+  label: string; // Shown in the subject picker and on results
+  tutorRole: string; // "Gia Sư ... Thông Minh" persona used by the solver
+  ocrRole: string;
+  displayRules: string; // How the displayScript keeps notation
+  readingRules: string; // How notation is spoken in the readingScript
+  readingExample: { displayScript: string; readingScript: string };
+  readingInstruction: string; // User turn of the OCR request
+  languageRules: string; // Display/reading language rules for solutions
+  illustrationRules: string; // When (and how) the solver asks for an image
+  imageStyle: string; // Template wrapped around every illustration prompt ({prompt} is replaced)
+  render: SubjectRenderOptions;
+}
+
+export interface SubjectRenderOptions {
+  chemicalSubscripts: boolean; // Render "H2O" / "R1" with subscript digits
+}
+
+// Shared by every subject: decorative or trivial images only cost time and quota
+const NO_IMAGE_CASES = `
+       - TRƯỜNG HỢP KHÔNG VẼ (BẮT BUỘC ĐỂ CHUỖI RỖNG ""):
+         + Bài toán chỉ tính toán số liệu.
+         + Câu hỏi lý thuyết, trắc nghiệm không yêu cầu hình vẽ.`;
+
+const CHEMISTRY: SubjectProfile = {
+  id: Subject.CHEMISTRY,
+  label: 'Hóa học',
+  tutorRole: 'Gia Sư Hóa Học Thông Minh',
+  ocrRole: 'Bạn là công cụ trích xuất văn bản (OCR) và chuẩn hóa danh pháp hóa học.',
+  displayRules: `
+       - Giữ nguyên công thức hóa học ngắn gọn (H2SO4, Cu, NaCl...).
+       - Giữ nguyên cấu trúc đề bài.`,
+  readingRules: `
+       - CHUYỂN ĐỔI TOÀN BỘ CÔNG THỨC HÓA HỌC SANG TÊN GỌI TIẾNG ANH (IUPAC).
+       - TUYỆT ĐỐI KHÔNG đọc từng chữ cái (Ví dụ: KHÔNG đọc "Hờ hai ét ô bốn", KHÔNG đọc "Ca hát ca").
+       - Nguyên tố:
+         + Cu -> đọc là "Copper" (không đọc Đồng).
+         + Fe -> đọc là "Iron" (không đọc Sắt).
+         + Na -> đọc là "Sodium" (không đọc Natri).
+       - Hợp chất:
+         + H2SO4 -> đọc là "Sulfuric Acid".
+         + HCl -> đọc là "Hydrochloric Acid".
+         + KMnO4 -> đọc là "Potassium Permanganate".
+       - Các từ nối trong câu vẫn giữ Tiếng Việt bình thường.`,
+  readingExample: {
+    displayScript: 'Cho Fe tác dụng với dung dịch HCl...',
+    readingScript: 'Cho Iron tác dụng với dung dịch Hydrochloric Acid...',
+  },
+  readingInstruction: 'Hãy trích xuất và xử lý nội dung này theo đúng chuẩn danh pháp IUPAC tiếng Anh cho phần đọc.',
+  languageRules: `
+    1. HIỂN THỊ (Display): Dùng ký hiệu hóa học chuẩn (H2SO4, Cu, Fe...).
+    2. ĐỌC (Reading): BẮT BUỘC DÙNG TÊN TIẾNG ANH IUPAC.`,
+  illustrationRules: `
+       - CHỈ TẠO "imagePrompt" KHI VÀ CHỈ KHI đề bài hoặc lời giải CÓ YÊU CẦU CỤ THỂ như:
+         + "Vẽ", "Viết công thức cấu tạo", "Minh họa", "Sơ đồ".
+         + Hoặc nội dung là cấu trúc Hữu cơ cần hình ảnh để hiểu (đồng phân, liên kết không gian).
+${NO_IMAGE_CASES}
+         + Bài lý thuyết nhận biết, chuỗi phản ứng đơn giản.
+
+       - CÔNG THỨC CẤU TẠO / CẤU TRÚC PHÂN TỬ: KHÔNG dùng "imagePrompt", ghi vào "structures" (app tự vẽ từ SMILES):
+         + Mỗi chất một phần tử: "smiles" (SMILES chuẩn, hợp lệ), "formula" (công thức phân tử, vd "C2H6O"), "name" (tên IUPAC tiếng Anh).
+
+       - "imagePrompt" CHỈ DÀNH CHO HÌNH KHÔNG PHẢI PHÂN TỬ (dụng cụ thí nghiệm, sơ đồ điều chế, đồ thị...):
+         + Prompt tiếng Anh.
+         + Style: "Scientific textbook diagram", "Black lines", "White background".`,
+  imageStyle: 'Scientifically accurate chemical structure, {prompt}, 2D flat view, high quality, white background',
+  render: { chemicalSubscripts: true },
+};
+
+const MATH: SubjectProfile = {
+  id: Subject.MATH,
+  label: 'Toán',
+  tutorRole: 'Gia Sư Toán Học Thông Minh',
+  ocrRole: 'Bạn là công cụ trích xuất văn bản (OCR) cho đề Toán, chuẩn hóa cách đọc ký hiệu toán học.',
+  displayRules: `
+       - Giữ nguyên ký hiệu toán học (x^2, √, phân số a/b, ≤, ≥, π, ∫...).
+       - Công thức phức tạp (phân số, căn, tích phân) viết bằng LaTeX trong cặp dấu $...$ (ví dụ $\\frac{a}{b}$).
+       - Giữ nguyên cấu trúc đề bài, các ý a), b), c).`,
+  readingRules: `
+       - ĐỌC KÝ HIỆU TOÁN HỌC BẰNG LỜI TIẾNG VIỆT, không đọc tên ký tự.
+         + x^2 -> "x bình phương"; x^3 -> "x lập phương"; x^n -> "x mũ n".
+         + √x -> "căn bậc hai của x"; a/b -> "a phần b".
+         + ≤ -> "nhỏ hơn hoặc bằng"; ≠ -> "khác"; π -> "pi".
+         + f'(x) -> "f phẩy của x"; ∫ -> "tích phân".
+       - Đọc số thập phân với dấu "phẩy" (2,5 -> "hai phẩy năm").`,
+  readingExample: {
+    displayScript: 'Giải phương trình x^2 - 5x + 6 = 0.',
+    readingScript: 'Giải phương trình x bình phương trừ năm x cộng sáu bằng không.',
+  },
+  readingInstruction: 'Hãy trích xuất nội dung và chuyển mọi ký hiệu toán học sang cách đọc tiếng Việt cho phần đọc.',
+  languageRules: `
+    1. HIỂN THỊ (Display): Dùng ký hiệu toán học chuẩn; công thức phức tạp viết LaTeX trong $...$.
+    2. ĐỌC (Reading): Đọc mọi ký hiệu bằng lời tiếng Việt (x bình phương, căn bậc hai...).`,
+  illustrationRules: `
+       - CHỈ TẠO "imagePrompt" KHI đề bài YÊU CẦU hình vẽ: "Vẽ đồ thị", "Vẽ hình", "Hình học không gian", "Dựng hình".
+${NO_IMAGE_CASES}
+         + Giải phương trình, bất phương trình, tính giới hạn, đạo hàm, tích phân.
+
+       - NẾU PHẢI VẼ:
+         + Prompt tiếng Anh, mô tả chính xác các điểm, cạnh, trục tọa độ và nhãn.`,
+  imageStyle: 'Precise mathematics textbook figure, {prompt}, thin black lines, labeled points, white background',
+  render: { chemicalSubscripts: false },
+};
+
+const PHYSICS: SubjectProfile = {
+  id: Subject.PHYSICS,
+  label: 'Vật lý',
+  tutorRole: 'Gia Sư Vật Lý Thông Minh',
+  ocrRole: 'Bạn là công cụ trích xuất văn bản (OCR) cho đề Vật lý, chuẩn hóa cách đọc đại lượng và đơn vị.',
+  displayRules: `
+       - Giữ nguyên ký hiệu đại lượng và đơn vị (v0, R1, m/s, 10^5 Pa, Ω...).
+       - Công thức phức tạp (phân số, căn) viết bằng LaTeX trong cặp dấu $...$.
+       - Giữ nguyên cấu trúc đề bài.`,
+  readingRules: `
+       - ĐỌC ĐƠN VỊ BẰNG TÊN ĐẦY ĐỦ: m/s -> "mét trên giây"; km/h -> "ki lô mét trên giờ"; Ω -> "ôm"; Pa -> "Pascal"; J -> "Jun".
+       - Chỉ số: v0 -> "v không"; R1 -> "R một".
+       - Lũy thừa: 10^5 -> "mười mũ năm"; 3.10^-2 -> "ba nhân mười mũ trừ hai".
+       - Đọc số thập phân với dấu "phẩy".`,
+  readingExample: {
+    displayScript: 'Một vật chuyển động với v0 = 10 m/s.',
+    readingScript: 'Một vật chuyển động với v không bằng mười mét trên giây.',
+  },
+  readingInstruction: 'Hãy trích xuất nội dung và đọc đầy đủ tên các đơn vị, chỉ số, lũy thừa cho phần đọc.',
+  languageRules: `
+    1. HIỂN THỊ (Display): Dùng ký hiệu đại lượng và đơn vị SI chuẩn.
+    2. ĐỌC (Reading): Đọc đầy đủ tên đơn vị và chỉ số (mét trên giây, v không...).`,
+  illustrationRules: `
+       - CHỈ TẠO "imagePrompt" KHI đề bài YÊU CẦU hoặc CẦN hình để hiểu: "Vẽ", "Sơ đồ mạch điện", "Biểu diễn lực", "Đường truyền tia sáng", "Đồ thị".
+${NO_IMAGE_CASES}
+
+       - NẾU PHẢI VẼ:
+         + Prompt tiếng Anh, mô tả đúng các vectơ lực, linh kiện mạch, tia sáng và nhãn.`,
+  imageStyle: 'Clean physics textbook diagram, {prompt}, labeled vectors and components, black lines, white background',
+  render: { chemicalSubscripts: true },
+};
+
+const BIOLOGY: SubjectProfile = {
+  id: Subject.BIOLOGY,
+  label: 'Sinh học',
+  tutorRole: 'Gia Sư Sinh Học Thông Minh',
+  ocrRole: 'Bạn là công cụ trích xuất văn bản (OCR) cho đề Sinh học, chuẩn hóa cách đọc thuật ngữ và kí hiệu di truyền.',
+  displayRules: `
+       - Giữ nguyên kí hiệu di truyền (AaBb, XAXa, F1, P...), công thức (CO2, O2, C6H12O6).
+       - Giữ nguyên cấu trúc đề bài.`,
+  readingRules: `
+       - Kiểu gen đọc từng alen: AaBb -> "A hoa a thường B hoa b thường".
+       - Thế hệ: F1 -> "F một"; P -> "P".
+       - Viết tắt: ADN -> "A Đê Nờ"; mARN -> "m A R N".
+       - Công thức hóa học đọc theo tên: CO2 -> "khí carbon dioxide".`,
+  readingExample: {
+    displayScript: 'Cho P: AaBb x aabb, xác định tỉ lệ kiểu hình ở F1.',
+    readingScript: 'Cho P: A hoa a thường B hoa b thường lai với a thường a thường b thường b thường, xác định tỉ lệ kiểu hình ở F một.',
+  },
+  readingInstruction: 'Hãy trích xuất nội dung và chuyển các kí hiệu di truyền, viết tắt sang cách đọc rõ ràng cho phần đọc.',
+  languageRules: `
+    1. HIỂN THỊ (Display): Dùng kí hiệu di truyền và thuật ngữ sinh học chuẩn.
+    2. ĐỌC (Reading): Đọc rõ từng alen, thế hệ và viết tắt.`,
+  illustrationRules: `
+       - CHỈ TẠO "imagePrompt" KHI đề bài YÊU CẦU: "Vẽ", "Sơ đồ phả hệ", "Cấu trúc tế bào", "Chu trình", "Sơ đồ lai".
+${NO_IMAGE_CASES}
+         + Bài tập di truyền chỉ tính tỉ lệ.
+
+       - NẾU PHẢI VẼ:
+         + Prompt tiếng Anh, mô tả rõ các thành phần cần chú thích.`,
+  imageStyle: 'Biology textbook illustration, {prompt}, clearly labeled parts, flat colors, white background',
+  render: { chemicalSubscripts: true },
+};
+
+const ENGLISH: SubjectProfile = {
+  id: Subject.ENGLISH,
+  label: 'Tiếng Anh',
+  tutorRole: 'Gia Sư Tiếng Anh Thông Minh',
+  ocrRole: 'Bạn là công cụ trích xuất văn bản (OCR) cho đề Tiếng Anh.',
+  displayRules: `
+       - Giữ nguyên văn bản tiếng Anh, chính tả và dấu câu.
+       - Giữ nguyên chỗ trống (___), các phương án A, B, C, D.`,
+  readingRules: `
+       - Phần tiếng Anh giữ nguyên tiếng Anh để đọc đúng phát âm.
+       - Phần hướng dẫn tiếng Việt đọc bằng tiếng Việt.
+       - Chỗ trống (___) đọc là "blank".`,
+  readingExample: {
+    displayScript: 'Choose the correct answer: She ___ to school every day. A. go B. goes',
+    readingScript: 'Choose the correct answer: She blank to school every day. A, go. B, goes.',
+  },
+  readingInstruction: 'Hãy trích xuất nội dung, giữ nguyên phần tiếng Anh cho phần đọc.',
+  languageRules: `
+    1. HIỂN THỊ (Display): Giữ nguyên câu tiếng Anh, giải thích ngữ pháp bằng tiếng Việt.
+    2. ĐỌC (Reading): Câu tiếng Anh đọc bằng tiếng Anh, lời giải thích đọc bằng tiếng Việt.`,
+  illustrationRules: `
+       - KHÔNG BAO GIỜ tạo "imagePrompt" cho môn Tiếng Anh (luôn để chuỗi rỗng "").`,
+  imageStyle: '{prompt}',
+  render: { chemicalSubscripts: false },
+};
+
+export const SUBJECT_PROFILES: Record<Subject, SubjectProfile> = {
+  [Subject.MATH]: MATH,
+  [Subject.PHYSICS]: PHYSICS,
+  [Subject.CHEMISTRY]: CHEMISTRY,
+  [Subject.BIOLOGY]: BIOLOGY,
+  [Subject.ENGLISH]: ENGLISH,
+};
+
+// The app was chemistry-only before profiles existed: older results are chemistry
+export const DEFAULT_SUBJECT = Subject.CHEMISTRY;
+
+export const getSubjectProfile = (subject?: Subject | null): SubjectProfile => {
+  return SUBJECT_PROFILES[subject ?? DEFAULT_SUBJECT] ?? SUBJECT_PROFILES[DEFAULT_SUBJECT];
+};
+
+export const isSubject = (value: unknown): value is Subject => {
+  return typeof value === 'string' && value in SUBJECT_PROFILES;
+};
+
+// Local fallback when the model does not report a subject
+const SUBJECT_KEYWORDS: Record<Subject, RegExp> = {
+  [Subject.MATH]: /phương trình|hàm số|đạo hàm|tích phân|đồ thị|tam giác|giới hạn|logarit|xác suất|\bsin\b|\bcos\b|√/gi,
+  [Subject.PHYSICS]: /vận tốc|gia tốc|lực|điện trở|cường độ|dao động|m\/s|Ω|năng lượng|con lắc|thấu kính/gi,
+  [Subject.CHEMISTRY]: /dung dịch|phản ứng|\bmol\b|nguyên tố|axit|bazơ|muối|kết tủa|\bHCl\b|H2SO4|oxi hóa/gi,
+  [Subject.BIOLOGY]: /kiểu gen|kiểu hình|alen|nhiễm sắc thể|tế bào|\bADN\b|\bARN\b|đột biến|\bF1\b|di truyền/gi,
+  [Subject.ENGLISH]: /\b(the|choose|answer|sentence|following|which|correct|word)\b/gi,
+};
+
+/**
+ * Guess the subject from keyword frequency; defaults to chemistry when nothing matches
+ */
+export const detectSubject = (text: string): Subject => {
+  let best = DEFAULT_SUBJECT;
+  let bestCount = 0;
+  (Object.keys(SUBJECT_KEYWORDS) as Subject[]).forEach(subject => {
+    const count = text.match(SUBJECT_KEYWORDS[subject])?.length ?? 0;
+    if (count > bestCount) {
+      best = subject;
+      bestCount = count;
+    }
+  });
+  return best;
+};
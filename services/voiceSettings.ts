@@ -0,0 +1,89 @@
+import { AudioSegment, ProcessingResult, Subject, VoicePitch, VoiceSettings } from '../types';
+import { DEFAULT_SUBJECT } from './subjects';
+
+/**
+ * TTS voice choices and playback preferences, remembered in localStorage
+ */
+
+export interface VoiceOption {
+  name: string; // Gemini prebuilt voice name
+  label: string; // Character of the voice, shown in the picker
+}
+
+export const VOICE_OPTIONS: VoiceOption[] = [
+  { name: 'Kore', label: 'Rõ ràng, chắc chắn' },
+  { name: 'Charon', label: 'Truyền đạt, mạch lạc' },
+  { name: 'Aoede', label: 'Nhẹ nhàng' },
+  { name: 'Leda', label: 'Trẻ trung' },
+  { name: 'Puck', label: 'Sôi nổi' },
+  { name: 'Zephyr', label: 'Tươi sáng' },
+  { name: 'Orus', label: 'Chắc chắn, trầm ổn' },
+  { name: 'Fenrir', label: 'Hào hứng' },
+];
+
+export const PITCH_LABELS: Record<VoicePitch, string> = {
+  [VoicePitch.LOW]: 'Trầm',
+  [VoicePitch.NORMAL]: 'Bình thường',
+  [VoicePitch.HIGH]: 'Cao',
+};
+
+export const PLAYBACK_RATES = [0.75, 1, 1.25, 1.5, 1.75, 2];
+
+export const DEFAULT_VOICE: VoiceSettings = { voiceName: 'Kore', pitch: VoicePitch.NORMAL };
+
+export interface SpeechPreferences {
+  playbackRate: number;
+  subjectVoices: Partial<Record<Subject, VoiceSettings>>; // Default voice per subject
+}
+
+const STORAGE_KEY = 'GiaSuThongMinh_speech';
+
+const DEFAULT_PREFERENCES: SpeechPreferences = { playbackRate: 1, subjectVoices: {} };
+
+export const loadSpeechPreferences = (): SpeechPreferences => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? { ...DEFAULT_PREFERENCES, ...JSON.parse(stored) } : DEFAULT_PREFERENCES;
+  } catch (error) {
+    console.warn('Could not read speech preferences:', error);
+    return DEFAULT_PREFERENCES;
+  }
+};
+
+export const saveSpeechPreferences = (preferences: SpeechPreferences) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(preferences));
+  } catch (error) {
+    console.warn('Could not save speech preferences:', error);
+  }
+};
+
+export const getSubjectVoice = (subject?: Subject | null): VoiceSettings => {
+  return loadSpeechPreferences().subjectVoices[subject ?? DEFAULT_SUBJECT] ?? DEFAULT_VOICE;
+};
+
+export const setSubjectVoice = (subject: Subject, voice: VoiceSettings) => {
+  const preferences = loadSpeechPreferences();
+  saveSpeechPreferences({ ...preferences, subjectVoices: { ...preferences.subjectVoices, [subject]: voice } });
+};
+
+/**
+ * Key of a narration in the cache: each voice keeps its own audio
+ */
+export const getVoiceKey = (voice: VoiceSettings): string => `${voice.voiceName}|${voice.pitch}`;
+
+/**
+ * Narration of a result in the given voice, if it was synthesized.
+ * Results cached before voice settings hold a single clip in the default voice.
+ */
+export const getNarration = (
+  result: Pick<ProcessingResult, 'narrations' | 'audioBase64'>,
+  voice: VoiceSettings
+): AudioSegment[] | undefined => {
+  const key = getVoiceKey(voice);
+  if (result.narrations?.[key]) return result.narrations[key];
+  if (key === getVoiceKey(DEFAULT_VOICE) && result.audioBase64) {
+    return [{ sentences: [], audioBase64: result.audioBase64 }];
+  }
+  return undefined;
+};
@@ -17,6 +17,88 @@ export interface VideoRecommendation {
   query: string;
 }
 
+export enum Subject {
+  MATH = 'MATH',
+  PHYSICS = 'PHYSICS',
+  CHEMISTRY = 'CHEMISTRY',
+  BIOLOGY = 'BIOLOGY',
+  ENGLISH = 'ENGLISH',
+}
+
+/**
+ * Rectangle on a page of the original document, normalized (0..1) to the page size
+ */
+export interface SourceRegion {
+  pageNumber: number; // 1-based
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export enum AnswerKind {
+  CHOICE = 'CHOICE', // Multiple choice (A, B, C, D...)
+  NUMERIC = 'NUMERIC', // A number, optionally with a unit
+  TEXT = 'TEXT', // Short free answer (formula, name...)
+}
+
+/**
+ * Expected answer of a question, returned by the solver so practice answers are graded locally
+ */
+export interface FinalAnswer {
+  kind: AnswerKind;
+  options?: string[]; // CHOICE: option texts in order, as written in the question
+  correctOption?: number; // CHOICE: 0-based index into options
+  value?: number; // NUMERIC
+  unit?: string; // NUMERIC, e.g. "lít", "g", "mol/L"
+  tolerance?: number; // NUMERIC: accepted relative error (0.01 = 1%)
+  text?: string; // TEXT: the short answer
+}
+
+/**
+ * The student's practice on one question
+ */
+export interface PracticeAttempt {
+  answer: string; // Last answer given
+  correct: boolean;
+  attempts: number; // Answers checked
+  hintsUsed: number;
+  revealed: boolean; // Full solution shown before a correct answer
+  score: number; // 0..1, see gradeScore
+  answeredAt: number;
+}
+
+export enum ChatRole {
+  STUDENT = 'STUDENT',
+  TUTOR = 'TUTOR',
+}
+
+/**
+ * One turn of a follow-up conversation with the tutor
+ */
+export interface ChatMessage {
+  role: ChatRole;
+  text: string; // Display text (rendered with ScientificText)
+  reading?: string; // Tutor answers: phonetic/IUPAC version for TTS
+  createdAt: number;
+  error?: string; // Student questions the tutor could not answer; left out of the history sent to the model
+}
+
+export enum Difficulty {
+  EASY = 'EASY',
+  MEDIUM = 'MEDIUM',
+  HARD = 'HARD',
+}
+
+/**
+ * A molecule of a solution, drawn locally as a skeletal formula
+ */
+export interface MolecularStructure {
+  smiles: string;
+  formula?: string; // Molecular formula, e.g. "C2H6O"
+  name?: string; // IUPAC name (English)
+}
+
 export interface SolutionItem {
   questionDisplay: string; // Clean text for UI (No markdown bold, formatted)
   questionReading: string; // Phonetic/IUPAC for Audio
@@ -24,13 +106,107 @@ export interface SolutionItem {
   solutionReading: string; // Phonetic/IUPAC for Audio
   imagePrompt?: string; // NEW: The prompt used to generate the image
   illustrationImage?: string; // NEW: Base64 string of the generated image
+  structures?: MolecularStructure[]; // Chemistry only: molecules drawn from SMILES instead of an image
+  pageNumber?: number; // 1-based page (or text chunk) the question was found on
+  sourceRegion?: SourceRegion; // Area selected by the user that the question was read from
+  narrations?: Record<string, AudioSegment[]>; // Solution read aloud, per voice key (generated on demand)
+  finalAnswer?: FinalAnswer; // Missing on results solved before practice mode
+  hints?: string[]; // Graded hints, from a gentle nudge to almost the whole method
+  practice?: PracticeAttempt;
+  difficulty?: Difficulty; // Generated similar problems only
+  similarProblems?: SolutionItem[]; // Generated on demand from this one
+  chat?: ChatMessage[]; // Follow-up questions about this solution
+}
+
+export interface PageTranscript {
+  pageNumber: number; // 1-based
+  displayScript: string;
+  readingScript: string;
+  region?: SourceRegion; // Set when only a selected area of the page was read
+}
+
+/**
+ * Half-open character range [start, end) of a script
+ */
+export interface TextSpan {
+  start: number;
+  end: number;
+}
+
+/**
+ * One sentence of the narration: what is spoken and the display text shown meanwhile
+ */
+export interface NarrationSentence {
+  reading: TextSpan; // In the reading script
+  display: TextSpan; // In the display script (highlighted while it is read)
 }
 
+export enum VoicePitch {
+  LOW = 'LOW',
+  NORMAL = 'NORMAL',
+  HIGH = 'HIGH',
+}
+
+/**
+ * Everything that changes the synthesized audio (playback speed does not)
+ */
+export interface VoiceSettings {
+  voiceName: string; // Gemini prebuilt voice
+  pitch: VoicePitch;
+}
+
+/**
+ * One TTS request of a narration, played back as a playlist entry
+ */
+export interface AudioSegment {
+  sentences: NarrationSentence[];
+  audioBase64: string; // Base64 PCM (24kHz, 16-bit, mono)
+}
+
+export enum PipelineStage {
+  OCR = 'OCR', // File/Text -> display + reading scripts
+  SOLVE = 'SOLVE', // Scripts -> solutions (+ illustrations)
+  VIDEOS = 'VIDEOS', // Scripts -> Youtube queries
+  TTS = 'TTS', // Reading script -> audio
+}
+
+export enum StageStatus {
+  PENDING = 'PENDING',
+  RUNNING = 'RUNNING',
+  DONE = 'DONE',
+  ERROR = 'ERROR',
+  CANCELLED = 'CANCELLED',
+}
+
+export interface StageState {
+  status: StageStatus;
+  startedAt?: number;
+  finishedAt?: number;
+  error?: string; // User-facing message when status is ERROR
+}
+
+export type PipelineStages = Record<PipelineStage, StageState>;
+
 export interface ProcessingResult {
   script: string; // The text optimized for reading
-  audioBase64: string | null;
+  readingScript?: string; // Phonetic/IUPAC version of script, kept so TTS can be re-run
+  pages?: PageTranscript[]; // OCR transcript per PDF page / text chunk
+  audioBase64: string | null; // Single-request narration of results cached before narrations (default voice)
+  narrations?: Record<string, AudioSegment[]>; // Narration of `script` per voice key, one entry per TTS request
   relatedVideos: VideoRecommendation[];
   solutions: SolutionItem[];
+  stages?: PipelineStages; // Missing on results cached before the pipeline existed (all done)
+  subject?: Subject; // Chosen or detected subject; missing on older (chemistry-only) results
+  chat?: ChatMessage[]; // Follow-up questions about the whole lesson
+}
+
+/**
+ * Binary content sent to the model alongside the prompt (page, photo, embedded image...)
+ */
+export interface InlineAttachment {
+  mimeType: string;
+  data: string; // Base64
+  label?: string; // Placeholder referring to it in the text, e.g. "[Hình 1]"
 }
 
 export interface FileData {
@@ -38,10 +214,31 @@ export interface FileData {
   previewUrl?: string;
   base64?: string;
   mimeType: string;
+  regions?: SourceRegion[]; // Only these areas are sent to OCR/solver (images only)
+}
+
+export enum QueueItemStatus {
+  QUEUED = 'QUEUED',
+  PROCESSING = 'PROCESSING',
+  DONE = 'DONE',
+  ERROR = 'ERROR',
+  CANCELLED = 'CANCELLED',
+}
+
+export interface QueueItem {
+  id: string;
+  fileData: FileData;
+  status: QueueItemStatus;
+  error?: string;
+  stages?: PipelineStages; // Live pipeline progress while PROCESSING
+  contentHash?: string; // History id once DONE
 }
 
 export interface HistoryEntry {
   id: string;
   timestamp: number;
   title: string;
-}
\ No newline at end of file
+  subject?: Subject;
+  tags: string[];
+  folder?: string;
+}